@@ -3,3 +3,4 @@ export { default as BlockEditorDialog } from './BlockEditorDialog.vue';
 export { default as BlockTypeSelector } from './BlockTypeSelector.vue';
 export { default as SwimlaneCard } from './SwimlaneCard.vue';
 export { default as NestedBlocksEditor } from './NestedBlocksEditor.vue';
+export { default as ProfileLibraryDialog } from './ProfileLibraryDialog.vue';
@@ -0,0 +1,2 @@
+export { default as DuplicateOptionsStep } from './DuplicateOptionsStep.vue';
+export { default as MergeDuplicatesDialog } from './MergeDuplicatesDialog.vue';
@@ -0,0 +1,4 @@
+export { default as SchedulesCard } from './SchedulesCard.vue';
+export { default as ScheduleDialog } from './ScheduleDialog.vue';
+export { default as WebhooksCard } from './WebhooksCard.vue';
+export { default as TransactionMirrorCard } from './TransactionMirrorCard.vue';
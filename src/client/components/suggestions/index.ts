@@ -0,0 +1 @@
+export { default as RuleProposalDialog } from './RuleProposalDialog.vue';
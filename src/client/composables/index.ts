@@ -18,4 +18,24 @@ export {
   type ValidationErrorData,
 } from './useStreamProcessor';
 export { useConverter, type ConverterState, type ConverterActions } from './useConverter';
-export { useSnackbar, type SnackbarType } from './useSnackbar';
+export {
+  useConverterProfiles,
+  type ConverterProfilesState,
+  type ConverterProfilesActions,
+} from './useConverterProfiles';
+export {
+  useSchedules,
+  type ScheduleFormData,
+  type SchedulesState,
+  type SchedulesActions,
+} from './useSchedules';
+export { useWebhooks, type WebhooksState, type WebhooksActions } from './useWebhooks';
+export {
+  useTransactionMirror,
+  type TransactionMirrorState,
+  type TransactionMirrorActions,
+} from './useTransactionMirror';
+export { useAuditLog, type AuditLogState, type AuditLogActions } from './useAuditLog';
+export { useOperations, type OperationsState, type OperationsActions } from './useOperations';
+export { useDryRun, type DryRunState, type DryRunActions } from './useDryRun';
+export { useSnackbar, type SnackbarType, type SnackbarAction } from './useSnackbar';
@@ -0,0 +1,61 @@
+import { ref, type Ref } from 'vue';
+import { apiRequest } from '../services/api';
+import type { AuditEntry, AuditQuery, PaginatedResponse } from '@shared/types/app';
+
+export interface AuditLogState {
+  /** Entries of the current page, newest first */
+  entries: Ref<AuditEntry[]>;
+  /** Number of entries matching the filter */
+  total: Ref<number>;
+  /** Number of pages for the current filter */
+  totalPages: Ref<number>;
+  /** Whether a request is in progress */
+  loading: Ref<boolean>;
+  /** Last error message */
+  error: Ref<string | null>;
+}
+
+export interface AuditLogActions {
+  /** Load a page of entries matching the filter */
+  fetchEntries: (query?: AuditQuery) => Promise<void>;
+}
+
+/**
+ * Composable for browsing the audit log of changes written to Firefly III
+ */
+export function useAuditLog(): AuditLogState & AuditLogActions {
+  const entries = ref<AuditEntry[]>([]);
+  const total = ref(0);
+  const totalPages = ref(0);
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  async function fetchEntries(query: AuditQuery = {}): Promise<void> {
+    loading.value = true;
+    error.value = null;
+    try {
+      // Drop empty filters so they are not sent as query parameters
+      const params = Object.fromEntries(
+        Object.entries(query).filter(([, value]) => value !== undefined && value !== '')
+      );
+      const result = await apiRequest<PaginatedResponse<AuditEntry>>('get', '/audit', params);
+      entries.value = result.items;
+      total.value = result.total;
+      totalPages.value = result.totalPages;
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to load audit log';
+      throw e;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  return {
+    entries,
+    total,
+    totalPages,
+    loading,
+    error,
+    fetchEntries,
+  };
+}
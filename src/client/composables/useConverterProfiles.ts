@@ -0,0 +1,105 @@
+import { ref, type Ref } from 'vue';
+import { apiRequest } from '../services/api';
+import type {
+  ConverterConfig,
+  ConverterProfile,
+  ConverterProfileSummary,
+} from '@shared/types/converter';
+
+export interface ConverterProfilesState {
+  /** Profiles in the shared library, most recently used first */
+  profiles: Ref<ConverterProfileSummary[]>;
+  /** Whether a request is in progress */
+  loading: Ref<boolean>;
+  /** Last error message */
+  error: Ref<string | null>;
+}
+
+export interface ConverterProfilesActions {
+  /** Reload the profile list */
+  fetchProfiles: () => Promise<void>;
+  /** Save a configuration as a new profile */
+  createProfile: (name: string, config: ConverterConfig) => Promise<ConverterProfile>;
+  /** Overwrite the configuration of an existing profile */
+  saveProfile: (id: string, config: ConverterConfig) => Promise<ConverterProfile>;
+  /** Rename a profile */
+  renameProfile: (id: string, name: string) => Promise<ConverterProfile>;
+  /** Copy a profile (optionally under a given name) */
+  duplicateProfile: (id: string, name?: string) => Promise<ConverterProfile>;
+  /** Delete a profile */
+  deleteProfile: (id: string) => Promise<void>;
+  /** Fetch a profile for loading into the converter and mark it as last used */
+  loadProfile: (id: string) => Promise<ConverterProfile>;
+}
+
+/**
+ * Composable for the server-side converter profile library
+ */
+export function useConverterProfiles(): ConverterProfilesState & ConverterProfilesActions {
+  const profiles = ref<ConverterProfileSummary[]>([]);
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  /**
+   * Run a request, tracking loading/error state and refreshing the list afterwards
+   */
+  async function run<T>(request: () => Promise<T>, refresh = true): Promise<T> {
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await request();
+      if (refresh) {
+        profiles.value = await apiRequest<ConverterProfileSummary[]>('get', '/converter/profiles');
+      }
+      return result;
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Profile request failed';
+      throw e;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  async function fetchProfiles(): Promise<void> {
+    await run(async () => undefined);
+  }
+
+  function createProfile(name: string, config: ConverterConfig): Promise<ConverterProfile> {
+    return run(() => apiRequest<ConverterProfile>('post', '/converter/profiles', { name, config }));
+  }
+
+  function saveProfile(id: string, config: ConverterConfig): Promise<ConverterProfile> {
+    return run(() => apiRequest<ConverterProfile>('put', `/converter/profiles/${id}`, { config }));
+  }
+
+  function renameProfile(id: string, name: string): Promise<ConverterProfile> {
+    return run(() => apiRequest<ConverterProfile>('put', `/converter/profiles/${id}`, { name }));
+  }
+
+  function duplicateProfile(id: string, name?: string): Promise<ConverterProfile> {
+    return run(() =>
+      apiRequest<ConverterProfile>('post', `/converter/profiles/${id}/duplicate`, { name })
+    );
+  }
+
+  async function deleteProfile(id: string): Promise<void> {
+    await run(() => apiRequest<void>('delete', `/converter/profiles/${id}`));
+  }
+
+  function loadProfile(id: string): Promise<ConverterProfile> {
+    return run(() => apiRequest<ConverterProfile>('post', `/converter/profiles/${id}/use`));
+  }
+
+  return {
+    profiles,
+    loading,
+    error,
+    fetchProfiles,
+    createProfile,
+    saveProfile,
+    renameProfile,
+    duplicateProfile,
+    deleteProfile,
+    loadProfile,
+  };
+}
@@ -0,0 +1,69 @@
+import { ref, type Ref } from 'vue';
+import { apiRequest } from '../services/api';
+import type { DryRunChange, DryRunResult } from '@shared/types/app';
+
+export interface DryRunState {
+  /** Whether the preview dialog is open */
+  open: Ref<boolean>;
+  /** Whether the preview is being loaded */
+  loading: Ref<boolean>;
+  /** Changes the write would make */
+  changes: Ref<DryRunChange[]>;
+  /** Error messages of writes that would fail */
+  failures: Ref<string[]>;
+  /** Error loading the preview */
+  error: Ref<string | null>;
+}
+
+export interface DryRunActions {
+  /** Open the preview and load the changes of a write (the body is sent with dryRun: true) */
+  preview: (url: string, body: object) => Promise<void>;
+  /** Close the preview */
+  close: () => void;
+}
+
+/**
+ * Composable for previewing the changes of a bulk apply or import before making them
+ */
+export function useDryRun(): DryRunState & DryRunActions {
+  const open = ref(false);
+  const loading = ref(false);
+  const changes = ref<DryRunChange[]>([]);
+  const failures = ref<string[]>([]);
+  const error = ref<string | null>(null);
+
+  async function preview(url: string, body: object): Promise<void> {
+    open.value = true;
+    loading.value = true;
+    changes.value = [];
+    failures.value = [];
+    error.value = null;
+    try {
+      const result = await apiRequest<DryRunResult & { failed?: Array<{ error: string }> }>(
+        'post',
+        url,
+        { ...body, dryRun: true }
+      );
+      changes.value = result.changes;
+      failures.value = (result.failed ?? []).map((failure) => failure.error);
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to preview changes';
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  function close(): void {
+    open.value = false;
+  }
+
+  return {
+    open,
+    loading,
+    changes,
+    failures,
+    error,
+    preview,
+    close,
+  };
+}
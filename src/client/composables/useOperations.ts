@@ -0,0 +1,115 @@
+import { ref, type Ref } from 'vue';
+import { useI18n } from 'vue-i18n';
+import { apiRequest } from '../services/api';
+import { useSnackbar, type SnackbarType } from './useSnackbar';
+import type { BulkOperation, OperationRevertResult } from '@shared/types/app';
+
+/** How long the undo snackbar stays visible */
+const UNDO_SNACKBAR_DURATION = 10000;
+
+export interface OperationsState {
+  /** Revertible bulk operations, newest first */
+  operations: Ref<BulkOperation[]>;
+  /** Whether a request is in progress */
+  loading: Ref<boolean>;
+  /** ID of the operation currently being reverted */
+  revertingId: Ref<string | null>;
+  /** Last error message */
+  error: Ref<string | null>;
+}
+
+export interface OperationsActions {
+  /** Load the list of operations */
+  fetchOperations: () => Promise<void>;
+  /** Revert an operation and show the result */
+  revertOperation: (id: string) => Promise<OperationRevertResult | null>;
+  /** Show a result message with an Undo button for the operation (if any) */
+  showUndoSnackbar: (
+    operationId: string | null | undefined,
+    message: string,
+    type?: SnackbarType
+  ) => void;
+}
+
+/**
+ * Composable for listing and reverting bulk operations (applied descriptions,
+ * categories and tags, deleted duplicates)
+ */
+export function useOperations(): OperationsState & OperationsActions {
+  const { t } = useI18n();
+  const { showSnackbar } = useSnackbar();
+
+  const operations = ref<BulkOperation[]>([]);
+  const loading = ref(false);
+  const revertingId = ref<string | null>(null);
+  const error = ref<string | null>(null);
+
+  async function fetchOperations(): Promise<void> {
+    loading.value = true;
+    error.value = null;
+    try {
+      operations.value = await apiRequest<BulkOperation[]>('get', '/operations');
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to load operations';
+      throw e;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  async function revertOperation(id: string): Promise<OperationRevertResult | null> {
+    revertingId.value = id;
+    try {
+      const result = await apiRequest<OperationRevertResult>('post', `/operations/${id}/revert`);
+
+      const index = operations.value.findIndex((operation) => operation.id === id);
+      if (index >= 0) {
+        operations.value[index] = result.operation;
+      }
+
+      showSnackbar(
+        result.failed.length > 0
+          ? t('common.messages.operationRevertedWithFailed', {
+              reverted: result.reverted,
+              failed: result.failed.length,
+            })
+          : t('common.messages.operationReverted', { count: result.reverted }),
+        result.failed.length > 0 ? 'warning' : 'success'
+      );
+      return result;
+    } catch (e) {
+      showSnackbar(e instanceof Error ? e.message : t('common.errors.failedToRevert'), 'error');
+      return null;
+    } finally {
+      revertingId.value = null;
+    }
+  }
+
+  function showUndoSnackbar(
+    operationId: string | null | undefined,
+    message: string,
+    type: SnackbarType = 'success'
+  ): void {
+    if (!operationId) {
+      showSnackbar(message, type);
+      return;
+    }
+
+    showSnackbar(message, type, UNDO_SNACKBAR_DURATION, {
+      label: t('common.buttons.undo'),
+      handler: () => {
+        revertOperation(operationId);
+      },
+    });
+  }
+
+  return {
+    operations,
+    loading,
+    revertingId,
+    error,
+    fetchOperations,
+    revertOperation,
+    showUndoSnackbar,
+  };
+}
@@ -0,0 +1,101 @@
+import { ref, type Ref } from 'vue';
+import { apiRequest } from '../services/api';
+import type { Schedule, ScheduleOptions, ScheduleRun, ScheduleTool } from '@shared/types/app';
+
+/**
+ * Fields sent when creating or editing a schedule
+ */
+export interface ScheduleFormData {
+  name: string;
+  cron: string;
+  tool: ScheduleTool;
+  options: ScheduleOptions;
+  enabled: boolean;
+}
+
+export interface SchedulesState {
+  /** All schedules, sorted by name */
+  schedules: Ref<Schedule[]>;
+  /** Recent runs of all schedules, newest first */
+  runs: Ref<ScheduleRun[]>;
+  /** Whether a request is in progress */
+  loading: Ref<boolean>;
+  /** Last error message */
+  error: Ref<string | null>;
+}
+
+export interface SchedulesActions {
+  /** Reload schedules and run history */
+  fetchSchedules: () => Promise<void>;
+  /** Create a schedule */
+  createSchedule: (data: ScheduleFormData) => Promise<Schedule>;
+  /** Update a schedule */
+  updateSchedule: (id: string, data: Partial<ScheduleFormData>) => Promise<Schedule>;
+  /** Delete a schedule and its run history */
+  deleteSchedule: (id: string) => Promise<void>;
+  /** Start a run now (the outcome appears in the run history) */
+  runSchedule: (id: string) => Promise<void>;
+}
+
+/**
+ * Composable for managing scheduled automations
+ */
+export function useSchedules(): SchedulesState & SchedulesActions {
+  const schedules = ref<Schedule[]>([]);
+  const runs = ref<ScheduleRun[]>([]);
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  /**
+   * Run a request, tracking loading/error state and refreshing the lists afterwards
+   */
+  async function run<T>(request: () => Promise<T>): Promise<T> {
+    loading.value = true;
+    error.value = null;
+    try {
+      const result = await request();
+      [schedules.value, runs.value] = await Promise.all([
+        apiRequest<Schedule[]>('get', '/schedules'),
+        apiRequest<ScheduleRun[]>('get', '/schedules/runs', { limit: 20 }),
+      ]);
+      return result;
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Schedule request failed';
+      throw e;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  async function fetchSchedules(): Promise<void> {
+    await run(async () => undefined);
+  }
+
+  function createSchedule(data: ScheduleFormData): Promise<Schedule> {
+    return run(() => apiRequest<Schedule>('post', '/schedules', data));
+  }
+
+  function updateSchedule(id: string, data: Partial<ScheduleFormData>): Promise<Schedule> {
+    return run(() => apiRequest<Schedule>('put', `/schedules/${id}`, data));
+  }
+
+  async function deleteSchedule(id: string): Promise<void> {
+    await run(() => apiRequest<void>('delete', `/schedules/${id}`));
+  }
+
+  async function runSchedule(id: string): Promise<void> {
+    await run(() => apiRequest<Schedule>('post', `/schedules/${id}/run`));
+  }
+
+  return {
+    schedules,
+    runs,
+    loading,
+    error,
+    fetchSchedules,
+    createSchedule,
+    updateSchedule,
+    deleteSchedule,
+    runSchedule,
+  };
+}
@@ -1,4 +1,4 @@
-import { useSnackbarStore, type SnackbarType } from '../stores/snackbar';
+import { useSnackbarStore, type SnackbarType, type SnackbarAction } from '../stores/snackbar';
 
 /**
  * Composable for displaying snackbar notifications.
@@ -9,6 +9,7 @@ import { useSnackbarStore, type SnackbarType } from '../stores/snackbar';
  * const { showSnackbar } = useSnackbar();
  * showSnackbar('Operation successful', 'success');
  * showSnackbar('Something went wrong', 'error');
+ * showSnackbar('Changes applied', 'success', 10000, { label: 'Undo', handler: undo });
  * ```
  */
 export function useSnackbar() {
@@ -19,9 +20,15 @@ export function useSnackbar() {
    * @param message - The message to display
    * @param type - The type of notification (success, error, info, warning)
    * @param duration - How long to show the snackbar in milliseconds (default: 5000)
+   * @param action - Optional button shown next to the message
    */
-  function showSnackbar(message: string, type: SnackbarType = 'info', duration: number = 5000) {
-    store.show(message, type, duration);
+  function showSnackbar(
+    message: string,
+    type: SnackbarType = 'info',
+    duration: number = 5000,
+    action: SnackbarAction | null = null
+  ) {
+    store.show(message, type, duration, action);
   }
 
   return {
@@ -29,4 +36,4 @@ export function useSnackbar() {
   };
 }
 
-export type { SnackbarType };
+export type { SnackbarType, SnackbarAction };
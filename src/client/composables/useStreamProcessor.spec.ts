@@ -2,6 +2,11 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { setActivePinia, createPinia } from 'pinia';
 import { z } from 'zod';
 import { useStreamProcessor, type StreamEvent, type ProgressData } from './useStreamProcessor';
+import { apiRequest } from '../services/api';
+
+vi.mock('../services/api', () => ({
+  apiRequest: vi.fn(),
+}));
 
 describe('useStreamProcessor', () => {
   beforeEach(() => {
@@ -332,4 +337,84 @@ describe('useStreamProcessor', () => {
       expect(events[1].data).toEqual({ current: 2, total: 10, message: 'Processing...' });
     });
   });
+
+  describe('background jobs', () => {
+    const job = { id: 'job-1', kind: 'duplicates', status: 'running' };
+
+    beforeEach(() => {
+      sessionStorage.clear();
+      vi.mocked(apiRequest).mockReset();
+    });
+
+    it('should start a job and follow its events', async () => {
+      const events: StreamEvent<unknown>[] = [];
+      vi.mocked(apiRequest).mockResolvedValue(job);
+      mockFetch([
+        'data: {"type":"result","data":{"id":"group-1"}}\n',
+        'data: {"type":"complete","data":null}\n',
+      ]);
+
+      const { processJob } = useStreamProcessor();
+      const finished = await processJob('duplicates', { startDate: '2024-01-01' }, (event) =>
+        events.push(event)
+      );
+
+      expect(finished).toBe(true);
+      expect(apiRequest).toHaveBeenCalledWith('post', '/jobs', {
+        kind: 'duplicates',
+        params: { startDate: '2024-01-01' },
+      });
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/jobs/job-1/events',
+        expect.objectContaining({ credentials: 'include' })
+      );
+      expect(events.map((e) => e.type)).toEqual(['result', 'complete']);
+      // All events were received, nothing left to resume
+      expect(sessionStorage.length).toBe(0);
+    });
+
+    it('should remember the job when following is aborted', async () => {
+      vi.mocked(apiRequest).mockResolvedValue(job);
+      const controller = new AbortController();
+      global.fetch = vi.fn().mockImplementation(() => {
+        controller.abort();
+        return Promise.reject(new DOMException('Aborted', 'AbortError'));
+      });
+
+      const { processJob, getResumableJob } = useStreamProcessor();
+      const finished = await processJob('duplicates', {}, vi.fn(), {
+        signal: controller.signal,
+      });
+
+      expect(finished).toBe(false);
+      await expect(getResumableJob('duplicates')).resolves.toEqual(job);
+      expect(apiRequest).toHaveBeenLastCalledWith('get', '/jobs/job-1');
+    });
+
+    it('should resume a remembered job', async () => {
+      const events: StreamEvent<unknown>[] = [];
+      vi.mocked(apiRequest).mockResolvedValue(job);
+      global.fetch = vi.fn().mockRejectedValue(new Error('Network error'));
+
+      const { processJob, resumeJob } = useStreamProcessor();
+      await expect(processJob('duplicates', {}, vi.fn())).rejects.toThrow('Network error');
+
+      mockFetch(['data: {"type":"complete","data":null}\n']);
+      const finished = await resumeJob('duplicates', (event) => events.push(event));
+
+      expect(finished).toBe(true);
+      expect(events).toHaveLength(1);
+      expect(sessionStorage.length).toBe(0);
+    });
+
+    it('should forget jobs that no longer exist', async () => {
+      sessionStorage.setItem('firefly_toolbox_job_duplicates', 'expired-job');
+      vi.mocked(apiRequest).mockRejectedValue(new Error('Job not found'));
+
+      const { getResumableJob, resumeJob } = useStreamProcessor();
+
+      await expect(getResumableJob('duplicates')).resolves.toBeNull();
+      await expect(resumeJob('duplicates', vi.fn())).resolves.toBe(false);
+    });
+  });
 });
@@ -1,4 +1,6 @@
 import type { z } from 'zod';
+import type { JobInfo, JobKind } from '@shared/types/app';
+import { apiRequest } from '../services/api';
 import { validateData, ProgressDataSchema } from '../utils/validation';
 
 /** CSRF token header name - must match server-side CSRF_TOKEN_HEADER */
@@ -7,6 +9,9 @@ const CSRF_TOKEN_HEADER = 'x-csrf-token';
 /** Cookie name for CSRF token - must match server-side CSRF_COOKIE_NAME */
 const CSRF_COOKIE_NAME = 'firefly_toolbox_csrf';
 
+/** sessionStorage key prefix for the job each tool is following */
+const ACTIVE_JOB_STORAGE_PREFIX = 'firefly_toolbox_job_';
+
 /**
  * Read CSRF token from cookie.
  * The server sets this cookie via csrfTokenCookie middleware.
@@ -48,6 +53,8 @@ export interface StreamOptions {
   includeSession?: boolean;
   /** Optional schema for validating result/suggestion data */
   resultSchema?: z.ZodType;
+  /** Abort signal to stop following a job's events (the job keeps running) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -199,6 +206,53 @@ export function useStreamProcessor() {
     return remainder;
   }
 
+  /**
+   * Read SSE events from a response body until the stream ends
+   */
+  async function readStream<T>(
+    response: Response,
+    onEvent: (event: StreamEvent<T>) => void,
+    options: StreamOptions
+  ): Promise<void> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Streaming not supported');
+    }
+
+    // TextDecoder with stream: true handles multi-byte UTF-8 characters
+    // that may be split across chunk boundaries
+    const decoder = new TextDecoder('utf-8', { fatal: false });
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          // Flush any remaining bytes from the decoder
+          // This handles multi-byte characters at the end of the stream
+          buffer += decoder.decode(new Uint8Array(), { stream: false });
+
+          // Process any remaining data in the buffer
+          if (buffer.trim()) {
+            processBuffer(buffer, onEvent, options, true);
+          }
+          break;
+        }
+
+        // Decode chunk with stream: true to handle partial multi-byte sequences
+        // The decoder will buffer incomplete sequences until the next chunk arrives
+        buffer += decoder.decode(value, { stream: true });
+
+        // Process complete lines from the buffer
+        buffer = processBuffer(buffer, onEvent, options, false);
+      }
+    } finally {
+      // Ensure reader is properly released
+      reader.releaseLock();
+    }
+  }
+
   /**
    * Process an SSE stream from a POST endpoint
    * @param url - The API endpoint URL
@@ -238,46 +292,109 @@ export function useStreamProcessor() {
       throw new Error(error.error || 'Stream request failed');
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('Streaming not supported');
+    await readStream(response, onEvent, options);
+  }
+
+  /**
+   * Follow the events of a background job (buffered events are replayed first)
+   * @returns true if the job finished, false if following was aborted via options.signal
+   */
+  async function attachJob<T>(
+    jobId: string,
+    onEvent: (event: StreamEvent<T>) => void,
+    options: StreamOptions = {}
+  ): Promise<boolean> {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/events`, {
+        credentials: 'include',
+        signal: options.signal,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to attach to job');
+      }
+
+      await readStream(response, onEvent, options);
+      return !options.signal?.aborted;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return false;
+      }
+      throw error;
     }
+  }
 
-    // TextDecoder with stream: true handles multi-byte UTF-8 characters
-    // that may be split across chunk boundaries
-    const decoder = new TextDecoder('utf-8', { fatal: false });
-    let buffer = '';
+  /**
+   * Start a background job and follow its events.
+   * The job ID is remembered per tool so the job can be resumed after leaving the page
+   * or reloading; it is forgotten once all events were received.
+   * @returns true if the job finished, false if following was aborted via options.signal
+   */
+  async function processJob<T>(
+    kind: JobKind,
+    params: Record<string, unknown>,
+    onEvent: (event: StreamEvent<T>) => void,
+    options: StreamOptions = {}
+  ): Promise<boolean> {
+    const job = await apiRequest<JobInfo>('post', '/jobs', { kind, params });
+    sessionStorage.setItem(ACTIVE_JOB_STORAGE_PREFIX + kind, job.id);
 
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
+    const finished = await attachJob(job.id, onEvent, options);
+    if (finished) {
+      forgetJob(kind);
+    }
+    return finished;
+  }
 
-        if (done) {
-          // Flush any remaining bytes from the decoder
-          // This handles multi-byte characters at the end of the stream
-          buffer += decoder.decode(new Uint8Array(), { stream: false });
+  /**
+   * Get the remembered job of a tool if it still exists on the server
+   */
+  async function getResumableJob(kind: JobKind): Promise<JobInfo | null> {
+    const jobId = sessionStorage.getItem(ACTIVE_JOB_STORAGE_PREFIX + kind);
+    if (!jobId) return null;
 
-          // Process any remaining data in the buffer
-          if (buffer.trim()) {
-            processBuffer(buffer, onEvent, options, true);
-          }
-          break;
-        }
+    try {
+      return await apiRequest<JobInfo>('get', `/jobs/${jobId}`);
+    } catch {
+      // Job expired or belongs to a previous session
+      forgetJob(kind);
+      return null;
+    }
+  }
 
-        // Decode chunk with stream: true to handle partial multi-byte sequences
-        // The decoder will buffer incomplete sequences until the next chunk arrives
-        buffer += decoder.decode(value, { stream: true });
+  /**
+   * Follow the remembered job of a tool again
+   * @returns true if the job finished, false if there is nothing to resume or following was aborted
+   */
+  async function resumeJob<T>(
+    kind: JobKind,
+    onEvent: (event: StreamEvent<T>) => void,
+    options: StreamOptions = {}
+  ): Promise<boolean> {
+    const jobId = sessionStorage.getItem(ACTIVE_JOB_STORAGE_PREFIX + kind);
+    if (!jobId) return false;
 
-        // Process complete lines from the buffer
-        buffer = processBuffer(buffer, onEvent, options, false);
-      }
-    } finally {
-      // Ensure reader is properly released
-      reader.releaseLock();
+    const finished = await attachJob(jobId, onEvent, options);
+    if (finished) {
+      forgetJob(kind);
     }
+    return finished;
+  }
+
+  /**
+   * Stop remembering the job of a tool (e.g., when the wizard is reset)
+   */
+  function forgetJob(kind: JobKind): void {
+    sessionStorage.removeItem(ACTIVE_JOB_STORAGE_PREFIX + kind);
   }
 
   return {
     processStream,
+    attachJob,
+    processJob,
+    getResumableJob,
+    resumeJob,
+    forgetJob,
   };
 }
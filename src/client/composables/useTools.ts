@@ -114,6 +114,36 @@ export const TOOL_UI_CONFIG: Record<string, ToolUIConfig> = {
     route: '/paypal',
     requiresAI: false,
   },
+  findReplace: {
+    id: 'findReplace',
+    titleKey: 'navigation.findReplace',
+    subtitleKey: 'navigation.cleanUpFields',
+    descriptionKey: 'views.home.toolDescriptions.findReplace',
+    icon: 'mdi-find-replace',
+    color: 'deep-purple',
+    route: '/find-replace',
+    requiresAI: false,
+  },
+  ruleSimulator: {
+    id: 'ruleSimulator',
+    titleKey: 'navigation.ruleSimulator',
+    subtitleKey: 'navigation.debugRules',
+    descriptionKey: 'views.home.toolDescriptions.ruleSimulator',
+    icon: 'mdi-script-text-play',
+    color: 'blue-grey',
+    route: '/rule-simulator',
+    requiresAI: false,
+  },
+  transferPairs: {
+    id: 'transferPairs',
+    titleKey: 'navigation.transferPairs',
+    subtitleKey: 'navigation.matchOwnTransfers',
+    descriptionKey: 'views.home.toolDescriptions.transferPairs',
+    icon: 'mdi-swap-horizontal',
+    color: 'light-blue',
+    route: '/transfer-pairs',
+    requiresAI: false,
+  },
   bankConverter: {
     id: 'bankConverter',
     titleKey: 'navigation.converter',
@@ -144,6 +174,9 @@ const TOOL_ORDER = [
   'aiTagSuggestions',
   'amazonExtender',
   'paypalExtender',
+  'findReplace',
+  'ruleSimulator',
+  'transferPairs',
   'bankConverter',
   'fintsImporter',
 ];
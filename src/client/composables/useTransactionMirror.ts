@@ -0,0 +1,78 @@
+import { ref, computed, type ComputedRef, type Ref } from 'vue';
+import { apiRequest } from '../services/api';
+import type { TransactionMirrorStatus } from '@shared/types/app';
+
+export interface TransactionMirrorState {
+  /** Sync status of the active connection */
+  status: Ref<TransactionMirrorStatus | null>;
+  /** Whether the copy is older than the maximum age (the next analysis syncs first) */
+  stale: ComputedRef<boolean>;
+  /** Whether a request is in progress */
+  loading: Ref<boolean>;
+  /** Whether a sync started here is running */
+  syncing: Ref<boolean>;
+  /** Last error message */
+  error: Ref<string | null>;
+}
+
+export interface TransactionMirrorActions {
+  /** Reload the sync status */
+  fetchStatus: () => Promise<void>;
+  /** Sync now; full downloads all transactions again */
+  sync: (full?: boolean) => Promise<void>;
+}
+
+/**
+ * Composable for the local copy of Firefly III transactions
+ */
+export function useTransactionMirror(): TransactionMirrorState & TransactionMirrorActions {
+  const status = ref<TransactionMirrorStatus | null>(null);
+  const loading = ref(false);
+  const syncing = ref(false);
+  const error = ref<string | null>(null);
+
+  const stale = computed(() => {
+    const current = status.value;
+    return !current?.lastSyncAt || Date.now() - Date.parse(current.lastSyncAt) > current.maxAgeMs;
+  });
+
+  async function fetchStatus(): Promise<void> {
+    loading.value = true;
+    error.value = null;
+    try {
+      status.value = await apiRequest<TransactionMirrorStatus>('get', '/transaction-mirror');
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to load the transaction mirror';
+      throw e;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  async function sync(full = false): Promise<void> {
+    syncing.value = true;
+    error.value = null;
+    try {
+      status.value = await apiRequest<TransactionMirrorStatus>('post', '/transaction-mirror/sync', {
+        full,
+      });
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to sync transactions';
+      // The status records the failed sync
+      await fetchStatus().catch(() => undefined);
+      throw e;
+    } finally {
+      syncing.value = false;
+    }
+  }
+
+  return {
+    status,
+    stale,
+    loading,
+    syncing,
+    error,
+    fetchStatus,
+    sync,
+  };
+}
@@ -0,0 +1,52 @@
+import { ref, type Ref } from 'vue';
+import { apiRequest } from '../services/api';
+import type { WebhookDelivery, WebhookOverview, WebhookSettings } from '@shared/types/app';
+
+export interface WebhooksState {
+  /** Receiver settings of the active connection profile */
+  settings: Ref<WebhookSettings | null>;
+  /** Recent deliveries, newest first */
+  deliveries: Ref<WebhookDelivery[]>;
+  /** Whether a request is in progress */
+  loading: Ref<boolean>;
+  /** Last error message */
+  error: Ref<string | null>;
+}
+
+export interface WebhooksActions {
+  /** Reload settings and deliveries */
+  fetchWebhooks: () => Promise<void>;
+}
+
+/**
+ * Composable for the Firefly III webhook receiver and its delivery history
+ */
+export function useWebhooks(): WebhooksState & WebhooksActions {
+  const settings = ref<WebhookSettings | null>(null);
+  const deliveries = ref<WebhookDelivery[]>([]);
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  async function fetchWebhooks(): Promise<void> {
+    loading.value = true;
+    error.value = null;
+    try {
+      const overview = await apiRequest<WebhookOverview>('get', '/webhooks', { limit: 20 });
+      settings.value = overview.settings;
+      deliveries.value = overview.deliveries;
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to load webhooks';
+      throw e;
+    } finally {
+      loading.value = false;
+    }
+  }
+
+  return {
+    settings,
+    deliveries,
+    loading,
+    error,
+    fetchWebhooks,
+  };
+}
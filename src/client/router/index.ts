@@ -27,6 +27,15 @@ const routes: RouteRecordRaw[] = [
     component: () => import('../views/DuplicatesView.vue'),
     meta: getToolMeta('/duplicates'),
   },
+  {
+    path: '/duplicates/dismissed',
+    name: 'DismissedDuplicates',
+    component: () => import('../views/DismissedDuplicatesView.vue'),
+    meta: {
+      titleKey: 'views.dismissedDuplicates.title',
+      descriptionKey: 'views.dismissedDuplicates.subtitle',
+    },
+  },
   {
     path: '/subscriptions',
     name: 'Subscriptions',
@@ -57,6 +66,24 @@ const routes: RouteRecordRaw[] = [
     component: () => import('../views/PayPalView.vue'),
     meta: getToolMeta('/paypal'),
   },
+  {
+    path: '/find-replace',
+    name: 'FindReplace',
+    component: () => import('../views/FindReplaceView.vue'),
+    meta: getToolMeta('/find-replace'),
+  },
+  {
+    path: '/rule-simulator',
+    name: 'RuleSimulator',
+    component: () => import('../views/RuleSimulatorView.vue'),
+    meta: getToolMeta('/rule-simulator'),
+  },
+  {
+    path: '/transfer-pairs',
+    name: 'TransferPairs',
+    component: () => import('../views/TransferPairsView.vue'),
+    meta: getToolMeta('/transfer-pairs'),
+  },
   {
     path: '/converter',
     name: 'Converter',
@@ -69,6 +96,18 @@ const routes: RouteRecordRaw[] = [
     component: () => import('../views/FinTSView.vue'),
     meta: getToolMeta('/fints'),
   },
+  {
+    path: '/audit',
+    name: 'AuditLog',
+    component: () => import('../views/AuditLogView.vue'),
+    meta: { titleKey: 'navigation.auditLog', descriptionKey: 'views.auditLog.subtitle' },
+  },
+  {
+    path: '/api-docs',
+    name: 'ApiDocs',
+    component: () => import('../views/ApiDocsView.vue'),
+    meta: { titleKey: 'navigation.apiDocs', descriptionKey: 'views.apiDocs.subtitle' },
+  },
   {
     path: '/settings',
     name: 'Settings',
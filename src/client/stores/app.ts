@@ -1,7 +1,7 @@
 import { defineStore } from 'pinia';
 import { ref, computed, watch } from 'vue';
 import api from '../services/api';
-import type { ToolStatus } from '@shared/types/app';
+import type { ToolStatus, FireflyProfileInfo, FireflyProfileList } from '@shared/types/app';
 import { themes, defaultThemeId, getThemeById, getVuetifyThemeName } from '../config/themes';
 import {
   setLocale as setI18nLocale,
@@ -28,6 +28,8 @@ export const useAppStore = defineStore(
     // State
     const status = ref<AppStatus | null>(null);
     const tools = ref<ToolStatus[]>([]);
+    const fireflyProfiles = ref<FireflyProfileInfo[]>([]);
+    const activeFireflyProfileId = ref<string | null>(null);
     const loading = ref(false);
     const error = ref<string | null>(null);
 
@@ -72,6 +74,10 @@ export const useAppStore = defineStore(
 
     const availableTools = computed(() => tools.value.filter((t) => t.available));
     const unavailableTools = computed(() => tools.value.filter((t) => !t.available));
+    const activeFireflyProfile = computed(
+      () => fireflyProfiles.value.find((p) => p.id === activeFireflyProfileId.value) ?? null
+    );
+    const hasMultipleFireflyProfiles = computed(() => fireflyProfiles.value.length > 1);
 
     // Theme getters
     const currentTheme = computed(
@@ -107,6 +113,37 @@ export const useAppStore = defineStore(
       }
     }
 
+    function applyFireflyProfileList(list: FireflyProfileList) {
+      fireflyProfiles.value = list.profiles;
+      activeFireflyProfileId.value = list.activeProfileId;
+    }
+
+    async function fetchFireflyProfiles() {
+      try {
+        const response = await api.get<{ success: boolean; data: FireflyProfileList }>(
+          '/firefly-profiles'
+        );
+        applyFireflyProfileList(response.data.data);
+      } catch (err) {
+        console.error('Failed to fetch Firefly III profiles:', err);
+      }
+    }
+
+    /**
+     * Switch the Firefly III connection profile of this session.
+     * Reloads the app afterwards, since all loaded data belongs to the previous profile.
+     */
+    async function selectFireflyProfile(profileId: string) {
+      if (profileId === activeFireflyProfileId.value) return;
+
+      const response = await api.put<{ success: boolean; data: FireflyProfileList }>(
+        '/firefly-profiles/active',
+        { profileId }
+      );
+      applyFireflyProfileList(response.data.data);
+      window.location.reload();
+    }
+
     function setTheme(id: string) {
       const theme = getThemeById(id);
       if (theme) {
@@ -164,6 +201,8 @@ export const useAppStore = defineStore(
       // State
       status,
       tools,
+      fireflyProfiles,
+      activeFireflyProfileId,
       loading,
       error,
       themeId,
@@ -184,6 +223,8 @@ export const useAppStore = defineStore(
       requiresAIAcknowledgment,
       availableTools,
       unavailableTools,
+      activeFireflyProfile,
+      hasMultipleFireflyProfiles,
       currentTheme,
       availableThemes,
       vuetifyThemeName,
@@ -192,6 +233,8 @@ export const useAppStore = defineStore(
       // Actions
       fetchStatus,
       fetchTools,
+      fetchFireflyProfiles,
+      selectFireflyProfile,
       setTheme,
       toggleDarkMode,
       setDarkMode,
@@ -3,11 +3,17 @@ import { ref, computed } from 'vue';
 
 export type SnackbarType = 'success' | 'error' | 'info' | 'warning';
 
+export interface SnackbarAction {
+  label: string;
+  handler: () => void;
+}
+
 export interface SnackbarState {
   visible: boolean;
   message: string;
   type: SnackbarType;
   timeout: number;
+  action: SnackbarAction | null;
 }
 
 export const useSnackbarStore = defineStore('snackbar', () => {
@@ -16,6 +22,7 @@ export const useSnackbarStore = defineStore('snackbar', () => {
   const message = ref('');
   const type = ref<SnackbarType>('info');
   const timeout = ref(5000);
+  const action = ref<SnackbarAction | null>(null);
 
   // Getters
   const color = computed(() => {
@@ -45,13 +52,25 @@ export const useSnackbarStore = defineStore('snackbar', () => {
   });
 
   // Actions
-  function show(msg: string, msgType: SnackbarType = 'info', duration: number = 5000) {
+  function show(
+    msg: string,
+    msgType: SnackbarType = 'info',
+    duration: number = 5000,
+    msgAction: SnackbarAction | null = null
+  ) {
     message.value = msg;
     type.value = msgType;
     timeout.value = duration;
+    action.value = msgAction;
     visible.value = true;
   }
 
+  function runAction() {
+    const handler = action.value?.handler;
+    hide();
+    handler?.();
+  }
+
   function hide() {
     visible.value = false;
   }
@@ -62,11 +81,13 @@ export const useSnackbarStore = defineStore('snackbar', () => {
     message,
     type,
     timeout,
+    action,
     // Getters
     color,
     icon,
     // Actions
     show,
     hide,
+    runAction,
   };
 });
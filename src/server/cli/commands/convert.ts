@@ -0,0 +1,209 @@
+import fs from 'fs/promises';
+import { z } from 'zod';
+import { getConverterProfileLibrary } from '../../services/converterProfiles.js';
+import { importConvertedTransactions } from '../../services/converterImport.js';
+import { converterConfigSchema, importTransactionSchema } from '../../utils/validation.js';
+import { validateCsvContent } from '../../utils/fileValidation.js';
+import { FIREFLY_PROFILE_OPTION, runWithFirefly } from '../firefly.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  UsageError,
+  printJson,
+  printTable,
+  type CliCommand,
+  type CliIO,
+  type CliValues,
+} from '../program.js';
+import {
+  exportTransformedCSV,
+  hasCustomScripts,
+  parseCSVContent,
+  transformCSV,
+  validateTransformedCSV,
+} from '../../../shared/utils/converter.js';
+import type { ConverterConfig } from '../../../shared/types/converter.js';
+
+/** Firefly III rejects a transaction with the same hash with "Duplicate of transaction #…" */
+const DUPLICATE_ERROR = /duplicate/i;
+
+/**
+ * Load the converter configuration from a saved profile or an exported file
+ * @throws {UsageError} if neither or both are given, or they cannot be loaded
+ */
+async function loadConfig(values: CliValues): Promise<ConverterConfig> {
+  const profileName = values.profile as string | undefined;
+  const configPath = values.config as string | undefined;
+  if (!profileName === !configPath) {
+    throw new UsageError('Pass either --profile or --config');
+  }
+
+  if (profileName) {
+    const library = getConverterProfileLibrary();
+    const summary = library
+      .list()
+      .find(
+        (profile) =>
+          profile.id === profileName || profile.name.toLowerCase() === profileName.toLowerCase()
+      );
+    const profile = summary && library.get(summary.id);
+    if (!profile) {
+      throw new UsageError(`Converter profile "${profileName}" not found`);
+    }
+    return profile.config;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.readFile(configPath!, 'utf8'));
+  } catch (error) {
+    throw new UsageError(
+      `Cannot read configuration ${configPath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  const result = converterConfigSchema.safeParse(json);
+  if (!result.success) {
+    throw new UsageError(`Invalid configuration ${configPath}: ${result.error.issues[0].message}`);
+  }
+  return result.data as ConverterConfig;
+}
+
+/**
+ * Import the converted rows and print the outcome
+ */
+async function importRows(
+  values: CliValues,
+  rows: Record<string, string>[],
+  io: CliIO
+): Promise<number> {
+  const parsed = z.array(importTransactionSchema).safeParse(rows);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues.slice(0, 10)) {
+      const [row, field] = issue.path;
+      io.err(`Row ${Number(row) + 1}${field ? ` (${String(field)})` : ''}: ${issue.message}\n`);
+    }
+    return EXIT_FAILURE;
+  }
+
+  const result = await runWithFirefly(values, (fireflyApi) =>
+    importConvertedTransactions(fireflyApi, parsed.data, {
+      tags: values.tags as string | undefined,
+      applyRules: !values['skip-rules'],
+      errorIfDuplicate: !values['allow-duplicates'],
+    })
+  );
+  // Rows already in Firefly III are expected when importing overlapping exports
+  const duplicates = result.failed.filter(({ error }) => DUPLICATE_ERROR.test(error));
+  const failed = result.failed.filter(({ error }) => !DUPLICATE_ERROR.test(error));
+
+  if (values.json) {
+    printJson(io, {
+      imported: result.successful.map((index) => index + 1),
+      duplicates: duplicates.map(({ index }) => index + 1),
+      failed: failed.map(({ index, error }) => ({ row: index + 1, error })),
+    });
+  } else {
+    io.out(
+      `Imported ${result.successful.length} of ${rows.length} transactions` +
+        (duplicates.length > 0 ? `, ${duplicates.length} already existed` : '') +
+        '\n'
+    );
+    if (failed.length > 0) {
+      printTable(
+        io,
+        ['Row', 'Error'],
+        failed.map(({ index, error }) => [String(index + 1), error]),
+        ''
+      );
+    }
+  }
+
+  return failed.length > 0 ? EXIT_FAILURE : EXIT_OK;
+}
+
+/**
+ * toolbox convert: convert a bank export with a converter profile, print it
+ * as Firefly III CSV or import it directly
+ */
+export const convertCommand: CliCommand = {
+  name: 'convert',
+  summary: 'Convert a bank CSV export with a converter profile and optionally import it',
+  arguments: '<file.csv>',
+  options: {
+    profile: {
+      type: 'string',
+      placeholder: '<name|id>',
+      description: 'Saved converter profile to use',
+    },
+    config: {
+      type: 'string',
+      placeholder: '<file.json>',
+      description: 'Exported converter configuration to use instead of a profile',
+    },
+    output: {
+      type: 'string',
+      placeholder: '<file>',
+      description: 'Write the converted CSV to a file instead of stdout',
+    },
+    import: { type: 'boolean', description: 'Import the transactions into Firefly III' },
+    tags: {
+      type: 'string',
+      placeholder: '<tags>',
+      description: 'Comma-separated tags added to imported transactions',
+    },
+    'skip-rules': { type: 'boolean', description: 'Do not apply Firefly III rules on import' },
+    'allow-duplicates': {
+      type: 'boolean',
+      description: 'Import transactions Firefly III considers duplicates',
+    },
+    'allow-scripts': {
+      type: 'boolean',
+      description: 'Run custom script blocks of the profile on this machine',
+    },
+    ...FIREFLY_PROFILE_OPTION,
+  },
+
+  async run({ values, positionals, io }) {
+    if (positionals.length !== 1) {
+      throw new UsageError('Pass exactly one CSV file');
+    }
+    const config = await loadConfig(values);
+    // Profiles are shared by all users; their scripts would run with the server's permissions
+    if (hasCustomScripts(config) && !values['allow-scripts']) {
+      throw new UsageError(
+        'The configuration contains custom script blocks. Pass --allow-scripts to run them.'
+      );
+    }
+
+    const buffer = await fs.readFile(positionals[0]);
+    const content = validateCsvContent(buffer);
+    if (!content.valid) {
+      throw new Error(content.error);
+    }
+    const parsed = parseCSVContent(buffer.toString('utf8'), config.csvOptions);
+
+    if (values.import) {
+      const validation = validateTransformedCSV(parsed, config);
+      for (const warning of validation.warnings) {
+        io.err(`Warning: ${warning.message}\n`);
+      }
+      if (!validation.valid) {
+        for (const error of validation.errors) {
+          io.err(`${error.message}\n`);
+        }
+        return EXIT_FAILURE;
+      }
+      return importRows(values, transformCSV(parsed, config), io);
+    }
+
+    const output = values.json
+      ? JSON.stringify(transformCSV(parsed, config), null, 2) + '\n'
+      : exportTransformedCSV(parsed, config);
+    if (values.output) {
+      await fs.writeFile(values.output as string, output);
+    } else {
+      io.out(output);
+    }
+    return EXIT_OK;
+  },
+};
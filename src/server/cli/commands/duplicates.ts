@@ -0,0 +1,103 @@
+import { DuplicateTransactionFinder } from '../../services/duplicateFinder.js';
+import { DUPLICATE_PRESETS } from '../../../shared/utils/duplicates.js';
+import type { DuplicatePreset } from '../../../shared/types/app.js';
+import { FIREFLY_PROFILE_OPTION, runWithFirefly } from '../firefly.js';
+import {
+  EXIT_OK,
+  getDateOption,
+  getNumberOption,
+  printJson,
+  printTable,
+  UsageError,
+  type CliCommand,
+  type CliValues,
+} from '../program.js';
+
+const PRESET_NAMES = Object.keys(DUPLICATE_PRESETS) as DuplicatePreset[];
+
+/**
+ * Read the --preset option
+ * @throws {UsageError} for unknown presets
+ */
+function getPresetOption(values: CliValues): DuplicatePreset | undefined {
+  const value = values.preset;
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !PRESET_NAMES.includes(value as DuplicatePreset)) {
+    throw new UsageError(`--preset must be one of ${PRESET_NAMES.join(', ')}`);
+  }
+  return value as DuplicatePreset;
+}
+
+/**
+ * toolbox duplicates: list groups of likely duplicate transactions
+ */
+export const duplicatesCommand: CliCommand = {
+  name: 'duplicates',
+  summary: 'Find likely duplicate transactions',
+  options: {
+    from: {
+      type: 'string',
+      placeholder: '<date>',
+      description: 'First day to search (YYYY-MM-DD)',
+    },
+    to: { type: 'string', placeholder: '<date>', description: 'Last day to search (YYYY-MM-DD)' },
+    preset: {
+      type: 'string',
+      placeholder: '<name>',
+      description: `Scoring profile: ${PRESET_NAMES.join(', ')}`,
+    },
+    'date-range': {
+      type: 'string',
+      placeholder: '<days>',
+      description: 'Maximum days between duplicates (default: 3)',
+    },
+    'amount-tolerance': {
+      type: 'string',
+      placeholder: '<percent>',
+      description: 'Allowed amount difference in percent (default: 0)',
+    },
+    ...FIREFLY_PROFILE_OPTION,
+  },
+
+  async run({ values, io }) {
+    const preset = getPresetOption(values);
+    const startDate = getDateOption(values, 'from');
+    const endDate = getDateOption(values, 'to');
+    const dateRange = getNumberOption(values, 'date-range', 0);
+    const amountTolerance = getNumberOption(values, 'amount-tolerance', 0, 100);
+
+    const groups = await runWithFirefly(values, (fireflyApi) =>
+      new DuplicateTransactionFinder(fireflyApi).findDuplicates(startDate, endDate, {
+        ...(preset && { preset }),
+        ...(dateRange !== undefined && { dateRange }),
+        ...(amountTolerance !== undefined && { amountTolerance }),
+      })
+    );
+
+    if (values.json) {
+      printJson(io, groups);
+      return EXIT_OK;
+    }
+
+    const rows = groups.flatMap((group, index) =>
+      group.transactions.map((transaction, position) => {
+        const split = transaction.attributes.transactions[0];
+        return [
+          position === 0 ? String(index + 1) : '',
+          position === 0 ? `${Math.round(group.matchScore * 100)}%` : '',
+          transaction.id,
+          split?.date.split('T')[0] ?? '',
+          split ? Number(split.amount).toFixed(2) : '',
+          split?.description ?? '',
+        ];
+      })
+    );
+    printTable(
+      io,
+      ['Group', 'Score', 'ID', 'Date', 'Amount', 'Description'],
+      rows,
+      'No duplicates found'
+    );
+    return EXIT_OK;
+  },
+};
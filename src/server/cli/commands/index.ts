@@ -0,0 +1,14 @@
+import type { CliCommand } from '../program.js';
+import { convertCommand } from './convert.js';
+import { duplicatesCommand } from './duplicates.js';
+import { categoriesCommand, tagsCommand } from './suggestions.js';
+import { subscriptionsCommand } from './subscriptions.js';
+
+/** Commands in the order they are listed in the help */
+export const commands: CliCommand[] = [
+  duplicatesCommand,
+  subscriptionsCommand,
+  categoriesCommand,
+  tagsCommand,
+  convertCommand,
+];
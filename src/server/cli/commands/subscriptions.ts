@@ -0,0 +1,159 @@
+import { SubscriptionFinder } from '../../services/subscriptionFinder.js';
+import { FIREFLY_PROFILE_OPTION, runWithFirefly } from '../firefly.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  getDateOption,
+  getNumberOption,
+  printJson,
+  printTable,
+  type CliCommand,
+} from '../program.js';
+import type { CreateSubscriptionRequest, SubscriptionPattern } from '../../../shared/types/app.js';
+
+type CreateStatus = 'created' | 'exists' | 'failed';
+
+interface PatternResult {
+  pattern: SubscriptionPattern;
+  /** Set when the pattern was above the creation threshold */
+  status?: CreateStatus;
+  error?: string;
+}
+
+/**
+ * Next expected date after the most recent transaction of a pattern
+ */
+function getNextDate(pattern: SubscriptionPattern): string {
+  const lastTransaction = pattern.transactions[pattern.transactions.length - 1];
+  const lastDate = lastTransaction?.attributes.transactions[0]?.date;
+  if (!lastDate) return new Date().toISOString().split('T')[0];
+
+  const date = new Date(lastDate);
+  switch (pattern.pattern.type) {
+    case 'weekly':
+      date.setDate(date.getDate() + 7);
+      break;
+    case 'monthly':
+      date.setMonth(date.getMonth() + 1);
+      break;
+    case 'quarterly':
+      date.setMonth(date.getMonth() + 3);
+      break;
+    case 'half-year':
+      date.setMonth(date.getMonth() + 6);
+      break;
+    case 'yearly':
+      date.setFullYear(date.getFullYear() + 1);
+      break;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Subscription matching a pattern, as created from the Subscriptions page
+ */
+function toSubscriptionRequest(pattern: SubscriptionPattern): CreateSubscriptionRequest {
+  const firstTransaction = pattern.transactions[0]?.attributes.transactions[0];
+  return {
+    name: pattern.description,
+    amountMin: Math.abs(pattern.minAmount ?? pattern.averageAmount).toFixed(2),
+    amountMax: Math.abs(pattern.maxAmount ?? pattern.averageAmount).toFixed(2),
+    date: getNextDate(pattern),
+    repeatFreq: pattern.pattern.type,
+    skip: pattern.pattern.interval,
+    currencyCode: firstTransaction?.currency_code,
+    destinationAccountName: firstTransaction?.destination_name,
+    createRule: true,
+  };
+}
+
+/**
+ * toolbox subscriptions: list recurring payments, optionally creating
+ * subscriptions for the confident ones
+ */
+export const subscriptionsCommand: CliCommand = {
+  name: 'subscriptions',
+  summary: 'Find recurring payments and optionally create subscriptions for them',
+  options: {
+    from: {
+      type: 'string',
+      placeholder: '<date>',
+      description: 'First day to search (YYYY-MM-DD)',
+    },
+    to: { type: 'string', placeholder: '<date>', description: 'Last day to search (YYYY-MM-DD)' },
+    'min-occurrences': {
+      type: 'string',
+      placeholder: '<count>',
+      description: 'Payments needed to detect a pattern (default: 3)',
+    },
+    'create-min-confidence': {
+      type: 'string',
+      placeholder: '<0-1>',
+      description: 'Create subscriptions (with rules) for patterns at or above this confidence',
+    },
+    ...FIREFLY_PROFILE_OPTION,
+  },
+
+  async run({ values, io }) {
+    const startDate = getDateOption(values, 'from');
+    const endDate = getDateOption(values, 'to');
+    const minOccurrences = getNumberOption(values, 'min-occurrences', 2);
+    const minConfidence = getNumberOption(values, 'create-min-confidence', 0, 1);
+
+    const results = await runWithFirefly(values, async (fireflyApi) => {
+      const finder = new SubscriptionFinder(fireflyApi);
+      const patterns = await finder.findSubscriptionPatterns(startDate, endDate, {
+        ...(minOccurrences !== undefined && { minOccurrences }),
+      });
+      const results: PatternResult[] = patterns.map((pattern) => ({ pattern }));
+      if (minConfidence === undefined) return results;
+
+      // Names already taken by subscriptions, so repeated runs do not create them again
+      const existing = new Set(
+        (await finder.getExistingSubscriptions()).map((s) => s.attributes.name.toLowerCase())
+      );
+      for (const result of results) {
+        if (result.pattern.pattern.confidence < minConfidence) continue;
+
+        const request = toSubscriptionRequest(result.pattern);
+        if (existing.has(request.name.toLowerCase())) {
+          result.status = 'exists';
+          continue;
+        }
+        try {
+          await finder.createSubscription(request);
+          existing.add(request.name.toLowerCase());
+          result.status = 'created';
+        } catch (error) {
+          result.status = 'failed';
+          result.error = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+      return results;
+    });
+
+    const failed = results.filter((result) => result.status === 'failed');
+    if (values.json) {
+      printJson(io, results);
+    } else {
+      printTable(
+        io,
+        ['Confidence', 'Interval', 'Amount', 'Payments', 'Description', 'Subscription'],
+        results.map(({ pattern, status }) => [
+          `${Math.round(pattern.pattern.confidence * 100)}%`,
+          pattern.pattern.type,
+          Math.abs(pattern.averageAmount).toFixed(2),
+          String(pattern.transactions.length),
+          pattern.description,
+          status ?? '',
+        ]),
+        'No recurring payments found'
+      );
+      for (const result of failed) {
+        io.err(`Failed to create "${result.pattern.description}": ${result.error}\n`);
+      }
+    }
+
+    return failed.length > 0 ? EXIT_FAILURE : EXIT_OK;
+  },
+};
@@ -0,0 +1,220 @@
+import { isAIConfigured } from '../../config/index.js';
+import { AISuggestionService } from '../../services/aiSuggestions.js';
+import { getOperationLog } from '../../services/operations.js';
+import { FIREFLY_PROFILE_OPTION, runWithFirefly } from '../firefly.js';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  getDateOption,
+  getNumberOption,
+  printJson,
+  printTable,
+  type CliCommand,
+  type CliIO,
+  type CliOption,
+  type CliValues,
+} from '../program.js';
+import type { BulkUpdateResult, TransactionUpdate } from '../../../shared/types/app.js';
+import type { FireflyTransactionSplit } from '../../../shared/types/firefly.js';
+
+const SUGGESTION_OPTIONS: Record<string, CliOption> = {
+  from: { type: 'string', placeholder: '<date>', description: 'First day to process (YYYY-MM-DD)' },
+  to: { type: 'string', placeholder: '<date>', description: 'Last day to process (YYYY-MM-DD)' },
+  limit: {
+    type: 'string',
+    placeholder: '<count>',
+    description: 'Maximum number of transactions to process',
+  },
+  'apply-min-confidence': {
+    type: 'string',
+    placeholder: '<0-1>',
+    description: 'Apply suggestions at or above this confidence',
+  },
+  ...FIREFLY_PROFILE_OPTION,
+};
+
+/**
+ * Suggestion for one transaction split, as printed by the commands
+ */
+interface SuggestionRow {
+  transactionId: string;
+  transaction: FireflyTransactionSplit;
+  suggestion: string;
+  confidence: number;
+  status?: 'applied' | 'failed';
+  error?: string;
+}
+
+interface SuggestionOptions {
+  startDate?: string;
+  endDate?: string;
+  maxSuggestions?: number;
+  minConfidence?: number;
+}
+
+/**
+ * Read the suggestion options
+ * @throws {UsageError} for invalid options
+ * @throws {Error} if no AI provider is configured
+ */
+function getSuggestionOptions(values: CliValues): SuggestionOptions {
+  const options: SuggestionOptions = {
+    startDate: getDateOption(values, 'from'),
+    endDate: getDateOption(values, 'to'),
+    maxSuggestions: getNumberOption(values, 'limit', 1),
+    minConfidence: getNumberOption(values, 'apply-min-confidence', 0, 1),
+  };
+  if (!isAIConfigured()) {
+    throw new Error('AI is not configured');
+  }
+  return options;
+}
+
+/**
+ * Mark the rows of the applied updates as applied or failed (matched by split,
+ * as a transaction has one row per split)
+ */
+function recordResult(
+  rows: SuggestionRow[],
+  updates: TransactionUpdate[],
+  result: BulkUpdateResult
+): void {
+  const updated = new Set(updates.map((update) => update.journalId));
+  const failures = new Map(result.failed.map((f) => [f.journalId ?? f.transactionId, f.error]));
+  for (const row of rows) {
+    const journalId = row.transaction.transaction_journal_id;
+    if (!updated.has(journalId)) continue;
+
+    const error = failures.get(journalId) ?? failures.get(row.transactionId);
+    if (error === undefined) {
+      row.status = 'applied';
+    } else {
+      row.status = 'failed';
+      row.error = error;
+    }
+  }
+}
+
+/**
+ * Print the suggestions and return the exit code
+ */
+function printSuggestions(values: CliValues, rows: SuggestionRow[], io: CliIO): number {
+  const failed = rows.filter((row) => row.status === 'failed');
+  if (values.json) {
+    printJson(io, rows);
+  } else {
+    printTable(
+      io,
+      ['ID', 'Date', 'Amount', 'Description', 'Suggestion', 'Confidence', 'Status'],
+      rows.map((row) => [
+        row.transactionId,
+        row.transaction.date.split('T')[0],
+        Number(row.transaction.amount).toFixed(2),
+        row.transaction.description,
+        row.suggestion,
+        `${Math.round(row.confidence * 100)}%`,
+        row.status ?? '',
+      ]),
+      'No suggestions'
+    );
+    for (const row of failed) {
+      io.err(`Failed to update transaction ${row.transactionId}: ${row.error}\n`);
+    }
+  }
+  return failed.length > 0 ? EXIT_FAILURE : EXIT_OK;
+}
+
+/**
+ * toolbox categories: suggest categories for uncategorized transactions
+ */
+export const categoriesCommand: CliCommand = {
+  name: 'categories',
+  summary: 'Suggest categories for uncategorized transactions with AI',
+  options: SUGGESTION_OPTIONS,
+
+  async run({ values, io }) {
+    const { minConfidence, ...options } = getSuggestionOptions(values);
+
+    const rows = await runWithFirefly(values, async (fireflyApi) => {
+      const service = new AISuggestionService(fireflyApi);
+      const suggestions = await service.suggestCategories(options.startDate, options.endDate, {
+        maxSuggestions: options.maxSuggestions,
+      });
+      const rows: SuggestionRow[] = suggestions.map((s) => ({
+        transactionId: s.transactionId,
+        transaction: s.transaction,
+        suggestion: s.unableToClassify ? '' : s.suggestedCategoryName,
+        confidence: s.confidence,
+      }));
+      if (minConfidence === undefined) return rows;
+
+      const updates: TransactionUpdate[] = suggestions
+        .filter(
+          (s) => !s.unableToClassify && s.suggestedCategoryId && s.confidence >= minConfidence
+        )
+        .map((s) => ({
+          transactionId: s.transactionId,
+          journalId: s.transaction.transaction_journal_id,
+          updates: { category_id: s.suggestedCategoryId, category_name: s.suggestedCategoryName },
+        }));
+      if (updates.length > 0) {
+        // Recorded as an operation that can be undone from the Audit Log
+        const { result } = await getOperationLog().run('categories', () =>
+          service.applyCategories(updates)
+        );
+        recordResult(rows, updates, result);
+      }
+      return rows;
+    });
+
+    return printSuggestions(values, rows, io);
+  },
+};
+
+/**
+ * toolbox tags: suggest tags for transactions not yet processed by the tagger
+ */
+export const tagsCommand: CliCommand = {
+  name: 'tags',
+  summary: 'Suggest tags for transactions with AI',
+  options: SUGGESTION_OPTIONS,
+
+  async run({ values, io }) {
+    const { minConfidence, ...options } = getSuggestionOptions(values);
+
+    const rows = await runWithFirefly(values, async (fireflyApi) => {
+      const service = new AISuggestionService(fireflyApi);
+      const suggestions = await service.suggestTags(options.startDate, options.endDate, {
+        maxSuggestions: options.maxSuggestions,
+      });
+      const rows: SuggestionRow[] = suggestions.map((s) => ({
+        transactionId: s.transactionId,
+        transaction: s.transaction,
+        suggestion: s.suggestedTags.map((tag) => tag.tagName).join(', '),
+        confidence: Math.max(0, ...s.suggestedTags.map((tag) => tag.confidence)),
+      }));
+      if (minConfidence === undefined) return rows;
+
+      const updates: TransactionUpdate[] = [];
+      for (const suggestion of suggestions) {
+        const tagNames = suggestion.suggestedTags
+          .filter((tag) => tag.confidence >= minConfidence)
+          .map((tag) => tag.tagName);
+        if (tagNames.length === 0) continue;
+
+        updates.push({
+          transactionId: suggestion.transactionId,
+          journalId: suggestion.transaction.transaction_journal_id,
+          updates: { tags: [...new Set([...(suggestion.transaction.tags || []), ...tagNames])] },
+        });
+      }
+      if (updates.length > 0) {
+        const { result } = await getOperationLog().run('tags', () => service.applyTags(updates));
+        recordResult(rows, updates, result);
+      }
+      return rows;
+    });
+
+    return printSuggestions(values, rows, io);
+  },
+};
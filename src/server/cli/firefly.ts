@@ -0,0 +1,59 @@
+/**
+ * Firefly III access for CLI commands
+ *
+ * Commands use the API token of a configured connection profile (the default
+ * profile unless --firefly-profile is given). Changes are written to the audit
+ * log as made by the CLI on behalf of the operating system user.
+ */
+
+import os from 'os';
+import {
+  getFireflyProfile,
+  getSharedFireflyApi,
+  runWithFireflyApi,
+  type FireflyApiClient,
+} from '../clients/firefly.js';
+import { DEFAULT_FIREFLY_PROFILE_ID } from '../config/index.js';
+import { runWithAuditContext } from '../services/auditLog.js';
+import { UsageError, type CliOption, type CliValues } from './program.js';
+
+/** Option selecting the Firefly III connection profile */
+export const FIREFLY_PROFILE_OPTION: Record<string, CliOption> = {
+  'firefly-profile': {
+    type: 'string',
+    placeholder: '<id>',
+    description: 'Firefly III connection profile (default: FIREFLY_API_URL)',
+  },
+};
+
+/**
+ * Name of the user running the CLI, if known
+ */
+function getOperatingSystemUser(): string | null {
+  try {
+    return os.userInfo().username;
+  } catch {
+    // No passwd entry for the user (common in containers)
+    return process.env.USER ?? null;
+  }
+}
+
+/**
+ * Run a function with the Firefly API client of the selected connection profile
+ * @throws {UsageError} if the profile does not exist
+ * @throws {FireflyNotConfiguredError} if the profile has no API URL or token
+ */
+export async function runWithFirefly<T>(
+  values: CliValues,
+  fn: (fireflyApi: FireflyApiClient) => Promise<T>
+): Promise<T> {
+  const profileId = (values['firefly-profile'] as string | undefined) ?? DEFAULT_FIREFLY_PROFILE_ID;
+  if (!getFireflyProfile(profileId)) {
+    throw new UsageError(`Unknown Firefly III connection profile "${profileId}"`);
+  }
+
+  const fireflyApi = getSharedFireflyApi(profileId);
+  return runWithAuditContext({ user: getOperatingSystemUser(), tool: 'cli' }, () =>
+    runWithFireflyApi(fireflyApi, () => fn(fireflyApi), profileId)
+  );
+}
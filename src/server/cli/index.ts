@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+/**
+ * Toolbox CLI
+ *
+ * Runs the tools from scripts and cron jobs without a browser session, with the
+ * same environment configuration (.env) as the server:
+ *
+ *   toolbox duplicates --from 2025-01-01 --json
+ *   toolbox convert --profile dkb input.csv --import
+ *   toolbox subscriptions --create-min-confidence 0.8
+ *
+ * Exit codes: 0 success, 1 failure (also if some rows or updates failed),
+ * 2 invalid command line.
+ */
+
+import type { CliIO } from './program.js';
+
+// Log messages go to stderr so stdout only carries the command output. Only
+// warnings and errors are logged unless LOG_LEVEL is set in the environment.
+process.env.LOG_LEVEL ??= 'warn';
+const { logToStderr } = await import('../utils/logger.js');
+logToStderr();
+
+// Loaded after the logger is set up, as modules log while loading
+const { runCli } = await import('./program.js');
+const { commands } = await import('./commands/index.js');
+const { closePersistenceBackend, closeSharedStore } = await import('../services/index.js');
+
+const io: CliIO = {
+  out: (text) => process.stdout.write(text),
+  err: (text) => process.stderr.write(text),
+};
+process.exitCode = await runCli('toolbox', process.argv.slice(2), commands, io);
+
+// Release the storage connections; the process then exits once the output is written
+await closeSharedStore().catch(() => {});
+closePersistenceBackend();
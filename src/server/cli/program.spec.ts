@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  EXIT_USAGE,
+  UsageError,
+  formatTable,
+  getDateOption,
+  getNumberOption,
+  runCli,
+  type CliCommand,
+} from './program.js';
+
+function createIO() {
+  const io = { stdout: '', stderr: '', out: vi.fn(), err: vi.fn() };
+  io.out.mockImplementation((text: string) => (io.stdout += text));
+  io.err.mockImplementation((text: string) => (io.stderr += text));
+  return io;
+}
+
+function createCommand(run: CliCommand['run']): CliCommand {
+  return {
+    name: 'check',
+    summary: 'Check something',
+    arguments: '<file>',
+    options: {
+      from: { type: 'string', placeholder: '<date>', description: 'First day' },
+      apply: { type: 'boolean', description: 'Apply changes' },
+    },
+    run,
+  };
+}
+
+describe('runCli', () => {
+  it('should pass options and arguments to the command and return its exit code', async () => {
+    const run = vi.fn().mockResolvedValue(EXIT_OK);
+    const io = createIO();
+
+    const code = await runCli(
+      'toolbox',
+      ['check', 'input.csv', '--from', '2025-01-01', '--apply', '--json'],
+      [createCommand(run)],
+      io
+    );
+
+    expect(code).toBe(EXIT_OK);
+    expect(run).toHaveBeenCalledWith(
+      expect.objectContaining({
+        values: { from: '2025-01-01', apply: true, json: true },
+        positionals: ['input.csv'],
+      })
+    );
+  });
+
+  it('should print the command list without a command', async () => {
+    const io = createIO();
+
+    expect(await runCli('toolbox', [], [createCommand(vi.fn())], io)).toBe(EXIT_USAGE);
+    expect(io.stdout).toContain('check  Check something');
+    expect(await runCli('toolbox', ['--help'], [createCommand(vi.fn())], io)).toBe(EXIT_OK);
+  });
+
+  it('should print the options of a command', async () => {
+    const run = vi.fn();
+    const io = createIO();
+
+    const code = await runCli('toolbox', ['check', '--help'], [createCommand(run)], io);
+
+    expect(code).toBe(EXIT_OK);
+    expect(run).not.toHaveBeenCalled();
+    expect(io.stdout).toContain('Usage: toolbox check <file> [options]');
+    expect(io.stdout).toMatch(/--from <date>\s+First day/);
+    expect(io.stdout).toMatch(/--json\s+Print JSON/);
+  });
+
+  it('should reject unknown commands and options as usage errors', async () => {
+    const run = vi.fn();
+    const io = createIO();
+
+    expect(await runCli('toolbox', ['unknown'], [createCommand(run)], io)).toBe(EXIT_USAGE);
+    expect(io.stderr).toContain('Unknown command "unknown"');
+    expect(await runCli('toolbox', ['check', '--force'], [createCommand(run)], io)).toBe(
+      EXIT_USAGE
+    );
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should report usage errors thrown by the command', async () => {
+    const io = createIO();
+    const command = createCommand(async () => {
+      throw new UsageError('Pass exactly one file');
+    });
+
+    expect(await runCli('toolbox', ['check'], [command], io)).toBe(EXIT_USAGE);
+    expect(io.stderr).toContain('Pass exactly one file');
+  });
+
+  it('should report other errors as failures', async () => {
+    const io = createIO();
+    const command = createCommand(async () => {
+      throw new Error('Firefly III is not reachable');
+    });
+
+    expect(await runCli('toolbox', ['check'], [command], io)).toBe(EXIT_FAILURE);
+    expect(io.stderr).toBe('Error: Firefly III is not reachable\n');
+  });
+});
+
+describe('option readers', () => {
+  it('should read dates', () => {
+    expect(getDateOption({ from: '2025-02-28' }, 'from')).toBe('2025-02-28');
+    expect(getDateOption({}, 'from')).toBeUndefined();
+    expect(() => getDateOption({ from: '28.02.2025' }, 'from')).toThrow(UsageError);
+    expect(() => getDateOption({ from: '2025-13-01' }, 'from')).toThrow(UsageError);
+  });
+
+  it('should read numbers within a range', () => {
+    expect(getNumberOption({ min: '0.8' }, 'min', 0, 1)).toBe(0.8);
+    expect(getNumberOption({}, 'min', 0, 1)).toBeUndefined();
+    expect(() => getNumberOption({ min: '80' }, 'min', 0, 1)).toThrow(
+      '--min must be a number between 0 and 1'
+    );
+    expect(() => getNumberOption({ min: 'abc' }, 'min', 1)).toThrow(
+      '--min must be a number at least 1'
+    );
+  });
+});
+
+describe('formatTable', () => {
+  it('should align columns', () => {
+    expect(
+      formatTable(
+        ['ID', 'Description'],
+        [
+          ['1', 'Coffee'],
+          ['123', 'Rent'],
+        ]
+      )
+    ).toBe(['ID   Description', '---  -----------', '1    Coffee', '123  Rent'].join('\n'));
+  });
+});
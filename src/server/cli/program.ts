@@ -0,0 +1,237 @@
+/**
+ * CLI Program
+ *
+ * Argument parsing, output formatting and dispatch for the toolbox CLI.
+ * Commands declare their options and return an exit code; problems with the
+ * command line are reported by throwing a UsageError.
+ */
+
+import { parseArgs } from 'util';
+
+/** The command did what was asked */
+export const EXIT_OK = 0;
+/** The command failed, completely or for some items (e.g. rows of an import) */
+export const EXIT_FAILURE = 1;
+/** The command line was invalid */
+export const EXIT_USAGE = 2;
+
+/**
+ * Output streams of a command
+ */
+export interface CliIO {
+  /** Write command output (tables, JSON, converted CSV) */
+  out(text: string): void;
+  /** Write messages and progress */
+  err(text: string): void;
+}
+
+/**
+ * Command-line option of a command
+ */
+export interface CliOption {
+  type: 'string' | 'boolean';
+  description: string;
+  /** Value placeholder shown in the help, e.g. "<date>" */
+  placeholder?: string;
+}
+
+export type CliValues = Record<string, string | boolean | undefined>;
+
+/**
+ * Parsed command line passed to a command
+ */
+export interface CliContext {
+  values: CliValues;
+  positionals: string[];
+  io: CliIO;
+}
+
+export interface CliCommand {
+  name: string;
+  summary: string;
+  /** Positional arguments shown in the help, e.g. "<file.csv>" */
+  arguments?: string;
+  options: Record<string, CliOption>;
+  /** Run the command and return its exit code */
+  run(context: CliContext): Promise<number>;
+}
+
+/**
+ * Error in the command line (unknown option, invalid value, ...)
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/** Options accepted by every command */
+const COMMON_OPTIONS: Record<string, CliOption> = {
+  json: { type: 'boolean', description: 'Print JSON instead of a table' },
+  help: { type: 'boolean', description: 'Show help for the command' },
+};
+
+/**
+ * Read a YYYY-MM-DD date option
+ * @throws {UsageError} if the value is not a valid date
+ */
+export function getDateOption(values: CliValues, name: string): string | undefined {
+  const value = values[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw new UsageError(`--${name} must be a date (YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+/**
+ * Read a number option within a range
+ * @throws {UsageError} if the value is not a number in the range
+ */
+export function getNumberOption(
+  values: CliValues,
+  name: string,
+  min: number,
+  max: number = Infinity
+): number | undefined {
+  const value = values[name];
+  if (value === undefined) return undefined;
+
+  const number = typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  if (isNaN(number) || number < min || number > max) {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+    throw new UsageError(`--${name} must be a number ${range}`);
+  }
+  return number;
+}
+
+/**
+ * Format rows as a plain-text table with aligned columns
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => (row[column] ?? '').length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, column) => (cell ?? '').padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+  return [
+    formatRow(headers),
+    widths.map((width) => '-'.repeat(width)).join('  '),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * Write a value as indented JSON
+ */
+export function printJson(io: CliIO, value: unknown): void {
+  io.out(JSON.stringify(value, null, 2) + '\n');
+}
+
+/**
+ * Write rows as a table, or a note if there are none
+ */
+export function printTable(
+  io: CliIO,
+  headers: string[],
+  rows: string[][],
+  emptyMessage: string
+): void {
+  io.out((rows.length > 0 ? formatTable(headers, rows) : emptyMessage) + '\n');
+}
+
+function formatOptions(options: Record<string, CliOption>): string[] {
+  const entries = Object.entries(options).map(([name, option]) => [
+    `--${name}${option.placeholder ? ` ${option.placeholder}` : ''}`,
+    option.description,
+  ]);
+  const width = Math.max(...entries.map(([flag]) => flag.length));
+  return entries.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`);
+}
+
+/**
+ * Help text for the program or a single command
+ */
+export function getHelp(program: string, commands: CliCommand[], command?: CliCommand): string {
+  if (command) {
+    return [
+      `Usage: ${program} ${command.name}${command.arguments ? ` ${command.arguments}` : ''} [options]`,
+      '',
+      command.summary,
+      '',
+      'Options:',
+      ...formatOptions({ ...command.options, ...COMMON_OPTIONS }),
+      '',
+    ].join('\n');
+  }
+
+  const width = Math.max(...commands.map((c) => c.name.length));
+  return [
+    `Usage: ${program} <command> [options]`,
+    '',
+    'Commands:',
+    ...commands.map((c) => `  ${c.name.padEnd(width)}  ${c.summary}`),
+    '',
+    `Run "${program} <command> --help" for the options of a command.`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Run the command named by the first argument and return the exit code.
+ * Errors are reported on stderr.
+ */
+export async function runCli(
+  program: string,
+  argv: string[],
+  commands: CliCommand[],
+  io: CliIO
+): Promise<number> {
+  const [name, ...args] = argv;
+  if (!name || name === 'help' || name === '--help' || name === '-h') {
+    io.out(getHelp(program, commands));
+    return name ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const command = commands.find((c) => c.name === name);
+  if (!command) {
+    io.err(`Unknown command "${name}"\n\n${getHelp(program, commands)}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      options: Object.fromEntries(
+        Object.entries({ ...command.options, ...COMMON_OPTIONS }).map(([key, option]) => [
+          key,
+          { type: option.type },
+        ])
+      ),
+      allowPositionals: true,
+      strict: true,
+    });
+
+    if (values.help) {
+      io.out(getHelp(program, commands, command));
+      return EXIT_OK;
+    }
+
+    return await command.run({ values, positionals, io });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = (error as { code?: string }).code;
+    if (error instanceof UsageError || code?.startsWith('ERR_PARSE_ARGS')) {
+      io.err(`${message}\n\n${getHelp(program, commands, command)}`);
+      return EXIT_USAGE;
+    }
+
+    io.err(`Error: ${message}\n`);
+    return EXIT_FAILURE;
+  }
+}
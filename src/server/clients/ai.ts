@@ -1,6 +1,7 @@
 import OpenAI from 'openai';
 import { config, isAIConfigured } from '../config/index.js';
 import { createLogger } from '../utils/logger.js';
+import { aiRequestDuration, aiRequestFailuresTotal } from '../services/metrics.js';
 
 const logger = createLogger('AIClient');
 
@@ -94,6 +95,7 @@ export async function chat(
   }
 
   const startTime = Date.now();
+  const observeDuration = aiRequestDuration.startTimer({ provider: config.ai.provider });
   logger.debug(`AI request started (${config.ai.provider}/${model})`);
 
   try {
@@ -113,8 +115,11 @@ export async function chat(
       throw new Error('No response from AI');
     }
 
+    observeDuration({ outcome: 'success' });
     return content;
   } catch (error) {
+    observeDuration({ outcome: 'failure' });
+    aiRequestFailuresTotal.inc({ provider: config.ai.provider });
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
     logger.error(
       `AI request failed after ${elapsed}s: ${error instanceof Error ? error.message : error}`
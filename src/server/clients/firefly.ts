@@ -1,9 +1,22 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import axiosRetry from 'axios-retry';
-import { config } from '../config/index.js';
+import {
+  config,
+  isFireflyConfigured,
+  DEFAULT_FIREFLY_PROFILE_ID,
+  type FireflyProfile,
+} from '../config/index.js';
 import { createLogger } from '../utils/logger.js';
+import { getAuditLog, toAuditSnapshot, type AuditChange } from '../services/auditLog.js';
+import { fireflyApiRequestsTotal, fireflyApiErrorsTotal } from '../services/metrics.js';
+import { getTransactionMirror, type TransactionMirror } from '../services/transactionMirror.js';
+import { getDryRun } from '../services/dryRun.js';
+import { SEPA_FIELDS } from '../../shared/types/firefly.js';
 import type {
   FireflyTransaction,
+  FireflyTransactionSplit,
+  FireflySepaField,
   FireflyCategory,
   FireflyTag,
   FireflyAccount,
@@ -16,9 +29,27 @@ import type {
 
 const logger = createLogger('FireflyClient');
 
+/** Split fields updateTransaction only sends when they are updated */
+const OPTIONAL_UPDATE_FIELDS = ['budget_id', 'budget_name', 'external_id', ...SEPA_FIELDS] as const;
+
+/**
+ * The other splits of a transaction, referenced by journal ID only: Firefly III
+ * deletes the splits of a split transaction that an update leaves out
+ */
+function getUnchangedSplits(
+  transaction: FireflyTransaction,
+  journalId: string
+): Array<{ transaction_journal_id: string }> {
+  return transaction.attributes.transactions
+    .filter((split) => split.transaction_journal_id !== journalId)
+    .map((split) => ({ transaction_journal_id: split.transaction_journal_id }));
+}
+
 export class FireflyApiClient {
   private client: AxiosInstance;
   private baseUrl: string;
+  /** Connection profile whose transaction mirror this client reads and updates */
+  private mirrorProfileId: string | null = null;
 
   constructor(apiUrl?: string, apiToken?: string) {
     this.baseUrl = apiUrl || config.firefly.apiUrl;
@@ -46,6 +77,22 @@ export class FireflyApiClient {
         );
       },
     });
+
+    // Count every attempt (including retries) for the metrics endpoint
+    this.client.interceptors.response.use(
+      (response) => {
+        const method = (response.config.method ?? 'get').toUpperCase();
+        fireflyApiRequestsTotal.inc({ method, status: String(response.status) });
+        return response;
+      },
+      (error: AxiosError) => {
+        const method = (error.config?.method ?? 'get').toUpperCase();
+        const status = error.response ? String(error.response.status) : 'network_error';
+        fireflyApiRequestsTotal.inc({ method, status });
+        fireflyApiErrorsTotal.inc({ method, status });
+        return Promise.reject(error);
+      }
+    );
   }
 
   private handleError(error: unknown): never {
@@ -75,6 +122,66 @@ export class FireflyApiClient {
     throw error;
   }
 
+  /**
+   * Record a write in the audit log. Audit failures are logged but never fail the write.
+   */
+  private audit(change: AuditChange): void {
+    try {
+      getAuditLog().record(change);
+    } catch (error) {
+      logger.error('Failed to record audit entry:', error);
+    }
+  }
+
+  /**
+   * Apply a write to the transaction mirror. Mirror failures are logged but never fail the write.
+   */
+  private updateMirror(change: (mirror: TransactionMirror, profileId: string) => void): void {
+    const mirrorProfileId = this.getMirrorProfileId();
+    if (!mirrorProfileId) return;
+    try {
+      change(getTransactionMirror(), mirrorProfileId);
+    } catch (error) {
+      logger.error('Failed to update transaction mirror:', error);
+    }
+  }
+
+  /**
+   * Read transactions from the mirror of a connection profile and keep it up to date
+   * with writes made through this client. Only for the shared client of the profile:
+   * clients of signed-in users may see different data.
+   */
+  useMirror(profileId: string): this {
+    this.mirrorProfileId = profileId;
+    return this;
+  }
+
+  /**
+   * Connection profile of the transaction mirror used by this client, if any
+   */
+  getMirrorProfileId(): string | null {
+    return config.mirror.enabled ? this.mirrorProfileId : null;
+  }
+
+  /**
+   * Record the creation or deletion of all splits of a transaction
+   */
+  private auditSplits(action: 'create' | 'delete', transaction: FireflyTransaction): void {
+    const verb = action === 'create' ? 'Created' : 'Deleted';
+    for (const split of transaction.attributes.transactions) {
+      const snapshot = toAuditSnapshot(split);
+      this.audit({
+        action,
+        resource: 'transaction',
+        resourceId: transaction.id,
+        journalId: split.transaction_journal_id,
+        summary: `${verb} ${split.type} "${split.description}" (${split.amount})`,
+        before: action === 'delete' ? snapshot : null,
+        after: action === 'create' ? snapshot : null,
+      });
+    }
+  }
+
   // ============ Transactions ============
 
   async getTransactions(
@@ -100,10 +207,32 @@ export class FireflyApiClient {
     }
   }
 
+  /**
+   * Get all transactions in a date range, from the transaction mirror if this client uses one
+   */
   async getAllTransactions(
     startDate?: string,
     endDate?: string,
     type?: string
+  ): Promise<FireflyTransaction[]> {
+    const mirrorProfileId = this.getMirrorProfileId();
+    if (mirrorProfileId) {
+      return getTransactionMirror().getTransactions(mirrorProfileId, this, {
+        startDate,
+        endDate,
+        type,
+      });
+    }
+    return this.fetchAllTransactions(startDate, endDate, type);
+  }
+
+  /**
+   * Download all transactions in a date range from Firefly III
+   */
+  async fetchAllTransactions(
+    startDate?: string,
+    endDate?: string,
+    type?: string
   ): Promise<FireflyTransaction[]> {
     const allTransactions: FireflyTransaction[] = [];
     let page = 1;
@@ -124,12 +253,61 @@ export class FireflyApiClient {
     return allTransactions;
   }
 
+  /**
+   * Count the transactions in a date range without downloading them
+   */
+  async countTransactions(startDate?: string, endDate?: string, type?: string): Promise<number> {
+    const response = await this.getTransactions(startDate, endDate, type, 1, 1);
+    return response.meta?.pagination?.total ?? response.data.length;
+  }
+
+  /**
+   * Get all transactions matching a Firefly III search query
+   */
+  async searchAllTransactions(query: string): Promise<FireflyTransaction[]> {
+    const allTransactions: FireflyTransaction[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      try {
+        const response = await this.client.get<FireflyApiResponse<FireflyTransaction[]>>(
+          '/search/transactions',
+          { params: { query, page, limit: 100 } }
+        );
+        allTransactions.push(...response.data.data);
+
+        const pagination = response.data.meta?.pagination;
+        if (pagination && pagination.current_page < pagination.total_pages) {
+          page++;
+        } else {
+          hasMore = false;
+        }
+      } catch (error) {
+        this.handleError(error);
+      }
+    }
+
+    return allTransactions;
+  }
+
   async getTransaction(id: string): Promise<FireflyTransaction> {
     try {
+      // Dry runs see their own changes
+      const dryRun = getDryRun();
+      if (dryRun?.isDeleted(id)) {
+        throw new Error('Firefly III resource not found.');
+      }
+      const planned = dryRun?.getPlanned(id);
+      if (planned) return planned;
+
       const response = await this.client.get<FireflyApiResponse<FireflyTransaction>>(
         `/transactions/${id}`
       );
-      return response.data.data;
+      const transaction = response.data.data;
+      // Keeps transactions reported by webhooks current without waiting for the next sync
+      this.updateMirror((mirror, profileId) => mirror.upsert(profileId, transaction));
+      return transaction;
     } catch (error) {
       this.handleError(error);
     }
@@ -139,12 +317,18 @@ export class FireflyApiClient {
     id: string,
     journalId: string,
     updates: {
-      category_id?: string;
-      category_name?: string;
+      // null clears the field
+      category_id?: string | null;
+      category_name?: string | null;
       tags?: string[];
       description?: string;
-      notes?: string;
-    }
+      notes?: string | null;
+      // Accounts are matched (or created) by name, replacing the current account
+      source_name?: string;
+      destination_name?: string;
+    } & Partial<
+      Pick<FireflyTransactionSplit, 'budget_id' | 'budget_name' | 'external_id' | FireflySepaField>
+    >
   ): Promise<FireflyTransaction> {
     try {
       // First get the current transaction to preserve other fields
@@ -165,21 +349,60 @@ export class FireflyApiClient {
             date: currentSplit.date,
             amount: currentSplit.amount,
             description: updates.description ?? currentSplit.description,
-            source_id: currentSplit.source_id,
-            destination_id: currentSplit.destination_id,
-            category_id: updates.category_id ?? currentSplit.category_id,
-            category_name: updates.category_name ?? currentSplit.category_name,
+            ...(updates.source_name !== undefined
+              ? { source_name: updates.source_name }
+              : { source_id: currentSplit.source_id }),
+            ...(updates.destination_name !== undefined
+              ? { destination_name: updates.destination_name }
+              : { destination_id: currentSplit.destination_id }),
+            category_id:
+              updates.category_id !== undefined ? updates.category_id : currentSplit.category_id,
+            category_name:
+              updates.category_name !== undefined
+                ? updates.category_name
+                : currentSplit.category_name,
             tags: updates.tags ?? currentSplit.tags,
-            notes: updates.notes ?? currentSplit.notes,
+            notes: updates.notes !== undefined ? updates.notes : currentSplit.notes,
+            ...Object.fromEntries(
+              OPTIONAL_UPDATE_FIELDS.filter((field) => updates[field] !== undefined).map(
+                (field) => [field, updates[field]]
+              )
+            ),
           },
+          ...getUnchangedSplits(current, journalId),
         ],
       };
 
+      const dryRun = getDryRun();
+      if (dryRun) return dryRun.update(current, journalId, updatePayload.transactions[0]);
+
       const response = await this.client.put<FireflyApiResponse<FireflyTransaction>>(
         `/transactions/${id}`,
         updatePayload
       );
-      return response.data.data;
+      const updated = response.data.data;
+
+      // category_id/category_name are reported as "category"
+      const changedFields = new Set(
+        Object.entries(updates)
+          .filter(([, value]) => value !== undefined)
+          .map(([key]) => key.replace(/_(id|name)$/, ''))
+      );
+      const updatedSplit = updated.attributes.transactions.find(
+        (t) => t.transaction_journal_id === journalId
+      );
+      this.audit({
+        action: 'update',
+        resource: 'transaction',
+        resourceId: id,
+        journalId,
+        summary: `Updated ${[...changedFields].join(', ')} of "${currentSplit.description}"`,
+        before: toAuditSnapshot(currentSplit),
+        after: updatedSplit ? toAuditSnapshot(updatedSplit) : null,
+      });
+      this.updateMirror((mirror, profileId) => mirror.upsert(profileId, updated));
+
+      return updated;
     } catch (error) {
       this.handleError(error);
     }
@@ -187,7 +410,18 @@ export class FireflyApiClient {
 
   async deleteTransaction(id: string): Promise<void> {
     try {
+      // Keep the current state for the audit log
+      const current = await this.getTransaction(id);
+
+      const dryRun = getDryRun();
+      if (dryRun) {
+        dryRun.delete(current);
+        return;
+      }
+
       await this.client.delete(`/transactions/${id}`);
+      this.auditSplits('delete', current);
+      this.updateMirror((mirror, profileId) => mirror.remove(profileId, id));
     } catch (error) {
       this.handleError(error);
     }
@@ -222,14 +456,40 @@ export class FireflyApiClient {
             destination_id: firstSplit.destination_id,
             tags: mergedTags,
           },
+          ...getUnchangedSplits(current, firstSplit.transaction_journal_id),
         ],
       };
 
+      const dryRun = getDryRun();
+      if (dryRun) {
+        return dryRun.update(
+          current,
+          firstSplit.transaction_journal_id,
+          updatePayload.transactions[0]
+        );
+      }
+
       const response = await this.client.put<FireflyApiResponse<FireflyTransaction>>(
         `/transactions/${id}`,
         updatePayload
       );
-      return response.data.data;
+      const updated = response.data.data;
+
+      const updatedSplit = updated.attributes.transactions.find(
+        (t) => t.transaction_journal_id === firstSplit.transaction_journal_id
+      );
+      this.audit({
+        action: 'update',
+        resource: 'transaction',
+        resourceId: id,
+        journalId: firstSplit.transaction_journal_id,
+        summary: `Added tags ${tagsToAdd.join(', ')} to "${firstSplit.description}"`,
+        before: toAuditSnapshot(firstSplit),
+        after: updatedSplit ? toAuditSnapshot(updatedSplit) : null,
+      });
+      this.updateMirror((mirror, profileId) => mirror.upsert(profileId, updated));
+
+      return updated;
     } catch (error) {
       this.handleError(error);
     }
@@ -279,11 +539,17 @@ export class FireflyApiClient {
     }>;
   }): Promise<FireflyTransaction> {
     try {
+      const dryRun = getDryRun();
+      if (dryRun) return dryRun.create(data.transactions);
+
       const response = await this.client.post<FireflyApiResponse<FireflyTransaction>>(
         '/transactions',
         data
       );
-      return response.data.data;
+      const created = response.data.data;
+      this.auditSplits('create', created);
+      this.updateMirror((mirror, profileId) => mirror.upsert(profileId, created));
+      return created;
     } catch (error) {
       this.handleError(error);
     }
@@ -488,7 +754,17 @@ export class FireflyApiClient {
         '/subscriptions',
         data
       );
-      return response.data.data;
+      const subscription = response.data.data;
+      this.audit({
+        action: 'create',
+        resource: 'subscription',
+        resourceId: subscription.id,
+        journalId: null,
+        summary: `Created subscription "${data.name}"`,
+        before: null,
+        after: toAuditSnapshot(subscription.attributes),
+      });
+      return subscription;
     } catch (error) {
       this.handleError(error);
     }
@@ -531,6 +807,28 @@ export class FireflyApiClient {
     return allGroups;
   }
 
+  async getAllRules(): Promise<FireflyRule[]> {
+    const allRules: FireflyRule[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = await this.client.get<FireflyApiResponse<FireflyRule[]>>('/rules', {
+        params: { page, limit: 100 },
+      });
+      allRules.push(...response.data.data);
+
+      const pagination = response.data.meta?.pagination;
+      if (pagination && pagination.current_page < pagination.total_pages) {
+        page++;
+      } else {
+        hasMore = false;
+      }
+    }
+
+    return allRules;
+  }
+
   async createRuleGroup(data: {
     title: string;
     description?: string;
@@ -542,7 +840,17 @@ export class FireflyApiClient {
         '/rule-groups',
         data
       );
-      return response.data.data;
+      const ruleGroup = response.data.data;
+      this.audit({
+        action: 'create',
+        resource: 'ruleGroup',
+        resourceId: ruleGroup.id,
+        journalId: null,
+        summary: `Created rule group "${data.title}"`,
+        before: null,
+        after: toAuditSnapshot(ruleGroup.attributes),
+      });
+      return ruleGroup;
     } catch (error) {
       this.handleError(error);
     }
@@ -575,7 +883,17 @@ export class FireflyApiClient {
   }): Promise<FireflyRule> {
     try {
       const response = await this.client.post<FireflyApiResponse<FireflyRule>>('/rules', data);
-      return response.data.data;
+      const rule = response.data.data;
+      this.audit({
+        action: 'create',
+        resource: 'rule',
+        resourceId: rule.id,
+        journalId: null,
+        summary: `Created rule "${data.title}"`,
+        before: null,
+        after: toAuditSnapshot(rule.attributes),
+      });
+      return rule;
     } catch (error) {
       this.handleError(error);
     }
@@ -658,6 +976,100 @@ export class FireflyApiClient {
 // Global instance that can be reinitialized
 let fireflyApiInstance: FireflyApiClient | null = null;
 
+// Shared instances of the other connection profiles, keyed by profile ID
+const profileApiInstances = new Map<string, FireflyApiClient>();
+
+/**
+ * Firefly API client of the current request: the selected connection profile,
+ * or the signed-in user's own account (Firefly III OAuth login)
+ */
+interface RequestFireflyApi {
+  client: FireflyApiClient;
+  profileId: string;
+  /** Firefly III account of the client, null for the token configured for the profile */
+  account: string | null;
+}
+
+const requestApiStorage = new AsyncLocalStorage<RequestFireflyApi>();
+
+/**
+ * Run a function with a request-specific Firefly API client. getFireflyApi()
+ * returns this client in the function and anything it awaits.
+ * Pass the account for clients using a user's own token (see getFireflyAccount).
+ */
+export function runWithFireflyApi<T>(
+  client: FireflyApiClient,
+  fn: () => T,
+  profileId: string = DEFAULT_FIREFLY_PROFILE_ID,
+  account: string | null = null
+): T {
+  return requestApiStorage.run({ client, profileId, account }, fn);
+}
+
+/**
+ * Key of the Firefly III account a user signed in with Firefly III OAuth
+ */
+export function getFireflyUserAccount(userId: string): string {
+  return `firefly:${userId}`;
+}
+
+/**
+ * Get the Firefly III account changes of the current request are written with:
+ * the signed-in user's own account (see getFireflyUserAccount), or null for the
+ * token configured for the connection profile, which all other users, scheduled
+ * runs, webhooks and the command line share
+ */
+export function getFireflyAccount(): string | null {
+  return requestApiStorage.getStore()?.account ?? null;
+}
+
+/**
+ * Check whether a Firefly API client is available: the request's own,
+ * or the shared one configured with FIREFLY_API_TOKEN
+ */
+export function isFireflyApiAvailable(): boolean {
+  return Boolean(requestApiStorage.getStore()) || isFireflyConfigured();
+}
+
+/**
+ * Get a connection profile by ID
+ */
+export function getFireflyProfile(id: string): FireflyProfile | undefined {
+  return config.firefly.profiles.find((profile) => profile.id === id);
+}
+
+/**
+ * Get the connection profile of the current request (the default profile
+ * outside of requests, e.g. for scheduled runs)
+ */
+export function getActiveFireflyProfile(): FireflyProfile {
+  const profileId = requestApiStorage.getStore()?.profileId ?? DEFAULT_FIREFLY_PROFILE_ID;
+  return getFireflyProfile(profileId) ?? config.firefly.profiles[0];
+}
+
+/**
+ * Firefly III book data belongs to: the connection profile and the account
+ * within it (see getFireflyAccount)
+ */
+export interface FireflyOwner {
+  profileId: string;
+  account: string | null;
+}
+
+/**
+ * Get the Firefly III book the current request works with
+ */
+export function getFireflyOwner(): FireflyOwner {
+  return { profileId: getActiveFireflyProfile().id, account: getFireflyAccount() };
+}
+
+/**
+ * Check whether two owners are the same Firefly III book
+ */
+export function isSameFireflyOwner(a: FireflyOwner, b: FireflyOwner): boolean {
+  return a.profileId === b.profileId && a.account === b.account;
+}
+
 /**
  * Error thrown when Firefly III is not configured.
  */
@@ -671,15 +1083,40 @@ export class FireflyNotConfiguredError extends Error {
 }
 
 /**
- * Get the shared Firefly API client instance.
- * @throws {FireflyNotConfiguredError} if apiUrl or apiToken is missing from config
+ * Get the Firefly API client: the request's own client (selected profile or
+ * signed-in user's account), otherwise the shared instance.
+ * @throws {FireflyNotConfiguredError} if there is no request client and apiUrl or apiToken is missing from config
  */
 export function getFireflyApi(): FireflyApiClient {
+  return requestApiStorage.getStore()?.client ?? getSharedFireflyApi();
+}
+
+/**
+ * Get the shared Firefly API client instance of a connection profile
+ * (the default profile is configured with FIREFLY_API_TOKEN).
+ * @throws {FireflyNotConfiguredError} if the profile is unknown or its apiUrl or apiToken is missing
+ */
+export function getSharedFireflyApi(
+  profileId: string = DEFAULT_FIREFLY_PROFILE_ID
+): FireflyApiClient {
+  if (profileId !== DEFAULT_FIREFLY_PROFILE_ID) {
+    const profile = getFireflyProfile(profileId);
+    if (!profile?.apiUrl || !profile.apiToken) {
+      throw new FireflyNotConfiguredError();
+    }
+    let instance = profileApiInstances.get(profileId);
+    if (!instance) {
+      instance = new FireflyApiClient(profile.apiUrl, profile.apiToken).useMirror(profileId);
+      profileApiInstances.set(profileId, instance);
+    }
+    return instance;
+  }
+
   if (!config.firefly.apiUrl || !config.firefly.apiToken) {
     throw new FireflyNotConfiguredError();
   }
   if (!fireflyApiInstance) {
-    fireflyApiInstance = new FireflyApiClient();
+    fireflyApiInstance = new FireflyApiClient().useMirror(DEFAULT_FIREFLY_PROFILE_ID);
   }
   return fireflyApiInstance;
 }
@@ -692,7 +1129,8 @@ export function reinitializeFireflyApi(): FireflyApiClient {
   if (!config.firefly.apiUrl || !config.firefly.apiToken) {
     throw new FireflyNotConfiguredError();
   }
-  fireflyApiInstance = new FireflyApiClient();
+  profileApiInstances.clear();
+  fireflyApiInstance = new FireflyApiClient().useMirror(DEFAULT_FIREFLY_PROFILE_ID);
   return fireflyApiInstance;
 }
 
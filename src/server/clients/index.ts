@@ -14,3 +14,4 @@ export {
   testAIConnection,
 } from './ai.js';
 export { FinTSClient, KNOWN_BANKS } from './fints/index.js';
+export { RedisClient, RedisError, parseRedisUrl, type RedisReply } from './redis.js';
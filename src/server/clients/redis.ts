@@ -0,0 +1,283 @@
+/**
+ * Minimal Redis Client
+ *
+ * Speaks the Redis serialization protocol (RESP2) over a single TCP or TLS
+ * connection. Covers the plain key/value commands used by the shared store and
+ * works with any Redis-compatible server (Redis, Valkey, KeyDB, Dragonfly).
+ * Commands are pipelined; the connection is opened lazily and re-opened on the
+ * next command after it was lost.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('RedisClient');
+
+/** Time allowed for establishing a connection */
+const CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * A decoded RESP reply (bulk and simple strings, integers, nil and arrays)
+ */
+export type RedisReply = string | number | null | RedisReply[];
+
+/**
+ * Error reply from the server, or a connection failure
+ */
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+/**
+ * Connection settings parsed from a redis:// or rediss:// URL
+ */
+export interface RedisConnectionOptions {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  /** Logical database selected after connecting */
+  database: number;
+  /** Connect with TLS (rediss://) */
+  tls: boolean;
+}
+
+interface PendingReply {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+interface ParsedReply {
+  reply: RedisReply | RedisError;
+  /** Offset just past the reply */
+  end: number;
+}
+
+/**
+ * Parse a connection URL such as redis://:password@host:6379/0
+ */
+export function parseRedisUrl(url: string): RedisConnectionOptions {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'redis:' && parsed.protocol !== 'rediss:') {
+    throw new RedisError(`Unsupported Redis URL protocol "${parsed.protocol}"`);
+  }
+
+  const database = parseInt(parsed.pathname.replace(/^\//, '') || '0', 10);
+  return {
+    host: parsed.hostname || 'localhost',
+    port: parsed.port ? parseInt(parsed.port, 10) : 6379,
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    database: Number.isFinite(database) ? database : 0,
+    tls: parsed.protocol === 'rediss:',
+  };
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+/**
+ * Parse one reply starting at the offset, or return null if the buffer
+ * does not hold the complete reply yet
+ */
+export function parseReply(buffer: Buffer, start = 0): ParsedReply | null {
+  const lineEnd = buffer.indexOf('\r\n', start);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[start]);
+  const line = buffer.toString('utf8', start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, end: next };
+    case '-':
+      return { reply: new RedisError(line), end: next };
+    case ':':
+      return { reply: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { reply: null, end: next };
+      if (buffer.length < next + length + 2) return null;
+      return { reply: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { reply: null, end: next };
+
+      const items: RedisReply[] = [];
+      let offset = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, offset);
+        if (!item) return null;
+        if (item.reply instanceof RedisError) return { reply: item.reply, end: item.end };
+        items.push(item.reply);
+        offset = item.end;
+      }
+      return { reply: items, end: offset };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type "${type}"`);
+  }
+}
+
+/**
+ * Client for a single Redis-compatible server
+ */
+export class RedisClient {
+  private options: RedisConnectionOptions;
+  private socket: net.Socket | null = null;
+  private connecting: Promise<void> | null = null;
+  private pending: PendingReply[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(options: RedisConnectionOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Create a client from a redis:// or rediss:// URL
+   */
+  static fromUrl(url: string): RedisClient {
+    return new RedisClient(parseRedisUrl(url));
+  }
+
+  /**
+   * Send a command and wait for its reply
+   * @throws {RedisError} on error replies and connection failures
+   */
+  async command(...args: Array<string | number>): Promise<RedisReply> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  /**
+   * Close the connection, failing commands still waiting for a reply
+   */
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    this.failPending(new RedisError('Connection closed'));
+    if (socket) {
+      await new Promise<void>((resolve) => socket.end(resolve));
+    }
+  }
+
+  private send(args: Array<string | number>): Promise<RedisReply> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new RedisError('Not connected'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (this.socket) return Promise.resolve();
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<void> {
+    const { host, port, username, password, database } = this.options;
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connection = this.options.tls
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+
+      const onError = (error: Error) => {
+        connection.destroy();
+        reject(new RedisError(`Could not connect to ${host}:${port}: ${error.message}`));
+      };
+      connection.setTimeout(CONNECT_TIMEOUT_MS, () => onError(new Error('timed out')));
+      connection.once('error', onError);
+      connection.once(this.options.tls ? 'secureConnect' : 'connect', () => {
+        connection.setTimeout(0);
+        connection.off('error', onError);
+        resolve(connection);
+      });
+    });
+
+    socket.setKeepAlive(true);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('error', (error) => logger.warn(`Connection error: ${error.message}`));
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null;
+        this.failPending(new RedisError('Connection lost'));
+      }
+    });
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    logger.debug(`Connected to ${host}:${port}`);
+
+    try {
+      if (password) {
+        await this.send(username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+      if (database) {
+        await this.send(['SELECT', database]);
+      }
+    } catch (error) {
+      this.socket = null;
+      socket.destroy();
+      throw error;
+    }
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    try {
+      let parsed = parseReply(this.buffer, offset);
+      while (parsed) {
+        offset = parsed.end;
+        const pending = this.pending.shift();
+        if (parsed.reply instanceof RedisError) {
+          pending?.reject(parsed.reply);
+        } else {
+          pending?.resolve(parsed.reply);
+        }
+        parsed = offset < this.buffer.length ? parseReply(this.buffer, offset) : null;
+      }
+    } catch (error) {
+      // Out of sync with the server; drop the connection so it is re-opened
+      logger.error('Failed to parse reply:', error);
+      this.socket?.destroy();
+      return;
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private failPending(error: RedisError): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const { reject } of pending) {
+      reject(error);
+    }
+  }
+}
@@ -8,31 +8,55 @@ const __dirname = path.dirname(__filename);
 // Find .env file - works in both dev (src/server/config) and prod (dist/server/config)
 // In dev with tsx: __dirname is src/server/config, .env is at project root (3 levels up)
 // In prod: __dirname is dist/server/config, .env is at project root (3 levels up)
-// Use debug: false to suppress dotenv promotional messages in production
+// Use quiet: true to suppress dotenv promotional messages (they would end up in CLI output)
 const envPath = path.resolve(__dirname, '../../../.env');
-dotenv.config({ path: envPath, debug: false });
+dotenv.config({ path: envPath, quiet: true });
 
 // Also try loading from current working directory as fallback
-dotenv.config({ debug: false });
+dotenv.config({ quiet: true });
 
 import type { AuthMethod } from '../../shared/types/auth.js';
+import type { WebhookAction } from '../../shared/types/app.js';
 import crypto from 'crypto';
 
 export type AIProvider = 'openai' | 'ollama' | 'none';
 
+export type StorageBackend = 'sqlite' | 'memory';
+export type SharedStoreBackend = 'memory' | 'redis';
+
+export interface NumberFormat {
+  locale: string;
+  decimalSeparator: string;
+  thousandsSeparator: string;
+}
+
+/** ID of the profile configured with FIREFLY_API_URL and FIREFLY_API_TOKEN */
+export const DEFAULT_FIREFLY_PROFILE_ID = 'default';
+
+/**
+ * Named connection to a Firefly III instance
+ */
+export interface FireflyProfile {
+  id: string;
+  name: string;
+  apiUrl: string;
+  apiToken: string;
+  numberFormat: NumberFormat;
+  /** Secret of the Firefly III webhook sending to this profile (empty = receiver disabled) */
+  webhookSecret: string;
+}
+
 export interface Config {
   port: number;
   nodeEnv: string;
   corsOrigins: string[];
   appUrl: string;
-  numberFormat: {
-    locale: string;
-    decimalSeparator: string;
-    thousandsSeparator: string;
-  };
+  numberFormat: NumberFormat;
   firefly: {
     apiUrl: string;
     apiToken: string;
+    /** All connection profiles, the default profile first */
+    profiles: FireflyProfile[];
   };
   ai: {
     provider: AIProvider;
@@ -43,6 +67,59 @@ export interface Config {
   fints: {
     productId: string;
   };
+  storage: {
+    /** Persistence backend for session data */
+    backend: StorageBackend;
+    /** Directory for persistent data files (SQLite database) */
+    dataDir: string;
+    /** Per-store retention overrides in milliseconds (0 = same as in-memory TTL) */
+    retention: {
+      amazonUploadsMs: number;
+      paypalUploadsMs: number;
+    };
+  };
+  sharedStore: {
+    /** Store for state shared between server instances (sessions, rate limits) */
+    backend: SharedStoreBackend;
+    /** Connection URL of the Redis-compatible server */
+    redisUrl: string;
+    /** Prefix for all keys written to Redis */
+    keyPrefix: string;
+  };
+  jobs: {
+    /** How long finished background jobs and their results are kept (ms) */
+    retentionMs: number;
+  };
+  scheduler: {
+    /** Whether scheduled automations run in this instance */
+    enabled: boolean;
+    /** IANA time zone for cron expressions (empty = server time zone) */
+    timezone: string;
+  };
+  audit: {
+    /** How long audit log entries are kept (ms, 0 = forever) */
+    retentionMs: number;
+  };
+  metrics: {
+    /** Bearer token required for /api/metrics (empty = no token required) */
+    token: string;
+  };
+  mirror: {
+    /** Keep a local copy of the transactions of each connection profile */
+    enabled: boolean;
+    /** Age after which reading the local copy syncs it with Firefly III first (ms) */
+    maxAgeMs: number;
+  };
+  webhooks: {
+    /** Actions run on transactions reported by Firefly III webhooks */
+    actions: WebhookAction[];
+    /** Apply suggestions and matches automatically */
+    autoApply: boolean;
+    /** Minimum confidence for automatically applied suggestions and matches */
+    autoApplyMinConfidence: number;
+    /** Number of days before a new transaction searched for duplicates */
+    duplicateLookbackDays: number;
+  };
   // Legacy openai config for backward compatibility
   openai: {
     apiKey: string;
@@ -127,6 +204,94 @@ function getAIModel(provider: AIProvider): string {
 
 const detectedProvider = detectAIProvider();
 
+function getStorageBackend(): StorageBackend {
+  const backend = getOptionalEnvVar('STORAGE_BACKEND', 'sqlite').toLowerCase();
+  return backend === 'memory' ? 'memory' : 'sqlite';
+}
+
+function getSharedStoreBackend(): SharedStoreBackend {
+  const backend = getOptionalEnvVar('SHARED_STORE', 'memory').toLowerCase();
+  return backend === 'redis' ? 'redis' : 'memory';
+}
+
+/**
+ * Parse a retention period given in hours into milliseconds (0 if unset or invalid)
+ */
+function getRetentionMs(key: string): number {
+  const hours = parseFloat(getOptionalEnvVar(key, '0'));
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+/**
+ * Parse the Firefly III connection profiles. The default profile comes from
+ * FIREFLY_API_URL/FIREFLY_API_TOKEN; FIREFLY_PROFILES lists the IDs of further
+ * profiles configured with FIREFLY_PROFILE_<ID>_* variables.
+ */
+function parseFireflyProfiles(numberFormat: NumberFormat): FireflyProfile[] {
+  const defaultProfile: FireflyProfile = {
+    id: DEFAULT_FIREFLY_PROFILE_ID,
+    name: getOptionalEnvVar('FIREFLY_PROFILE_NAME', 'Firefly III'),
+    apiUrl: getOptionalEnvVar('FIREFLY_API_URL', ''),
+    apiToken: getOptionalEnvVar('FIREFLY_API_TOKEN', ''),
+    numberFormat,
+    webhookSecret: getOptionalEnvVar('FIREFLY_WEBHOOK_SECRET', ''),
+  };
+
+  const ids = getOptionalEnvVar('FIREFLY_PROFILES', '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(
+      (id, index, all) => id && id !== DEFAULT_FIREFLY_PROFILE_ID && all.indexOf(id) === index
+    );
+
+  return [
+    defaultProfile,
+    ...ids.map((id) => {
+      const prefix = `FIREFLY_PROFILE_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+      return {
+        id,
+        name: getOptionalEnvVar(`${prefix}NAME`, id),
+        apiUrl: getOptionalEnvVar(`${prefix}API_URL`, ''),
+        apiToken: getOptionalEnvVar(`${prefix}API_TOKEN`, ''),
+        numberFormat: {
+          locale: getOptionalEnvVar(`${prefix}NUMBER_FORMAT_LOCALE`, numberFormat.locale),
+          decimalSeparator: getOptionalEnvVar(
+            `${prefix}NUMBER_FORMAT_DECIMAL`,
+            numberFormat.decimalSeparator
+          ),
+          thousandsSeparator: getOptionalEnvVar(
+            `${prefix}NUMBER_FORMAT_THOUSANDS`,
+            numberFormat.thousandsSeparator
+          ),
+        },
+        webhookSecret: getOptionalEnvVar(`${prefix}WEBHOOK_SECRET`, ''),
+      };
+    }),
+  ];
+}
+
+const WEBHOOK_ACTIONS: WebhookAction[] = ['amazon', 'paypal', 'categories', 'tags', 'duplicates'];
+
+/**
+ * Parse the WEBHOOK_ACTIONS env var (all actions if unset), keeping the order
+ * in which actions run
+ */
+function parseWebhookActions(): WebhookAction[] {
+  const actionsVar = getOptionalEnvVar('WEBHOOK_ACTIONS', '');
+  if (!actionsVar) return WEBHOOK_ACTIONS;
+
+  const enabled = actionsVar.split(',').map((a) => a.trim().toLowerCase());
+  return WEBHOOK_ACTIONS.filter((action) => enabled.includes(action));
+}
+
+/**
+ * Parse a number env var, falling back to the default if unset or invalid
+ */
+function getNumberEnvVar(key: string, defaultValue: number): number {
+  const value = parseFloat(getOptionalEnvVar(key, ''));
+  return Number.isFinite(value) ? value : defaultValue;
+}
+
 /**
  * Parse the AUTH_METHODS env var into an array of enabled auth methods.
  * Returns empty array if not set (meaning auto-detect all configured methods).
@@ -248,6 +413,12 @@ function normalizeCorsOrigins(rawOrigins: string, appUrl: string): string[] {
 
 const appUrl = getOptionalEnvVar('APP_URL', 'http://localhost:3000');
 
+const numberFormat: NumberFormat = {
+  locale: getOptionalEnvVar('NUMBER_FORMAT_LOCALE', 'en-US'),
+  decimalSeparator: getOptionalEnvVar('NUMBER_FORMAT_DECIMAL', '.'),
+  thousandsSeparator: getOptionalEnvVar('NUMBER_FORMAT_THOUSANDS', ','),
+};
+
 export const config: Config = {
   port: parseInt(getEnvVar('PORT', '3000'), 10),
   nodeEnv: getEnvVar('NODE_ENV', 'development'),
@@ -256,14 +427,11 @@ export const config: Config = {
     getEnvVar('CORS_ORIGINS', 'http://localhost:5173,http://localhost:3000'),
     appUrl
   ),
-  numberFormat: {
-    locale: getOptionalEnvVar('NUMBER_FORMAT_LOCALE', 'en-US'),
-    decimalSeparator: getOptionalEnvVar('NUMBER_FORMAT_DECIMAL', '.'),
-    thousandsSeparator: getOptionalEnvVar('NUMBER_FORMAT_THOUSANDS', ','),
-  },
+  numberFormat,
   firefly: {
     apiUrl: getOptionalEnvVar('FIREFLY_API_URL', ''),
     apiToken: getOptionalEnvVar('FIREFLY_API_TOKEN', ''),
+    profiles: parseFireflyProfiles(numberFormat),
   },
   ai: {
     provider: detectedProvider,
@@ -275,6 +443,43 @@ export const config: Config = {
     // FinTS product registration ID - register at https://www.hbci-zka.de/register/hersteller.htm
     productId: getOptionalEnvVar('FINTS_PRODUCT_ID', ''),
   },
+  storage: {
+    backend: getStorageBackend(),
+    dataDir: getOptionalEnvVar('DATA_DIR', './data'),
+    retention: {
+      amazonUploadsMs: getRetentionMs('AMAZON_UPLOAD_RETENTION_HOURS'),
+      paypalUploadsMs: getRetentionMs('PAYPAL_UPLOAD_RETENTION_HOURS'),
+    },
+  },
+  sharedStore: {
+    backend: getSharedStoreBackend(),
+    redisUrl: getOptionalEnvVar('REDIS_URL', 'redis://localhost:6379'),
+    keyPrefix: getOptionalEnvVar('REDIS_KEY_PREFIX', 'firefly-toolbox:'),
+  },
+  jobs: {
+    retentionMs: getRetentionMs('JOB_RETENTION_HOURS') || 60 * 60 * 1000,
+  },
+  scheduler: {
+    enabled: getOptionalEnvVar('SCHEDULER_ENABLED', 'true').toLowerCase() !== 'false',
+    timezone: getOptionalEnvVar('SCHEDULER_TIMEZONE', ''),
+  },
+  audit: {
+    // Given in days rather than hours
+    retentionMs: getRetentionMs('AUDIT_RETENTION_DAYS') * 24,
+  },
+  metrics: {
+    token: getOptionalEnvVar('METRICS_TOKEN', ''),
+  },
+  mirror: {
+    enabled: getOptionalEnvVar('TRANSACTION_MIRROR_ENABLED', 'true').toLowerCase() !== 'false',
+    maxAgeMs: getNumberEnvVar('TRANSACTION_MIRROR_MAX_AGE_MINUTES', 5) * 60 * 1000,
+  },
+  webhooks: {
+    actions: parseWebhookActions(),
+    autoApply: getOptionalEnvVar('WEBHOOK_AUTO_APPLY', 'false').toLowerCase() === 'true',
+    autoApplyMinConfidence: getNumberEnvVar('WEBHOOK_AUTO_APPLY_MIN_CONFIDENCE', 0.9),
+    duplicateLookbackDays: getNumberEnvVar('WEBHOOK_DUPLICATE_LOOKBACK_DAYS', 7),
+  },
   // Legacy support
   openai: {
     apiKey: getOptionalEnvVar('OPENAI_API_KEY', ''),
@@ -376,7 +581,27 @@ export function validateConfig(): { valid: boolean; errors: string[]; warnings:
   }
 
   if (!config.firefly.apiToken) {
-    errors.push('FIREFLY_API_TOKEN is not configured');
+    if (isFireflyOAuthConfigured()) {
+      // Users signed in with Firefly III use their own tokens
+      warnings.push(
+        'FIREFLY_API_TOKEN is not configured - only users signed in with Firefly III can use the tools, and scheduled automations are disabled'
+      );
+    } else {
+      errors.push('FIREFLY_API_TOKEN is not configured');
+    }
+  }
+
+  for (const profile of config.firefly.profiles.slice(1)) {
+    if (!profile.apiUrl || !profile.apiToken) {
+      errors.push(`Firefly III profile "${profile.id}" needs an API URL and an API token`);
+    }
+  }
+
+  if (
+    config.sharedStore.backend === 'redis' &&
+    !/^rediss?:\/\//.test(config.sharedStore.redisUrl)
+  ) {
+    errors.push('REDIS_URL must be a redis:// or rediss:// URL when SHARED_STORE=redis');
   }
 
   // Production security enforcement (FS-SEC-001)
@@ -2,7 +2,7 @@ import express from 'express';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { config, validateConfig } from './config/index.js';
+import { config, validateConfig, isFireflyConfigured } from './config/index.js';
 import { loggers } from './utils/logger.js';
 import {
   errorHandler,
@@ -10,9 +10,20 @@ import {
   csrfProtection,
   csrfTokenCookie,
   configureSecurityMiddleware,
+  correlationId,
+  requestMetrics,
 } from './middleware/index.js';
-import { startCleanupInterval, stopCleanupInterval } from './services/index.js';
+import {
+  startCleanupInterval,
+  stopCleanupInterval,
+  closePersistenceBackend,
+  closeSharedStore,
+  getScheduler,
+  getWebhookProcessor,
+} from './services/index.js';
 import routes from './routes/index.js';
+import metricsRoutes from './routes/metrics.js';
+import webhookReceiverRoutes from './routes/webhookReceiver.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -47,14 +58,29 @@ const app = express();
 // Must be configured before other middleware
 configureSecurityMiddleware(app);
 
+// Correlation ID for every request (X-Request-Id header, attached to log messages)
+app.use(correlationId);
+
 // CORS configuration
 app.use(
   cors({
     origin: config.corsOrigins,
     credentials: true,
+    exposedHeaders: ['X-Request-Id'],
   })
 );
 
+// Request counts and latencies for the metrics endpoint
+app.use('/api', requestMetrics);
+
+// Prometheus metrics, mounted before the session middleware so scrapes do not
+// create sessions; guarded by its own bearer token instead of user auth
+app.use('/api/metrics', metricsRoutes);
+
+// Firefly III webhooks, also before the session middleware: Firefly III has no
+// session or CSRF token and signs its messages instead
+app.use('/api/webhooks', webhookReceiverRoutes);
+
 // Session middleware (must be before routes)
 app.use(createSessionMiddleware());
 
@@ -116,13 +142,28 @@ const server = app.listen(config.port, () => {
 
   // Start session store cleanup interval
   startCleanupInterval();
+
+  // Start scheduled automations (they use the server's Firefly III API token)
+  if (!config.scheduler.enabled) {
+    loggers.server.info('Scheduler: disabled');
+  } else if (isFireflyConfigured()) {
+    getScheduler().start();
+  } else {
+    loggers.server.warn('Scheduler: not started (Firefly III API not configured)');
+  }
+
+  // Pick up webhook deliveries interrupted by the last shutdown
+  getWebhookProcessor().resume();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   loggers.server.info('SIGTERM received, shutting down gracefully...');
   stopCleanupInterval();
-  server.close(() => {
+  getScheduler().stop();
+  server.close(async () => {
+    closePersistenceBackend();
+    await closeSharedStore().catch(() => {});
     loggers.server.info('Server closed');
     process.exit(0);
   });
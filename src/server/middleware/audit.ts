@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { getCurrentUser } from './auth.js';
+import { runWithAuditContext } from '../services/auditLog.js';
+import type { AuditTool } from '../../shared/types/app.js';
+
+/**
+ * Attribute changes written to Firefly III while handling the request to the
+ * signed-in user and the given tool in the audit log.
+ */
+export function auditContext(tool: AuditTool): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const user = getCurrentUser(req);
+    runWithAuditContext({ user: user?.username ?? null, tool }, () => next());
+  };
+}
@@ -4,6 +4,9 @@ import createMemoryStore from 'memorystore';
 import { config, isAuthRequired } from '../config/index.js';
 import { shouldUseSecureCookies } from './security.js';
 import { createLogger } from '../utils/logger.js';
+import { getPersistenceBackend, type PersistenceBackend } from '../services/persistence.js';
+import { getSharedStore, type SharedStore } from '../services/sharedStore.js';
+import type { FireflyOAuthTokens } from '../services/fireflyOAuth.js';
 import type { AuthUser } from '../../shared/types/auth.js';
 
 const logger = createLogger('AuthMiddleware');
@@ -11,6 +14,158 @@ const logger = createLogger('AuthMiddleware');
 // Create production-ready memory store (auto-prunes expired sessions)
 const MemoryStore = createMemoryStore(session);
 
+/** Persistence namespace for Express sessions */
+const SESSION_NAMESPACE = 'sessions';
+
+/**
+ * Express session store backed by the persistence backend, so logins
+ * (and the session IDs that key per-session data) survive restarts.
+ */
+export class PersistentSessionStore extends session.Store {
+  private backend: PersistenceBackend;
+  private maxAgeMs: number;
+
+  constructor(maxAgeMs: number, backend: PersistenceBackend = getPersistenceBackend()) {
+    super();
+    this.maxAgeMs = maxAgeMs;
+    this.backend = backend;
+
+    // Prune expired sessions periodically without keeping the process alive
+    const pruneInterval = setInterval(() => this.prune(), Math.min(maxAgeMs, 60 * 60 * 1000));
+    pruneInterval.unref();
+  }
+
+  get(sid: string, callback: (err: unknown, session?: session.SessionData | null) => void): void {
+    try {
+      const record = this.backend.get(SESSION_NAMESPACE, sid);
+      if (!record) {
+        return callback(null, null);
+      }
+
+      const sessionData = JSON.parse(record.value) as session.SessionData;
+      if (this.isExpired(sessionData, record.lastAccessed)) {
+        this.backend.delete(SESSION_NAMESPACE, sid);
+        return callback(null, null);
+      }
+      callback(null, sessionData);
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  set(sid: string, sessionData: session.SessionData, callback?: (err?: unknown) => void): void {
+    try {
+      this.backend.set(SESSION_NAMESPACE, sid, JSON.stringify(sessionData));
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  touch(sid: string, sessionData: session.SessionData, callback?: () => void): void {
+    // Rewrite so the stored cookie expiry matches the rolling expiry
+    this.set(sid, sessionData, () => callback?.());
+  }
+
+  destroy(sid: string, callback?: (err?: unknown) => void): void {
+    try {
+      this.backend.delete(SESSION_NAMESPACE, sid);
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  clear(callback?: (err?: unknown) => void): void {
+    try {
+      this.backend.clear(SESSION_NAMESPACE);
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  length(callback: (err: unknown, length?: number) => void): void {
+    try {
+      callback(null, this.backend.count(SESSION_NAMESPACE));
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  /**
+   * Remove sessions that have not been saved or touched within maxAge
+   */
+  prune(): number {
+    const removed = this.backend.deleteOlderThan(SESSION_NAMESPACE, Date.now() - this.maxAgeMs);
+    if (removed > 0) {
+      logger.debug(`Pruned ${removed} expired sessions`);
+    }
+    return removed;
+  }
+
+  private isExpired(sessionData: session.SessionData, lastAccessed: number): boolean {
+    const expires = sessionData.cookie?.expires;
+    if (expires) {
+      return new Date(expires).getTime() <= Date.now();
+    }
+    return Date.now() - lastAccessed > this.maxAgeMs;
+  }
+}
+
+/** Shared store key prefix for Express sessions */
+const SHARED_SESSION_PREFIX = 'sessions:';
+
+/**
+ * Express session store backed by the shared store (SHARED_STORE=redis), so all
+ * server instances behind a load balancer see the same logins and CSRF tokens.
+ * Expiry is left to the store, using the cookie expiry as time-to-live.
+ */
+export class SharedSessionStore extends session.Store {
+  private store: SharedStore;
+  private maxAgeMs: number;
+
+  constructor(maxAgeMs: number, store: SharedStore = getSharedStore()) {
+    super();
+    this.maxAgeMs = maxAgeMs;
+    this.store = store;
+  }
+
+  get(sid: string, callback: (err: unknown, session?: session.SessionData | null) => void): void {
+    this.store
+      .get(SHARED_SESSION_PREFIX + sid)
+      .then((value) => callback(null, value ? (JSON.parse(value) as session.SessionData) : null))
+      .catch((error) => callback(error));
+  }
+
+  set(sid: string, sessionData: session.SessionData, callback?: (err?: unknown) => void): void {
+    this.store
+      .set(SHARED_SESSION_PREFIX + sid, JSON.stringify(sessionData), this.getTtl(sessionData))
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  touch(sid: string, sessionData: session.SessionData, callback?: () => void): void {
+    // Only extend the expiry; rewriting could undo changes made by another instance
+    this.store
+      .expire(SHARED_SESSION_PREFIX + sid, this.getTtl(sessionData))
+      .catch((error) => logger.warn('Failed to extend session expiry:', error))
+      .finally(() => callback?.());
+  }
+
+  destroy(sid: string, callback?: (err?: unknown) => void): void {
+    this.store
+      .delete(SHARED_SESSION_PREFIX + sid)
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  private getTtl(sessionData: session.SessionData): number {
+    const expires = sessionData.cookie?.expires;
+    return expires ? new Date(expires).getTime() - Date.now() : this.maxAgeMs;
+  }
+}
+
 // Extend Express Request with session data
 declare module 'express-session' {
   interface SessionData {
@@ -19,6 +174,10 @@ declare module 'express-session' {
     oauthState?: string;
     /** OIDC code verifier for PKCE */
     codeVerifier?: string;
+    /** Tokens of users signed in with Firefly III, used for their API calls */
+    fireflyTokens?: FireflyOAuthTokens;
+    /** Selected Firefly III connection profile (unset = default profile) */
+    fireflyProfile?: string;
   }
 }
 
@@ -27,7 +186,10 @@ declare module 'express-session' {
  * In production, AUTH_SESSION_SECRET must be explicitly set.
  * Cookie secure flag is set based on APP_URL scheme (https = secure).
  *
- * Uses memorystore instead of the default MemoryStore to:
+ * With SHARED_STORE=redis, sessions are kept in Redis so they are shared
+ * between server instances. With STORAGE_BACKEND=sqlite, sessions are stored
+ * in the persistence database so they survive restarts. Otherwise uses
+ * memorystore instead of the default MemoryStore to:
  * - Automatically prune expired sessions (prevents memory leaks)
  * - Avoid the "MemoryStore is not designed for production" warning
  */
@@ -57,9 +219,7 @@ export function createSessionMiddleware() {
     name: 'firefly_toolbox_session',
     resave: false,
     saveUninitialized: false,
-    store: new MemoryStore({
-      checkPeriod: sessionMaxAge, // Prune expired sessions every 24 hours
-    }),
+    store: createSessionStore(sessionMaxAge),
     cookie: {
       secure: useSecureCookies,
       httpOnly: true,
@@ -69,6 +229,21 @@ export function createSessionMiddleware() {
   });
 }
 
+/**
+ * Pick the session store for the configured shared store and storage backend
+ */
+function createSessionStore(sessionMaxAge: number): session.Store {
+  if (config.sharedStore.backend === 'redis') {
+    return new SharedSessionStore(sessionMaxAge);
+  }
+  if (config.storage.backend === 'sqlite') {
+    return new PersistentSessionStore(sessionMaxAge);
+  }
+  return new MemoryStore({
+    checkPeriod: sessionMaxAge, // Prune expired sessions every 24 hours
+  });
+}
+
 /**
  * Middleware to require authentication on protected routes
  */
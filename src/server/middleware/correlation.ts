@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  CORRELATION_ID_HEADER,
+  resolveCorrelationId,
+  runWithCorrelationId,
+} from '../utils/correlation.js';
+
+/**
+ * Assign the request a correlation ID (or adopt the one set by a reverse proxy),
+ * return it in the X-Request-Id header and handle the request with it so every
+ * message logged along the way can be traced back to the request.
+ */
+export function correlationId(req: Request, res: Response, next: NextFunction): void {
+  const id = resolveCorrelationId(req.headers[CORRELATION_ID_HEADER]);
+  res.setHeader(CORRELATION_ID_HEADER, id);
+  runWithCorrelationId(id, () => next());
+}
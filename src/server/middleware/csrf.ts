@@ -26,7 +26,8 @@ function generateCsrfToken(): string {
 
 /**
  * Get or create CSRF token for the session.
- * Token is stored in the session and returned for use by the client.
+ * Token is stored in the session (shared between instances with SHARED_STORE=redis)
+ * and returned for use by the client.
  */
 export function getOrCreateCsrfToken(req: Request): string {
   if (!req.session.csrfToken) {
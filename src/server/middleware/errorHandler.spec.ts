@@ -4,12 +4,16 @@ import {
   AppError,
   badRequest,
   unauthorized,
+  forbidden,
   notFound,
+  conflict,
+  tooManyRequests,
   internalError,
   errorHandler,
   asyncHandler,
   setupSSE,
 } from './errorHandler.js';
+import { runWithCorrelationId } from '../utils/correlation.js';
 
 // Mock the config module
 vi.mock('../config/index.js', () => ({
@@ -76,6 +80,14 @@ describe('error factory functions', () => {
     });
   });
 
+  describe('forbidden', () => {
+    it('should create 403 error with default message', () => {
+      const error = forbidden();
+      expect(error.statusCode).toBe(403);
+      expect(error.message).toBe('Forbidden');
+    });
+  });
+
   describe('notFound', () => {
     it('should create 404 error with default message', () => {
       const error = notFound();
@@ -89,6 +101,23 @@ describe('error factory functions', () => {
     });
   });
 
+  describe('conflict', () => {
+    it('should create 409 error with message', () => {
+      const error = conflict('Name already exists');
+      expect(error.statusCode).toBe(409);
+      expect(error.message).toBe('Name already exists');
+      expect(error.isOperational).toBe(true);
+    });
+  });
+
+  describe('tooManyRequests', () => {
+    it('should create 429 error with message', () => {
+      const error = tooManyRequests('Slow down');
+      expect(error.statusCode).toBe(429);
+      expect(error.message).toBe('Slow down');
+    });
+  });
+
   describe('internalError', () => {
     it('should create 500 error with default message', () => {
       const error = internalError();
@@ -152,6 +181,16 @@ describe('errorHandler middleware', () => {
     const response = jsonSpy.mock.calls[0][0];
     expect(response.stack).toBeDefined();
   });
+
+  it('should include the correlation ID of the request', () => {
+    const error = new AppError(404, 'Not found');
+
+    runWithCorrelationId('req-123', () =>
+      errorHandler(error, mockReq as Request, mockRes as Response, mockNext)
+    );
+
+    expect(jsonSpy.mock.calls[0][0].requestId).toBe('req-123');
+  });
 });
 
 describe('asyncHandler', () => {
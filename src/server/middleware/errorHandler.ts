@@ -1,6 +1,8 @@
 import type { Request, Response, NextFunction } from 'express';
 import { config } from '../config/index.js';
 import { createLogger } from '../utils/logger.js';
+import { getCorrelationId } from '../utils/correlation.js';
+import { sseStreamsOpen } from '../services/metrics.js';
 
 const logger = createLogger('ErrorHandler');
 
@@ -33,6 +35,13 @@ export function unauthorized(message = 'Unauthorized'): AppError {
   return new AppError(401, message);
 }
 
+/**
+ * Create a 403 Forbidden error
+ */
+export function forbidden(message = 'Forbidden'): AppError {
+  return new AppError(403, message);
+}
+
 /**
  * Create a 404 Not Found error
  */
@@ -40,6 +49,20 @@ export function notFound(message = 'Resource not found'): AppError {
   return new AppError(404, message);
 }
 
+/**
+ * Create a 409 Conflict error
+ */
+export function conflict(message: string): AppError {
+  return new AppError(409, message);
+}
+
+/**
+ * Create a 429 Too Many Requests error
+ */
+export function tooManyRequests(message: string): AppError {
+  return new AppError(429, message);
+}
+
 /**
  * Create a 500 Internal Server Error
  */
@@ -75,6 +98,8 @@ export function errorHandler(
   res.status(statusCode).json({
     success: false,
     error: message,
+    // Lets users and admins find the matching log lines
+    requestId: getCorrelationId(),
     ...(config.nodeEnv === 'development' && { stack: err.stack }),
   });
 }
@@ -130,8 +155,18 @@ export function setupSSE(res: Response, _req?: Request): SSEWriter {
   let connected = true;
   const cleanupCallbacks: Array<() => void> = [];
 
+  // Count the stream as open until it is ended or the client disconnects
+  let counted = true;
+  sseStreamsOpen.inc();
+  const untrack = () => {
+    if (!counted) return;
+    counted = false;
+    sseStreamsOpen.dec();
+  };
+
   // Handle client disconnect
   const handleClose = () => {
+    untrack();
     if (!connected) return;
     connected = false;
     cleanupCallbacks.forEach((cb) => {
@@ -177,6 +212,7 @@ export function setupSSE(res: Response, _req?: Request): SSEWriter {
     },
     end() {
       clearInterval(heartbeatInterval);
+      untrack();
       if (!res.writableEnded) {
         res.end();
       }
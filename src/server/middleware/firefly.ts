@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  FireflyApiClient,
+  getFireflyProfile,
+  getFireflyUserAccount,
+  getSharedFireflyApi,
+  runWithFireflyApi,
+} from '../clients/firefly.js';
+import { config, DEFAULT_FIREFLY_PROFILE_ID } from '../config/index.js';
+import { isTokenExpiring, refreshTokens } from '../services/fireflyOAuth.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('FireflyUserApi');
+
+/**
+ * Handle the request with the Firefly API client of the session:
+ * - the connection profile selected in the session, if not the default one
+ * - otherwise the signed-in user's own client when they logged in with Firefly III
+ *   OAuth. Access tokens about to expire are refreshed; if that fails the user is
+ *   signed out and has to log in again.
+ */
+export async function fireflyUserApi(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const profile = getFireflyProfile(req.session?.fireflyProfile ?? DEFAULT_FIREFLY_PROFILE_ID);
+  if (profile && profile.id !== DEFAULT_FIREFLY_PROFILE_ID) {
+    return runWithFireflyApi(getSharedFireflyApi(profile.id), () => next(), profile.id);
+  }
+
+  const tokens = req.session?.fireflyTokens;
+  if (!tokens) {
+    return next();
+  }
+
+  if (isTokenExpiring(tokens)) {
+    try {
+      req.session.fireflyTokens = await refreshTokens(tokens);
+    } catch (error) {
+      logger.warn('Failed to refresh Firefly III access token, signing out:', error);
+      delete req.session.fireflyTokens;
+      delete req.session.user;
+      res.status(401).json({
+        success: false,
+        error: 'Your Firefly III login has expired. Please sign in again.',
+      });
+      return;
+    }
+  }
+
+  const client = new FireflyApiClient(
+    config.firefly.apiUrl,
+    req.session.fireflyTokens!.accessToken
+  );
+  runWithFireflyApi(
+    client,
+    () => next(),
+    DEFAULT_FIREFLY_PROFILE_ID,
+    getFireflyUserAccount(req.session.user?.id ?? '')
+  );
+}
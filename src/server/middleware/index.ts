@@ -4,7 +4,10 @@ export {
   AppError,
   badRequest,
   unauthorized,
+  forbidden,
   notFound,
+  conflict,
+  tooManyRequests,
   internalError,
   setupSSE,
   type SSEWriter,
@@ -12,6 +15,8 @@ export {
 
 export {
   createSessionMiddleware,
+  PersistentSessionStore,
+  SharedSessionStore,
   requireAuth,
   getCurrentUser,
   setAuthenticatedUser,
@@ -43,3 +48,11 @@ export {
   getRateLimitStatus,
   type RateLimitOptions,
 } from './rateLimit.js';
+
+export { auditContext } from './audit.js';
+
+export { fireflyUserApi } from './firefly.js';
+
+export { requestMetrics } from './metrics.js';
+
+export { correlationId } from './correlation.js';
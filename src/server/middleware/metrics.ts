@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestsTotal, httpRequestDuration } from '../services/metrics.js';
+
+/**
+ * Count API requests and their duration per route for the metrics endpoint.
+ * Requests are labelled with the matched route pattern (e.g. /api/jobs/:id) so
+ * IDs in paths do not create a series each; unmatched requests share one label.
+ */
+export function requestMetrics(req: Request, res: Response, next: NextFunction): void {
+  const observeDuration = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const labels = { method: req.method, route };
+
+    observeDuration(labels);
+    httpRequestsTotal.inc({ ...labels, status: String(res.statusCode) });
+  });
+
+  next();
+}
@@ -12,6 +12,11 @@ vi.mock('../utils/logger.js', () => ({
   }),
 }));
 
+// Let the rate limit update made after a response reach the store
+function flushStoreUpdates(): Promise<void> {
+  return new Promise((resolve) => process.nextTick(resolve));
+}
+
 describe('rateLimit middleware', () => {
   let mockReq: Partial<Request>;
   let mockRes: Partial<Response>;
@@ -20,7 +25,7 @@ describe('rateLimit middleware', () => {
   let statusSpy: ReturnType<typeof vi.fn>;
   let setHeaderSpy: ReturnType<typeof vi.fn>;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.useFakeTimers();
 
     jsonSpy = vi.fn();
@@ -41,8 +46,8 @@ describe('rateLimit middleware', () => {
     mockNext = vi.fn();
 
     // Reset rate limit state between tests
-    resetRateLimit('test', '127.0.0.1');
-    resetRateLimit('test', '192.168.1.1');
+    await resetRateLimit('test', '127.0.0.1');
+    await resetRateLimit('test', '192.168.1.1');
   });
 
   afterEach(() => {
@@ -51,43 +56,43 @@ describe('rateLimit middleware', () => {
   });
 
   describe('basic rate limiting', () => {
-    it('should allow requests under the limit', () => {
+    it('should allow requests under the limit', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 5,
         windowMs: 60000,
       });
 
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
       expect(statusSpy).not.toHaveBeenCalled();
     });
 
-    it('should set rate limit headers', () => {
+    it('should set rate limit headers', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 5,
         windowMs: 60000,
       });
 
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       expect(setHeaderSpy).toHaveBeenCalledWith('X-RateLimit-Limit', '5');
       expect(setHeaderSpy).toHaveBeenCalledWith('X-RateLimit-Remaining', '4');
       expect(setHeaderSpy).toHaveBeenCalledWith('X-RateLimit-Reset', expect.any(String));
     });
 
-    it('should block requests over the limit', () => {
+    it('should block requests over the limit', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 2,
         windowMs: 60000,
       });
 
       // Make 2 requests (should pass)
-      limiter(mockReq as Request, mockRes as Response, mockNext);
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       // 3rd request should be blocked
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       expect(statusSpy).toHaveBeenCalledWith(429);
       expect(jsonSpy).toHaveBeenCalledWith(
@@ -98,33 +103,47 @@ describe('rateLimit middleware', () => {
       );
     });
 
-    it('should set Retry-After header when blocked', () => {
+    it('should count parallel requests atomically', async () => {
+      const limiter = rateLimit('test', {
+        maxRequests: 3,
+        windowMs: 60000,
+      });
+
+      await Promise.all(
+        Array.from({ length: 10 }, () => limiter(mockReq as Request, mockRes as Response, mockNext))
+      );
+
+      expect(mockNext).toHaveBeenCalledTimes(3);
+      expect(statusSpy).toHaveBeenCalledTimes(7);
+    });
+
+    it('should set Retry-After header when blocked', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 1,
         windowMs: 60000,
       });
 
       // First request passes
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       // Second request blocked
       setHeaderSpy.mockClear();
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       expect(setHeaderSpy).toHaveBeenCalledWith('Retry-After', expect.any(String));
     });
 
-    it('should reset after window expires', () => {
+    it('should reset after window expires', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 1,
         windowMs: 60000,
       });
 
       // First request passes
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       // Second request blocked
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       expect(statusSpy).toHaveBeenCalledWith(429);
 
       // Advance time past the window
@@ -135,14 +154,14 @@ describe('rateLimit middleware', () => {
       mockNext = vi.fn();
 
       // Should pass now
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       expect(mockNext).toHaveBeenCalled();
       expect(statusSpy).not.toHaveBeenCalled();
     });
   });
 
   describe('custom key generator', () => {
-    it('should use custom key generator', () => {
+    it('should use custom key generator', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 1,
         windowMs: 60000,
@@ -152,19 +171,19 @@ describe('rateLimit middleware', () => {
       (mockReq as any).customId = 'user-123';
 
       // First request passes
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       expect(mockNext).toHaveBeenCalled();
 
       // Different user should also pass
       mockNext = vi.fn();
       (mockReq as any).customId = 'user-456';
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       expect(mockNext).toHaveBeenCalled();
     });
   });
 
   describe('custom message', () => {
-    it('should use custom error message', () => {
+    it('should use custom error message', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 1,
         windowMs: 60000,
@@ -172,10 +191,10 @@ describe('rateLimit middleware', () => {
       });
 
       // First request passes
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       // Second request blocked
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       expect(jsonSpy).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -186,7 +205,7 @@ describe('rateLimit middleware', () => {
   });
 
   describe('skipSuccessfulRequests', () => {
-    it('should not count successful requests when enabled', () => {
+    it('should not count successful requests when enabled', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 2,
         windowMs: 60000,
@@ -202,24 +221,26 @@ describe('rateLimit middleware', () => {
       (mockRes as any).statusCode = 200;
 
       // Make requests that succeed - they should not be counted
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       mockRes.json!({ success: true });
+      await flushStoreUpdates();
 
       // Reset next mock
       mockNext = vi.fn();
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       mockRes.json!({ success: true });
+      await flushStoreUpdates();
 
       // Third request should still pass because successful ones don't count
       mockNext = vi.fn();
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
     });
   });
 
   describe('progressiveBackoff', () => {
-    it('should apply backoff on auth failures', () => {
+    it('should apply backoff on auth failures', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 10,
         windowMs: 60000,
@@ -236,19 +257,20 @@ describe('rateLimit middleware', () => {
       (mockRes as any).statusCode = 401;
 
       // First request - will trigger backoff after failure
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       mockRes.json!({ success: false });
+      await flushStoreUpdates();
 
       // Immediate second request should be blocked due to backoff
       statusSpy.mockClear();
       mockNext = vi.fn();
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       expect(statusSpy).toHaveBeenCalledWith(429);
     });
 
-    it('should reset failures on successful auth', () => {
-      resetRateLimit('test', '127.0.0.1');
+    it('should reset failures on successful auth', async () => {
+      await resetRateLimit('test', '127.0.0.1');
 
       const limiter = rateLimit('test', {
         maxRequests: 10,
@@ -265,17 +287,18 @@ describe('rateLimit middleware', () => {
       (mockRes as any).statusCode = 200;
 
       // Successful request
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       mockRes.json!({ success: true });
+      await flushStoreUpdates();
 
       // Check that failures are reset
-      const status = getRateLimitStatus('test', '127.0.0.1');
+      const status = await getRateLimitStatus('test', '127.0.0.1');
       expect(status?.failures).toBe(0);
     });
   });
 
   describe('different clients', () => {
-    it('should track different IPs separately', () => {
+    it('should track different IPs separately', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 1,
         windowMs: 60000,
@@ -283,26 +306,26 @@ describe('rateLimit middleware', () => {
 
       // First client makes request
       mockReq.ip = '127.0.0.1';
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       expect(mockNext).toHaveBeenCalled();
 
       // First client blocked on second request
       mockNext = vi.fn();
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       expect(statusSpy).toHaveBeenCalledWith(429);
 
       // Second client should still pass
       statusSpy.mockClear();
       mockNext = vi.fn();
       mockReq.ip = '192.168.1.1';
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
       expect(mockNext).toHaveBeenCalled();
       expect(statusSpy).not.toHaveBeenCalledWith(429);
     });
   });
 
   describe('fallback IP detection', () => {
-    it('should fallback to socket.remoteAddress', () => {
+    it('should fallback to socket.remoteAddress', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 5,
         windowMs: 60000,
@@ -311,12 +334,12 @@ describe('rateLimit middleware', () => {
       mockReq.ip = undefined;
       (mockReq as any).socket = { remoteAddress: '10.0.0.1' };
 
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
     });
 
-    it('should fallback to unknown when no IP', () => {
+    it('should fallback to unknown when no IP', async () => {
       const limiter = rateLimit('test', {
         maxRequests: 5,
         windowMs: 60000,
@@ -325,7 +348,7 @@ describe('rateLimit middleware', () => {
       mockReq.ip = undefined;
       (mockReq as any).socket = { remoteAddress: undefined };
 
-      limiter(mockReq as Request, mockRes as Response, mockNext);
+      await limiter(mockReq as Request, mockRes as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
     });
@@ -333,7 +356,7 @@ describe('rateLimit middleware', () => {
 });
 
 describe('resetRateLimit', () => {
-  it('should clear rate limit for a specific client', () => {
+  it('should clear rate limit for a specific client', async () => {
     const limiter = rateLimit('test', {
       maxRequests: 1,
       windowMs: 60000,
@@ -348,15 +371,15 @@ describe('resetRateLimit', () => {
     const mockNext = vi.fn();
 
     // Use up the limit
-    limiter(mockReq as Request, mockRes as Response, mockNext);
+    await limiter(mockReq as Request, mockRes as Response, mockNext);
 
     // Reset
-    resetRateLimit('test', '127.0.0.1');
+    await resetRateLimit('test', '127.0.0.1');
 
     // Should be able to make requests again
     mockNext.mockClear();
     (mockRes.status as any).mockClear();
-    limiter(mockReq as Request, mockRes as Response, mockNext);
+    await limiter(mockReq as Request, mockRes as Response, mockNext);
 
     expect(mockNext).toHaveBeenCalled();
     expect(mockRes.status).not.toHaveBeenCalledWith(429);
@@ -364,16 +387,16 @@ describe('resetRateLimit', () => {
 });
 
 describe('getRateLimitStatus', () => {
-  beforeEach(() => {
-    resetRateLimit('test', '127.0.0.1');
+  beforeEach(async () => {
+    await resetRateLimit('test', '127.0.0.1');
   });
 
-  it('should return undefined for unknown client', () => {
-    const status = getRateLimitStatus('test', 'unknown-ip');
+  it('should return undefined for unknown client', async () => {
+    const status = await getRateLimitStatus('test', 'unknown-ip');
     expect(status).toBeUndefined();
   });
 
-  it('should return status for tracked client', () => {
+  it('should return status for tracked client', async () => {
     const limiter = rateLimit('test', {
       maxRequests: 5,
       windowMs: 60000,
@@ -386,10 +409,10 @@ describe('getRateLimitStatus', () => {
       setHeader: vi.fn(),
     };
 
-    limiter(mockReq as Request, mockRes as Response, vi.fn());
-    limiter(mockReq as Request, mockRes as Response, vi.fn());
+    await limiter(mockReq as Request, mockRes as Response, vi.fn());
+    await limiter(mockReq as Request, mockRes as Response, vi.fn());
 
-    const status = getRateLimitStatus('test', '127.0.0.1');
+    const status = await getRateLimitStatus('test', '127.0.0.1');
     expect(status).toBeDefined();
     expect(status!.count).toBe(2);
   });
@@ -1,42 +1,41 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { getSharedStore } from '../services/sharedStore.js';
 import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('RateLimit');
 
 /**
- * In-memory rate limiting store.
- * For a small self-hosted app (1-5 users), in-memory storage is appropriate.
- * State is lost on restart, which is acceptable for this use case.
+ * Rate limit state of one client. It is kept in the shared store (see
+ * sharedStore.ts) as separate keys so limits apply across all server instances
+ * when SHARED_STORE=redis: atomic counters for the requests of the current
+ * window and the consecutive failures, and the end of the current backoff.
  */
-interface RateLimitEntry {
+export interface RateLimitStatus {
   /** Number of requests in current window */
   count: number;
-  /** Window start timestamp */
-  windowStart: number;
   /** Consecutive failures (for login backoff) */
-  failures?: number;
+  failures: number;
   /** Blocked until timestamp (for progressive backoff) */
   blockedUntil?: number;
 }
 
-// Global store for rate limit data, keyed by "limiterKey:clientKey"
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Cleanup interval (every 5 minutes)
-const CLEANUP_INTERVAL = 5 * 60 * 1000;
-
-// Clean up expired entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    // Remove entries that are outside their window and not blocked
-    const isExpired = now - entry.windowStart > 60 * 60 * 1000; // 1 hour max
-    const isUnblocked = !entry.blockedUntil || entry.blockedUntil < now;
-    if (isExpired && isUnblocked) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, CLEANUP_INTERVAL);
+/** Shared store key prefix for rate limit entries, followed by "limiterKey:clientKey" */
+const RATE_LIMIT_PREFIX = 'ratelimit:';
+
+/** Minimum time failure counts are kept, so they survive across windows */
+const ENTRY_RETENTION_MS = 60 * 60 * 1000;
+
+interface StoreKeys {
+  /** Requests of the current window, expiring with the window */
+  count: string;
+  failures: string;
+  blockedUntil: string;
+}
+
+function getStoreKeys(limiterKey: string, clientKey: string): StoreKeys {
+  const base = `${RATE_LIMIT_PREFIX}${limiterKey}:${clientKey}`;
+  return { count: base, failures: `${base}:failures`, blockedUntil: `${base}:blocked` };
+}
 
 /**
  * Options for rate limiting middleware
@@ -87,16 +86,16 @@ export function rateLimit(limiterKey: string, options: RateLimitOptions): Reques
     backoffMaxMs = 60000,
   } = options;
 
-  return (req: Request, res: Response, next: NextFunction): void => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const clientKey = keyGenerator(req);
-    const storeKey = `${limiterKey}:${clientKey}`;
+    const keys = getStoreKeys(limiterKey, clientKey);
+    const store = getSharedStore();
     const now = Date.now();
 
-    let entry = rateLimitStore.get(storeKey);
-
     // Check if client is in backoff period
-    if (entry?.blockedUntil && entry.blockedUntil > now) {
-      const retryAfter = Math.ceil((entry.blockedUntil - now) / 1000);
+    const blockedUntil = Number((await store.get(keys.blockedUntil)) ?? 0);
+    if (blockedUntil > now) {
+      const retryAfter = Math.ceil((blockedUntil - now) / 1000);
       logger.warn(
         `Rate limit backoff active for ${clientKey} on ${limiterKey}, retry after ${retryAfter}s`
       );
@@ -109,18 +108,14 @@ export function rateLimit(limiterKey: string, options: RateLimitOptions): Reques
       return;
     }
 
-    // Initialize or reset window if expired
-    if (!entry || now - entry.windowStart > windowMs) {
-      entry = {
-        count: 0,
-        windowStart: now,
-        failures: entry?.failures || 0, // Preserve failure count across windows
-      };
-    }
+    // Count the request atomically (a new window starts when the counter has expired),
+    // so parallel requests cannot pass with the same count
+    const { value: count, ttlMs } = await store.increment(keys.count, 1, windowMs);
+    const windowEnd = now + ttlMs;
 
     // Check rate limit
-    if (entry.count >= maxRequests) {
-      const retryAfter = Math.ceil((entry.windowStart + windowMs - now) / 1000);
+    if (count > maxRequests) {
+      const retryAfter = Math.ceil(ttlMs / 1000);
       logger.warn(`Rate limit exceeded for ${clientKey} on ${limiterKey}`);
       res.setHeader('Retry-After', String(retryAfter));
       res.status(429).json({
@@ -131,20 +126,35 @@ export function rateLimit(limiterKey: string, options: RateLimitOptions): Reques
       return;
     }
 
-    // Increment count immediately (before response)
-    entry.count++;
-    rateLimitStore.set(storeKey, entry);
-
     // Set rate limit headers
     res.setHeader('X-RateLimit-Limit', String(maxRequests));
-    res.setHeader('X-RateLimit-Remaining', String(Math.max(0, maxRequests - entry.count)));
-    res.setHeader('X-RateLimit-Reset', String(Math.ceil((entry.windowStart + windowMs) / 1000)));
+    res.setHeader('X-RateLimit-Remaining', String(Math.max(0, maxRequests - count)));
+    res.setHeader('X-RateLimit-Reset', String(Math.ceil(windowEnd / 1000)));
 
     // If we need to track success/failure for skipSuccessfulRequests or progressiveBackoff
     if (skipSuccessfulRequests || progressiveBackoff) {
       // Store original json method
       const originalJson = res.json.bind(res);
 
+      const updateAfterResponse = async (isSuccess: boolean): Promise<void> => {
+        if (isSuccess) {
+          // On success: uncount the request if skipSuccessfulRequests, reset failures
+          if (skipSuccessfulRequests) {
+            await store.increment(keys.count, -1, windowMs);
+          }
+          await store.delete(keys.failures);
+          await store.delete(keys.blockedUntil);
+        } else if (progressiveBackoff && (res.statusCode === 401 || res.statusCode === 403)) {
+          // On auth failure: increment failures and apply backoff
+          const { value: failures } = await store.increment(keys.failures, 1, ENTRY_RETENTION_MS);
+          await store.expire(keys.failures, ENTRY_RETENTION_MS);
+          // Exponential backoff: base * 2^(failures-1), capped at max
+          const backoffTime = Math.min(backoffBaseMs * Math.pow(2, failures - 1), backoffMaxMs);
+          await store.set(keys.blockedUntil, String(now + backoffTime), backoffTime);
+          logger.warn(`Auth failure #${failures} for ${clientKey}, backoff ${backoffTime}ms`);
+        }
+      };
+
       // Override json to detect success/failure
       res.json = function (body: unknown): Response {
         const isSuccess =
@@ -154,30 +164,9 @@ export function rateLimit(limiterKey: string, options: RateLimitOptions): Reques
             ? (body as { success: boolean }).success
             : true);
 
-        const currentEntry = rateLimitStore.get(storeKey);
-        if (currentEntry) {
-          if (isSuccess) {
-            // On success: decrement count if skipSuccessfulRequests, reset failures
-            if (skipSuccessfulRequests) {
-              currentEntry.count = Math.max(0, currentEntry.count - 1);
-            }
-            currentEntry.failures = 0;
-            currentEntry.blockedUntil = undefined;
-          } else if (progressiveBackoff && (res.statusCode === 401 || res.statusCode === 403)) {
-            // On auth failure: increment failures and apply backoff
-            currentEntry.failures = (currentEntry.failures || 0) + 1;
-            // Exponential backoff: base * 2^(failures-1), capped at max
-            const backoffTime = Math.min(
-              backoffBaseMs * Math.pow(2, currentEntry.failures - 1),
-              backoffMaxMs
-            );
-            currentEntry.blockedUntil = now + backoffTime;
-            logger.warn(
-              `Auth failure #${currentEntry.failures} for ${clientKey}, backoff ${backoffTime}ms`
-            );
-          }
-          rateLimitStore.set(storeKey, currentEntry);
-        }
+        updateAfterResponse(isSuccess).catch((error) => {
+          logger.error(`Failed to update rate limit for ${clientKey}:`, error);
+        });
 
         return originalJson(body);
       };
@@ -224,18 +213,34 @@ export const importRateLimit = rateLimit('import', {
 /**
  * Reset rate limit for a specific client (useful after successful password reset, etc.)
  */
-export function resetRateLimit(limiterKey: string, clientKey: string): void {
-  const storeKey = `${limiterKey}:${clientKey}`;
-  rateLimitStore.delete(storeKey);
+export async function resetRateLimit(limiterKey: string, clientKey: string): Promise<void> {
+  const store = getSharedStore();
+  await Promise.all(
+    Object.values(getStoreKeys(limiterKey, clientKey)).map((key) => store.delete(key))
+  );
 }
 
 /**
  * Get current rate limit status for a client (for debugging/monitoring)
  */
-export function getRateLimitStatus(
+export async function getRateLimitStatus(
   limiterKey: string,
   clientKey: string
-): RateLimitEntry | undefined {
-  const storeKey = `${limiterKey}:${clientKey}`;
-  return rateLimitStore.get(storeKey);
+): Promise<RateLimitStatus | undefined> {
+  const store = getSharedStore();
+  const keys = getStoreKeys(limiterKey, clientKey);
+  const [count, failures, blockedUntil] = await Promise.all([
+    store.get(keys.count),
+    store.get(keys.failures),
+    store.get(keys.blockedUntil),
+  ]);
+  if (count === undefined && failures === undefined && blockedUntil === undefined) {
+    return undefined;
+  }
+
+  return {
+    count: Number(count ?? 0),
+    failures: Number(failures ?? 0),
+    blockedUntil: blockedUntil === undefined ? undefined : Number(blockedUntil),
+  };
 }
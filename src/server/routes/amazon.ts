@@ -1,8 +1,14 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { getFireflyApi } from '../clients/firefly.js';
-import { AmazonOrderExtender, getAmazonExtenderStore } from '../services/index.js';
-import { isFireflyConfigured } from '../config/index.js';
+import { getFireflyOwner, isFireflyApiAvailable, type FireflyOwner } from '../clients/firefly.js';
+import {
+  AmazonOrderExtender,
+  getAmazonExtenderStore,
+  getOperationLog,
+  runDryRun,
+  describeDryRun,
+} from '../services/index.js';
+import { config } from '../config/index.js';
 import {
   getSessionId,
   asyncHandler,
@@ -24,7 +30,7 @@ import {
   type DateRangeBody,
   type CountTransactionsBody,
 } from '../utils/index.js';
-import type { AmazonMatchResult } from '../../shared/types/app.js';
+import type { AmazonMatchResult, AmazonOrder } from '../../shared/types/app.js';
 import type { FireflyTransaction } from '../../shared/types/firefly.js';
 
 const router = Router();
@@ -46,11 +52,26 @@ const upload = multer({
 // Use session store with TTL-based lifecycle management
 const extenderStore = getAmazonExtenderStore<AmazonOrderExtender>();
 
-function getExtender(sessionId: string): AmazonOrderExtender {
-  let extender = extenderStore.get(sessionId);
+// Persist uploaded data so it survives restarts (optionally for longer than the session TTL),
+// together with the Firefly III book it belongs to (see webhooks.ts)
+extenderStore.enablePersistence({
+  serialize: (extender) => ({ owner: extender.owner, orders: extender.getLoadedOrders() }),
+  deserialize: (data) => {
+    // Uploads persisted without an owner are a plain list
+    const { owner, orders } = Array.isArray(data)
+      ? { owner: null, orders: data as AmazonOrder[] }
+      : (data as { owner: FireflyOwner | null; orders: AmazonOrder[] });
+    const extender = new AmazonOrderExtender(owner);
+    extender.loadOrders(orders);
+    return extender;
+  },
+  retentionMs: config.storage.retention.amazonUploadsMs,
+});
+
+async function getExtender(sessionId: string): Promise<AmazonOrderExtender> {
+  let extender = await extenderStore.load(sessionId);
   if (!extender) {
-    const fireflyApi = getFireflyApi();
-    extender = new AmazonOrderExtender(fireflyApi);
+    extender = new AmazonOrderExtender(getFireflyOwner());
     extenderStore.set(sessionId, extender);
   }
   return extender;
@@ -58,7 +79,7 @@ function getExtender(sessionId: string): AmazonOrderExtender {
 
 // Middleware to check Firefly III configuration
 router.use((_req: Request, _res: Response, next) => {
-  if (!isFireflyConfigured()) {
+  if (!isFireflyApiAvailable()) {
     throw badRequest(
       'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
     );
@@ -97,7 +118,7 @@ router.post(
     }
 
     const sessionId = getSessionId(req);
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     // Parse the JSON file asynchronously to avoid blocking the event loop
     const fileContent = req.file.buffer.toString('utf-8');
@@ -115,6 +136,7 @@ router.post(
     const orders = extender.parseOrderExport(jsonData);
     logger.info(`Loaded ${orders.length} Amazon orders from file`);
     extender.loadOrders(orders);
+    await extenderStore.persist(sessionId);
 
     res.json({
       success: true,
@@ -140,12 +162,13 @@ router.post(
     }
 
     const sessionId = getSessionId(req);
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     // Parse and load orders
     const orders = extender.parseOrderExport(jsonData);
     logger.info(`Loaded ${orders.length} Amazon orders from JSON payload`);
     extender.loadOrders(orders);
+    await extenderStore.persist(sessionId);
 
     res.json({
       success: true,
@@ -159,28 +182,35 @@ router.post(
 );
 
 // Get loaded orders
-router.get('/orders', (req: Request, res: Response) => {
-  const sessionId = getSessionId(req);
-  const extender = getExtender(sessionId);
-  const orders = extender.getLoadedOrders();
-
-  res.json({
-    success: true,
-    data: orders,
-  });
-});
+router.get(
+  '/orders',
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessionId = getSessionId(req);
+    const extender = await getExtender(sessionId);
+    const orders = extender.getLoadedOrders();
+
+    res.json({
+      success: true,
+      data: orders,
+    });
+  })
+);
 
 // Clear loaded orders
-router.delete('/orders', (req: Request, res: Response) => {
-  const sessionId = getSessionId(req);
-  const extender = getExtender(sessionId);
-  extender.clearOrders();
-
-  res.json({
-    success: true,
-    message: 'Orders cleared',
-  });
-});
+router.delete(
+  '/orders',
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessionId = getSessionId(req);
+    const extender = await getExtender(sessionId);
+    extender.clearOrders();
+    await extenderStore.persist(sessionId);
+
+    res.json({
+      success: true,
+      message: 'Orders cleared',
+    });
+  })
+);
 
 // Find Amazon transactions
 router.post(
@@ -192,7 +222,7 @@ router.post(
 
     logger.debug('Finding Amazon transactions', { startDate, endDate });
 
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     const transactions = await extender.findAmazonTransactions(startDate, endDate);
 
@@ -219,7 +249,7 @@ router.post(
       offset,
     } = req.body as CountTransactionsBody;
     const sessionId = getSessionId(req);
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     const transactions = await extender.findAmazonTransactions(startDate, endDate);
 
@@ -255,7 +285,7 @@ router.post(
 
     logger.info('Starting Amazon match (non-streaming)', { startDate, endDate, excludeProcessed });
 
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     const matches = await extender.matchTransactionsWithOrders(
       startDate,
@@ -284,7 +314,7 @@ router.post(
 
     logger.info('Starting Amazon match stream', { startDate, endDate, excludeProcessed });
 
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     const sse = setupSSE(res, req);
 
@@ -317,16 +347,28 @@ router.post(
   bulkOperationRateLimit,
   validateBody(amazonApplySchema),
   asyncHandler(async (req: Request, res: Response) => {
-    const { matches } = req.body as AmazonApplyBody;
+    const { matches, dryRun } = req.body as AmazonApplyBody;
 
     const sessionId = getSessionId(req);
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
+
+    if (dryRun) {
+      const { result, changes } = await runDryRun(() => extender.applyDescriptions(matches));
+      res.json({
+        success: true,
+        data: { ...result, dryRun: true, changes },
+        message: describeDryRun(changes),
+      });
+      return;
+    }
 
-    const result = await extender.applyDescriptions(matches);
+    const { result, operation } = await getOperationLog().run('amazonDescriptions', () =>
+      extender.applyDescriptions(matches)
+    );
 
     res.json({
       success: true,
-      data: result,
+      data: { ...result, operationId: operation?.id ?? null },
       message: `Applied ${result.successful.length} descriptions, ${result.failed.length} failed`,
     });
   })
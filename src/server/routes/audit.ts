@@ -0,0 +1,37 @@
+import { Router, Request, Response } from 'express';
+import { badRequest, notFound } from '../middleware/index.js';
+import { getAuditLog, getAuditScope, isInAuditScope } from '../services/index.js';
+import { auditQuerySchema } from '../utils/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/audit
+ * List audit entries of the active connection profile and the signed-in user's
+ * Firefly III account, newest first
+ * Query: tool?, transactionId?, operationId?, start?, end? (YYYY-MM-DD), page?, pageSize?
+ */
+router.get('/', (req: Request, res: Response) => {
+  const result = auditQuerySchema.safeParse(req.query);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw badRequest(`Invalid ${issue.path.join('.') || 'query'}: ${issue.message}`);
+  }
+
+  res.json({ success: true, data: getAuditLog().query(result.data, getAuditScope()) });
+});
+
+/**
+ * GET /api/audit/:id
+ * Get an audit entry with its before/after snapshots
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const entry = getAuditLog().get(req.params.id as string);
+  if (!entry || !isInAuditScope(entry, getAuditScope())) {
+    throw notFound('Audit entry not found');
+  }
+
+  res.json({ success: true, data: entry });
+});
+
+export default router;
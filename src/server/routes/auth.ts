@@ -18,7 +18,11 @@ import {
   CSRF_TOKEN_HEADER,
   authRateLimit,
 } from '../middleware/index.js';
-import { clearSessionData } from '../services/index.js';
+import {
+  clearSessionData,
+  exchangeAuthorizationCode,
+  type FireflyOAuthTokens,
+} from '../services/index.js';
 import { createLogger } from '../utils/logger.js';
 import type {
   AuthStatus,
@@ -373,53 +377,29 @@ router.get('/firefly/callback', async (req: Request, res: Response) => {
   }
 
   const redirectUri = `${config.appUrl}/api/auth/firefly/callback`;
-  const tokenUrl = `${config.firefly.apiUrl}/oauth/token`;
 
   try {
-    // Build token request params
-    // Support both confidential clients (with secret) and public clients (without)
-    const tokenParams: Record<string, string> = {
-      grant_type: 'authorization_code',
-      client_id: config.auth.fireflyOAuth.clientId,
-      redirect_uri: redirectUri,
-      code: code as string,
-    };
-
-    // Only include client_secret if configured (for confidential clients)
-    if (config.auth.fireflyOAuth.clientSecret) {
-      tokenParams.client_secret = config.auth.fireflyOAuth.clientSecret;
-    }
-
-    // Debug logging
     logger.debug('Firefly OAuth token exchange:', {
-      tokenUrl,
       clientId: config.auth.fireflyOAuth.clientId,
       redirectUri,
       hasSecret: Boolean(config.auth.fireflyOAuth.clientSecret),
       codeLength: (code as string)?.length,
     });
 
-    // Exchange code for token
-    const tokenResponse = await fetch(tokenUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams(tokenParams),
-    });
-
-    if (!tokenResponse.ok) {
-      const errorText = await tokenResponse.text();
-      logger.error('Firefly token error:', errorText);
-      logger.error('Token request details:', {
-        tokenUrl,
+    // Exchange code for tokens
+    let tokens: FireflyOAuthTokens;
+    try {
+      tokens = await exchangeAuthorizationCode(code as string, redirectUri);
+    } catch (tokenError) {
+      logger.error('Token request failed:', {
+        error: tokenError instanceof Error ? tokenError.message : tokenError,
         redirectUri,
         clientId: config.auth.fireflyOAuth.clientId,
       });
       res.redirect(`${getFrontendUrl()}/login?error=token_exchange_failed`);
       return;
     }
-
-    const tokenData = (await tokenResponse.json()) as { access_token: string };
-    const accessToken = tokenData.access_token;
+    const accessToken = tokens.accessToken;
 
     // Get user info from Firefly
     const userResponse = await fetch(`${config.firefly.apiUrl}/api/v1/about/user`, {
@@ -457,8 +437,9 @@ router.get('/firefly/callback', async (req: Request, res: Response) => {
     // Clean up session data
     delete req.session.oauthState;
 
-    // Set authenticated user
+    // Set authenticated user; their API calls use their own tokens
     setAuthenticatedUser(req, user);
+    req.session.fireflyTokens = tokens;
 
     res.redirect(getFrontendUrl());
   } catch (error) {
@@ -1,93 +1,38 @@
 import { Router, Request, Response } from 'express';
-import { getFireflyApi } from '../clients/firefly.js';
-import { isFireflyConfigured } from '../config/index.js';
-import { asyncHandler, badRequest, setupSSE, importRateLimit } from '../middleware/index.js';
-import { createLogger } from '../utils/logger.js';
-import { validateBody, converterImportSchema, type ConverterImportBody } from '../utils/index.js';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
+import {
+  asyncHandler,
+  badRequest,
+  conflict,
+  notFound,
+  setupSSE,
+  importRateLimit,
+} from '../middleware/index.js';
+import {
+  getConverterProfileLibrary,
+  importConvertedTransactions,
+  runDryRun,
+  describeDryRun,
+} from '../services/index.js';
+import {
+  validateBody,
+  converterImportSchema,
+  converterProfileCreateSchema,
+  converterProfileUpdateSchema,
+  converterProfileDuplicateSchema,
+  type ConverterImportBody,
+  type ConverterProfileCreateBody,
+  type ConverterProfileUpdateBody,
+  type ConverterProfileDuplicateBody,
+} from '../utils/index.js';
+import { hasCustomScripts } from '../../shared/utils/converter.js';
+import type { ConverterConfig } from '../../shared/types/converter.js';
 
 const router = Router();
-const logger = createLogger('Converter');
-
-// Type for incoming transaction from client
-interface ImportTransaction {
-  type: string;
-  date: string;
-  amount: string;
-  description: string;
-  source_name?: string;
-  destination_name?: string;
-  category_name?: string;
-  budget_name?: string;
-  tags?: string;
-  notes?: string;
-  currency_code?: string;
-  foreign_amount?: string;
-  foreign_currency_code?: string;
-  internal_reference?: string;
-  external_id?: string;
-  external_url?: string;
-  sepa_cc?: string;
-  sepa_ct_op?: string;
-  sepa_ct_id?: string;
-  sepa_db?: string;
-  sepa_country?: string;
-  sepa_ep?: string;
-  sepa_ci?: string;
-  sepa_batch_id?: string;
-  interest_date?: string;
-  book_date?: string;
-  process_date?: string;
-  due_date?: string;
-  payment_date?: string;
-  invoice_date?: string;
-}
-
-/**
- * Build transaction data object with only defined fields.
- * This ensures consistent hashing by not including undefined/null fields.
- */
-function buildTransactionData(tx: ImportTransaction, tags?: string[]): Record<string, unknown> {
-  const data: Record<string, unknown> = {
-    type: tx.type,
-    date: tx.date,
-    amount: tx.amount,
-    description: tx.description,
-  };
-
-  // Only add optional fields if they have actual values
-  if (tx.source_name) data.source_name = tx.source_name;
-  if (tx.destination_name) data.destination_name = tx.destination_name;
-  if (tx.category_name) data.category_name = tx.category_name;
-  if (tx.budget_name) data.budget_name = tx.budget_name;
-  if (tags && tags.length > 0) data.tags = tags;
-  if (tx.notes) data.notes = tx.notes;
-  if (tx.currency_code) data.currency_code = tx.currency_code;
-  if (tx.foreign_amount) data.foreign_amount = tx.foreign_amount;
-  if (tx.foreign_currency_code) data.foreign_currency_code = tx.foreign_currency_code;
-  if (tx.internal_reference) data.internal_reference = tx.internal_reference;
-  if (tx.external_id) data.external_id = tx.external_id;
-  if (tx.external_url) data.external_url = tx.external_url;
-  if (tx.sepa_cc) data.sepa_cc = tx.sepa_cc;
-  if (tx.sepa_ct_op) data.sepa_ct_op = tx.sepa_ct_op;
-  if (tx.sepa_ct_id) data.sepa_ct_id = tx.sepa_ct_id;
-  if (tx.sepa_db) data.sepa_db = tx.sepa_db;
-  if (tx.sepa_country) data.sepa_country = tx.sepa_country;
-  if (tx.sepa_ep) data.sepa_ep = tx.sepa_ep;
-  if (tx.sepa_ci) data.sepa_ci = tx.sepa_ci;
-  if (tx.sepa_batch_id) data.sepa_batch_id = tx.sepa_batch_id;
-  if (tx.interest_date) data.interest_date = tx.interest_date;
-  if (tx.book_date) data.book_date = tx.book_date;
-  if (tx.process_date) data.process_date = tx.process_date;
-  if (tx.due_date) data.due_date = tx.due_date;
-  if (tx.payment_date) data.payment_date = tx.payment_date;
-  if (tx.invoice_date) data.invoice_date = tx.invoice_date;
-
-  return data;
-}
 
 // Middleware to check Firefly III configuration (optional for converter)
 const requireFirefly = (_req: Request, _res: Response, next: () => void) => {
-  if (!isFireflyConfigured()) {
+  if (!isFireflyApiAvailable()) {
     throw badRequest(
       'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
     );
@@ -98,7 +43,7 @@ const requireFirefly = (_req: Request, _res: Response, next: () => void) => {
 /**
  * POST /api/converter/import
  * Import converted transactions directly into Firefly III
- * Body: { transactions: FireflyTransactionSplit[], options?: ImportOptions }
+ * Body: { transactions: FireflyTransactionSplit[], options?: ImportOptions, dryRun?: boolean }
  * Rate limited to prevent excessive API calls to Firefly III
  */
 router.post(
@@ -107,68 +52,31 @@ router.post(
   importRateLimit,
   validateBody(converterImportSchema),
   asyncHandler(async (req: Request, res: Response) => {
-    const { transactions, options } = req.body as ConverterImportBody;
-
-    // Parse import options
-    const applyRules = options?.applyRules ?? true;
-    const errorIfDuplicate = options?.errorIfDuplicate ?? true;
-    // Import tags are added AFTER transaction creation to avoid affecting duplicate hash
-    const importTags = options?.tags
-      ? options.tags
-          .split(',')
-          .map((t) => t.trim())
-          .filter(Boolean)
-      : [];
+    const { transactions, options, dryRun } = req.body as ConverterImportBody;
 
-    const fireflyApi = getFireflyApi();
-    const results = {
-      successful: [] as string[],
-      failed: [] as Array<{ index: number; error: string }>,
-    };
+    const runImport = () => importConvertedTransactions(getFireflyApi(), transactions, options);
 
-    // Import transactions one by one to handle errors gracefully
-    for (let i = 0; i < transactions.length; i++) {
-      const tx = transactions[i];
-      try {
-        // Convert tags from comma-separated string to array (CSV tags only, NOT import tags)
-        // Import tags are added AFTER creation to avoid affecting duplicate hash calculation
-        const txTags = tx.tags
-          ? tx.tags
-              .split(',')
-              .map((t) => t.trim())
-              .filter(Boolean)
-          : [];
-        const tags = txTags.length > 0 ? txTags : undefined;
-
-        const txData = buildTransactionData(tx, tags);
-        const createdTx = await fireflyApi.createTransaction({
-          error_if_duplicate_hash: errorIfDuplicate,
-          apply_rules: applyRules,
-          fire_webhooks: true,
-          transactions: [
-            txData as Parameters<typeof fireflyApi.createTransaction>[0]['transactions'][0],
-          ],
-        });
-
-        // Add import tags AFTER creation so they don't affect duplicate hash
-        if (importTags.length > 0) {
-          try {
-            await fireflyApi.addTagsToTransaction(createdTx.id, importTags);
-          } catch {
-            // Tag addition failed, but transaction was created - don't count as failure
-            logger.warn(`Failed to add import tags to transaction ${createdTx.id}`);
-          }
-        }
-
-        results.successful.push(`Row ${i + 1}`);
-      } catch (error) {
-        results.failed.push({
-          index: i,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
+    if (dryRun) {
+      const { result, changes } = await runDryRun(runImport);
+      res.json({
+        success: true,
+        data: {
+          successful: result.successful.map((index) => `Row ${index + 1}`),
+          failed: result.failed,
+          dryRun: true,
+          changes,
+        },
+        message: describeDryRun(changes),
+      });
+      return;
     }
 
+    const result = await runImport();
+    const results = {
+      successful: result.successful.map((index) => `Row ${index + 1}`),
+      failed: result.failed,
+    };
+
     res.json({
       success: true,
       data: results,
@@ -180,7 +88,7 @@ router.post(
 /**
  * POST /api/converter/stream-import
  * Import converted transactions with SSE progress streaming
- * Body: { transactions: FireflyTransactionSplit[], options?: ImportOptions }
+ * Body: { transactions: FireflyTransactionSplit[], options?: ImportOptions, dryRun?: boolean }
  * Rate limited to prevent excessive API calls to Firefly III
  */
 router.post(
@@ -192,74 +100,25 @@ router.post(
     const sse = setupSSE(res);
 
     try {
-      const { transactions, options } = req.body as ConverterImportBody;
-
-      // Parse import options
-      const applyRules = options?.applyRules ?? true;
-      const errorIfDuplicate = options?.errorIfDuplicate ?? true;
-      // Import tags are added AFTER transaction creation to avoid affecting duplicate hash
-      const importTags = options?.tags
-        ? options.tags
-            .split(',')
-            .map((t) => t.trim())
-            .filter(Boolean)
-        : [];
-
-      const fireflyApi = getFireflyApi();
-      const results = {
-        successful: 0,
-        failed: 0,
-        errors: [] as string[],
-      };
+      const { transactions, options, dryRun } = req.body as ConverterImportBody;
 
       // Send initial progress
       sse.send('progress', { current: 0, total: transactions.length });
 
-      // Import transactions one by one with progress updates
-      for (let i = 0; i < transactions.length; i++) {
-        const tx = transactions[i];
-        try {
-          // Convert tags from comma-separated string to array (CSV tags only, NOT import tags)
-          // Import tags are added AFTER creation to avoid affecting duplicate hash calculation
-          const txTags = tx.tags
-            ? tx.tags
-                .split(',')
-                .map((t) => t.trim())
-                .filter(Boolean)
-            : [];
-          const tags = txTags.length > 0 ? txTags : undefined;
-
-          const txData = buildTransactionData(tx, tags);
-          const createdTx = await fireflyApi.createTransaction({
-            error_if_duplicate_hash: errorIfDuplicate,
-            apply_rules: applyRules,
-            fire_webhooks: true,
-            transactions: [
-              txData as Parameters<typeof fireflyApi.createTransaction>[0]['transactions'][0],
-            ],
-          });
-
-          // Add import tags AFTER creation so they don't affect duplicate hash
-          if (importTags.length > 0) {
-            try {
-              await fireflyApi.addTagsToTransaction(createdTx.id, importTags);
-            } catch {
-              // Tag addition failed, but transaction was created - don't count as failure
-              logger.warn(`Failed to add import tags to transaction ${createdTx.id}`);
-            }
-          }
-
-          results.successful++;
-        } catch (error) {
-          results.failed++;
-          results.errors.push(
-            `Row ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`
-          );
-        }
-
-        // Send progress update after each transaction
-        sse.send('progress', { current: i + 1, total: transactions.length });
-      }
+      // Send a progress update after each transaction
+      const runImport = () =>
+        importConvertedTransactions(getFireflyApi(), transactions, options, (current, total) =>
+          sse.send('progress', { current, total })
+        );
+      const { result, changes } = dryRun
+        ? await runDryRun(runImport)
+        : { result: await runImport(), changes: null };
+      const results = {
+        successful: result.successful.length,
+        failed: result.failed.length,
+        errors: result.failed.map(({ index, error }) => `Row ${index + 1}: ${error}`),
+        ...(changes && { dryRun: true, changes }),
+      };
 
       // Send final result
       sse.send('result', results);
@@ -300,4 +159,157 @@ router.get(
   })
 );
 
+// =============================================================================
+// Profile Library (shared by all users, does not require Firefly III)
+// =============================================================================
+
+function assertNameAvailable(name: string, excludeId?: string): void {
+  if (getConverterProfileLibrary().isNameTaken(name, excludeId)) {
+    throw conflict(`A profile named "${name}" already exists`);
+  }
+}
+
+// Shared profiles are loaded by every user, so they must not carry code that
+// would run in someone else's browser
+function assertNoCustomScripts(config: ConverterConfig): void {
+  if (hasCustomScripts(config)) {
+    throw badRequest(
+      'Profiles with custom script blocks cannot be shared. Remove the script blocks or export the configuration as a file instead.'
+    );
+  }
+}
+
+/**
+ * GET /api/converter/profiles
+ * List saved profiles, most recently used first
+ */
+router.get('/profiles', (_req: Request, res: Response) => {
+  res.json({ success: true, data: getConverterProfileLibrary().list() });
+});
+
+/**
+ * GET /api/converter/profiles/:id
+ * Get a profile including its configuration
+ */
+router.get('/profiles/:id', (req: Request, res: Response) => {
+  const profile = getConverterProfileLibrary().get(req.params.id as string);
+  if (!profile) {
+    throw notFound('Profile not found');
+  }
+
+  res.json({ success: true, data: profile });
+});
+
+/**
+ * POST /api/converter/profiles
+ * Save a configuration as a new profile
+ * Body: { name: string, config: ConverterConfig }
+ */
+router.post(
+  '/profiles',
+  validateBody(converterProfileCreateSchema),
+  (req: Request, res: Response) => {
+    const { name, config } = req.body as ConverterProfileCreateBody;
+    assertNameAvailable(name);
+    assertNoCustomScripts(config as ConverterConfig);
+
+    const profile = getConverterProfileLibrary().create(name, config as ConverterConfig);
+
+    res.status(201).json({
+      success: true,
+      data: profile,
+      message: `Profile "${profile.name}" saved`,
+    });
+  }
+);
+
+/**
+ * PUT /api/converter/profiles/:id
+ * Rename a profile and/or overwrite its configuration
+ * Body: { name?: string, config?: ConverterConfig }
+ */
+router.put(
+  '/profiles/:id',
+  validateBody(converterProfileUpdateSchema),
+  (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { name, config } = req.body as ConverterProfileUpdateBody;
+    if (name !== undefined) {
+      assertNameAvailable(name, id);
+    }
+    if (config !== undefined) {
+      assertNoCustomScripts(config as ConverterConfig);
+    }
+
+    const profile = getConverterProfileLibrary().update(id, {
+      name,
+      config: config as ConverterConfig | undefined,
+    });
+    if (!profile) {
+      throw notFound('Profile not found');
+    }
+
+    res.json({ success: true, data: profile, message: `Profile "${profile.name}" updated` });
+  }
+);
+
+/**
+ * POST /api/converter/profiles/:id/duplicate
+ * Copy a profile under a new name
+ * Body: { name?: string }
+ */
+router.post(
+  '/profiles/:id/duplicate',
+  validateBody(converterProfileDuplicateSchema),
+  (req: Request, res: Response) => {
+    const { name } = req.body as ConverterProfileDuplicateBody;
+    if (name !== undefined) {
+      assertNameAvailable(name);
+    }
+
+    const library = getConverterProfileLibrary();
+    const original = library.get(req.params.id as string);
+    if (!original) {
+      throw notFound('Profile not found');
+    }
+    assertNoCustomScripts(original.config);
+
+    const profile = library.duplicate(original.id, name);
+    if (!profile) {
+      throw notFound('Profile not found');
+    }
+
+    res.status(201).json({
+      success: true,
+      data: profile,
+      message: `Profile "${profile.name}" created`,
+    });
+  }
+);
+
+/**
+ * POST /api/converter/profiles/:id/use
+ * Load a profile and record it as last used
+ */
+router.post('/profiles/:id/use', (req: Request, res: Response) => {
+  const profile = getConverterProfileLibrary().markUsed(req.params.id as string);
+  if (!profile) {
+    throw notFound('Profile not found');
+  }
+
+  res.json({ success: true, data: profile });
+});
+
+/**
+ * DELETE /api/converter/profiles/:id
+ * Delete a profile
+ */
+router.delete('/profiles/:id', (req: Request, res: Response) => {
+  if (!getConverterProfileLibrary().delete(req.params.id as string)) {
+    throw notFound('Profile not found');
+  }
+
+  res.json({ success: true, message: 'Profile deleted' });
+});
+
 export default router;
@@ -1,11 +1,14 @@
 import { Router, Request, Response } from 'express';
-import { getFireflyApi } from '../clients/firefly.js';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
 import { DuplicateTransactionFinder } from '../services/duplicateFinder.js';
-import { isFireflyConfigured } from '../config/index.js';
+import { getDuplicateDismissalStore } from '../services/duplicateDismissals.js';
+import { getOperationLog } from '../services/operations.js';
+import { describeDryRun, runDryRun } from '../services/dryRun.js';
 import {
   getSessionId,
   asyncHandler,
   badRequest,
+  notFound,
   setupSSE,
   bulkOperationRateLimit,
 } from '../middleware/index.js';
@@ -21,18 +24,22 @@ import {
   validateBody,
   duplicateFindSchema,
   bulkDeleteSchema,
+  duplicateMergeSchema,
+  duplicateDismissSchema,
   countTransactionsSchema,
   type DuplicateFindBody,
   type BulkDeleteBody,
+  type DuplicateMergeBody,
+  type DuplicateDismissBody,
   type CountTransactionsBody,
 } from '../utils/index.js';
-import type { DuplicateGroup } from '../../shared/types/app.js';
+import type { DuplicateDismissal, DuplicateGroup } from '../../shared/types/app.js';
 
 const router = Router();
 
 // Middleware to check Firefly III configuration
 router.use((_req: Request, _res: Response, next) => {
-  if (!isFireflyConfigured()) {
+  if (!isFireflyApiAvailable()) {
     throw badRequest(
       'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
     );
@@ -137,7 +144,7 @@ router.post(
   bulkOperationRateLimit,
   validateBody(bulkDeleteSchema),
   asyncHandler(async (req: Request, res: Response) => {
-    const { transactionIds } = req.body as BulkDeleteBody;
+    const { transactionIds, dryRun } = req.body as BulkDeleteBody;
 
     const fireflyApi = getFireflyApi();
     const finder = new DuplicateTransactionFinder(fireflyApi);
@@ -147,26 +154,112 @@ router.post(
       failed: [] as { id: string; error: string }[],
     };
 
-    for (const id of transactionIds) {
-      try {
-        await finder.deleteTransaction(id);
-        results.successful.push(id);
-      } catch (error) {
-        results.failed.push({
-          id,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+    const deleteAll = async () => {
+      for (const id of transactionIds) {
+        try {
+          await finder.deleteTransaction(id);
+          results.successful.push(id);
+        } catch (error) {
+          results.failed.push({
+            id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
       }
+    };
+
+    if (dryRun) {
+      const { changes } = await runDryRun(deleteAll);
+      res.json({
+        success: true,
+        data: { ...results, dryRun: true, changes },
+        message: describeDryRun(changes),
+      });
+      return;
     }
 
+    const { operation } = await getOperationLog().run('duplicateDelete', deleteAll);
+
     res.json({
       success: true,
-      data: results,
+      data: { ...results, operationId: operation?.id ?? null },
       message: `Deleted ${results.successful.length} transactions, ${results.failed.length} failed`,
     });
   })
 );
 
+// Merge duplicates into one transaction, then delete the others
+// Rate limited to prevent accidental mass deletion
+router.post(
+  '/merge',
+  bulkOperationRateLimit,
+  validateBody(duplicateMergeSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { dryRun, ...request } = req.body as DuplicateMergeBody;
+
+    const finder = new DuplicateTransactionFinder(getFireflyApi());
+
+    if (dryRun) {
+      const { result, changes } = await runDryRun(() => finder.mergeTransactions(request));
+      res.json({
+        success: true,
+        data: { ...result, dryRun: true, changes },
+        message: describeDryRun(changes),
+      });
+      return;
+    }
+
+    const { result, operation } = await getOperationLog().run('duplicateMerge', () =>
+      finder.mergeTransactions(request)
+    );
+
+    res.json({
+      success: true,
+      data: { ...result, operationId: operation?.id ?? null },
+      message: `Merged ${result.deleted.length} duplicates, ${result.failed.length} failed`,
+    });
+  })
+);
+
+// List transactions dismissed as "not a duplicate"
+router.get('/dismissals', (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: getDuplicateDismissalStore().list(),
+  } satisfies { success: true; data: DuplicateDismissal[] });
+});
+
+// Dismiss transactions as "not a duplicate" of each other
+router.post(
+  '/dismissals',
+  validateBody(duplicateDismissSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { transactionIds } = req.body as DuplicateDismissBody;
+
+    // Keep what the transactions looked like, to list them later
+    const fireflyApi = getFireflyApi();
+    const transactions = await Promise.all(
+      transactionIds.map((id) => fireflyApi.getTransaction(id))
+    );
+    const dismissal = getDuplicateDismissalStore().dismiss(transactions);
+
+    res.status(201).json({
+      success: true,
+      data: dismissal,
+      message: `Dismissed ${transactions.length} transactions as not duplicates`,
+    } satisfies { success: true; data: DuplicateDismissal; message: string });
+  })
+);
+
+// Restore dismissed transactions, so they are reported as duplicates again
+router.delete('/dismissals/:id', (req: Request, res: Response) => {
+  if (!getDuplicateDismissalStore().restore(req.params.id as string)) {
+    throw notFound('Dismissal not found');
+  }
+
+  res.json({ success: true, message: 'Dismissal removed' });
+});
+
 // Count transactions for wizard step 1
 router.post(
   '/count-transactions',
@@ -0,0 +1,154 @@
+import { Router, Request, Response } from 'express';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
+import {
+  FindReplaceService,
+  FindReplaceTimeoutError,
+  findMatches,
+} from '../services/findReplace.js';
+import { getOperationLog } from '../services/operations.js';
+import { describeDryRun, runDryRun } from '../services/dryRun.js';
+import {
+  getSessionId,
+  asyncHandler,
+  badRequest,
+  bulkOperationRateLimit,
+} from '../middleware/index.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  getCacheKey,
+  getCachedTransactions,
+  setCachedTransactions,
+  clearSessionCache,
+} from '../services/transactionCache.js';
+import {
+  validateBody,
+  countTransactionsSchema,
+  findReplaceSearchSchema,
+  findReplaceApplySchema,
+  type CountTransactionsBody,
+  type FindReplaceSearchBody,
+  type FindReplaceApplyBody,
+} from '../utils/index.js';
+import type { FindReplaceMatch } from '../../shared/types/app.js';
+import type { FireflyTransaction } from '../../shared/types/firefly.js';
+
+const router = Router();
+const logger = createLogger('FindReplace');
+
+// Middleware to check Firefly III configuration
+router.use((_req: Request, _res: Response, next) => {
+  if (!isFireflyApiAvailable()) {
+    throw badRequest(
+      'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
+    );
+  }
+  next();
+});
+
+/**
+ * Get the transactions of a date range, fetching them only once per session
+ */
+async function getTransactions(
+  req: Request,
+  startDate?: string,
+  endDate?: string
+): Promise<FireflyTransaction[]> {
+  const sessionId = getSessionId(req);
+  const cacheKey = getCacheKey(startDate, endDate, 'findReplace');
+
+  let transactions = getCachedTransactions(sessionId, cacheKey);
+  if (!transactions) {
+    transactions = await getFireflyApi().getAllTransactions(startDate, endDate);
+    setCachedTransactions(sessionId, cacheKey, transactions);
+  }
+  return transactions;
+}
+
+// Count transactions in the date range (also caches them for the search)
+router.post(
+  '/count-transactions',
+  validateBody(countTransactionsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { startDate, endDate, limit, offset } = req.body as CountTransactionsBody;
+
+    const transactions = await getTransactions(req, startDate, endDate);
+
+    // Return count and optionally a preview of transactions with pagination
+    const previewLimit = limit || 10;
+    const previewOffset = offset || 0;
+    const preview = transactions
+      .slice(previewOffset, previewOffset + previewLimit)
+      .map((t) => t.attributes.transactions[0]);
+
+    res.json({
+      success: true,
+      data: { count: transactions.length, transactions: preview },
+    });
+  })
+);
+
+// Preview a replacement: every split whose field value would change
+router.post(
+  '/search',
+  validateBody(findReplaceSearchSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { startDate, endDate, ...options } = req.body as FindReplaceSearchBody;
+
+    const transactions = await getTransactions(req, startDate, endDate);
+    let matches: FindReplaceMatch[];
+    try {
+      matches = findMatches(transactions, options);
+    } catch (error) {
+      if (error instanceof FindReplaceTimeoutError) throw badRequest(error.message);
+      throw error;
+    }
+
+    logger.debug(`Replacement in ${options.field} changes ${matches.length} splits`);
+
+    res.json({
+      success: true,
+      data: matches,
+      message: `Found ${matches.length} matching transactions`,
+    } satisfies { success: true; data: FindReplaceMatch[]; message: string });
+  })
+);
+
+// Apply selected replacements
+// Rate limited to prevent excessive API calls to Firefly III
+router.post(
+  '/apply',
+  bulkOperationRateLimit,
+  validateBody(findReplaceApplySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { changes, dryRun } = req.body as FindReplaceApplyBody;
+
+    const service = new FindReplaceService(getFireflyApi());
+
+    if (dryRun) {
+      const { result, changes: dryRunChanges } = await runDryRun(() =>
+        service.applyChanges(changes)
+      );
+      res.json({
+        success: true,
+        data: { ...result, dryRun: true, changes: dryRunChanges },
+        message: describeDryRun(dryRunChanges),
+      });
+      return;
+    }
+
+    const { result, operation } = await getOperationLog().run('findReplace', () =>
+      service.applyChanges(changes)
+    );
+
+    // Cached transactions still hold the old values
+    clearSessionCache(getSessionId(req));
+
+    res.json({
+      success: true,
+      data: { ...result, operationId: operation?.id ?? null },
+      message: `Applied ${result.successful.length} replacements, ${result.failed.length} failed`,
+    });
+  })
+);
+
+export default router;
@@ -1,8 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { FinTSClient, KNOWN_BANKS } from '../clients/fints/index.js';
-import { getFireflyApi } from '../clients/firefly.js';
-import { getFinTSClientStore, getFinTSDialogStateStore } from '../services/index.js';
-import { isFireflyConfigured, isFinTSConfigured, config } from '../config/index.js';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
+import {
+  getFinTSClientStore,
+  getFinTSDialogStateStore,
+  fintsDialogsTotal,
+  runDryRun,
+  describeDryRun,
+} from '../services/index.js';
+import { isFinTSConfigured, config } from '../config/index.js';
 import { createLogger } from '../utils/logger.js';
 import { asyncHandler, badRequest, getSessionId, setupSSE } from '../middleware/index.js';
 import {
@@ -25,7 +31,8 @@ import type {
 const router = Router();
 const logger = createLogger('FinTS:Routes');
 
-// Use session stores with TTL-based lifecycle management
+// Use session stores with TTL-based lifecycle management.
+// Not persisted: dialog state is only meaningful together with the live bank connection.
 const clientStore = getFinTSClientStore<FinTSClient>();
 const dialogStateStore = getFinTSDialogStateStore<FinTSDialogState>();
 
@@ -56,9 +63,26 @@ async function clearClient(sessionId: string): Promise<void> {
   await dialogStateStore.delete(sessionId);
 }
 
+/**
+ * Run a dialog step and count its outcome for the metrics endpoint
+ */
+async function trackDialogStep(
+  step: 'connect' | 'submit_tan' | 'poll_tan',
+  run: () => Promise<FinTSDialogState>
+): Promise<FinTSDialogState> {
+  try {
+    const state = await run();
+    fintsDialogsTotal.inc({ step, outcome: state.tanRequired ? 'tan_required' : 'success' });
+    return state;
+  } catch (error) {
+    fintsDialogsTotal.inc({ step, outcome: 'failure' });
+    throw error;
+  }
+}
+
 // Middleware to check Firefly III and FinTS configuration
 router.use((_req: Request, _res: Response, next) => {
-  if (!isFireflyConfigured()) {
+  if (!isFireflyApiAvailable()) {
     throw badRequest(
       'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
     );
@@ -110,7 +134,7 @@ router.post(
     setClient(sessionId, client);
 
     try {
-      const state = await client.initDialog();
+      const state = await trackDialogStep('connect', () => client.initDialog());
       dialogStateStore.set(sessionId, state);
 
       logger.info(`Connection successful, found ${state.accounts?.length || 0} accounts`);
@@ -146,7 +170,9 @@ router.post(
       throw badRequest('No active session. Please connect first.');
     }
 
-    const state = await client.submitTan(tan, orderRef || currentState.tanRequest?.orderRef || '');
+    const state = await trackDialogStep('submit_tan', () =>
+      client.submitTan(tan, orderRef || currentState.tanRequest?.orderRef || '')
+    );
     dialogStateStore.set(sessionId, state);
 
     logger.info('TAN verified successfully');
@@ -176,8 +202,8 @@ router.post(
       throw badRequest('No active session. Please connect first.');
     }
 
-    const state = await client.pollDecoupledTan(
-      orderRef || currentState.tanRequest?.orderRef || ''
+    const state = await trackDialogStep('poll_tan', () =>
+      client.pollDecoupledTan(orderRef || currentState.tanRequest?.orderRef || '')
     );
     dialogStateStore.set(sessionId, state);
 
@@ -320,9 +346,11 @@ router.post(
   '/import',
   validateBody(fintsImportSchema),
   asyncHandler(async (req: Request, res: Response) => {
-    const { transactions } = req.body as FinTSImportBody;
+    const { transactions, dryRun } = req.body as FinTSImportBody;
 
-    logger.info(`Import request for ${transactions.length} transactions`);
+    logger.info(
+      `${dryRun ? 'Dry run import' : 'Import'} request for ${transactions.length} transactions`
+    );
 
     const fireflyApi = getFireflyApi();
     const results: { successful: string[]; failed: Array<{ id: string; error: string }> } = {
@@ -330,44 +358,58 @@ router.post(
       failed: [],
     };
 
-    for (const result of transactions) {
-      if (result.status !== 'pending') continue;
-
-      try {
-        const tx = result.fireflyTransaction;
-
-        logger.debug(`Importing transaction: ${tx.description}`);
-
-        await fireflyApi.createTransaction({
-          error_if_duplicate_hash: true,
-          apply_rules: true,
-          fire_webhooks: true,
-          transactions: [
-            {
-              type: tx.type,
-              date: tx.date,
-              amount: tx.amount,
-              description: tx.description,
-              source_name: tx.source_name,
-              destination_name: tx.destination_name,
-              notes: tx.notes,
-              external_id: tx.external_id,
-              tags: ['Toolbox for FFIII: FinTS Importer'],
-            },
-          ],
-        });
-
-        results.successful.push(result.fintsTransaction.reference || tx.description);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        logger.debug(`Failed to import: ${errorMessage}`);
-        results.failed.push({
-          id: result.fintsTransaction.reference || result.fireflyTransaction.description,
-          error: errorMessage,
-        });
+    const importAll = async () => {
+      for (const result of transactions) {
+        if (result.status !== 'pending') continue;
+
+        try {
+          const tx = result.fireflyTransaction;
+
+          logger.debug(`Importing transaction: ${tx.description}`);
+
+          await fireflyApi.createTransaction({
+            error_if_duplicate_hash: true,
+            apply_rules: true,
+            fire_webhooks: true,
+            transactions: [
+              {
+                type: tx.type,
+                date: tx.date,
+                amount: tx.amount,
+                description: tx.description,
+                source_name: tx.source_name,
+                destination_name: tx.destination_name,
+                notes: tx.notes,
+                external_id: tx.external_id,
+                tags: ['Toolbox for FFIII: FinTS Importer'],
+              },
+            ],
+          });
+
+          results.successful.push(result.fintsTransaction.reference || tx.description);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          logger.debug(`Failed to import: ${errorMessage}`);
+          results.failed.push({
+            id: result.fintsTransaction.reference || result.fireflyTransaction.description,
+            error: errorMessage,
+          });
+        }
       }
+    };
+
+    if (dryRun) {
+      const { changes } = await runDryRun(importAll);
+      res.json({
+        success: true,
+        data: { ...results, dryRun: true, changes },
+        message: describeDryRun(changes),
+      });
+      return;
     }
 
+    await importAll();
+
     logger.info(
       `Import complete: ${results.successful.length} success, ${results.failed.length} failed`
     );
@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import { getFireflyProfile } from '../clients/firefly.js';
+import { config, DEFAULT_FIREFLY_PROFILE_ID, type FireflyProfile } from '../config/index.js';
+import { asyncHandler, getSessionId, notFound } from '../middleware/index.js';
+import { clearSessionData } from '../services/index.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  validateBody,
+  fireflyProfileSelectSchema,
+  type FireflyProfileSelectBody,
+} from '../utils/index.js';
+import type { FireflyProfileInfo, FireflyProfileList } from '../../shared/types/app.js';
+
+const router = Router();
+const logger = createLogger('FireflyProfiles');
+
+/**
+ * Profile details safe to send to the client (without the API token)
+ */
+function toProfileInfo(profile: FireflyProfile): FireflyProfileInfo {
+  return {
+    id: profile.id,
+    name: profile.name,
+    apiUrl: profile.apiUrl,
+    numberFormat: profile.numberFormat,
+  };
+}
+
+function getProfileList(req: Request): FireflyProfileList {
+  const activeProfile = getFireflyProfile(req.session.fireflyProfile ?? DEFAULT_FIREFLY_PROFILE_ID);
+
+  return {
+    profiles: config.firefly.profiles.map(toProfileInfo),
+    activeProfileId: activeProfile?.id ?? DEFAULT_FIREFLY_PROFILE_ID,
+  };
+}
+
+/**
+ * GET /api/firefly-profiles
+ * List the Firefly III connection profiles and the one used by this session
+ */
+router.get('/', (req: Request, res: Response) => {
+  res.json({ success: true, data: getProfileList(req) });
+});
+
+/**
+ * PUT /api/firefly-profiles/active
+ * Switch the session to another connection profile.
+ * Body: { profileId }
+ */
+router.put(
+  '/active',
+  validateBody(fireflyProfileSelectSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { profileId } = req.body as FireflyProfileSelectBody;
+
+    const profile = getFireflyProfile(profileId);
+    if (!profile) {
+      throw notFound('Firefly III profile not found');
+    }
+
+    if (profile.id === DEFAULT_FIREFLY_PROFILE_ID) {
+      delete req.session.fireflyProfile;
+    } else {
+      req.session.fireflyProfile = profile.id;
+    }
+
+    // Uploads, matches and bank connections of the session belong to the previous instance
+    await clearSessionData(getSessionId(req));
+    logger.info(`Session switched to Firefly III profile "${profile.id}"`);
+
+    res.json({
+      success: true,
+      data: getProfileList(req),
+      message: `Switched to ${profile.name}`,
+    });
+  })
+);
+
+export default router;
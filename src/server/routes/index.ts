@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { requireAuth } from '../middleware/index.js';
+import { requireAuth, auditContext, fireflyUserApi } from '../middleware/index.js';
 import authRoutes from './auth.js';
 import statusRoutes from './status.js';
 import duplicatesRoutes from './duplicates.js';
@@ -10,23 +10,50 @@ import paypalRoutes from './paypal.js';
 import transactionsRoutes from './transactions.js';
 import converterRoutes from './converter.js';
 import fintsRoutes from './fints.js';
+import findReplaceRoutes from './findReplace.js';
+import ruleSimulatorRoutes from './ruleSimulator.js';
+import transferPairsRoutes from './transferPairs.js';
+import jobsRoutes from './jobs.js';
+import schedulesRoutes from './schedules.js';
+import auditRoutes from './audit.js';
+import operationsRoutes from './operations.js';
+import fireflyProfilesRoutes from './fireflyProfiles.js';
+import webhooksRoutes from './webhooks.js';
+import transactionMirrorRoutes from './transactionMirror.js';
+import openapiRoutes from './openapi.js';
 
 const router = Router();
 
 // Public routes (no auth required)
 router.use('/auth', authRoutes);
 
+// API description (GET /api/openapi.json)
+router.use('/', openapiRoutes);
+
+// Use the Firefly III account of users signed in with Firefly OAuth
+router.use(fireflyUserApi);
+
 // Semi-public routes (auth status info is available without auth)
 router.use('/', statusRoutes);
 
 // Protected routes (require authentication if auth is configured)
-router.use('/duplicates', requireAuth, duplicatesRoutes);
-router.use('/subscriptions', requireAuth, subscriptionsRoutes);
-router.use('/suggestions', requireAuth, suggestionsRoutes);
-router.use('/amazon', requireAuth, amazonRoutes);
-router.use('/paypal', requireAuth, paypalRoutes);
-router.use('/transactions', requireAuth, transactionsRoutes);
-router.use('/converter', requireAuth, converterRoutes);
-router.use('/fints', requireAuth, fintsRoutes);
+router.use('/duplicates', requireAuth, auditContext('duplicates'), duplicatesRoutes);
+router.use('/subscriptions', requireAuth, auditContext('subscriptions'), subscriptionsRoutes);
+router.use('/suggestions', requireAuth, auditContext('suggestions'), suggestionsRoutes);
+router.use('/amazon', requireAuth, auditContext('amazon'), amazonRoutes);
+router.use('/paypal', requireAuth, auditContext('paypal'), paypalRoutes);
+router.use('/transactions', requireAuth, auditContext('transactions'), transactionsRoutes);
+router.use('/converter', requireAuth, auditContext('converter'), converterRoutes);
+router.use('/fints', requireAuth, auditContext('fints'), fintsRoutes);
+router.use('/find-replace', requireAuth, auditContext('findReplace'), findReplaceRoutes);
+router.use('/rule-simulator', requireAuth, ruleSimulatorRoutes);
+router.use('/transfer-pairs', requireAuth, auditContext('transferPairs'), transferPairsRoutes);
+router.use('/jobs', requireAuth, jobsRoutes);
+router.use('/schedules', requireAuth, auditContext('scheduler'), schedulesRoutes);
+router.use('/audit', requireAuth, auditRoutes);
+router.use('/operations', requireAuth, auditContext('undo'), operationsRoutes);
+router.use('/firefly-profiles', requireAuth, fireflyProfilesRoutes);
+router.use('/webhooks', requireAuth, webhooksRoutes);
+router.use('/transaction-mirror', requireAuth, transactionMirrorRoutes);
 
 export default router;
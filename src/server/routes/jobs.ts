@@ -0,0 +1,207 @@
+import { Router, Request, Response } from 'express';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
+import { isAIConfigured } from '../config/index.js';
+import {
+  getSessionId,
+  asyncHandler,
+  badRequest,
+  notFound,
+  setupSSE,
+  tooManyRequests,
+} from '../middleware/index.js';
+import {
+  DuplicateTransactionFinder,
+  SubscriptionFinder,
+  AISuggestionService,
+  getCacheKey,
+  getCachedTransactions,
+  getJobManager,
+  MAX_RUNNING_JOBS_PER_OWNER,
+  type JobEvent,
+} from '../services/index.js';
+import { createLogger } from '../utils/logger.js';
+import { validateBody, jobCreateSchema, type JobCreateBody } from '../utils/index.js';
+
+const router = Router();
+const logger = createLogger('JobRoutes');
+
+// Middleware to check Firefly III configuration
+router.use((_req: Request, _res: Response, next) => {
+  if (!isFireflyApiAvailable()) {
+    throw badRequest(
+      'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
+    );
+  }
+  next();
+});
+
+/**
+ * Create the event generator for a job, reusing the session's cached transactions
+ * the same way the corresponding stream endpoints do
+ */
+function createJobGenerator(body: JobCreateBody, sessionId: string): AsyncGenerator<JobEvent> {
+  const fireflyApi = getFireflyApi();
+  const { startDate, endDate } = body.params;
+
+  switch (body.kind) {
+    case 'duplicates': {
+      const cached = getCachedTransactions(sessionId, getCacheKey(startDate, endDate));
+      return new DuplicateTransactionFinder(fireflyApi).streamFindDuplicates(
+        startDate,
+        endDate,
+        body.params.options,
+        cached || undefined
+      );
+    }
+    case 'subscriptions': {
+      const cached = getCachedTransactions(sessionId, getCacheKey(startDate, endDate));
+      return new SubscriptionFinder(fireflyApi).streamFindSubscriptionPatterns(
+        startDate,
+        endDate,
+        body.params.options,
+        cached || undefined
+      );
+    }
+    case 'categorySuggestions': {
+      const cacheKey = getCacheKey(startDate, endDate, 'uncategorized');
+      const cached = getCachedTransactions(sessionId, cacheKey);
+      return new AISuggestionService(fireflyApi).streamCategorySuggestions(
+        startDate,
+        endDate,
+        body.params.options,
+        cached || undefined
+      );
+    }
+    case 'tagSuggestions': {
+      const cached = getCachedTransactions(sessionId, getCacheKey(startDate, endDate, 'untagged'));
+      return new AISuggestionService(fireflyApi).streamTagSuggestions(
+        startDate,
+        endDate,
+        body.params.options,
+        cached || undefined
+      );
+    }
+  }
+}
+
+/**
+ * GET /api/jobs
+ * List background jobs of the current session
+ */
+router.get('/', (req: Request, res: Response) => {
+  res.json({ success: true, data: getJobManager().list(getSessionId(req)) });
+});
+
+/**
+ * POST /api/jobs
+ * Start a background job
+ * Body: { kind: JobKind, params: { startDate?, endDate?, options? } }
+ */
+router.post('/', validateBody(jobCreateSchema), (req: Request, res: Response) => {
+  const body = req.body as JobCreateBody;
+  const sessionId = getSessionId(req);
+  const jobManager = getJobManager();
+
+  if (
+    (body.kind === 'categorySuggestions' || body.kind === 'tagSuggestions') &&
+    !isAIConfigured()
+  ) {
+    throw badRequest('AI is not configured. Please configure OpenAI or Ollama in settings.');
+  }
+
+  if (jobManager.countRunning(sessionId) >= MAX_RUNNING_JOBS_PER_OWNER) {
+    throw tooManyRequests(
+      `Too many running jobs. Wait for a job to finish or cancel one (max ${MAX_RUNNING_JOBS_PER_OWNER}).`
+    );
+  }
+
+  const job = jobManager.start(sessionId, body.kind, createJobGenerator(body, sessionId));
+
+  res.status(202).json({ success: true, data: job, message: 'Job started' });
+});
+
+/**
+ * GET /api/jobs/:id
+ * Get job status and progress
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const job = getJobManager().get(getSessionId(req), req.params.id as string);
+  if (!job) {
+    throw notFound('Job not found');
+  }
+
+  res.json({ success: true, data: job });
+});
+
+/**
+ * GET /api/jobs/:id/results
+ * Get buffered results (available while running and until retention expires)
+ */
+router.get('/:id/results', (req: Request, res: Response) => {
+  const results = getJobManager().getResults(getSessionId(req), req.params.id as string);
+  if (!results) {
+    throw notFound('Job not found');
+  }
+
+  res.json({ success: true, data: results });
+});
+
+/**
+ * GET /api/jobs/:id/events
+ * Attach to a job's event stream (SSE). Buffered events are replayed first;
+ * the stream ends when the job finishes.
+ */
+router.get(
+  '/:id/events',
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessionId = getSessionId(req);
+    const jobId = req.params.id as string;
+    const jobManager = getJobManager();
+
+    if (!jobManager.get(sessionId, jobId)) {
+      throw notFound('Job not found');
+    }
+
+    const sse = setupSSE(res, req);
+    const detach = jobManager.attach(sessionId, jobId, (event) => {
+      if (event) {
+        sse.send(event.type, event.data);
+      } else {
+        sse.end();
+      }
+    });
+
+    // The job keeps running when the client goes away
+    sse.onClose(() => {
+      logger.debug(`Client detached from job ${jobId}`);
+      detach?.();
+    });
+  })
+);
+
+/**
+ * POST /api/jobs/:id/cancel
+ * Cancel a running job (stops after the current step)
+ */
+router.post('/:id/cancel', (req: Request, res: Response) => {
+  const job = getJobManager().cancel(getSessionId(req), req.params.id as string);
+  if (!job) {
+    throw notFound('Job not found');
+  }
+
+  res.json({ success: true, data: job, message: 'Cancellation requested' });
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel (if running) and discard a job and its results
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  if (!getJobManager().remove(getSessionId(req), req.params.id as string)) {
+    throw notFound('Job not found');
+  }
+
+  res.json({ success: true, message: 'Job removed' });
+});
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { unauthorized } from '../middleware/index.js';
+import { metricsRegistry, METRICS_CONTENT_TYPE } from '../services/index.js';
+
+const router = Router();
+
+/**
+ * Check the bearer token of a scrape request (timing-safe)
+ */
+function hasValidToken(req: Request, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const providedBuffer = Buffer.from(match[1].trim());
+  const tokenBuffer = Buffer.from(token);
+  return (
+    providedBuffer.length === tokenBuffer.length &&
+    crypto.timingSafeEqual(providedBuffer, tokenBuffer)
+  );
+}
+
+// Prometheus metrics (protected by METRICS_TOKEN if configured)
+router.get('/', (req: Request, res: Response) => {
+  if (config.metrics.token && !hasValidToken(req, config.metrics.token)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    throw unauthorized('Invalid or missing metrics token');
+  }
+
+  res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(metricsRegistry.render());
+});
+
+export default router;
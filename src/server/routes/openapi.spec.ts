@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Router } from 'express';
+import apiRoutes from './index.js';
+import { getApiRouteGroups, getOpenApiDocument } from './openapi.js';
+import { listRouterRoutes, getOperationKey } from '../services/openapi.js';
+
+// Keep session stores in memory instead of creating a database
+vi.hoisted(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+});
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('OpenAPI description', () => {
+  const groups = getApiRouteGroups();
+
+  it('should document every router mounted below /api', () => {
+    const documented = new Set<unknown>(groups.map((group) => group.router));
+    const mounted = apiRoutes.stack
+      .filter((layer) => layer.name === 'router')
+      .map((layer) => layer.handle as unknown as Router);
+
+    expect(mounted.length).toBeGreaterThan(10);
+    for (const router of mounted) {
+      expect(documented.has(router)).toBe(true);
+    }
+  });
+
+  it.each(groups.map((group) => [group.tag, group] as const))(
+    'should document every %s route and nothing else',
+    (_tag, group) => {
+      const registered = listRouterRoutes(group.router).map(getOperationKey).sort();
+
+      expect(registered).toEqual(Object.keys(group.operations).sort());
+    }
+  );
+
+  it('should describe request bodies from the validation schemas', () => {
+    const document = getOpenApiDocument();
+    const operation = document.paths['/duplicates/find']?.post as {
+      requestBody: { content: Record<string, { schema: { properties: object } }> };
+    };
+
+    const schema = operation.requestBody.content['application/json'].schema;
+    expect(schema.properties).toHaveProperty('startDate');
+    expect(schema).not.toHaveProperty('$schema');
+  });
+
+  it('should convert path parameters and add query parameters', () => {
+    const document = getOpenApiDocument();
+    const revert = document.paths['/operations/{id}/revert']?.post as {
+      parameters: Array<{ name?: string; in?: string; $ref?: string }>;
+    };
+    const audit = document.paths['/audit']?.get as {
+      parameters: Array<{ name: string; in: string }>;
+    };
+
+    expect(revert.parameters).toContainEqual(expect.objectContaining({ name: 'id', in: 'path' }));
+    expect(revert.parameters).toContainEqual({ $ref: '#/components/parameters/CsrfToken' });
+    expect(audit.parameters.map((parameter) => parameter.name)).toContain('tool');
+  });
+
+  it('should use unique operation IDs', () => {
+    const document = getOpenApiDocument();
+    const ids = Object.values(document.paths).flatMap((operations) =>
+      Object.values(operations).map((operation) => operation?.operationId)
+    );
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
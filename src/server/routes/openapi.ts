@@ -0,0 +1,420 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  buildOpenApiDocument,
+  type ApiRouteGroup,
+  type OpenApiDocument,
+} from '../services/index.js';
+import { auditQuerySchema, fireflyWebhookSchema } from '../utils/index.js';
+import authRoutes from './auth.js';
+import statusRoutes from './status.js';
+import duplicatesRoutes from './duplicates.js';
+import subscriptionsRoutes from './subscriptions.js';
+import suggestionsRoutes from './suggestions.js';
+import amazonRoutes from './amazon.js';
+import paypalRoutes from './paypal.js';
+import transactionsRoutes from './transactions.js';
+import converterRoutes from './converter.js';
+import fintsRoutes from './fints.js';
+import findReplaceRoutes from './findReplace.js';
+import ruleSimulatorRoutes from './ruleSimulator.js';
+import transferPairsRoutes from './transferPairs.js';
+import jobsRoutes from './jobs.js';
+import schedulesRoutes from './schedules.js';
+import auditRoutes from './audit.js';
+import operationsRoutes from './operations.js';
+import fireflyProfilesRoutes from './fireflyProfiles.js';
+import metricsRoutes from './metrics.js';
+import webhooksRoutes from './webhooks.js';
+import webhookReceiverRoutes from './webhookReceiver.js';
+import transactionMirrorRoutes from './transactionMirror.js';
+
+const router = Router();
+
+/** Version of the API description */
+const API_VERSION = '1.0.0';
+
+const limitQuery = z.object({ limit: z.coerce.number().int().positive().optional() });
+
+const oauthCallbackQuery = z.object({
+  code: z.string().optional(),
+  state: z.string().optional(),
+  error: z.string().optional(),
+});
+
+/**
+ * Every router mounted below /api with the docs of its operations.
+ * Routes without docs here fail the OpenAPI tests, so new routes cannot ship
+ * undocumented.
+ */
+export function getApiRouteGroups(): ApiRouteGroup[] {
+  return [
+    {
+      path: '/auth',
+      router: authRoutes,
+      tag: 'Authentication',
+      access: 'public',
+      operations: {
+        'GET /status': { summary: 'Get authentication status and the signed-in user' },
+        'GET /csrf-token': { summary: 'Get the CSRF token for state-changing requests' },
+        'GET /providers': { summary: 'List the available login methods' },
+        'POST /basic/login': { summary: 'Sign in with username and password' },
+        'GET /oidc/login': {
+          summary: 'Start the OpenID Connect login',
+          contentType: 'text/html',
+        },
+        'GET /oidc/callback': {
+          summary: 'Complete the OpenID Connect login',
+          query: oauthCallbackQuery,
+          contentType: 'text/html',
+        },
+        'GET /firefly/login': {
+          summary: 'Start the Firefly III OAuth login',
+          contentType: 'text/html',
+        },
+        'GET /firefly/callback': {
+          summary: 'Complete the Firefly III OAuth login',
+          query: oauthCallbackQuery,
+          contentType: 'text/html',
+        },
+        'POST /logout': { summary: 'Sign out and clear the session' },
+      },
+    },
+    {
+      path: '',
+      router: statusRoutes,
+      tag: 'Status',
+      access: 'public',
+      operations: {
+        'GET /health': { summary: 'Health check with session store statistics' },
+        'GET /status': { summary: 'Get configuration status and connection checks' },
+        'GET /tools': { summary: 'List the tools and whether they are available' },
+      },
+    },
+    {
+      path: '',
+      router,
+      tag: 'Documentation',
+      access: 'public',
+      operations: {
+        'GET /openapi.json': { summary: 'Get this OpenAPI description' },
+      },
+    },
+    {
+      path: '/duplicates',
+      router: duplicatesRoutes,
+      tag: 'Duplicates',
+      access: 'session',
+      operations: {
+        'POST /stream-find': { summary: 'Find duplicate transactions with progress', stream: true },
+        'POST /find': { summary: 'Find duplicate transactions' },
+        'DELETE /transaction/:id': { summary: 'Delete a transaction' },
+        'POST /delete-bulk': { summary: 'Delete several transactions (revertible)' },
+        'POST /merge': { summary: 'Merge duplicates into one transaction (revertible)' },
+        'GET /dismissals': { summary: 'List transactions dismissed as not duplicates' },
+        'POST /dismissals': { summary: 'Dismiss transactions as not duplicates of each other' },
+        'DELETE /dismissals/:id': { summary: 'Report dismissed transactions as duplicates again' },
+        'POST /count-transactions': { summary: 'Count the transactions to search' },
+      },
+    },
+    {
+      path: '/subscriptions',
+      router: subscriptionsRoutes,
+      tag: 'Subscriptions',
+      access: 'session',
+      operations: {
+        'POST /stream-find': { summary: 'Find recurring payments with progress', stream: true },
+        'POST /find': { summary: 'Find recurring payments' },
+        'POST /create': { summary: 'Create a Firefly III subscription from a pattern' },
+        'GET /existing': { summary: 'List the subscriptions in Firefly III' },
+        'POST /count-transactions': { summary: 'Count the withdrawals to search' },
+      },
+    },
+    {
+      path: '/suggestions',
+      router: suggestionsRoutes,
+      tag: 'AI Suggestions',
+      access: 'session',
+      operations: {
+        'POST /uncategorized': { summary: 'List transactions without a category' },
+        'POST /untagged': { summary: 'List transactions not yet processed for tags' },
+        'POST /suggest-categories': { summary: 'Suggest categories with AI' },
+        'POST /stream-categories': { summary: 'Suggest categories with progress', stream: true },
+        'POST /stream-tags': { summary: 'Suggest tags with progress', stream: true },
+        'POST /suggest-tags': { summary: 'Suggest tags with AI' },
+        'POST /apply-categories': { summary: 'Apply category suggestions (revertible)' },
+        'POST /apply-tags': { summary: 'Apply tag suggestions (revertible)' },
+        'POST /propose-rules': { summary: 'Propose Firefly III rules from applied suggestions' },
+        'POST /create-rules': { summary: 'Create Firefly III rules' },
+        'GET /categories': { summary: 'List the categories in Firefly III' },
+        'GET /tags': { summary: 'List the tags in Firefly III' },
+        'POST /count-uncategorized': { summary: 'Count transactions without a category' },
+        'POST /count-untagged': { summary: 'Count transactions not yet processed for tags' },
+      },
+    },
+    {
+      path: '/amazon',
+      router: amazonRoutes,
+      tag: 'Amazon',
+      access: 'session',
+      operations: {
+        'POST /upload': { summary: 'Upload an Amazon order export', upload: true },
+        'POST /upload-json': { summary: 'Upload Amazon orders as JSON' },
+        'GET /orders': { summary: 'Get the uploaded orders' },
+        'DELETE /orders': { summary: 'Discard the uploaded orders' },
+        'POST /transactions': { summary: 'List Amazon transactions in Firefly III' },
+        'POST /count-transactions': { summary: 'Count Amazon transactions in Firefly III' },
+        'POST /match': { summary: 'Match transactions with orders' },
+        'POST /stream-match': {
+          summary: 'Match transactions with orders with progress',
+          stream: true,
+        },
+        'POST /apply': { summary: 'Write order details to transactions (revertible)' },
+      },
+    },
+    {
+      path: '/paypal',
+      router: paypalRoutes,
+      tag: 'PayPal',
+      access: 'session',
+      operations: {
+        'POST /upload': { summary: 'Upload a PayPal activity report', upload: true },
+        'POST /upload-csv': { summary: 'Upload PayPal CSV content' },
+        'GET /transactions': { summary: 'Get the uploaded PayPal transactions' },
+        'DELETE /transactions': { summary: 'Discard the uploaded PayPal transactions' },
+        'POST /firefly-transactions': { summary: 'List PayPal transactions in Firefly III' },
+        'POST /count-transactions': { summary: 'Count PayPal transactions in Firefly III' },
+        'POST /match': { summary: 'Match transactions with PayPal data' },
+        'POST /stream-match': {
+          summary: 'Match transactions with PayPal data with progress',
+          stream: true,
+        },
+        'POST /apply': { summary: 'Write PayPal details to transactions (revertible)' },
+      },
+    },
+    {
+      path: '/find-replace',
+      router: findReplaceRoutes,
+      tag: 'Find & Replace',
+      access: 'session',
+      operations: {
+        'POST /count-transactions': { summary: 'Count the transactions to search' },
+        'POST /search': { summary: 'Preview a replacement in a transaction field' },
+        'POST /apply': { summary: 'Write selected replacements (revertible)' },
+      },
+    },
+    {
+      path: '/rule-simulator',
+      router: ruleSimulatorRoutes,
+      tag: 'Rule Simulator',
+      access: 'session',
+      operations: {
+        'POST /count-transactions': { summary: 'Count the transactions to simulate rules against' },
+        'POST /simulate': { summary: 'Show which transactions Firefly III rules would match' },
+      },
+    },
+    {
+      path: '/transfer-pairs',
+      router: transferPairsRoutes,
+      tag: 'Transfer Pairs',
+      access: 'session',
+      operations: {
+        'POST /count-transactions': { summary: 'Count the transactions to search for transfers' },
+        'POST /find': { summary: 'Find withdrawal/deposit pairs between own accounts' },
+        'POST /convert': { summary: 'Replace pairs with transfers (revertible)' },
+      },
+    },
+    {
+      path: '/transactions',
+      router: transactionsRoutes,
+      tag: 'Transactions',
+      access: 'session',
+      operations: {
+        'POST /list': { summary: 'List transactions with filters' },
+        'POST /all': { summary: 'List all transactions in a date range' },
+        'GET /:id': { summary: 'Get a transaction' },
+        'PUT /:id': { summary: 'Update a transaction' },
+        'DELETE /:id': { summary: 'Delete a transaction' },
+        'GET /accounts/list': {
+          summary: 'List accounts',
+          query: z.object({ type: z.string().optional() }),
+        },
+      },
+    },
+    {
+      path: '/converter',
+      router: converterRoutes,
+      tag: 'CSV Importer',
+      access: 'session',
+      operations: {
+        'POST /import': { summary: 'Import converted transactions' },
+        'POST /stream-import': {
+          summary: 'Import converted transactions with progress',
+          stream: true,
+        },
+        'GET /accounts': { summary: 'List accounts for mapping' },
+        'GET /categories': { summary: 'List categories for mapping' },
+        'GET /profiles': { summary: 'List saved import profiles' },
+        'GET /profiles/:id': { summary: 'Get an import profile' },
+        'POST /profiles': { summary: 'Save an import profile' },
+        'PUT /profiles/:id': { summary: 'Update an import profile' },
+        'POST /profiles/:id/duplicate': { summary: 'Copy an import profile' },
+        'POST /profiles/:id/use': { summary: 'Load an import profile and mark it as used' },
+        'DELETE /profiles/:id': { summary: 'Delete an import profile' },
+      },
+    },
+    {
+      path: '/fints',
+      router: fintsRoutes,
+      tag: 'FinTS',
+      access: 'session',
+      operations: {
+        'GET /banks': { summary: 'List known banks' },
+        'POST /connect': { summary: 'Connect to a bank and list its accounts' },
+        'POST /submit-tan': { summary: 'Submit a TAN' },
+        'POST /poll-tan': {
+          summary: 'Check whether an app-based TAN was confirmed',
+          description: 'Body: `{ orderRef? }`',
+        },
+        'POST /fetch': { summary: 'Fetch bank transactions' },
+        'POST /stream-fetch': { summary: 'Fetch bank transactions with progress', stream: true },
+        'POST /import': { summary: 'Import bank transactions into Firefly III' },
+        'POST /disconnect': { summary: 'End the bank connection' },
+      },
+    },
+    {
+      path: '/jobs',
+      router: jobsRoutes,
+      tag: 'Jobs',
+      access: 'session',
+      operations: {
+        'GET /': { summary: 'List background jobs of the session' },
+        'POST /': { summary: 'Start a background job' },
+        'GET /:id': { summary: 'Get job status and progress' },
+        'GET /:id/results': { summary: 'Get the results of a job' },
+        'GET /:id/events': { summary: "Follow a job's events", stream: true },
+        'POST /:id/cancel': { summary: 'Cancel a running job' },
+        'DELETE /:id': { summary: 'Cancel and discard a job' },
+      },
+    },
+    {
+      path: '/schedules',
+      router: schedulesRoutes,
+      tag: 'Schedules',
+      access: 'session',
+      operations: {
+        'GET /': { summary: 'List schedules' },
+        'POST /': { summary: 'Create a schedule' },
+        'GET /runs': { summary: 'Get the run history of all schedules', query: limitQuery },
+        'GET /:id': { summary: 'Get a schedule' },
+        'PUT /:id': { summary: 'Update a schedule' },
+        'DELETE /:id': { summary: 'Delete a schedule and its run history' },
+        'GET /:id/runs': { summary: 'Get the run history of a schedule', query: limitQuery },
+        'POST /:id/run': { summary: 'Run a schedule now' },
+      },
+    },
+    {
+      path: '/audit',
+      router: auditRoutes,
+      tag: 'Audit Log',
+      access: 'session',
+      operations: {
+        'GET /': { summary: 'List audit log entries', query: auditQuerySchema },
+        'GET /:id': { summary: 'Get an audit log entry with before and after snapshots' },
+      },
+    },
+    {
+      path: '/operations',
+      router: operationsRoutes,
+      tag: 'Undo',
+      access: 'session',
+      operations: {
+        'GET /': { summary: 'List revertible bulk operations', query: limitQuery },
+        'GET /:id': { summary: 'Get a bulk operation' },
+        'POST /:id/revert': { summary: 'Revert a bulk operation' },
+      },
+    },
+    {
+      path: '/firefly-profiles',
+      router: fireflyProfilesRoutes,
+      tag: 'Connection Profiles',
+      access: 'session',
+      operations: {
+        'GET /': { summary: 'List Firefly III connection profiles' },
+        'PUT /active': { summary: 'Switch the session to another connection profile' },
+      },
+    },
+    {
+      path: '/webhooks',
+      router: webhooksRoutes,
+      tag: 'Webhooks',
+      access: 'session',
+      operations: {
+        'GET /': {
+          summary: 'Get the webhook receiver settings and recent deliveries',
+          query: limitQuery,
+        },
+      },
+    },
+    {
+      path: '/webhooks',
+      router: webhookReceiverRoutes,
+      tag: 'Webhooks',
+      access: 'webhookSignature',
+      operations: {
+        'POST /firefly': {
+          summary: 'Receive a Firefly III webhook message',
+          description:
+            'Queues new transactions (STORE_TRANSACTION) for the configured actions and ' +
+            'acknowledges other triggers. The webhook must respond with transaction details.',
+          query: z.object({ profile: z.string().optional() }),
+          body: fireflyWebhookSchema,
+        },
+      },
+    },
+    {
+      path: '/transaction-mirror',
+      router: transactionMirrorRoutes,
+      tag: 'Transaction Mirror',
+      access: 'session',
+      operations: {
+        'GET /': { summary: 'Get the sync status of the local transaction copy' },
+        'POST /sync': {
+          summary: 'Sync the local transaction copy with Firefly III',
+          description:
+            'Stores transactions changed since the last sync and removes deleted ones; ' +
+            'with full=true all transactions are downloaded again.',
+        },
+      },
+    },
+    {
+      path: '/metrics',
+      router: metricsRoutes,
+      tag: 'Monitoring',
+      access: 'metricsToken',
+      operations: {
+        'GET /': {
+          summary: 'Prometheus metrics',
+          contentType: 'text/plain',
+        },
+      },
+    },
+  ];
+}
+
+let document: OpenApiDocument | null = null;
+
+/**
+ * Get the OpenAPI description (routes do not change at runtime, so it is built once)
+ */
+export function getOpenApiDocument(): OpenApiDocument {
+  document ??= buildOpenApiDocument(getApiRouteGroups(), API_VERSION);
+  return document;
+}
+
+// OpenAPI description of this API
+router.get('/openapi.json', (_req: Request, res: Response) => {
+  res.json(getOpenApiDocument());
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router, Request, Response } from 'express';
+import { getFireflyApi, getSharedFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
+import { DEFAULT_FIREFLY_PROFILE_ID } from '../config/index.js';
+import { asyncHandler, badRequest, forbidden, notFound, conflict } from '../middleware/index.js';
+import {
+  getAuditScope,
+  getOperationLog,
+  isInAuditScope,
+  DEFAULT_OPERATION_LIMIT,
+} from '../services/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/operations
+ * List revertible bulk operations of the active connection profile and the signed-in
+ * user's Firefly III account, newest first
+ * Query: limit?
+ */
+router.get('/', (req: Request, res: Response) => {
+  const limit = parseInt(String(req.query.limit ?? ''), 10);
+  const operations = getOperationLog().list(
+    Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_OPERATION_LIMIT,
+    getAuditScope()
+  );
+
+  res.json({ success: true, data: operations });
+});
+
+/**
+ * GET /api/operations/:id
+ * Get a bulk operation
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const operation = getOperationLog().get(req.params.id as string);
+  if (!operation || !isInAuditScope(operation, getAuditScope())) {
+    throw notFound('Operation not found');
+  }
+
+  res.json({ success: true, data: operation });
+});
+
+/**
+ * POST /api/operations/:id/revert
+ * Revert a bulk operation. A partially reverted operation can be retried.
+ */
+router.post(
+  '/:id/revert',
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!isFireflyApiAvailable()) {
+      throw badRequest(
+        'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
+      );
+    }
+
+    const operationLog = getOperationLog();
+    const id = req.params.id as string;
+    const operation = operationLog.get(id);
+    if (!operation) {
+      throw notFound('Operation not found');
+    }
+    // Only the connection profile and Firefly III account the changes were made with may undo them
+    if (!isInAuditScope(operation, getAuditScope())) {
+      throw forbidden('Operation was made with another Firefly III account or connection profile');
+    }
+    if (operation.status === 'reverted') {
+      throw conflict('Operation has already been reverted');
+    }
+    if (operationLog.isReverting(id)) {
+      throw conflict('Operation is already being reverted');
+    }
+    const profileId = operation.profileId ?? DEFAULT_FIREFLY_PROFILE_ID;
+
+    // Scheduled, webhook and CLI changes were made with the server's Firefly III account
+    const fireflyApi =
+      operation.tool === 'scheduler' || operation.tool === 'webhook' || operation.tool === 'cli'
+        ? getSharedFireflyApi(profileId)
+        : getFireflyApi();
+    const result = await operationLog.revert(id, fireflyApi);
+    if (!result) {
+      throw notFound('Operation not found');
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Reverted ${result.reverted} transactions, ${result.failed.length} failed`,
+    });
+  })
+);
+
+export default router;
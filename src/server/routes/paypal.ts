@@ -1,8 +1,14 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { getFireflyApi } from '../clients/firefly.js';
-import { PayPalExtender, getPayPalExtenderStore } from '../services/index.js';
-import { isFireflyConfigured } from '../config/index.js';
+import { getFireflyOwner, isFireflyApiAvailable, type FireflyOwner } from '../clients/firefly.js';
+import {
+  PayPalExtender,
+  getPayPalExtenderStore,
+  getOperationLog,
+  runDryRun,
+  describeDryRun,
+} from '../services/index.js';
+import { config } from '../config/index.js';
 import {
   getSessionId,
   asyncHandler,
@@ -25,7 +31,7 @@ import {
   type DateRangeBody,
   type CountTransactionsBody,
 } from '../utils/index.js';
-import type { PayPalMatchResult } from '../../shared/types/app.js';
+import type { PayPalMatchResult, PayPalTransaction } from '../../shared/types/app.js';
 import type { FireflyTransaction } from '../../shared/types/firefly.js';
 
 const router = Router();
@@ -51,11 +57,29 @@ const upload = multer({
 // Use session store with TTL-based lifecycle management
 const extenderStore = getPayPalExtenderStore<PayPalExtender>();
 
-function getExtender(sessionId: string): PayPalExtender {
-  let extender = extenderStore.get(sessionId);
+// Persist uploaded data so it survives restarts (optionally for longer than the session TTL),
+// together with the Firefly III book it belongs to (see webhooks.ts)
+extenderStore.enablePersistence({
+  serialize: (extender) => ({
+    owner: extender.owner,
+    transactions: extender.getLoadedTransactions(),
+  }),
+  deserialize: (data) => {
+    // Uploads persisted without an owner are a plain list
+    const { owner, transactions } = Array.isArray(data)
+      ? { owner: null, transactions: data as PayPalTransaction[] }
+      : (data as { owner: FireflyOwner | null; transactions: PayPalTransaction[] });
+    const extender = new PayPalExtender(owner);
+    extender.loadTransactions(transactions);
+    return extender;
+  },
+  retentionMs: config.storage.retention.paypalUploadsMs,
+});
+
+async function getExtender(sessionId: string): Promise<PayPalExtender> {
+  let extender = await extenderStore.load(sessionId);
   if (!extender) {
-    const fireflyApi = getFireflyApi();
-    extender = new PayPalExtender(fireflyApi);
+    extender = new PayPalExtender(getFireflyOwner());
     extenderStore.set(sessionId, extender);
   }
   return extender;
@@ -63,7 +87,7 @@ function getExtender(sessionId: string): PayPalExtender {
 
 // Middleware to check Firefly III configuration
 router.use((_req: Request, _res: Response, next) => {
-  if (!isFireflyConfigured()) {
+  if (!isFireflyApiAvailable()) {
     throw badRequest(
       'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
     );
@@ -102,7 +126,7 @@ router.post(
     }
 
     const sessionId = getSessionId(req);
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     // Parse the CSV file
     const fileContent = req.file.buffer.toString('utf-8');
@@ -113,6 +137,8 @@ router.post(
 
     extender.loadTransactions(transactions);
 
+    await extenderStore.persist(sessionId);
+
     res.json({
       success: true,
       data: {
@@ -134,12 +160,13 @@ router.post(
     logger.debug('Received PayPal CSV content upload');
 
     const sessionId = getSessionId(req);
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     // Parse and load transactions
     const transactions = extender.parseCSVExport(csvContent);
     logger.info(`Loaded ${transactions.length} PayPal transactions from CSV content`);
     extender.loadTransactions(transactions);
+    await extenderStore.persist(sessionId);
 
     res.json({
       success: true,
@@ -153,28 +180,35 @@ router.post(
 );
 
 // Get loaded transactions
-router.get('/transactions', (req: Request, res: Response) => {
-  const sessionId = getSessionId(req);
-  const extender = getExtender(sessionId);
-  const transactions = extender.getLoadedTransactions();
-
-  res.json({
-    success: true,
-    data: transactions,
-  });
-});
+router.get(
+  '/transactions',
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessionId = getSessionId(req);
+    const extender = await getExtender(sessionId);
+    const transactions = extender.getLoadedTransactions();
+
+    res.json({
+      success: true,
+      data: transactions,
+    });
+  })
+);
 
 // Clear loaded transactions
-router.delete('/transactions', (req: Request, res: Response) => {
-  const sessionId = getSessionId(req);
-  const extender = getExtender(sessionId);
-  extender.clearTransactions();
-
-  res.json({
-    success: true,
-    message: 'Transactions cleared',
-  });
-});
+router.delete(
+  '/transactions',
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessionId = getSessionId(req);
+    const extender = await getExtender(sessionId);
+    extender.clearTransactions();
+    await extenderStore.persist(sessionId);
+
+    res.json({
+      success: true,
+      message: 'Transactions cleared',
+    });
+  })
+);
 
 // Find PayPal transactions in Firefly
 router.post(
@@ -186,7 +220,7 @@ router.post(
 
     logger.debug('Finding Firefly transactions for PayPal match', { startDate, endDate });
 
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     const transactions = await extender.findPayPalTransactions(startDate, endDate);
 
@@ -213,7 +247,7 @@ router.post(
       offset,
     } = req.body as CountTransactionsBody;
     const sessionId = getSessionId(req);
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     const transactions = await extender.findPayPalTransactions(startDate, endDate);
 
@@ -249,7 +283,7 @@ router.post(
 
     logger.info('Starting PayPal match (non-streaming)', { startDate, endDate, excludeProcessed });
 
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     const matches = await extender.matchTransactionsWithPayPal(
       startDate,
@@ -278,7 +312,7 @@ router.post(
 
     logger.info('Starting PayPal match stream', { startDate, endDate, excludeProcessed });
 
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
 
     const sse = setupSSE(res, req);
 
@@ -311,16 +345,28 @@ router.post(
   bulkOperationRateLimit,
   validateBody(paypalApplySchema),
   asyncHandler(async (req: Request, res: Response) => {
-    const { matches } = req.body as PayPalApplyBody;
+    const { matches, dryRun } = req.body as PayPalApplyBody;
 
     const sessionId = getSessionId(req);
-    const extender = getExtender(sessionId);
+    const extender = await getExtender(sessionId);
+
+    if (dryRun) {
+      const { result, changes } = await runDryRun(() => extender.applyDescriptions(matches));
+      res.json({
+        success: true,
+        data: { ...result, dryRun: true, changes },
+        message: describeDryRun(changes),
+      });
+      return;
+    }
 
-    const result = await extender.applyDescriptions(matches);
+    const { result, operation } = await getOperationLog().run('paypalDescriptions', () =>
+      extender.applyDescriptions(matches)
+    );
 
     res.json({
       success: true,
-      data: result,
+      data: { ...result, operationId: operation?.id ?? null },
       message: `Applied ${result.successful.length} descriptions, ${result.failed.length} failed`,
     });
   })
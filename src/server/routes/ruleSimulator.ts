@@ -0,0 +1,104 @@
+import { Router, Request, Response } from 'express';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
+import { simulateRules } from '../services/ruleSimulator.js';
+import { getSessionId, asyncHandler, badRequest } from '../middleware/index.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  getCacheKey,
+  getCachedTransactions,
+  setCachedTransactions,
+} from '../services/transactionCache.js';
+
+const logger = createLogger('RuleSimulator');
+import {
+  validateBody,
+  dateRangeSchema,
+  countTransactionsSchema,
+  type DateRangeBody,
+  type CountTransactionsBody,
+} from '../utils/index.js';
+import type { RuleSimulationResult } from '../../shared/types/app.js';
+import type { FireflyTransaction } from '../../shared/types/firefly.js';
+
+const router = Router();
+
+// Middleware to check Firefly III configuration
+router.use((_req: Request, _res: Response, next) => {
+  if (!isFireflyApiAvailable()) {
+    throw badRequest(
+      'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
+    );
+  }
+  next();
+});
+
+/**
+ * Get the transactions of a date range, fetching them only once per session
+ */
+async function getTransactions(
+  req: Request,
+  startDate?: string,
+  endDate?: string
+): Promise<FireflyTransaction[]> {
+  const sessionId = getSessionId(req);
+  const cacheKey = getCacheKey(startDate, endDate, 'ruleSimulator');
+
+  let transactions = getCachedTransactions(sessionId, cacheKey);
+  if (!transactions) {
+    transactions = await getFireflyApi().getAllTransactions(startDate, endDate);
+    setCachedTransactions(sessionId, cacheKey, transactions);
+  }
+  return transactions;
+}
+
+// Count transactions in the date range (also caches them for the simulation)
+router.post(
+  '/count-transactions',
+  validateBody(countTransactionsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { startDate, endDate, limit, offset } = req.body as CountTransactionsBody;
+
+    const transactions = await getTransactions(req, startDate, endDate);
+
+    // Return count and optionally a preview of transactions with pagination
+    const previewLimit = limit || 10;
+    const previewOffset = offset || 0;
+    const preview = transactions
+      .slice(previewOffset, previewOffset + previewLimit)
+      .map((t) => t.attributes.transactions[0]);
+
+    res.json({
+      success: true,
+      data: { count: transactions.length, transactions: preview },
+    });
+  })
+);
+
+// Evaluate all rules against the transactions without running them
+router.post(
+  '/simulate',
+  validateBody(dateRangeSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { startDate, endDate } = req.body as DateRangeBody;
+
+    const fireflyApi = getFireflyApi();
+    const [ruleGroups, rules, transactions] = await Promise.all([
+      fireflyApi.getAllRuleGroups(),
+      fireflyApi.getAllRules(),
+      getTransactions(req, startDate, endDate),
+    ]);
+    const result = simulateRules(ruleGroups, rules, transactions);
+
+    logger.debug(
+      `Simulated ${rules.length} rules against ${transactions.length} transactions, ${result.overlaps.length} overlaps`
+    );
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Simulated ${rules.length} rules`,
+    } satisfies { success: true; data: RuleSimulationResult; message: string });
+  })
+);
+
+export default router;
@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import { getActiveFireflyProfile } from '../clients/firefly.js';
+import { isFireflyConfigured } from '../config/index.js';
+import { badRequest, notFound, conflict } from '../middleware/index.js';
+import { getScheduler, MAX_RUNS_PER_SCHEDULE } from '../services/index.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  validateBody,
+  scheduleCreateSchema,
+  scheduleUpdateSchema,
+  type ScheduleCreateBody,
+  type ScheduleUpdateBody,
+} from '../utils/index.js';
+
+const router = Router();
+const logger = createLogger('ScheduleRoutes');
+
+// Middleware to check Firefly III configuration
+router.use((_req: Request, _res: Response, next) => {
+  if (!isFireflyConfigured()) {
+    throw badRequest(
+      'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
+    );
+  }
+  next();
+});
+
+/**
+ * Parse the optional ?limit= query parameter for run history
+ */
+function getRunLimit(req: Request): number {
+  const limit = parseInt(String(req.query.limit ?? ''), 10);
+  return Number.isFinite(limit) && limit > 0
+    ? Math.min(limit, MAX_RUNS_PER_SCHEDULE)
+    : MAX_RUNS_PER_SCHEDULE;
+}
+
+/**
+ * GET /api/schedules
+ * List all schedules
+ */
+router.get('/', (_req: Request, res: Response) => {
+  res.json({ success: true, data: getScheduler().list() });
+});
+
+/**
+ * POST /api/schedules
+ * Create a schedule that runs on the active connection profile
+ * Body: { name, cron, tool, options?, enabled? }
+ */
+router.post('/', validateBody(scheduleCreateSchema), (req: Request, res: Response) => {
+  const schedule = getScheduler().create({
+    ...(req.body as ScheduleCreateBody),
+    profileId: getActiveFireflyProfile().id,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: schedule,
+    message: `Schedule "${schedule.name}" created`,
+  });
+});
+
+/**
+ * GET /api/schedules/runs
+ * Run history of all schedules, newest first
+ */
+router.get('/runs', (req: Request, res: Response) => {
+  res.json({ success: true, data: getScheduler().listRuns(undefined, getRunLimit(req)) });
+});
+
+/**
+ * GET /api/schedules/:id
+ * Get a schedule
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const schedule = getScheduler().get(req.params.id as string);
+  if (!schedule) {
+    throw notFound('Schedule not found');
+  }
+
+  res.json({ success: true, data: schedule });
+});
+
+/**
+ * PUT /api/schedules/:id
+ * Update a schedule
+ * Body: { name?, cron?, tool?, options?, enabled? }
+ */
+router.put('/:id', validateBody(scheduleUpdateSchema), (req: Request, res: Response) => {
+  const schedule = getScheduler().update(req.params.id as string, req.body as ScheduleUpdateBody);
+  if (!schedule) {
+    throw notFound('Schedule not found');
+  }
+
+  res.json({ success: true, data: schedule, message: `Schedule "${schedule.name}" updated` });
+});
+
+/**
+ * DELETE /api/schedules/:id
+ * Delete a schedule and its run history
+ */
+router.delete('/:id', (req: Request, res: Response) => {
+  if (!getScheduler().delete(req.params.id as string)) {
+    throw notFound('Schedule not found');
+  }
+
+  res.json({ success: true, message: 'Schedule deleted' });
+});
+
+/**
+ * GET /api/schedules/:id/runs
+ * Run history of a schedule, newest first
+ */
+router.get('/:id/runs', (req: Request, res: Response) => {
+  const scheduler = getScheduler();
+  const id = req.params.id as string;
+  if (!scheduler.get(id)) {
+    throw notFound('Schedule not found');
+  }
+
+  res.json({ success: true, data: scheduler.listRuns(id, getRunLimit(req)) });
+});
+
+/**
+ * POST /api/schedules/:id/run
+ * Run a schedule now. The run continues in the background; poll the run history for the outcome.
+ */
+router.post('/:id/run', (req: Request, res: Response) => {
+  const scheduler = getScheduler();
+  const id = req.params.id as string;
+  const schedule = scheduler.get(id);
+  if (!schedule) {
+    throw notFound('Schedule not found');
+  }
+  if (scheduler.isRunning(id)) {
+    throw conflict(`Schedule "${schedule.name}" is already running`);
+  }
+
+  scheduler.run(id, 'manual').catch((error) => {
+    logger.error(`Manual run of schedule ${id} failed:`, error);
+  });
+
+  res.status(202).json({ success: true, data: schedule, message: 'Run started' });
+});
+
+export default router;
@@ -1,13 +1,12 @@
 import { Router, Request, Response } from 'express';
 import {
   config,
-  isFireflyConfigured,
   isOpenAIConfigured,
   isAIConfigured,
   isFinTSConfigured,
   validateConfig,
 } from '../config/index.js';
-import { fireflyApi } from '../clients/firefly.js';
+import { fireflyApi, getActiveFireflyProfile, isFireflyApiAvailable } from '../clients/firefly.js';
 import { testAIConnection } from '../clients/ai.js';
 import { getStoreStats } from '../services/index.js';
 import type { ToolStatus, ApiResponse } from '../../shared/types/app.js';
@@ -29,7 +28,7 @@ router.get('/status', async (_req: Request, res: Response) => {
 
   // Test Firefly connection
   let fireflyConnection = { success: false, message: 'Not configured' };
-  if (isFireflyConfigured()) {
+  if (isFireflyApiAvailable()) {
     fireflyConnection = await fireflyApi.testConnection();
   }
 
@@ -72,7 +71,7 @@ router.get('/status', async (_req: Request, res: Response) => {
     data: {
       configured: validation.valid,
       fireflyConnected: fireflyConnection.success,
-      fireflyUrl: config.firefly.apiUrl,
+      fireflyUrl: getActiveFireflyProfile().apiUrl,
       openaiConfigured: isOpenAIConfigured(),
       aiConfigured: isAIConfigured(),
       aiConnected: aiConnection.success,
@@ -100,40 +99,58 @@ router.get('/tools', (_req: Request, res: Response) => {
   const tools: ToolStatus[] = [
     {
       name: 'duplicateFinder',
-      available: isFireflyConfigured(),
+      available: isFireflyApiAvailable(),
       requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN'],
       description: 'Find and manage duplicate transactions',
     },
     {
       name: 'subscriptionFinder',
-      available: isFireflyConfigured(),
+      available: isFireflyApiAvailable(),
       requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN'],
       description: 'Detect recurring transaction patterns',
     },
     {
       name: 'aiCategorySuggestions',
-      available: isFireflyConfigured() && isAIConfigured(),
+      available: isFireflyApiAvailable() && isAIConfigured(),
       requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN', 'AI_PROVIDER'],
       description: 'AI-powered category suggestions for uncategorized transactions',
     },
     {
       name: 'aiTagSuggestions',
-      available: isFireflyConfigured() && isAIConfigured(),
+      available: isFireflyApiAvailable() && isAIConfigured(),
       requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN', 'AI_PROVIDER'],
       description: 'AI-powered tag suggestions for transactions',
     },
     {
       name: 'amazonExtender',
-      available: isFireflyConfigured(),
+      available: isFireflyApiAvailable(),
       requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN'],
       description: 'Extend Amazon order descriptions with item details',
     },
     {
       name: 'paypalExtender',
-      available: isFireflyConfigured(),
+      available: isFireflyApiAvailable(),
       requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN'],
       description: 'Extend PayPal transaction descriptions with payment details',
     },
+    {
+      name: 'findReplace',
+      available: isFireflyApiAvailable(),
+      requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN'],
+      description: 'Find and replace text in transaction fields',
+    },
+    {
+      name: 'ruleSimulator',
+      available: isFireflyApiAvailable(),
+      requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN'],
+      description: 'Preview which transactions Firefly III rules would match',
+    },
+    {
+      name: 'transferPairs',
+      available: isFireflyApiAvailable(),
+      requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN'],
+      description: 'Replace withdrawal/deposit pairs between own accounts with transfers',
+    },
     {
       name: 'bankConverter',
       available: true, // Always available - runs client-side, Firefly only needed for direct import
@@ -142,7 +159,7 @@ router.get('/tools', (_req: Request, res: Response) => {
     },
     {
       name: 'fintsImporter',
-      available: isFireflyConfigured() && isFinTSConfigured(),
+      available: isFireflyApiAvailable() && isFinTSConfigured(),
       requiresConfig: ['FIREFLY_API_URL', 'FIREFLY_API_TOKEN', 'FINTS_PRODUCT_ID'],
       description: 'Import transactions directly from German banks via FinTS/HBCI',
     },
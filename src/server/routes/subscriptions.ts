@@ -1,7 +1,6 @@
 import { Router, Request, Response } from 'express';
-import { getFireflyApi } from '../clients/firefly.js';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
 import { SubscriptionFinder } from '../services/subscriptionFinder.js';
-import { isFireflyConfigured } from '../config/index.js';
 import { getSessionId, asyncHandler, badRequest, setupSSE } from '../middleware/index.js';
 import { createLogger } from '../utils/logger.js';
 import {
@@ -27,7 +26,7 @@ const router = Router();
 
 // Middleware to check Firefly III configuration
 router.use((_req: Request, _res: Response, next) => {
-  if (!isFireflyConfigured()) {
+  if (!isFireflyApiAvailable()) {
     throw badRequest(
       'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
     );
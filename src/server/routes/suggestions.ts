@@ -1,7 +1,14 @@
 import { Router, Request, Response } from 'express';
-import { getFireflyApi } from '../clients/firefly.js';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
 import { AISuggestionService } from '../services/aiSuggestions.js';
-import { isFireflyConfigured, isAIConfigured } from '../config/index.js';
+import {
+  SuggestionRuleService,
+  SUGGESTION_RULE_GROUP_TITLE,
+  proposeRules,
+} from '../services/suggestionRules.js';
+import { getOperationLog } from '../services/operations.js';
+import { describeDryRun, runDryRun } from '../services/dryRun.js';
+import { isAIConfigured } from '../config/index.js';
 import {
   getSessionId,
   asyncHandler,
@@ -23,19 +30,27 @@ import {
   suggestionRequestSchema,
   applySuggestionsSchema,
   countTransactionsSchema,
+  proposeRulesSchema,
+  createRulesSchema,
   type SuggestionRequestBody,
   type ApplySuggestionsBody,
+  type ProposeRulesBody,
+  type CreateRulesBody,
   type DateRangeBody,
   type CountTransactionsBody,
 } from '../utils/index.js';
-import type { CategorySuggestion, TagSuggestion } from '../../shared/types/app.js';
+import type {
+  CategorySuggestion,
+  TagSuggestion,
+  RuleProposalResult,
+} from '../../shared/types/app.js';
 import type { FireflyTransaction } from '../../shared/types/firefly.js';
 
 const router = Router();
 
 // Middleware to check configuration
 router.use((_req: Request, _res: Response, next) => {
-  if (!isFireflyConfigured()) {
+  if (!isFireflyApiAvailable()) {
     throw badRequest(
       'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
     );
@@ -237,16 +252,28 @@ router.post(
   bulkOperationRateLimit,
   validateBody(applySuggestionsSchema),
   asyncHandler(async (req: Request, res: Response) => {
-    const { updates } = req.body as ApplySuggestionsBody;
+    const { updates, dryRun } = req.body as ApplySuggestionsBody;
 
     const fireflyApi = getFireflyApi();
     const service = new AISuggestionService(fireflyApi);
 
-    const result = await service.applyCategories(updates);
+    if (dryRun) {
+      const { result, changes } = await runDryRun(() => service.applyCategories(updates));
+      res.json({
+        success: true,
+        data: { ...result, dryRun: true, changes },
+        message: describeDryRun(changes),
+      });
+      return;
+    }
+
+    const { result, operation } = await getOperationLog().run('categories', () =>
+      service.applyCategories(updates)
+    );
 
     res.json({
       success: true,
-      data: result,
+      data: { ...result, operationId: operation?.id ?? null },
       message: `Applied ${result.successful.length} categories, ${result.failed.length} failed`,
     });
   })
@@ -259,21 +286,73 @@ router.post(
   bulkOperationRateLimit,
   validateBody(applySuggestionsSchema),
   asyncHandler(async (req: Request, res: Response) => {
-    const { updates } = req.body as ApplySuggestionsBody;
+    const { updates, dryRun } = req.body as ApplySuggestionsBody;
 
     const fireflyApi = getFireflyApi();
     const service = new AISuggestionService(fireflyApi);
 
-    const result = await service.applyTags(updates);
+    if (dryRun) {
+      const { result, changes } = await runDryRun(() => service.applyTags(updates));
+      res.json({
+        success: true,
+        data: { ...result, dryRun: true, changes },
+        message: describeDryRun(changes),
+      });
+      return;
+    }
+
+    const { result, operation } = await getOperationLog().run('tags', () =>
+      service.applyTags(updates)
+    );
 
     res.json({
       success: true,
-      data: result,
+      data: { ...result, operationId: operation?.id ?? null },
       message: `Applied tags to ${result.successful.length} transactions, ${result.failed.length} failed`,
     });
   })
 );
 
+// Propose Firefly III rules for groups of similar applied suggestions
+router.post(
+  '/propose-rules',
+  validateBody(proposeRulesSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { accepted } = req.body as ProposeRulesBody;
+
+    const proposals = proposeRules(accepted);
+
+    res.json({
+      success: true,
+      data: { ruleGroupTitle: SUGGESTION_RULE_GROUP_TITLE, proposals },
+      message: `Proposed ${proposals.length} rules`,
+    } satisfies { success: true; data: RuleProposalResult; message: string });
+  })
+);
+
+// Create rules (as proposed and edited by the user)
+router.post(
+  '/create-rules',
+  bulkOperationRateLimit,
+  validateBody(createRulesSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { rules } = req.body as CreateRulesBody;
+
+    const service = new SuggestionRuleService(getFireflyApi());
+    const result = await service.createRules(rules);
+
+    logger.info(`Created ${result.created.length} rules from suggestions`, {
+      failed: result.failed.length,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Created ${result.created.length} rules, ${result.failed.length} failed`,
+    });
+  })
+);
+
 // Get all categories
 router.get(
   '/categories',
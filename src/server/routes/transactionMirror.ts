@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import {
+  getActiveFireflyProfile,
+  getFireflyApi,
+  isFireflyApiAvailable,
+} from '../clients/firefly.js';
+import { asyncHandler, badRequest } from '../middleware/index.js';
+import { clearAllCaches, getTransactionMirror } from '../services/index.js';
+import {
+  validateBody,
+  transactionMirrorSyncSchema,
+  type TransactionMirrorSyncBody,
+} from '../utils/index.js';
+import type { TransactionMirrorStatus } from '../../shared/types/app.js';
+
+const router = Router();
+
+/**
+ * Mirror status of the active connection. Clients of users signed in with
+ * Firefly III OAuth read transactions directly, so their mirror is disabled.
+ */
+function getMirrorStatus(): TransactionMirrorStatus {
+  const mirrorProfileId = isFireflyApiAvailable() ? getFireflyApi().getMirrorProfileId() : null;
+  const profileId = mirrorProfileId ?? getActiveFireflyProfile().id;
+  return {
+    enabled: mirrorProfileId !== null,
+    ...getTransactionMirror().getStatus(profileId),
+  };
+}
+
+/**
+ * GET /api/transaction-mirror
+ * Sync status of the local transaction copy of the active connection
+ */
+router.get('/', (_req: Request, res: Response) => {
+  res.json({ success: true, data: getMirrorStatus() });
+});
+
+/**
+ * POST /api/transaction-mirror/sync
+ * Sync the local transaction copy now.
+ * Body: { full?: boolean } - download all transactions again instead of only changes
+ */
+router.post(
+  '/sync',
+  validateBody(transactionMirrorSyncSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { full } = req.body as TransactionMirrorSyncBody;
+
+    const client = getFireflyApi();
+    const mirrorProfileId = client.getMirrorProfileId();
+    if (!mirrorProfileId) {
+      throw badRequest('The transaction mirror is not used for this Firefly III connection');
+    }
+
+    await getTransactionMirror().sync(mirrorProfileId, client, full);
+    // Results cached by sessions were read before the sync
+    clearAllCaches();
+
+    res.json({
+      success: true,
+      data: getMirrorStatus(),
+      message: full ? 'Downloaded all transactions again' : 'Transactions synced',
+    });
+  })
+);
+
+export default router;
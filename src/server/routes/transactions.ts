@@ -1,6 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { getFireflyApi } from '../clients/firefly.js';
-import { isFireflyConfigured } from '../config/index.js';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
 import { asyncHandler, badRequest } from '../middleware/index.js';
 import { createLogger } from '../utils/logger.js';
 import {
@@ -18,7 +17,7 @@ const logger = createLogger('Transactions');
 
 // Middleware to check Firefly III configuration
 router.use((_req: Request, _res: Response, next) => {
-  if (!isFireflyConfigured()) {
+  if (!isFireflyApiAvailable()) {
     throw badRequest(
       'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
     );
@@ -0,0 +1,152 @@
+import { Router, Request, Response } from 'express';
+import { getFireflyApi, isFireflyApiAvailable } from '../clients/firefly.js';
+import { TransferPairService, findTransferPairs } from '../services/transferPairs.js';
+import { getOperationLog } from '../services/operations.js';
+import { describeDryRun, runDryRun } from '../services/dryRun.js';
+import {
+  getSessionId,
+  asyncHandler,
+  badRequest,
+  bulkOperationRateLimit,
+} from '../middleware/index.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  getCacheKey,
+  getCachedTransactions,
+  setCachedTransactions,
+  clearSessionCache,
+} from '../services/transactionCache.js';
+
+const logger = createLogger('TransferPairs');
+import {
+  validateBody,
+  transferPairFindSchema,
+  transferConvertSchema,
+  countTransactionsSchema,
+  type TransferPairFindBody,
+  type TransferConvertBody,
+  type CountTransactionsBody,
+} from '../utils/index.js';
+import type { TransferPair } from '../../shared/types/app.js';
+import type { FireflyTransaction } from '../../shared/types/firefly.js';
+
+const router = Router();
+
+// Middleware to check Firefly III configuration
+router.use((_req: Request, _res: Response, next) => {
+  if (!isFireflyApiAvailable()) {
+    throw badRequest(
+      'Firefly III is not configured. Please set FIREFLY_API_URL and FIREFLY_API_TOKEN.'
+    );
+  }
+  next();
+});
+
+/**
+ * Get the transactions of a date range, fetching them only once per session
+ */
+async function getTransactions(
+  req: Request,
+  startDate?: string,
+  endDate?: string
+): Promise<FireflyTransaction[]> {
+  const sessionId = getSessionId(req);
+  const cacheKey = getCacheKey(startDate, endDate, 'transferPairs');
+
+  let transactions = getCachedTransactions(sessionId, cacheKey);
+  if (!transactions) {
+    transactions = await getFireflyApi().getAllTransactions(startDate, endDate);
+    setCachedTransactions(sessionId, cacheKey, transactions);
+  }
+  return transactions;
+}
+
+// Count transactions in the date range (also caches them for the search)
+router.post(
+  '/count-transactions',
+  validateBody(countTransactionsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { startDate, endDate, limit, offset } = req.body as CountTransactionsBody;
+
+    const transactions = await getTransactions(req, startDate, endDate);
+
+    // Return count and optionally a preview of transactions with pagination
+    const previewLimit = limit || 10;
+    const previewOffset = offset || 0;
+    const preview = transactions
+      .slice(previewOffset, previewOffset + previewLimit)
+      .map((t) => t.attributes.transactions[0]);
+
+    res.json({
+      success: true,
+      data: { count: transactions.length, transactions: preview },
+    });
+  })
+);
+
+// Find withdrawal/deposit pairs between own asset accounts
+router.post(
+  '/find',
+  validateBody(transferPairFindSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { startDate, endDate, options } = req.body as TransferPairFindBody;
+
+    const [assetAccounts, transactions] = await Promise.all([
+      getFireflyApi().getAllAccounts('asset'),
+      getTransactions(req, startDate, endDate),
+    ]);
+    const pairs = findTransferPairs(transactions, assetAccounts, options);
+
+    logger.debug(
+      `Found ${pairs.length} transfer pairs in ${transactions.length} transactions across ${assetAccounts.length} asset accounts`
+    );
+
+    res.json({
+      success: true,
+      data: pairs,
+      message: `Found ${pairs.length} transfer pairs`,
+    } satisfies { success: true; data: TransferPair[]; message: string });
+  })
+);
+
+// Replace selected pairs with transfers
+// Rate limited to prevent accidental mass deletion
+router.post(
+  '/convert',
+  bulkOperationRateLimit,
+  validateBody(transferConvertSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { pairs, dryRun } = req.body as TransferConvertBody;
+
+    const service = new TransferPairService(getFireflyApi());
+
+    if (dryRun) {
+      const { result, changes } = await runDryRun(() => service.convertPairs(pairs));
+      res.json({
+        success: true,
+        data: { ...result, dryRun: true, changes },
+        message: describeDryRun(changes),
+      });
+      return;
+    }
+
+    const { result, operation } = await getOperationLog().run('transferPairs', () =>
+      service.convertPairs(pairs)
+    );
+
+    // Cached transactions still hold the replaced pairs
+    clearSessionCache(getSessionId(req));
+
+    res.json({
+      success: true,
+      data: { ...result, operationId: operation?.id ?? null },
+      message:
+        `Created ${result.created.length} transfers, ${result.failed.length} failed` +
+        (result.partial.length > 0
+          ? `, ${result.partial.length} created but not fully replaced`
+          : ''),
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,79 @@
+import express, { Router, Request, Response } from 'express';
+import { getFireflyProfile } from '../clients/firefly.js';
+import { DEFAULT_FIREFLY_PROFILE_ID } from '../config/index.js';
+import { badRequest, notFound, unauthorized } from '../middleware/index.js';
+import {
+  getWebhookProcessor,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  STORE_TRANSACTION_TRIGGER,
+} from '../services/index.js';
+import { fireflyWebhookSchema } from '../utils/index.js';
+
+const router = Router();
+
+/**
+ * POST /api/webhooks/firefly?profile=<id>
+ * Receive a Firefly III webhook message, signed with the webhook secret of the
+ * connection profile (default profile without ?profile=). New transactions are
+ * queued for processing; other triggers are acknowledged and ignored.
+ */
+router.post(
+  '/firefly',
+  // The signature covers the exact bytes sent, so the body is parsed here
+  express.raw({ type: () => true, limit: '1mb' }),
+  (req: Request, res: Response) => {
+    const profileId =
+      typeof req.query.profile === 'string' ? req.query.profile : DEFAULT_FIREFLY_PROFILE_ID;
+    const profile = getFireflyProfile(profileId);
+    if (!profile?.webhookSecret) {
+      throw notFound('Webhook receiver is not enabled');
+    }
+
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (!verifyWebhookSignature(body, req.get(WEBHOOK_SIGNATURE_HEADER), profile.webhookSecret)) {
+      throw unauthorized('Invalid webhook signature');
+    }
+    if (!profile.apiUrl || !profile.apiToken) {
+      throw badRequest(
+        'Firefly III is not configured. Please set the API URL and token of the connection profile.'
+      );
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(body.toString('utf8'));
+    } catch {
+      throw badRequest('Invalid JSON');
+    }
+    const parsed = fireflyWebhookSchema.safeParse(data);
+    if (!parsed.success) {
+      throw badRequest(
+        'Invalid webhook message. The webhook must respond with transaction details.'
+      );
+    }
+
+    const message = parsed.data;
+    if (message.trigger !== STORE_TRANSACTION_TRIGGER) {
+      res.json({ success: true, message: `Ignored ${message.trigger} message` });
+      return;
+    }
+
+    const delivery = getWebhookProcessor().accept(
+      { messageId: message.uuid, trigger: message.trigger, transactionId: message.content.id },
+      profile.id
+    );
+    if (!delivery) {
+      res.json({ success: true, message: 'Message already received' });
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      data: { deliveryId: delivery.id },
+      message: `Transaction ${delivery.transactionId} queued for processing`,
+    });
+  }
+);
+
+export default router;
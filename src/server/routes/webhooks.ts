@@ -0,0 +1,45 @@
+import { Router, Request, Response } from 'express';
+import { getActiveFireflyProfile } from '../clients/firefly.js';
+import { config, DEFAULT_FIREFLY_PROFILE_ID } from '../config/index.js';
+import { getWebhookProcessor, MAX_WEBHOOK_DELIVERIES } from '../services/index.js';
+import type { WebhookOverview } from '../../shared/types/app.js';
+
+const router = Router();
+
+/** Deliveries listed without ?limit= */
+const DEFAULT_DELIVERY_LIMIT = 20;
+
+/**
+ * Parse the optional ?limit= query parameter for the delivery history
+ */
+function getDeliveryLimit(req: Request): number {
+  const limit = parseInt(String(req.query.limit ?? ''), 10);
+  return Number.isFinite(limit) && limit > 0
+    ? Math.min(limit, MAX_WEBHOOK_DELIVERIES)
+    : DEFAULT_DELIVERY_LIMIT;
+}
+
+/**
+ * GET /api/webhooks
+ * Webhook receiver settings and recent deliveries of the active connection profile
+ */
+router.get('/', (req: Request, res: Response) => {
+  const profile = getActiveFireflyProfile();
+  const query =
+    profile.id === DEFAULT_FIREFLY_PROFILE_ID ? '' : `?profile=${encodeURIComponent(profile.id)}`;
+
+  const overview: WebhookOverview = {
+    settings: {
+      enabled: Boolean(profile.webhookSecret),
+      url: `${config.appUrl}/api/webhooks/firefly${query}`,
+      actions: config.webhooks.actions,
+      autoApply: config.webhooks.autoApply,
+      autoApplyMinConfidence: config.webhooks.autoApplyMinConfidence,
+    },
+    deliveries: getWebhookProcessor().list(profile.id, getDeliveryLimit(req)),
+  };
+
+  res.json({ success: true, data: overview });
+});
+
+export default router;
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AISuggestionService, TAGGER_TAG } from './aiSuggestions.js';
 import type { FireflyTransaction, FireflyTransactionSplit } from '../../shared/types/firefly.js';
 import type { FireflyApiClient } from '../clients/firefly.js';
+import type { CategorySuggestion, TagSuggestion } from '../../shared/types/app.js';
 
 // Mock the AI client
 vi.mock('../clients/ai.js', () => ({
@@ -51,6 +52,16 @@ function createMockTransaction(
   };
 }
 
+// Helper to add a split to a mock transaction
+function addSplit(
+  transaction: FireflyTransaction,
+  overrides: Partial<FireflyTransactionSplit>
+): FireflyTransaction {
+  const [first] = transaction.attributes.transactions;
+  transaction.attributes.transactions.push({ ...first, ...overrides });
+  return transaction;
+}
+
 // Create mock Firefly API client
 function createMockFireflyApi(): FireflyApiClient {
   return {
@@ -100,6 +111,24 @@ describe('AISuggestionService', () => {
       expect(result).toHaveLength(0);
     });
 
+    it('should return split transactions with any uncategorized split', async () => {
+      const transactions = [
+        addSplit(createMockTransaction('1', 'Supermarket', '30.00', 'cat1', 'Groceries'), {
+          description: 'Batteries',
+          category_id: null,
+          category_name: null,
+        }),
+        addSplit(createMockTransaction('2', 'Cinema', '20.00', 'cat2', 'Entertainment'), {
+          description: 'Popcorn',
+        }),
+      ];
+      (mockApi.getAllTransactions as ReturnType<typeof vi.fn>).mockResolvedValue(transactions);
+
+      const result = await service.getUncategorizedTransactions();
+
+      expect(result.map((t) => t.id)).toEqual(['1']);
+    });
+
     it('should pass date range to API', async () => {
       await service.getUncategorizedTransactions('2024-01-01', '2024-12-31');
 
@@ -172,6 +201,45 @@ describe('AISuggestionService', () => {
       expect((suggestionEvents[0].data as any).suggestedCategoryName).toBe('Groceries');
     });
 
+    it('should suggest a category for each uncategorized split', async () => {
+      const transaction = createMockTransaction('1', 'Supermarket', '30.00');
+      transaction.attributes.transactions[0].transaction_journal_id = 'j1';
+      addSplit(transaction, { transaction_journal_id: 'j2', description: 'Batteries' });
+      addSplit(transaction, {
+        transaction_journal_id: 'j3',
+        description: 'Magazine',
+        category_id: 'cat2',
+        category_name: 'Entertainment',
+      });
+      (mockApi.getAllTransactions as ReturnType<typeof vi.fn>).mockResolvedValue([transaction]);
+      (analyzeForCategory as ReturnType<typeof vi.fn>).mockResolvedValue({
+        categoryName: 'Groceries',
+        confidence: 0.9,
+        reasoning: 'Supermarket purchase',
+      });
+
+      const events = [];
+      for await (const event of service.streamCategorySuggestions()) {
+        events.push(event);
+      }
+
+      const suggestions = events
+        .filter((e) => e.type === 'suggestion')
+        .map((e) => e.data as CategorySuggestion);
+      expect(
+        suggestions.map((s) => [s.transactionId, s.transaction.transaction_journal_id])
+      ).toEqual([
+        ['1', 'j1'],
+        ['1', 'j2'],
+      ]);
+      expect(analyzeForCategory).toHaveBeenCalledWith(
+        'Batteries',
+        '30.00',
+        'withdrawal',
+        expect.any(Array)
+      );
+    });
+
     it('should mark uncategorizable transactions', async () => {
       const transactions = [createMockTransaction('1', 'Unknown transaction', '10.00')];
       (mockApi.getAllTransactions as ReturnType<typeof vi.fn>).mockResolvedValue(transactions);
@@ -299,6 +367,28 @@ describe('AISuggestionService', () => {
       expect(suggestionEvents).toHaveLength(1);
     });
 
+    it('should skip splits already processed for tags', async () => {
+      const transaction = createMockTransaction('1', 'Supermarket', '30.00', null, null, [
+        TAGGER_TAG,
+      ]);
+      addSplit(transaction, { transaction_journal_id: 'j2', description: 'Batteries', tags: [] });
+      (mockApi.getAllTransactions as ReturnType<typeof vi.fn>).mockResolvedValue([transaction]);
+      (analyzeForTags as ReturnType<typeof vi.fn>).mockResolvedValue([
+        { tagName: 'food', confidence: 0.9, reasoning: 'Food related' },
+      ]);
+
+      const events = [];
+      for await (const event of service.streamTagSuggestions()) {
+        events.push(event);
+      }
+
+      const suggestions = events
+        .filter((e) => e.type === 'suggestion')
+        .map((e) => e.data as TagSuggestion);
+      expect(suggestions.map((s) => s.transaction.transaction_journal_id)).toEqual(['j2']);
+      expect(analyzeForTags).toHaveBeenCalledTimes(1);
+    });
+
     it('should throw if no tags exist', async () => {
       (mockApi.getAllTags as ReturnType<typeof vi.fn>).mockResolvedValue([]);
 
@@ -388,8 +478,9 @@ describe('AISuggestionService', () => {
 
       const result = await service.applyCategories(updates);
 
-      expect(result.failed).toHaveLength(1);
-      expect(result.failed[0].error).toBe('Update failed');
+      expect(result.failed).toEqual([
+        { transactionId: '1', journalId: 'j1', error: 'Update failed' },
+      ]);
     });
   });
 
@@ -3,6 +3,7 @@ import { analyzeForCategory, analyzeForTags } from '../clients/ai.js';
 import { createLogger } from '../utils/logger.js';
 import type {
   FireflyTransaction,
+  FireflyTransactionSplit,
   FireflyCategory,
   FireflyTag,
 } from '../../shared/types/firefly.js';
@@ -19,6 +20,15 @@ const logger = createLogger('AIService');
 // Tag applied to transactions processed by the Tag Suggester
 export const TAGGER_TAG = 'Toolbox for FFIII: Suggested Tags';
 
+// Each split of a transaction has its own category and tags, so suggestions are made per split
+function isUncategorizedSplit(split: FireflyTransactionSplit): boolean {
+  return !split.category_id && !split.category_name;
+}
+
+function isUntaggedSplit(split: FireflyTransactionSplit): boolean {
+  return !split.tags?.includes(TAGGER_TAG);
+}
+
 export interface ProgressCallback {
   onProgress: (current: number, total: number) => void;
   onSuggestion: (suggestion: CategorySuggestion | TagSuggestion) => void;
@@ -43,15 +53,12 @@ export class AISuggestionService {
   ): Promise<FireflyTransaction[]> {
     const transactions = await this.fireflyApi.getAllTransactions(startDate, endDate);
 
-    return transactions.filter((t) => {
-      const split = t.attributes.transactions[0];
-      return split && !split.category_id && !split.category_name;
-    });
+    return transactions.filter((t) => t.attributes.transactions.some(isUncategorizedSplit));
   }
 
   /**
    * Get transactions that haven't been processed by the tag suggester yet.
-   * Filters out transactions that already have the TAGGER_TAG.
+   * Filters out transactions whose splits all have the TAGGER_TAG.
    */
   async getUnprocessedTransactionsForTags(
     startDate?: string,
@@ -59,10 +66,7 @@ export class AISuggestionService {
   ): Promise<FireflyTransaction[]> {
     const transactions = await this.fireflyApi.getAllTransactions(startDate, endDate);
 
-    return transactions.filter((t) => {
-      const split = t.attributes.transactions[0];
-      return split && !split.tags?.includes(TAGGER_TAG);
-    });
+    return transactions.filter((t) => t.attributes.transactions.some(isUntaggedSplit));
   }
 
   // Streaming version for category suggestions
@@ -102,62 +106,69 @@ export class AISuggestionService {
 
     for (let i = 0; i < toProcess.length; i++) {
       const transaction = toProcess[i];
-      const split = transaction.attributes.transactions[0];
-      if (!split) continue;
 
       // Emit progress
       yield { type: 'progress', data: { current: i + 1, total } };
 
-      logger.debug(`Analyzing: "${split.description.substring(0, 50)}..."`);
+      for (const split of transaction.attributes.transactions.filter(isUncategorizedSplit)) {
+        logger.debug(`Analyzing: "${split.description.substring(0, 50)}..."`);
 
-      try {
-        const suggestion = await analyzeForCategory(
-          split.description,
-          split.amount,
-          split.type,
-          categoryNames
-        );
-
-        const category = categories.find((c) => c.attributes.name === suggestion.categoryName);
-
-        // Check if AI returned "Uncategorized" or couldn't find a fitting category
-        const isUncategorized =
-          suggestion.categoryName.toLowerCase() === 'uncategorized' ||
-          suggestion.categoryName.toLowerCase() === '(no category)';
-
-        if (isUncategorized) {
-          // Send suggestion with unableToClassify flag so frontend can show appropriate message
-          const categorySuggestion: CategorySuggestion = {
-            transactionId: transaction.id,
-            transaction: split,
-            suggestedCategoryId: '',
-            suggestedCategoryName: '',
-            confidence: suggestion.confidence,
-            reasoning: suggestion.reasoning,
-            unableToClassify: true,
-          };
-          logger.debug(`Unable to classify: "${split.description.substring(0, 30)}..."`);
-          yield { type: 'suggestion', data: categorySuggestion };
-        } else if (category) {
-          const categorySuggestion: CategorySuggestion = {
-            transactionId: transaction.id,
-            transaction: split,
-            suggestedCategoryId: category.id,
-            suggestedCategoryName: suggestion.categoryName,
-            confidence: suggestion.confidence,
-            reasoning: suggestion.reasoning,
-          };
-          logger.debug(
-            `Suggested: ${suggestion.categoryName} (${(suggestion.confidence * 100).toFixed(0)}%)`
+        try {
+          const suggestion = await analyzeForCategory(
+            split.description,
+            split.amount,
+            split.type,
+            categoryNames
           );
-          yield { type: 'suggestion', data: categorySuggestion };
-        } else {
-          logger.debug(`Category not found in Firefly: ${suggestion.categoryName}`);
+
+          const category = categories.find((c) => c.attributes.name === suggestion.categoryName);
+
+          // Check if AI returned "Uncategorized" or couldn't find a fitting category
+          const isUncategorized =
+            suggestion.categoryName.toLowerCase() === 'uncategorized' ||
+            suggestion.categoryName.toLowerCase() === '(no category)';
+
+          if (isUncategorized) {
+            // Send suggestion with unableToClassify flag so frontend can show appropriate message
+            const categorySuggestion: CategorySuggestion = {
+              transactionId: transaction.id,
+              transaction: split,
+              suggestedCategoryId: '',
+              suggestedCategoryName: '',
+              confidence: suggestion.confidence,
+              reasoning: suggestion.reasoning,
+              unableToClassify: true,
+            };
+            logger.debug(`Unable to classify: "${split.description.substring(0, 30)}..."`);
+            yield { type: 'suggestion', data: categorySuggestion };
+          } else if (category) {
+            const categorySuggestion: CategorySuggestion = {
+              transactionId: transaction.id,
+              transaction: split,
+              suggestedCategoryId: category.id,
+              suggestedCategoryName: suggestion.categoryName,
+              confidence: suggestion.confidence,
+              reasoning: suggestion.reasoning,
+            };
+            logger.debug(
+              `Suggested: ${suggestion.categoryName} (${(suggestion.confidence * 100).toFixed(0)}%)`
+            );
+            yield { type: 'suggestion', data: categorySuggestion };
+          } else {
+            logger.debug(`Category not found in Firefly: ${suggestion.categoryName}`);
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+          logger.error(`Analysis error: ${errorMsg}`);
+          yield {
+            type: 'error',
+            data: {
+              transactionId: transaction.id,
+              journalId: split.transaction_journal_id,
+              error: errorMsg,
+            },
+          };
         }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        logger.error(`Analysis error: ${errorMsg}`);
-        yield { type: 'error', data: { transactionId: transaction.id, error: errorMsg } };
       }
     }
 
@@ -200,49 +211,56 @@ export class AISuggestionService {
 
     for (let i = 0; i < toProcess.length; i++) {
       const transaction = toProcess[i];
-      const split = transaction.attributes.transactions[0];
-      if (!split) continue;
 
       yield { type: 'progress', data: { current: i + 1, total } };
 
-      logger.debug(`Analyzing for tags: "${split.description.substring(0, 50)}..."`);
+      for (const split of transaction.attributes.transactions.filter(isUntaggedSplit)) {
+        logger.debug(`Analyzing for tags: "${split.description.substring(0, 50)}..."`);
 
-      try {
-        const suggestedTags = await analyzeForTags(
-          split.description,
-          split.amount,
-          split.type,
-          split.tags || [],
-          tagNames
-        );
-
-        const validTags = suggestedTags
-          .map((s) => {
-            const tag = tags.find((t) => t.attributes.tag === s.tagName);
-            return {
-              tagId: tag?.id || '',
-              tagName: s.tagName,
-              confidence: s.confidence,
-              reasoning: s.reasoning,
+        try {
+          const suggestedTags = await analyzeForTags(
+            split.description,
+            split.amount,
+            split.type,
+            split.tags || [],
+            tagNames
+          );
+
+          const validTags = suggestedTags
+            .map((s) => {
+              const tag = tags.find((t) => t.attributes.tag === s.tagName);
+              return {
+                tagId: tag?.id || '',
+                tagName: s.tagName,
+                confidence: s.confidence,
+                reasoning: s.reasoning,
+              };
+            })
+            .filter((s) => s.tagId);
+
+          if (validTags.length > 0) {
+            const tagSuggestion: TagSuggestion = {
+              transactionId: transaction.id,
+              transaction: split,
+              suggestedTags: validTags,
             };
-          })
-          .filter((s) => s.tagId);
-
-        if (validTags.length > 0) {
-          const tagSuggestion: TagSuggestion = {
-            transactionId: transaction.id,
-            transaction: split,
-            suggestedTags: validTags,
+            logger.debug(`Suggested ${validTags.length} tags`);
+            yield { type: 'suggestion', data: tagSuggestion };
+          } else {
+            logger.debug('No valid tags found in Firefly for AI suggestions');
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+          logger.error(`Tag analysis error: ${errorMsg}`);
+          yield {
+            type: 'error',
+            data: {
+              transactionId: transaction.id,
+              journalId: split.transaction_journal_id,
+              error: errorMsg,
+            },
           };
-          logger.debug(`Suggested ${validTags.length} tags`);
-          yield { type: 'suggestion', data: tagSuggestion };
-        } else {
-          logger.debug('No valid tags found in Firefly for AI suggestions');
         }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        logger.error(`Tag analysis error: ${errorMsg}`);
-        yield { type: 'error', data: { transactionId: transaction.id, error: errorMsg } };
       }
     }
 
@@ -294,6 +312,7 @@ export class AISuggestionService {
       } catch (error) {
         result.failed.push({
           transactionId: update.transactionId,
+          journalId: update.journalId,
           error: error instanceof Error ? error.message : 'Unknown error',
         });
       }
@@ -323,6 +342,7 @@ export class AISuggestionService {
       } catch (error) {
         result.failed.push({
           transactionId: update.transactionId,
+          journalId: update.journalId,
           error: error instanceof Error ? error.message : 'Unknown error',
         });
       }
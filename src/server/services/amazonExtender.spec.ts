@@ -89,7 +89,7 @@ describe('AmazonOrderExtender', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockApi = createMockFireflyApi();
-    extender = new AmazonOrderExtender(mockApi);
+    extender = new AmazonOrderExtender(null, () => mockApi);
   });
 
   describe('loadOrders', () => {
@@ -216,6 +216,20 @@ describe('AmazonOrderExtender', () => {
       expect(mockApi.getAllTransactions).toHaveBeenCalled();
       expect(result).toHaveLength(1);
     });
+
+    it('should use the current Firefly API client on every call', async () => {
+      // e.g. a new client after the access token was refreshed
+      const refreshedApi = createMockFireflyApi();
+      let currentApi = mockApi;
+      extender = new AmazonOrderExtender(null, () => currentApi);
+
+      await extender.findAmazonTransactions('2024-01-01', '2024-01-31');
+      currentApi = refreshedApi;
+      await extender.findAmazonTransactions('2024-02-01', '2024-02-28');
+
+      expect(mockApi.getAllTransactions).toHaveBeenCalledTimes(1);
+      expect(refreshedApi.getAllTransactions).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('clearCachedTransactions', () => {
@@ -278,6 +292,29 @@ describe('AmazonOrderExtender', () => {
       expect((resultEvents[0].data as any).matchConfidence).toBeGreaterThan(0.5);
     });
 
+    it('should match split transactions by their total amount and all descriptions', async () => {
+      const orders = [
+        createMockOrder('123-456', 29.99, '2024-01-15', [
+          { title: 'Book', price: 20.0 },
+          { title: 'Batteries', price: 9.99 },
+        ]),
+      ];
+      extender.loadOrders(orders);
+
+      const transaction = createMockTransaction('1', 'Amazon', '20.00', '2024-01-15');
+      transaction.attributes.transactions.push({
+        ...transaction.attributes.transactions[0],
+        description: 'Order 123-456',
+        amount: '9.99',
+      });
+      (mockApi.getAllTransactions as ReturnType<typeof vi.fn>).mockResolvedValue([transaction]);
+
+      const [match] = await extender.matchTransactionsWithOrders();
+
+      expect(match.matchedOrder?.orderId).toBe('123-456');
+      expect(match.confidenceBreakdown?.exactAmountBonus).toBeGreaterThan(0);
+    });
+
     it('should match by amount and date when no order ID', async () => {
       // Without order ID in description, confidence is low (amountMatch + dateProximity < 0.5)
       // so there will be no match
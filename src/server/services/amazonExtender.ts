@@ -1,6 +1,7 @@
-import { FireflyApiClient } from '../clients/firefly.js';
+import { FireflyApiClient, getFireflyApi, type FireflyOwner } from '../clients/firefly.js';
 import { parseAmount } from '../utils/amountParser.js';
 import { createLogger } from '../utils/logger.js';
+import { getSearchableDescription, getTotalAmount } from '../../shared/utils/transactions.js';
 import type { FireflyTransaction } from '../../shared/types/firefly.js';
 import type {
   AmazonOrder,
@@ -14,19 +15,54 @@ const logger = createLogger('AmazonExtender');
 // Tag applied to transactions processed by the Amazon Extender
 export const AMAZON_EXTENDER_TAG = 'Toolbox for FFIII: Amazon Extender';
 
+// Common Amazon indicators in descriptions and destination names
+const AMAZON_INDICATORS = [
+  'amazon',
+  'amzn',
+  'amz*',
+  'amazon.de',
+  'amazon.com',
+  'amazon.co.uk',
+  'amazon eu',
+  'amazon payments',
+  'amazon marketplace',
+];
+
+/**
+ * Check whether a transaction (any of its splits) looks like an Amazon order
+ */
+export function isAmazonTransaction(transaction: FireflyTransaction): boolean {
+  return transaction.attributes.transactions.some((split) => {
+    const description = split.description.toLowerCase();
+    const destination = split.destination_name.toLowerCase();
+
+    return AMAZON_INDICATORS.some(
+      (indicator) => description.includes(indicator) || destination.includes(indicator)
+    );
+  });
+}
+
 export interface StreamEvent<T = unknown> {
   type: 'progress' | 'result' | 'error' | 'complete';
   data: T;
 }
 
 export class AmazonOrderExtender {
-  private fireflyApi: FireflyApiClient;
+  /**
+   * Resolves the Firefly API client on every call: extenders live in the session
+   * store, while the request's client changes when its access token is refreshed
+   */
+  private getApi: () => FireflyApiClient;
   private amazonOrders: AmazonOrder[] = [];
   private cachedAmazonTransactions: FireflyTransaction[] | null = null;
   private cachedDateRange: { startDate?: string; endDate?: string } | null = null;
 
-  constructor(fireflyApi: FireflyApiClient) {
-    this.fireflyApi = fireflyApi;
+  constructor(
+    /** Firefly III book the uploaded orders belong to (null if unknown) */
+    readonly owner: FireflyOwner | null = null,
+    getApi: () => FireflyApiClient = getFireflyApi
+  ) {
+    this.getApi = getApi;
   }
 
   /**
@@ -124,34 +160,11 @@ export class AmazonOrderExtender {
     }
 
     logger.debug('Fetching transactions from Firefly III', { startDate, endDate });
-    const transactions = await this.fireflyApi.getAllTransactions(startDate, endDate);
+    const transactions = await this.getApi().getAllTransactions(startDate, endDate);
     logger.debug(`Fetched ${transactions.length} total transactions`);
 
     // Filter for transactions that look like Amazon orders
-    const amazonTransactions = transactions.filter((t) => {
-      const split = t.attributes.transactions[0];
-      if (!split) return false;
-
-      const description = split.description.toLowerCase();
-      const destination = split.destination_name.toLowerCase();
-
-      // Common Amazon indicators
-      const amazonIndicators = [
-        'amazon',
-        'amzn',
-        'amz*',
-        'amazon.de',
-        'amazon.com',
-        'amazon.co.uk',
-        'amazon eu',
-        'amazon payments',
-        'amazon marketplace',
-      ];
-
-      return amazonIndicators.some(
-        (indicator) => description.includes(indicator) || destination.includes(indicator)
-      );
-    });
+    const amazonTransactions = transactions.filter(isAmazonTransaction);
 
     logger.info(`Found ${amazonTransactions.length} potential Amazon transactions`);
 
@@ -191,10 +204,9 @@ export class AmazonOrderExtender {
     // Filter out transactions that have already been processed
     if (excludeProcessed) {
       const initialCount = transactions.length;
-      transactions = transactions.filter((t) => {
-        const split = t.attributes.transactions[0];
-        return !split?.tags?.includes(AMAZON_EXTENDER_TAG);
-      });
+      transactions = transactions.filter(
+        (t) => !t.attributes.transactions.some((split) => split.tags?.includes(AMAZON_EXTENDER_TAG))
+      );
       logger.debug(
         `Filtered out ${initialCount - transactions.length} already processed transactions`
       );
@@ -227,8 +239,10 @@ export class AmazonOrderExtender {
         };
       }
 
-      const amount = Math.abs(parseFloat(split.amount));
+      // An order paid in one payment can be split into several categories
+      const amount = Math.abs(getTotalAmount(transaction));
       const transactionDate = new Date(split.date);
+      const description = getSearchableDescription(transaction);
 
       // Try to find matching order
       let bestMatch: AmazonOrder | null = null;
@@ -239,7 +253,7 @@ export class AmazonOrderExtender {
         const { confidence, breakdown } = this.calculateMatchConfidence(
           amount,
           transactionDate,
-          split.description,
+          description,
           order
         );
 
@@ -424,7 +438,7 @@ export class AmazonOrderExtender {
     for (const match of matches) {
       try {
         // Get current transaction to merge tags
-        const currentTransaction = await this.fireflyApi.getTransaction(match.transactionId);
+        const currentTransaction = await this.getApi().getTransaction(match.transactionId);
         const currentSplit = currentTransaction.attributes.transactions.find(
           (t) => t.transaction_journal_id === match.journalId
         );
@@ -444,7 +458,7 @@ export class AmazonOrderExtender {
           updateData.notes = match.newNotes;
         }
 
-        await this.fireflyApi.updateTransaction(match.transactionId, match.journalId, updateData);
+        await this.getApi().updateTransaction(match.transactionId, match.journalId, updateData);
         result.successful.push(match.transactionId);
       } catch (error) {
         result.failed.push({
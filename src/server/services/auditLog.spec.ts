@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  AuditLog,
+  isInAuditScope,
+  runWithAuditContext,
+  getAuditContext,
+  MAX_AUDIT_PAGE_SIZE,
+  type AuditChange,
+} from './auditLog.js';
+import { MemoryPersistenceBackend } from './persistence.js';
+import { runWithFireflyApi, type FireflyApiClient } from '../clients/firefly.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createChange(overrides: Partial<AuditChange> = {}): AuditChange {
+  return {
+    action: 'update',
+    resource: 'transaction',
+    resourceId: '100',
+    journalId: '200',
+    summary: 'Updated category of "Coffee"',
+    before: { description: 'Coffee', category_name: null },
+    after: { description: 'Coffee', category_name: 'Food' },
+    ...overrides,
+  };
+}
+
+describe('AuditLog', () => {
+  let backend: MemoryPersistenceBackend;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-01T12:00:00.000Z'));
+    backend = new MemoryPersistenceBackend();
+    auditLog = new AuditLog(backend, 0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('record', () => {
+    it('should attribute entries to the current audit context', () => {
+      const entry = runWithAuditContext({ user: 'alice', tool: 'suggestions' }, () =>
+        auditLog.record(createChange())
+      );
+
+      expect(entry).toMatchObject({
+        timestamp: '2024-06-01T12:00:00.000Z',
+        user: 'alice',
+        tool: 'suggestions',
+        resourceId: '100',
+        journalId: '200',
+      });
+      expect(auditLog.get(entry.id)).toEqual(entry);
+    });
+
+    it('should record entries without a context as unattributed', () => {
+      const entry = auditLog.record(createChange());
+
+      expect(entry.user).toBeNull();
+      expect(entry.tool).toBeNull();
+    });
+
+    it('should keep the context across awaits', async () => {
+      const context = await runWithAuditContext({ user: 'bob', tool: 'amazon' }, async () => {
+        await Promise.resolve();
+        return getAuditContext();
+      });
+
+      expect(context).toEqual({ user: 'bob', tool: 'amazon' });
+      expect(getAuditContext()).toBeUndefined();
+    });
+  });
+
+  describe('query', () => {
+    beforeEach(() => {
+      runWithAuditContext({ user: 'alice', tool: 'suggestions' }, () => {
+        auditLog.record(createChange());
+      });
+      vi.setSystemTime(new Date('2024-06-03T08:00:00.000Z'));
+      runWithAuditContext({ user: 'alice', tool: 'duplicates' }, () => {
+        auditLog.record(
+          createChange({
+            action: 'delete',
+            resourceId: '101',
+            journalId: '201',
+            summary: 'Deleted withdrawal "Coffee" (3.50)',
+            after: null,
+          })
+        );
+      });
+      vi.setSystemTime(new Date('2024-06-03T09:00:00.000Z'));
+      runWithAuditContext({ user: null, tool: 'subscriptions' }, () => {
+        auditLog.record(
+          createChange({
+            action: 'create',
+            resource: 'subscription',
+            resourceId: '100',
+            journalId: null,
+            summary: 'Created subscription "Netflix"',
+            before: null,
+          })
+        );
+      });
+    });
+
+    it('should list entries newest first', () => {
+      const result = auditLog.query();
+
+      expect(result.total).toBe(3);
+      expect(result.items.map((e) => e.tool)).toEqual([
+        'subscriptions',
+        'duplicates',
+        'suggestions',
+      ]);
+    });
+
+    it('should filter by tool', () => {
+      const result = auditLog.query({ tool: 'duplicates' });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].action).toBe('delete');
+    });
+
+    it('should filter by transaction group or journal ID', () => {
+      expect(auditLog.query({ transactionId: '100' }).items.map((e) => e.tool)).toEqual([
+        'suggestions',
+      ]);
+      expect(auditLog.query({ transactionId: '201' }).items.map((e) => e.tool)).toEqual([
+        'duplicates',
+      ]);
+    });
+
+    it('should filter by date range (inclusive)', () => {
+      expect(auditLog.query({ start: '2024-06-02' }).total).toBe(2);
+      expect(auditLog.query({ end: '2024-06-01' }).total).toBe(1);
+      expect(auditLog.query({ start: '2024-06-01', end: '2024-06-03' }).total).toBe(3);
+    });
+
+    it('should only list entries of the Firefly III account in scope', () => {
+      const userClient = {} as FireflyApiClient;
+      const own = runWithFireflyApi(
+        userClient,
+        () => auditLog.record(createChange()),
+        'default',
+        'firefly:7'
+      );
+
+      expect(own).toMatchObject({ account: 'firefly:7', profileId: 'default' });
+      expect(auditLog.query({}, { profileId: 'default', account: 'firefly:7' }).items).toEqual([
+        own,
+      ]);
+      expect(auditLog.query({}, { profileId: 'default', account: null }).total).toBe(3);
+      expect(auditLog.query({}, { profileId: 'savings', account: null }).total).toBe(0);
+      expect(auditLog.query().total).toBe(4);
+    });
+
+    it('should scope entries without profile or account to the default profile token', () => {
+      const scope = { profileId: 'default', account: null };
+
+      expect(isInAuditScope({}, scope)).toBe(true);
+      expect(isInAuditScope({ profileId: 'savings', account: null }, scope)).toBe(false);
+      expect(isInAuditScope({ account: 'firefly:7' }, scope)).toBe(false);
+      expect(isInAuditScope({ profileId: 'savings' }, { ...scope, profileId: 'savings' })).toBe(
+        true
+      );
+    });
+
+    it('should paginate results', () => {
+      const result = auditLog.query({ page: 2, pageSize: 2 });
+
+      expect(result).toMatchObject({ total: 3, page: 2, pageSize: 2, totalPages: 2 });
+      expect(result.items.map((e) => e.tool)).toEqual(['suggestions']);
+      expect(auditLog.query({ pageSize: 10_000 }).pageSize).toBe(MAX_AUDIT_PAGE_SIZE);
+    });
+  });
+
+  describe('retention', () => {
+    it('should keep entries forever without a retention period', () => {
+      auditLog.record(createChange());
+      vi.setSystemTime(new Date('2030-01-01T00:00:00.000Z'));
+
+      expect(auditLog.query().total).toBe(1);
+    });
+
+    it('should remove entries older than the retention period', () => {
+      auditLog = new AuditLog(backend, 30 * DAY_MS);
+      auditLog.record(createChange());
+      vi.setSystemTime(new Date('2024-06-20T12:00:00.000Z'));
+      auditLog.record(createChange());
+
+      vi.setSystemTime(new Date('2024-07-05T12:00:00.000Z'));
+
+      expect(auditLog.query().total).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Audit Log
+ *
+ * Records every change the toolbox writes to Firefly III (transaction updates,
+ * deletions and creations, subscriptions, rules) together with the signed-in user,
+ * the originating tool and a snapshot of the affected split before and after.
+ *
+ * Who and which tool made a change is taken from the audit context, which is set
+ * per request by the auditContext middleware and per run by the scheduler.
+ * Entries are only shown to users working with the same connection profile and
+ * Firefly III account, since their snapshots contain that account's transactions.
+ * Entries are kept in the persistence backend for AUDIT_RETENTION_DAYS (default: forever).
+ */
+
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { config, DEFAULT_FIREFLY_PROFILE_ID } from '../config/index.js';
+import { getFireflyOwner, isSameFireflyOwner, type FireflyOwner } from '../clients/firefly.js';
+import { createLogger } from '../utils/logger.js';
+import { getPersistenceBackend, type PersistenceBackend } from './persistence.js';
+import type {
+  AuditEntry,
+  AuditQuery,
+  AuditTool,
+  PaginatedResponse,
+} from '../../shared/types/app.js';
+
+const logger = createLogger('AuditLog');
+
+/** Persistence namespace for audit entries */
+const AUDIT_NAMESPACE = 'auditLog';
+
+/** Default and maximum page size for queries */
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * Who is making changes, and from which tool
+ */
+export interface AuditContext {
+  user: string | null;
+  tool: AuditTool | null;
+  /** Bulk operation that changes belong to */
+  operationId?: string;
+}
+
+/**
+ * Fields describing a change (user, account, profile, tool, ID and timestamp are
+ * added when recording)
+ */
+export type AuditChange = Omit<
+  AuditEntry,
+  'id' | 'timestamp' | 'user' | 'account' | 'profileId' | 'tool' | 'operationId'
+>;
+
+/**
+ * Connection profile and Firefly III account whose audit entries and operations
+ * a user may see
+ */
+export type AuditScope = FireflyOwner;
+
+/**
+ * Get the audit scope of the current request (see getFireflyOwner)
+ */
+export function getAuditScope(): AuditScope {
+  return getFireflyOwner();
+}
+
+/**
+ * Check whether an audit entry or operation belongs to a scope (entries recorded
+ * before profiles and accounts were stored belong to the default profile's token)
+ */
+export function isInAuditScope(
+  item: { account?: string | null; profileId?: string },
+  scope: AuditScope
+): boolean {
+  return isSameFireflyOwner(
+    { profileId: item.profileId ?? DEFAULT_FIREFLY_PROFILE_ID, account: item.account ?? null },
+    scope
+  );
+}
+
+const contextStorage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run a function with an audit context. Changes recorded by the function and
+ * anything it awaits are attributed to the given user and tool.
+ */
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return contextStorage.run(context, fn);
+}
+
+/**
+ * Get the audit context of the current request or run
+ */
+export function getAuditContext(): AuditContext | undefined {
+  return contextStorage.getStore();
+}
+
+/**
+ * Copy an object into a plain snapshot for storage
+ */
+export function toAuditSnapshot(value: object): Record<string, unknown> {
+  return { ...(value as Record<string, unknown>) };
+}
+
+/**
+ * Persistent log of changes written to Firefly III
+ */
+export class AuditLog {
+  private backend: PersistenceBackend;
+  private retentionMs: number;
+
+  constructor(
+    backend: PersistenceBackend = getPersistenceBackend(),
+    retentionMs: number = config.audit.retentionMs
+  ) {
+    this.backend = backend;
+    this.retentionMs = retentionMs;
+  }
+
+  /**
+   * Record a change, attributed to the current audit context
+   */
+  record(change: AuditChange): AuditEntry {
+    const context = getAuditContext();
+    const owner = getFireflyOwner();
+    const now = Date.now();
+    const entry: AuditEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(now).toISOString(),
+      user: context?.user ?? null,
+      account: owner.account,
+      profileId: owner.profileId,
+      tool: context?.tool ?? null,
+      operationId: context?.operationId ?? null,
+      ...change,
+    };
+
+    this.backend.set(AUDIT_NAMESPACE, entry.id, JSON.stringify(entry), now);
+    logger.debug(`${entry.tool ?? 'unknown'}: ${entry.summary}`);
+    return entry;
+  }
+
+  /**
+   * Query entries, newest first (only those of the given scope, if any)
+   */
+  query(filter: AuditQuery = {}, scope?: AuditScope): PaginatedResponse<AuditEntry> {
+    this.prune();
+
+    const pageSize = Math.min(filter.pageSize ?? DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE);
+    const page = Math.max(filter.page ?? 1, 1);
+
+    const matches = this.readAll()
+      .filter((entry) => !scope || isInAuditScope(entry, scope))
+      .filter((entry) => this.matches(entry, filter))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    return {
+      items: matches.slice((page - 1) * pageSize, page * pageSize),
+      total: matches.length,
+      page,
+      pageSize,
+      totalPages: Math.ceil(matches.length / pageSize),
+    };
+  }
+
+  /**
+   * List all entries of a bulk operation, oldest first
+   */
+  listOperationEntries(operationId: string): AuditEntry[] {
+    return this.readAll()
+      .filter((entry) => entry.operationId === operationId)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  /**
+   * Get an entry by ID
+   */
+  get(id: string): AuditEntry | undefined {
+    const record = this.backend.get(AUDIT_NAMESPACE, id);
+    if (!record) return undefined;
+
+    try {
+      return JSON.parse(record.value) as AuditEntry;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable audit entry ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove entries older than the retention period
+   */
+  prune(): number {
+    if (this.retentionMs <= 0) return 0;
+
+    const removed = this.backend.deleteOlderThan(AUDIT_NAMESPACE, Date.now() - this.retentionMs);
+    if (removed > 0) {
+      logger.info(`Removed ${removed} expired audit entries`);
+    }
+    return removed;
+  }
+
+  private matches(entry: AuditEntry, filter: AuditQuery): boolean {
+    if (filter.tool && entry.tool !== filter.tool) return false;
+    if (filter.operationId && entry.operationId !== filter.operationId) return false;
+    if (
+      filter.transactionId &&
+      (entry.resource !== 'transaction' ||
+        (entry.resourceId !== filter.transactionId && entry.journalId !== filter.transactionId))
+    ) {
+      return false;
+    }
+
+    const date = entry.timestamp.slice(0, 10);
+    if (filter.start && date < filter.start) return false;
+    if (filter.end && date > filter.end) return false;
+    return true;
+  }
+
+  private readAll(): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    for (const record of this.backend.list(AUDIT_NAMESPACE)) {
+      try {
+        entries.push(JSON.parse(record.value) as AuditEntry);
+      } catch (error) {
+        logger.warn(`Ignoring unreadable audit entry ${record.key}:`, error);
+      }
+    }
+    return entries;
+  }
+}
+
+// Shared audit log instance, created lazily on first use
+let auditLogInstance: AuditLog | null = null;
+
+/**
+ * Get the shared audit log
+ */
+export function getAuditLog(): AuditLog {
+  if (!auditLogInstance) {
+    auditLogInstance = new AuditLog();
+  }
+  return auditLogInstance;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { importConvertedTransactions, type ImportTransaction } from './converterImport.js';
+import type { FireflyApiClient } from '../clients/firefly.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+function createTransaction(overrides: Partial<ImportTransaction> = {}): ImportTransaction {
+  return {
+    type: 'withdrawal',
+    date: '2025-03-01',
+    amount: '12.50',
+    description: 'Coffee Shop',
+    source_name: 'Checking',
+    ...overrides,
+  };
+}
+
+describe('importConvertedTransactions', () => {
+  const createTransactionMock = vi.fn();
+  const addTagsToTransaction = vi.fn();
+  const fireflyApi = {
+    createTransaction: createTransactionMock,
+    addTagsToTransaction,
+  } as unknown as FireflyApiClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    createTransactionMock.mockImplementation(async () => ({ id: '42' }));
+  });
+
+  it('should create each row with only the fields that have values', async () => {
+    const result = await importConvertedTransactions(fireflyApi, [
+      createTransaction({ notes: '', tags: 'coffee, ,daily' }),
+    ]);
+
+    expect(result).toEqual({ successful: [0], failed: [] });
+    expect(createTransactionMock).toHaveBeenCalledWith({
+      error_if_duplicate_hash: true,
+      apply_rules: true,
+      fire_webhooks: true,
+      transactions: [
+        {
+          type: 'withdrawal',
+          date: '2025-03-01',
+          amount: '12.50',
+          description: 'Coffee Shop',
+          source_name: 'Checking',
+          tags: ['coffee', 'daily'],
+        },
+      ],
+    });
+  });
+
+  it('should continue after failed rows and report progress', async () => {
+    createTransactionMock
+      .mockRejectedValueOnce(new Error('Duplicate of transaction #7.'))
+      .mockResolvedValueOnce({ id: '43' });
+    const onProgress = vi.fn();
+
+    const result = await importConvertedTransactions(
+      fireflyApi,
+      [createTransaction(), createTransaction({ amount: '3.00' })],
+      { applyRules: false, errorIfDuplicate: false },
+      onProgress
+    );
+
+    expect(result).toEqual({
+      successful: [1],
+      failed: [{ index: 0, error: 'Duplicate of transaction #7.' }],
+    });
+    expect(createTransactionMock.mock.calls[0][0]).toMatchObject({
+      apply_rules: false,
+      error_if_duplicate_hash: false,
+    });
+    expect(onProgress.mock.calls).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it('should add import tags after creating the transaction', async () => {
+    addTagsToTransaction.mockRejectedValueOnce(new Error('Tag failed'));
+
+    const result = await importConvertedTransactions(fireflyApi, [createTransaction()], {
+      tags: 'import-2025, bank',
+    });
+
+    expect(addTagsToTransaction).toHaveBeenCalledWith('42', ['import-2025', 'bank']);
+    expect(createTransactionMock.mock.calls[0][0].transactions[0].tags).toBeUndefined();
+    // The transaction exists, so a failed tag update does not fail the row
+    expect(result.successful).toEqual([0]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Converter Import
+ *
+ * Creates converted bank export rows as transactions in Firefly III, one at a
+ * time so a rejected row (e.g. a duplicate) does not stop the rest. Used by the
+ * converter routes and the CLI.
+ */
+
+import type { FireflyApiClient } from '../clients/firefly.js';
+import { createLogger } from '../utils/logger.js';
+import type { ConverterImportBody } from '../utils/validation.js';
+
+const logger = createLogger('ConverterImport');
+
+/** Converted row as accepted by the import */
+export type ImportTransaction = ConverterImportBody['transactions'][number];
+
+export type ConverterImportOptions = NonNullable<ConverterImportBody['options']>;
+
+/**
+ * Outcome of an import (row indices are zero-based)
+ */
+export interface ConverterImportResult {
+  successful: number[];
+  failed: Array<{ index: number; error: string }>;
+}
+
+/**
+ * Split a comma-separated tag list
+ */
+function splitTags(tags: string | undefined): string[] {
+  return tags
+    ? tags
+        .split(',')
+        .map((t) => t.trim())
+        .filter(Boolean)
+    : [];
+}
+
+/**
+ * Build transaction data object with only defined fields.
+ * This ensures consistent hashing by not including undefined/null fields.
+ */
+function buildTransactionData(tx: ImportTransaction, tags?: string[]): Record<string, unknown> {
+  const data: Record<string, unknown> = {
+    type: tx.type,
+    date: tx.date,
+    amount: tx.amount,
+    description: tx.description,
+  };
+
+  // Only add optional fields if they have actual values
+  if (tx.source_name) data.source_name = tx.source_name;
+  if (tx.destination_name) data.destination_name = tx.destination_name;
+  if (tx.category_name) data.category_name = tx.category_name;
+  if (tx.budget_name) data.budget_name = tx.budget_name;
+  if (tags && tags.length > 0) data.tags = tags;
+  if (tx.notes) data.notes = tx.notes;
+  if (tx.currency_code) data.currency_code = tx.currency_code;
+  if (tx.foreign_amount) data.foreign_amount = tx.foreign_amount;
+  if (tx.foreign_currency_code) data.foreign_currency_code = tx.foreign_currency_code;
+  if (tx.internal_reference) data.internal_reference = tx.internal_reference;
+  if (tx.external_id) data.external_id = tx.external_id;
+  if (tx.external_url) data.external_url = tx.external_url;
+  if (tx.sepa_cc) data.sepa_cc = tx.sepa_cc;
+  if (tx.sepa_ct_op) data.sepa_ct_op = tx.sepa_ct_op;
+  if (tx.sepa_ct_id) data.sepa_ct_id = tx.sepa_ct_id;
+  if (tx.sepa_db) data.sepa_db = tx.sepa_db;
+  if (tx.sepa_country) data.sepa_country = tx.sepa_country;
+  if (tx.sepa_ep) data.sepa_ep = tx.sepa_ep;
+  if (tx.sepa_ci) data.sepa_ci = tx.sepa_ci;
+  if (tx.sepa_batch_id) data.sepa_batch_id = tx.sepa_batch_id;
+  if (tx.interest_date) data.interest_date = tx.interest_date;
+  if (tx.book_date) data.book_date = tx.book_date;
+  if (tx.process_date) data.process_date = tx.process_date;
+  if (tx.due_date) data.due_date = tx.due_date;
+  if (tx.payment_date) data.payment_date = tx.payment_date;
+  if (tx.invoice_date) data.invoice_date = tx.invoice_date;
+
+  return data;
+}
+
+/**
+ * Import converted transactions into Firefly III.
+ * Calls onProgress after each row with the number of rows processed.
+ */
+export async function importConvertedTransactions(
+  fireflyApi: FireflyApiClient,
+  transactions: ImportTransaction[],
+  options: ConverterImportOptions = {},
+  onProgress?: (current: number, total: number) => void
+): Promise<ConverterImportResult> {
+  const applyRules = options.applyRules ?? true;
+  const errorIfDuplicate = options.errorIfDuplicate ?? true;
+  // Import tags are added AFTER transaction creation to avoid affecting duplicate hash
+  const importTags = splitTags(options.tags);
+
+  const result: ConverterImportResult = { successful: [], failed: [] };
+
+  // Import transactions one by one to handle errors gracefully
+  for (let i = 0; i < transactions.length; i++) {
+    const tx = transactions[i];
+    try {
+      // Convert tags from comma-separated string to array (CSV tags only, NOT import tags)
+      const txTags = splitTags(tx.tags);
+      const tags = txTags.length > 0 ? txTags : undefined;
+
+      const txData = buildTransactionData(tx, tags);
+      const createdTx = await fireflyApi.createTransaction({
+        error_if_duplicate_hash: errorIfDuplicate,
+        apply_rules: applyRules,
+        fire_webhooks: true,
+        transactions: [
+          txData as Parameters<typeof fireflyApi.createTransaction>[0]['transactions'][0],
+        ],
+      });
+
+      // Add import tags AFTER creation so they don't affect duplicate hash
+      if (importTags.length > 0) {
+        try {
+          await fireflyApi.addTagsToTransaction(createdTx.id, importTags);
+        } catch {
+          // Tag addition failed, but transaction was created - don't count as failure
+          logger.warn(`Failed to add import tags to transaction ${createdTx.id}`);
+        }
+      }
+
+      result.successful.push(i);
+    } catch (error) {
+      result.failed.push({
+        index: i,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    onProgress?.(i + 1, transactions.length);
+  }
+
+  return result;
+}
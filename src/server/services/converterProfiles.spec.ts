@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConverterProfileLibrary } from './converterProfiles.js';
+import { MemoryPersistenceBackend } from './persistence.js';
+import type { ConverterConfig } from '../../shared/types/converter.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+function createConfig(overrides: Partial<ConverterConfig> = {}): ConverterConfig {
+  return {
+    name: 'Untitled',
+    description: '',
+    version: '1.0',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    csvOptions: { delimiter: ';', quoteChar: '"', hasHeader: true, skipRows: 0, encoding: 'utf-8' },
+    exportOptions: { delimiter: ',', quoteChar: '"', quoteMode: 'needed', lineEnding: 'lf' },
+    swimlanes: [],
+    ...overrides,
+  };
+}
+
+describe('ConverterProfileLibrary', () => {
+  let backend: MemoryPersistenceBackend;
+  let library: ConverterProfileLibrary;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-01T12:00:00.000Z'));
+    backend = new MemoryPersistenceBackend();
+    library = new ConverterProfileLibrary(backend);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should create and retrieve profiles', () => {
+    const created = library.create('  DKB  ', createConfig({ description: 'Checking' }));
+
+    expect(created.name).toBe('DKB');
+    expect(created.config.name).toBe('DKB');
+    expect(created.lastUsedAt).toBeNull();
+    expect(library.get(created.id)).toEqual(created);
+  });
+
+  it('should share profiles between library instances', () => {
+    const created = library.create('DKB', createConfig());
+
+    expect(new ConverterProfileLibrary(backend).get(created.id)?.name).toBe('DKB');
+  });
+
+  it('should list summaries with most recently used first', () => {
+    const dkb = library.create('DKB', createConfig());
+    library.create('Comdirect', createConfig());
+    const ing = library.create('ING', createConfig({ description: 'Savings' }));
+
+    library.markUsed(dkb.id);
+    vi.advanceTimersByTime(1000);
+    library.markUsed(ing.id);
+
+    const list = library.list();
+    expect(list.map((p) => p.name)).toEqual(['ING', 'DKB', 'Comdirect']);
+    expect(list[0]).toMatchObject({ description: 'Savings', swimlaneCount: 0 });
+    expect(list[0]).not.toHaveProperty('config');
+  });
+
+  it('should rename profiles and keep the configuration name in sync', () => {
+    const created = library.create('DKB', createConfig());
+    vi.advanceTimersByTime(1000);
+
+    const renamed = library.update(created.id, { name: 'DKB Visa' });
+
+    expect(renamed?.name).toBe('DKB Visa');
+    expect(renamed?.config.name).toBe('DKB Visa');
+    expect(renamed?.updatedAt).not.toBe(created.updatedAt);
+    expect(renamed?.createdAt).toBe(created.createdAt);
+  });
+
+  it('should replace the configuration on update', () => {
+    const created = library.create('DKB', createConfig());
+    const config = createConfig({ description: 'Updated mapping' });
+
+    const updated = library.update(created.id, { config });
+
+    expect(updated?.name).toBe('DKB');
+    expect(updated?.config.description).toBe('Updated mapping');
+  });
+
+  it('should duplicate profiles with unique copy names', () => {
+    const created = library.create('DKB', createConfig());
+
+    const copy1 = library.duplicate(created.id);
+    const copy2 = library.duplicate(created.id);
+    const named = library.duplicate(created.id, 'DKB Business');
+
+    expect(copy1?.name).toBe('DKB (copy)');
+    expect(copy2?.name).toBe('DKB (copy 2)');
+    expect(named?.name).toBe('DKB Business');
+    expect(named?.id).not.toBe(created.id);
+  });
+
+  it('should detect taken names case-insensitively', () => {
+    const created = library.create('DKB', createConfig());
+
+    expect(library.isNameTaken('dkb')).toBe(true);
+    expect(library.isNameTaken('DKB', created.id)).toBe(false);
+    expect(library.isNameTaken('ING')).toBe(false);
+  });
+
+  it('should record last use', () => {
+    const created = library.create('DKB', createConfig());
+
+    const used = library.markUsed(created.id);
+
+    expect(used?.lastUsedAt).toBe('2024-06-01T12:00:00.000Z');
+    expect(library.get(created.id)?.lastUsedAt).toBe('2024-06-01T12:00:00.000Z');
+  });
+
+  it('should delete profiles', () => {
+    const created = library.create('DKB', createConfig());
+
+    expect(library.delete(created.id)).toBe(true);
+    expect(library.delete(created.id)).toBe(false);
+    expect(library.list()).toEqual([]);
+  });
+
+  it('should return undefined for unknown profiles', () => {
+    expect(library.get('missing')).toBeUndefined();
+    expect(library.update('missing', { name: 'x' })).toBeUndefined();
+    expect(library.duplicate('missing')).toBeUndefined();
+    expect(library.markUsed('missing')).toBeUndefined();
+  });
+
+  it('should skip unreadable records', () => {
+    backend.set('converterProfiles', 'broken', '{not json');
+    library.create('DKB', createConfig());
+
+    expect(library.list()).toHaveLength(1);
+    expect(library.get('broken')).toBeUndefined();
+  });
+});
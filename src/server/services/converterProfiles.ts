@@ -0,0 +1,194 @@
+/**
+ * Converter Profile Library
+ *
+ * Stores named converter configurations (bank mappings) on the server so they
+ * are shared by all users of the instance instead of living in downloaded files.
+ * Profiles are kept in the persistence backend and survive restarts.
+ */
+
+import crypto from 'crypto';
+import { createLogger } from '../utils/logger.js';
+import { getPersistenceBackend, type PersistenceBackend } from './persistence.js';
+import type {
+  ConverterConfig,
+  ConverterProfile,
+  ConverterProfileSummary,
+} from '../../shared/types/converter.js';
+
+const logger = createLogger('ConverterProfiles');
+
+/** Persistence namespace for converter profiles */
+const PROFILE_NAMESPACE = 'converterProfiles';
+
+/**
+ * Shared library of converter profiles
+ */
+export class ConverterProfileLibrary {
+  private backend: PersistenceBackend;
+
+  constructor(backend: PersistenceBackend = getPersistenceBackend()) {
+    this.backend = backend;
+  }
+
+  /**
+   * List all profiles, most recently used first
+   */
+  list(): ConverterProfileSummary[] {
+    return this.readAll()
+      .map((profile) => ({
+        id: profile.id,
+        name: profile.name,
+        description: profile.config.description,
+        swimlaneCount: profile.config.swimlanes.length,
+        createdAt: profile.createdAt,
+        updatedAt: profile.updatedAt,
+        lastUsedAt: profile.lastUsedAt,
+      }))
+      .sort((a, b) => {
+        const usedA = a.lastUsedAt ?? '';
+        const usedB = b.lastUsedAt ?? '';
+        if (usedA !== usedB) return usedB.localeCompare(usedA);
+        return a.name.localeCompare(b.name);
+      });
+  }
+
+  /**
+   * Get a profile by ID
+   */
+  get(id: string): ConverterProfile | undefined {
+    const record = this.backend.get(PROFILE_NAMESPACE, id);
+    if (!record) return undefined;
+
+    try {
+      return JSON.parse(record.value) as ConverterProfile;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable profile ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Check whether a profile name is already used (case-insensitive)
+   */
+  isNameTaken(name: string, excludeId?: string): boolean {
+    const normalized = name.trim().toLowerCase();
+    return this.readAll().some(
+      (profile) => profile.id !== excludeId && profile.name.toLowerCase() === normalized
+    );
+  }
+
+  /**
+   * Create a new profile from a configuration
+   */
+  create(name: string, config: ConverterConfig): ConverterProfile {
+    const now = new Date().toISOString();
+    const profileName = name.trim();
+    const profile: ConverterProfile = {
+      id: crypto.randomUUID(),
+      name: profileName,
+      config: { ...config, name: profileName, updatedAt: now },
+      createdAt: now,
+      updatedAt: now,
+      lastUsedAt: null,
+    };
+
+    this.write(profile);
+    logger.info(`Created converter profile "${profile.name}"`);
+    return profile;
+  }
+
+  /**
+   * Rename a profile and/or replace its configuration
+   */
+  update(
+    id: string,
+    changes: { name?: string; config?: ConverterConfig }
+  ): ConverterProfile | undefined {
+    const profile = this.get(id);
+    if (!profile) return undefined;
+
+    const now = new Date().toISOString();
+    const name = changes.name?.trim() ?? profile.name;
+    const updated: ConverterProfile = {
+      ...profile,
+      name,
+      config: { ...(changes.config ?? profile.config), name, updatedAt: now },
+      updatedAt: now,
+    };
+
+    this.write(updated);
+    logger.info(`Updated converter profile "${updated.name}"`);
+    return updated;
+  }
+
+  /**
+   * Copy a profile under a new name (defaults to "<name> (copy)")
+   */
+  duplicate(id: string, name?: string): ConverterProfile | undefined {
+    const profile = this.get(id);
+    if (!profile) return undefined;
+
+    return this.create(name?.trim() || this.getCopyName(profile.name), profile.config);
+  }
+
+  /**
+   * Record that a profile was loaded into the converter
+   */
+  markUsed(id: string): ConverterProfile | undefined {
+    const profile = this.get(id);
+    if (!profile) return undefined;
+
+    const used: ConverterProfile = { ...profile, lastUsedAt: new Date().toISOString() };
+    this.write(used);
+    return used;
+  }
+
+  /**
+   * Delete a profile
+   */
+  delete(id: string): boolean {
+    const profile = this.get(id);
+    if (!profile) return false;
+
+    this.backend.delete(PROFILE_NAMESPACE, id);
+    logger.info(`Deleted converter profile "${profile.name}"`);
+    return true;
+  }
+
+  private getCopyName(name: string): string {
+    let candidate = `${name} (copy)`;
+    for (let i = 2; this.isNameTaken(candidate); i++) {
+      candidate = `${name} (copy ${i})`;
+    }
+    return candidate;
+  }
+
+  private readAll(): ConverterProfile[] {
+    const profiles: ConverterProfile[] = [];
+    for (const record of this.backend.list(PROFILE_NAMESPACE)) {
+      try {
+        profiles.push(JSON.parse(record.value) as ConverterProfile);
+      } catch (error) {
+        logger.warn(`Ignoring unreadable profile ${record.key}:`, error);
+      }
+    }
+    return profiles;
+  }
+
+  private write(profile: ConverterProfile): void {
+    this.backend.set(PROFILE_NAMESPACE, profile.id, JSON.stringify(profile));
+  }
+}
+
+// Shared library instance, created lazily on first use
+let libraryInstance: ConverterProfileLibrary | null = null;
+
+/**
+ * Get the shared converter profile library
+ */
+export function getConverterProfileLibrary(): ConverterProfileLibrary {
+  if (!libraryInstance) {
+    libraryInstance = new ConverterProfileLibrary();
+  }
+  return libraryInstance;
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { DryRun, runDryRun, getDryRun, describeDryRun } from './dryRun.js';
+import type { FireflyTransaction, FireflyTransactionSplit } from '../../shared/types/firefly.js';
+
+function createTransaction(
+  id: string,
+  overrides: Partial<FireflyTransactionSplit> = {}
+): FireflyTransaction {
+  return {
+    id,
+    type: 'transactions',
+    attributes: {
+      created_at: '2024-06-01T08:00:00.000Z',
+      updated_at: '2024-06-01T08:00:00.000Z',
+      user: '1',
+      group_title: null,
+      transactions: [
+        {
+          transaction_journal_id: `j${id}`,
+          type: 'withdrawal',
+          date: '2024-05-01T00:00:00+02:00',
+          amount: '10.00',
+          description: 'AMAZON PAYMENTS',
+          category_name: null,
+          tags: [],
+          notes: null,
+          ...overrides,
+        } as FireflyTransactionSplit,
+      ],
+    },
+  };
+}
+
+describe('DryRun', () => {
+  it('should record changed fields of updates and return the updated transaction', () => {
+    const dryRun = new DryRun();
+    const current = createTransaction('1', { tags: ['Shopping'] });
+
+    const updated = dryRun.update(current, 'j1', {
+      description: 'USB cable',
+      tags: ['Shopping', 'Amazon'],
+      notes: null,
+    });
+
+    expect(updated.attributes.transactions[0].description).toBe('USB cable');
+    // The looked-up transaction is left untouched
+    expect(current.attributes.transactions[0].description).toBe('AMAZON PAYMENTS');
+    expect(dryRun.getChanges()).toEqual([
+      {
+        action: 'update',
+        transactionId: '1',
+        journalId: 'j1',
+        description: 'AMAZON PAYMENTS',
+        date: '2024-05-01T00:00:00+02:00',
+        amount: '10.00',
+        fields: [
+          { field: 'description', oldValue: 'AMAZON PAYMENTS', newValue: 'USB cable' },
+          { field: 'tags', oldValue: ['Shopping'], newValue: ['Shopping', 'Amazon'] },
+        ],
+      },
+    ]);
+    expect(dryRun.getPlanned('1')).toBe(updated);
+  });
+
+  it('should not record updates that change nothing', () => {
+    const dryRun = new DryRun();
+
+    dryRun.update(createTransaction('1', { category_name: 'Food' }), 'j1', {
+      category_name: 'Food',
+    });
+
+    expect(dryRun.getChanges()).toEqual([]);
+  });
+
+  it('should reject unknown journals', () => {
+    expect(() => new DryRun().update(createTransaction('1'), 'j9', {})).toThrow(
+      'Transaction journal j9 not found in transaction 1'
+    );
+  });
+
+  it('should show follow-up updates of created transactions as part of the creation', () => {
+    const dryRun = new DryRun();
+
+    const created = dryRun.create([
+      {
+        type: 'deposit',
+        date: '2024-05-02',
+        amount: '25.00',
+        description: 'Salary',
+        destination_name: 'Checking',
+        tags: ['Payroll'],
+      },
+    ]);
+    dryRun.update(dryRun.getPlanned(created.id) as FireflyTransaction, `${created.id}-1`, {
+      tags: ['Payroll', 'Import 2024-05'],
+    });
+
+    expect(created.id).toBe('dry-run-1');
+    expect(dryRun.getChanges()).toEqual([
+      {
+        action: 'create',
+        transactionId: null,
+        journalId: null,
+        description: 'Salary',
+        date: '2024-05-02',
+        amount: '25.00',
+        fields: [
+          { field: 'type', oldValue: null, newValue: 'deposit' },
+          { field: 'destination_name', oldValue: null, newValue: 'Checking' },
+          { field: 'tags', oldValue: null, newValue: ['Payroll', 'Import 2024-05'] },
+        ],
+      },
+    ]);
+  });
+
+  it('should record deletions and hide deleted transactions', () => {
+    const dryRun = new DryRun();
+
+    dryRun.delete(createTransaction('1'));
+
+    expect(dryRun.getChanges()).toMatchObject([
+      { action: 'delete', transactionId: '1', journalId: 'j1', fields: [] },
+    ]);
+    expect(dryRun.isDeleted('1')).toBe(true);
+    expect(dryRun.getPlanned('1')).toBeUndefined();
+  });
+});
+
+describe('runDryRun', () => {
+  it('should provide the dry run to the function and everything it awaits', async () => {
+    expect(getDryRun()).toBeUndefined();
+
+    const { result, changes } = await runDryRun(async () => {
+      await Promise.resolve();
+      getDryRun()?.delete(createTransaction('1'));
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(changes).toHaveLength(1);
+    expect(getDryRun()).toBeUndefined();
+  });
+
+  it('should describe the changes', () => {
+    const dryRun = new DryRun();
+    dryRun.create([{ description: 'Rent', date: '2024-05-01', amount: '500.00' }]);
+    dryRun.delete(createTransaction('1'));
+
+    expect(describeDryRun(dryRun.getChanges())).toBe(
+      'Dry run, nothing was changed: would create 1, update 0 and delete 1 transactions'
+    );
+  });
+});
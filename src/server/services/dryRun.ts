@@ -0,0 +1,232 @@
+/**
+ * Dry Runs
+ *
+ * Lets bulk apply and import endpoints show what they would change before
+ * changing anything. Inside a dry run the Firefly III client still performs all
+ * lookups (so missing transactions fail as they would for real), but instead of
+ * writing it records the change and returns the transaction as it would look
+ * afterwards:
+ * - updates are recorded as per-field differences of the split
+ * - created transactions get a placeholder ID, so follow-up writes (e.g. adding
+ *   import tags) are shown as part of the creation
+ * - deletions are recorded with the description, date and amount of each split
+ *
+ * Nothing is written to Firefly III, the audit log or the transaction mirror.
+ * Checks Firefly III only makes while writing (e.g. rejecting duplicate hashes)
+ * cannot be previewed.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { DryRunChange, DryRunFieldChange, DryRunValue } from '../../shared/types/app.js';
+import type { FireflyTransaction, FireflyTransactionSplit } from '../../shared/types/firefly.js';
+
+/** Prefix of the IDs given to transactions a dry run would create */
+export const DRY_RUN_ID_PREFIX = 'dry-run-';
+
+/** Split fields compared for updates */
+const UPDATE_FIELDS = [
+  'description',
+  'source_name',
+  'destination_name',
+  'category_name',
+  'budget_name',
+  'tags',
+  'notes',
+  'external_id',
+] as const;
+
+/** Split fields listed for creations (besides description, date and amount) */
+const CREATE_FIELDS = [
+  'type',
+  'source_name',
+  'destination_name',
+  'category_name',
+  'budget_name',
+  'tags',
+  'notes',
+  'external_id',
+] as const;
+
+/**
+ * Normalize a split field for display (empty values become null)
+ */
+function toDryRunValue(value: unknown): DryRunValue {
+  if (Array.isArray(value)) return value.length > 0 ? value.map(String) : null;
+  if (value === undefined || value === null || value === '') return null;
+  return String(value);
+}
+
+function getUpdatedFields(
+  before: FireflyTransactionSplit,
+  after: FireflyTransactionSplit
+): DryRunFieldChange[] {
+  return UPDATE_FIELDS.map((field) => ({
+    field,
+    oldValue: toDryRunValue(before[field]),
+    newValue: toDryRunValue(after[field]),
+  })).filter(({ oldValue, newValue }) => JSON.stringify(oldValue) !== JSON.stringify(newValue));
+}
+
+function getCreatedFields(split: FireflyTransactionSplit): DryRunFieldChange[] {
+  return CREATE_FIELDS.map((field) => ({
+    field,
+    oldValue: null,
+    newValue: toDryRunValue(split[field]),
+  })).filter(({ newValue }) => newValue !== null);
+}
+
+function toChange(
+  action: DryRunChange['action'],
+  transactionId: string | null,
+  split: FireflyTransactionSplit,
+  fields: DryRunFieldChange[]
+): DryRunChange {
+  return {
+    action,
+    transactionId,
+    journalId: transactionId ? split.transaction_journal_id : null,
+    description: split.description,
+    date: split.date,
+    amount: split.amount,
+    fields,
+  };
+}
+
+/**
+ * Changes collected during one dry run
+ */
+export class DryRun {
+  private changes: DryRunChange[] = [];
+  /** Transactions as they would look after the run, keyed by ID */
+  private planned: Map<string, FireflyTransaction> = new Map();
+  /** Changes describing the splits of each transaction that would be created */
+  private creations: Map<string, DryRunChange[]> = new Map();
+  private deleted: Set<string> = new Set();
+
+  /**
+   * Record an update of one split and return the transaction as it would look afterwards
+   */
+  update(
+    current: FireflyTransaction,
+    journalId: string,
+    updates: Partial<FireflyTransactionSplit>
+  ): FireflyTransaction {
+    const updated = structuredClone(current);
+    const splits = updated.attributes.transactions;
+    const index = splits.findIndex((split) => split.transaction_journal_id === journalId);
+    if (index === -1) {
+      throw new Error(`Transaction journal ${journalId} not found in transaction ${current.id}`);
+    }
+
+    const before = splits[index];
+    const after = { ...before, ...updates };
+    splits[index] = after;
+    this.planned.set(updated.id, updated);
+
+    const creation = this.creations.get(updated.id);
+    if (creation) {
+      creation[index].fields = getCreatedFields(after);
+      return updated;
+    }
+
+    const fields = getUpdatedFields(before, after);
+    if (fields.length > 0) {
+      this.changes.push(toChange('update', updated.id, before, fields));
+    }
+    return updated;
+  }
+
+  /**
+   * Record the creation of a transaction and return it with a placeholder ID
+   */
+  create(splits: Array<Partial<FireflyTransactionSplit>>): FireflyTransaction {
+    const id = `${DRY_RUN_ID_PREFIX}${this.creations.size + 1}`;
+    const now = new Date().toISOString();
+    const transaction: FireflyTransaction = {
+      id,
+      type: 'transactions',
+      attributes: {
+        created_at: now,
+        updated_at: now,
+        user: '',
+        group_title: null,
+        transactions: splits.map(
+          (split, index) =>
+            ({
+              ...split,
+              transaction_journal_id: `${id}-${index + 1}`,
+              tags: split.tags ?? [],
+            }) as FireflyTransactionSplit
+        ),
+      },
+    };
+
+    const creation = transaction.attributes.transactions.map((split) =>
+      toChange('create', null, split, getCreatedFields(split))
+    );
+    this.changes.push(...creation);
+    this.creations.set(id, creation);
+    this.planned.set(id, transaction);
+    return transaction;
+  }
+
+  /**
+   * Record the deletion of all splits of a transaction
+   */
+  delete(transaction: FireflyTransaction): void {
+    for (const split of transaction.attributes.transactions) {
+      this.changes.push(toChange('delete', transaction.id, split, []));
+    }
+    this.planned.delete(transaction.id);
+    this.deleted.add(transaction.id);
+  }
+
+  /**
+   * Get a transaction as it would look after the changes recorded so far
+   * (undefined if the run did not change it)
+   */
+  getPlanned(id: string): FireflyTransaction | undefined {
+    return this.planned.get(id);
+  }
+
+  isDeleted(id: string): boolean {
+    return this.deleted.has(id);
+  }
+
+  getChanges(): DryRunChange[] {
+    return this.changes;
+  }
+}
+
+const dryRunStorage = new AsyncLocalStorage<DryRun>();
+
+/**
+ * Run a function as a dry run: writes made through the Firefly III client by the
+ * function and anything it awaits are recorded instead of made
+ */
+export async function runDryRun<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; changes: DryRunChange[] }> {
+  const dryRun = new DryRun();
+  const result = await dryRunStorage.run(dryRun, fn);
+  return { result, changes: dryRun.getChanges() };
+}
+
+/**
+ * Get the dry run of the current request, if any
+ */
+export function getDryRun(): DryRun | undefined {
+  return dryRunStorage.getStore();
+}
+
+/**
+ * Response message for a dry run
+ */
+export function describeDryRun(changes: DryRunChange[]): string {
+  const count = (action: DryRunChange['action']) =>
+    changes.filter((change) => change.action === action).length;
+  return (
+    `Dry run, nothing was changed: would create ${count('create')}, ` +
+    `update ${count('update')} and delete ${count('delete')} transactions`
+  );
+}
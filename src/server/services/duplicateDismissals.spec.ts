@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DuplicateDismissalStore, getPairKey } from './duplicateDismissals.js';
+import { MemoryPersistenceBackend } from './persistence.js';
+import type { FireflyTransaction } from '../../shared/types/firefly.js';
+
+const mocks = vi.hoisted(() => ({ profileId: 'default', account: null as string | null }));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock('../clients/firefly.js', () => ({
+  getFireflyOwner: () => ({ profileId: mocks.profileId, account: mocks.account }),
+}));
+
+function createTransaction(id: string, description = 'Pocket money'): FireflyTransaction {
+  return {
+    id,
+    type: 'transactions',
+    attributes: {
+      created_at: '2024-06-01T08:00:00.000Z',
+      updated_at: '2024-06-01T08:00:00.000Z',
+      user: '1',
+      group_title: null,
+      transactions: [
+        {
+          date: '2024-06-01T00:00:00+02:00',
+          description,
+          amount: '50.00',
+          currency_code: 'EUR',
+        },
+      ],
+    },
+  } as FireflyTransaction;
+}
+
+describe('DuplicateDismissalStore', () => {
+  let backend: MemoryPersistenceBackend;
+  let store: DuplicateDismissalStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-02T12:00:00.000Z'));
+    mocks.profileId = 'default';
+    mocks.account = null;
+    backend = new MemoryPersistenceBackend();
+    store = new DuplicateDismissalStore(backend);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep a summary of the dismissed transactions, sorted by ID', () => {
+    const dismissal = store.dismiss([createTransaction('12', 'Anna'), createTransaction('11')]);
+
+    expect(dismissal).toEqual({
+      id: '11,12',
+      transactions: [
+        {
+          id: '11',
+          date: '2024-06-01T00:00:00+02:00',
+          description: 'Pocket money',
+          amount: '50.00',
+          currencyCode: 'EUR',
+        },
+        {
+          id: '12',
+          date: '2024-06-01T00:00:00+02:00',
+          description: 'Anna',
+          amount: '50.00',
+          currencyCode: 'EUR',
+        },
+      ],
+      dismissedAt: '2024-06-02T12:00:00.000Z',
+    });
+    expect(new DuplicateDismissalStore(backend).list()).toEqual([dismissal]);
+  });
+
+  it('should list the most recent dismissals first', () => {
+    store.dismiss([createTransaction('1'), createTransaction('2')]);
+    vi.setSystemTime(new Date('2024-06-03T12:00:00.000Z'));
+    store.dismiss([createTransaction('3'), createTransaction('4')]);
+
+    expect(store.list().map((dismissal) => dismissal.id)).toEqual(['3,4', '1,2']);
+  });
+
+  it('should dismiss every pair of the transactions', () => {
+    store.dismiss([createTransaction('1'), createTransaction('2'), createTransaction('3')]);
+
+    expect(store.getDismissedPairs()).toEqual(new Set(['1,2', '1,3', '2,3']));
+    expect(store.getDismissedPairs().has(getPairKey('3', '1'))).toBe(true);
+  });
+
+  it('should restore dismissed transactions', () => {
+    const dismissal = store.dismiss([createTransaction('1'), createTransaction('2')]);
+
+    expect(store.restore(dismissal.id)).toBe(true);
+    expect(store.restore(dismissal.id)).toBe(false);
+    expect(store.list()).toEqual([]);
+    expect(store.getDismissedPairs().size).toBe(0);
+  });
+
+  it('should keep the dismissals of each connection profile apart', () => {
+    store.dismiss([createTransaction('1'), createTransaction('2')]);
+    mocks.profileId = 'business';
+
+    expect(store.list()).toEqual([]);
+    expect(store.restore('1,2')).toBe(false);
+  });
+
+  it('should keep the dismissals of each Firefly III account apart', () => {
+    mocks.account = 'firefly:1';
+    const own = store.dismiss([createTransaction('1'), createTransaction('2')]);
+    mocks.account = 'firefly:2';
+    store.dismiss([createTransaction('3'), createTransaction('4')]);
+
+    expect(store.list().map((dismissal) => dismissal.id)).toEqual(['3,4']);
+    expect(store.restore(own.id)).toBe(false);
+    expect(store.getDismissedPairs()).toEqual(new Set(['3,4']));
+
+    // Neither is visible with the profile's configured token
+    mocks.account = null;
+    expect(store.list()).toEqual([]);
+
+    mocks.account = 'firefly:1';
+    expect(store.list()).toEqual([own]);
+    expect(store.restore(own.id)).toBe(true);
+  });
+});
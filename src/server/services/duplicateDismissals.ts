@@ -0,0 +1,132 @@
+/**
+ * Duplicate Dismissals
+ *
+ * Remembers transactions the user marked as "not a duplicate" of each other
+ * (e.g. two identical transfers on the same day), so the duplicate finder stops
+ * reporting them on every run. Dismissals are kept per Firefly III connection
+ * profile and account (see getFireflyOwner) in the persistence backend, keyed
+ * by the sorted transaction IDs.
+ */
+
+import { getFireflyOwner } from '../clients/firefly.js';
+import { createLogger } from '../utils/logger.js';
+import { getPersistenceBackend, type PersistenceBackend } from './persistence.js';
+import type { FireflyTransaction } from '../../shared/types/firefly.js';
+import type { DismissedTransaction, DuplicateDismissal } from '../../shared/types/app.js';
+
+const logger = createLogger('DuplicateDismissals');
+
+/**
+ * Persistence namespace for the dismissals of the active profile and account
+ * (transaction IDs are only unique within one Firefly III instance, and users
+ * signed in with their own account must not see each other's dismissals).
+ * The configured token of a profile keeps the namespace without an account.
+ */
+function getNamespace(): string {
+  const { profileId, account } = getFireflyOwner();
+  return account
+    ? `duplicateDismissals:${profileId}:${account}`
+    : `duplicateDismissals:${profileId}`;
+}
+
+/**
+ * Key of a pair of transactions, the same in either order
+ */
+export function getPairKey(id1: string, id2: string): string {
+  return id1 < id2 ? `${id1},${id2}` : `${id2},${id1}`;
+}
+
+function toDismissedTransaction(transaction: FireflyTransaction): DismissedTransaction {
+  const split = transaction.attributes.transactions[0];
+  return {
+    id: transaction.id,
+    date: split?.date ?? '',
+    description: split?.description ?? '',
+    amount: split?.amount ?? '',
+    currencyCode: split?.currency_code ?? '',
+  };
+}
+
+/**
+ * Store of "not a duplicate" decisions
+ */
+export class DuplicateDismissalStore {
+  private backend: PersistenceBackend;
+
+  constructor(backend: PersistenceBackend = getPersistenceBackend()) {
+    this.backend = backend;
+  }
+
+  /**
+   * List all dismissals, most recent first
+   */
+  list(): DuplicateDismissal[] {
+    const dismissals: DuplicateDismissal[] = [];
+    for (const record of this.backend.list(getNamespace())) {
+      try {
+        dismissals.push(JSON.parse(record.value) as DuplicateDismissal);
+      } catch (error) {
+        logger.warn(`Ignoring unreadable dismissal ${record.key}:`, error);
+      }
+    }
+    return dismissals.sort((a, b) => b.dismissedAt.localeCompare(a.dismissedAt));
+  }
+
+  /**
+   * Mark transactions as not being duplicates of each other. Dismissing the
+   * same transactions again replaces the earlier dismissal.
+   */
+  dismiss(transactions: FireflyTransaction[]): DuplicateDismissal {
+    const sorted = transactions.map(toDismissedTransaction).sort((a, b) => (a.id < b.id ? -1 : 1));
+    const dismissal: DuplicateDismissal = {
+      id: sorted.map((transaction) => transaction.id).join(','),
+      transactions: sorted,
+      dismissedAt: new Date().toISOString(),
+    };
+
+    this.backend.set(getNamespace(), dismissal.id, JSON.stringify(dismissal));
+    logger.info(`Dismissed ${dismissal.id} as not a duplicate`);
+    return dismissal;
+  }
+
+  /**
+   * Remove a dismissal, so its transactions are reported again
+   */
+  restore(id: string): boolean {
+    const namespace = getNamespace();
+    if (!this.backend.get(namespace, id)) return false;
+
+    this.backend.delete(namespace, id);
+    logger.info(`Restored dismissed duplicates ${id}`);
+    return true;
+  }
+
+  /**
+   * Keys (see getPairKey) of all pairs of dismissed transactions
+   */
+  getDismissedPairs(): Set<string> {
+    const pairs: Set<string> = new Set();
+    for (const dismissal of this.list()) {
+      const ids = dismissal.transactions.map((transaction) => transaction.id);
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          pairs.add(getPairKey(ids[i], ids[j]));
+        }
+      }
+    }
+    return pairs;
+  }
+}
+
+// Shared store instance, created lazily on first use
+let storeInstance: DuplicateDismissalStore | null = null;
+
+/**
+ * Get the shared duplicate dismissal store
+ */
+export function getDuplicateDismissalStore(): DuplicateDismissalStore {
+  if (!storeInstance) {
+    storeInstance = new DuplicateDismissalStore();
+  }
+  return storeInstance;
+}
@@ -1,6 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { DuplicateTransactionFinder } from './duplicateFinder.js';
-import type { FireflyTransaction } from '../../shared/types/firefly.js';
+import {
+  DuplicateTransactionFinder,
+  compareTransactions,
+  getMergedValues,
+} from './duplicateFinder.js';
+import { DuplicateDismissalStore } from './duplicateDismissals.js';
+import { MemoryPersistenceBackend } from './persistence.js';
+import type { FireflyTransaction, FireflyTransactionSplit } from '../../shared/types/firefly.js';
+import type { DuplicateFinderOptions, DuplicateGroup } from '../../shared/types/app.js';
+import {
+  DEFAULT_DUPLICATE_OPTIONS,
+  resolveDuplicateFinderOptions,
+  type ResolvedDuplicateFinderOptions,
+} from '../../shared/utils/duplicates.js';
 
 // Mock the logger
 vi.mock('../utils/logger.js', () => ({
@@ -99,16 +111,205 @@ function createMockTransaction(overrides: {
   };
 }
 
+// FinTS import: bank references in notes and SEPA fields
+const fintsSplit: Partial<FireflyTransactionSplit> = {
+  notes: 'EREF: 4711 IBAN: DE02120300000000202051',
+  external_id: 'fints-4711',
+  sepa_ct_id: '4711',
+  sepa_ci: 'DE98ZZZ09999999999',
+};
+
+// CSV import: categorized and tagged
+const csvSplit: Partial<FireflyTransactionSplit> = {
+  notes: 'Weekly groceries',
+  category_id: '5',
+  category_name: 'Groceries',
+  budget_id: '3',
+  budget_name: 'Food',
+  tags: ['csv-import'],
+};
+
+function withSplit(
+  transaction: FireflyTransaction,
+  fields: Partial<FireflyTransactionSplit>
+): FireflyTransaction {
+  Object.assign(transaction.attributes.transactions[0], fields);
+  return transaction;
+}
+
+/**
+ * Add splits to a transaction, copying its first split with the given fields
+ */
+function addSplits(
+  transaction: FireflyTransaction,
+  ...splits: Array<Partial<FireflyTransactionSplit>>
+): FireflyTransaction {
+  const [first] = transaction.attributes.transactions;
+  for (const fields of splits) {
+    transaction.attributes.transactions.push({ ...first, ...fields });
+  }
+  return transaction;
+}
+
+function getSplits(...transactions: FireflyTransaction[]): Map<string, FireflyTransactionSplit> {
+  return new Map(transactions.map((t) => [t.id, t.attributes.transactions[0]]));
+}
+
+describe('getMergedValues', () => {
+  it('should combine notes and tags and fill empty fields from the duplicates', () => {
+    const splits = getSplits(
+      withSplit(createMockTransaction({ id: '1' }), fintsSplit),
+      withSplit(createMockTransaction({ id: '2' }), csvSplit)
+    );
+
+    const { updates, updatedFields } = getMergedValues('1', splits, {
+      notes: 'combine',
+      tags: 'combine',
+      category: 'combine',
+      budget: 'combine',
+      external_id: 'combine',
+      sepa: 'combine',
+    });
+
+    expect(updatedFields).toEqual(['notes', 'tags', 'category', 'budget']);
+    expect(updates).toEqual({
+      notes: 'EREF: 4711 IBAN: DE02120300000000202051\n\nWeekly groceries',
+      tags: ['csv-import'],
+      category_id: '5',
+      category_name: 'Groceries',
+      budget_id: '3',
+      budget_name: 'Food',
+    });
+  });
+
+  it('should take fields from the chosen transaction', () => {
+    const splits = getSplits(
+      withSplit(createMockTransaction({ id: '2' }), csvSplit),
+      withSplit(createMockTransaction({ id: '1' }), fintsSplit)
+    );
+
+    const { updates, updatedFields } = getMergedValues('2', splits, {
+      notes: '1',
+      category: '2',
+      external_id: '1',
+      sepa: '1',
+    });
+
+    expect(updatedFields).toEqual(['notes', 'external_id', 'sepa']);
+    expect(updates).toEqual({
+      notes: 'EREF: 4711 IBAN: DE02120300000000202051',
+      external_id: 'fints-4711',
+      sepa_ct_id: '4711',
+      sepa_ci: 'DE98ZZZ09999999999',
+    });
+  });
+
+  it('should not change anything for fields that are not merged', () => {
+    const splits = getSplits(
+      createMockTransaction({ id: '1' }),
+      withSplit(createMockTransaction({ id: '2' }), csvSplit)
+    );
+
+    expect(getMergedValues('1', splits, {})).toEqual({ updates: {}, updatedFields: [] });
+  });
+});
+
+const DEFAULT_OPTIONS = DEFAULT_DUPLICATE_OPTIONS;
+
+/**
+ * Transactions over five years with few distinct amounts, descriptions and
+ * accounts, so that many of them fall into the same buckets (seeded, the same
+ * for every run)
+ */
+function createRandomTransactions(count: number): FireflyTransaction[] {
+  let seed = 42;
+  const random = (max: number) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed % max;
+  };
+  const start = Date.UTC(2020, 0, 1);
+
+  return Array.from({ length: count }, (_, index) => {
+    const type = ['withdrawal', 'deposit', 'transfer'][random(3)];
+    const accountId = String(1 + random(4));
+    const otherId = String(10 + random(20));
+    return createMockTransaction({
+      id: String(index + 1),
+      type,
+      date: new Date(start + random(5 * 365) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+      amount: (5 + random(60) / 4).toFixed(2),
+      description: `Payment ${random(40)}`,
+      sourceId: type === 'deposit' ? otherId : accountId,
+      destinationId: type === 'deposit' ? accountId : otherId,
+    });
+  });
+}
+
+/**
+ * Groups as found by comparing every transaction with every later one
+ */
+function findDuplicatesByComparingAll(
+  transactions: FireflyTransaction[],
+  options: ResolvedDuplicateFinderOptions
+) {
+  const groups = [];
+  const processedIds = new Set<string>();
+
+  for (let i = 0; i < transactions.length; i++) {
+    if (processedIds.has(transactions[i].id)) continue;
+    const matches = [];
+    for (let j = i + 1; j < transactions.length; j++) {
+      if (processedIds.has(transactions[j].id)) continue;
+      const result = compareTransactions(transactions[i], transactions[j], options);
+      if (result.isDuplicate) matches.push({ id: transactions[j].id, score: result.score });
+    }
+    if (matches.length === 0) continue;
+
+    processedIds.add(transactions[i].id);
+    matches.forEach((match) => processedIds.add(match.id));
+    groups.push({
+      transactionIds: [transactions[i].id, ...matches.map((match) => match.id)],
+      matchScore: matches.reduce((sum, match) => sum + match.score, 0) / matches.length,
+    });
+  }
+
+  return groups;
+}
+
+async function streamGroups(
+  finder: DuplicateTransactionFinder,
+  transactions: FireflyTransaction[],
+  options?: DuplicateFinderOptions
+) {
+  const groups = [];
+  for await (const event of finder.streamFindDuplicates(
+    undefined,
+    undefined,
+    options,
+    transactions
+  )) {
+    if (event.type !== 'result') continue;
+    const group = event.data as DuplicateGroup;
+    groups.push({
+      transactionIds: group.transactions.map((t) => t.id),
+      matchScore: group.matchScore,
+    });
+  }
+  return groups;
+}
+
 describe('DuplicateTransactionFinder', () => {
   let mockFireflyApi: any;
   let finder: DuplicateTransactionFinder;
+  let dismissals: DuplicateDismissalStore;
 
   beforeEach(() => {
     mockFireflyApi = {
       getAllTransactions: vi.fn().mockResolvedValue([]),
       deleteTransaction: vi.fn().mockResolvedValue(undefined),
     };
-    finder = new DuplicateTransactionFinder(mockFireflyApi);
+    dismissals = new DuplicateDismissalStore(new MemoryPersistenceBackend());
+    finder = new DuplicateTransactionFinder(mockFireflyApi, dismissals);
   });
 
   describe('findDuplicates', () => {
@@ -474,6 +675,187 @@ describe('DuplicateTransactionFinder', () => {
     });
   });
 
+  describe('split transactions', () => {
+    it('should compare the total amount of all splits', async () => {
+      const transactions = [
+        addSplits(createMockTransaction({ id: '1', amount: '60.00' }), { amount: '40.00' }),
+        createMockTransaction({ id: '2', amount: '100.00' }),
+        createMockTransaction({ id: '3', amount: '60.00' }),
+      ];
+
+      const groups = await streamGroups(finder, transactions);
+
+      expect(groups.map((group) => group.transactionIds)).toEqual([['1', '2']]);
+    });
+
+    it('should compare the details of every split', () => {
+      const t1 = addSplits(
+        createMockTransaction({ id: '1', amount: '60.00', description: 'Supermarket' }),
+        { amount: '40.00', description: 'Pharmacy', destination_id: '5', external_id: 'E-1' }
+      );
+      const t2 = addSplits(
+        createMockTransaction({ id: '2', amount: '40.00', description: 'Pharmacy' }),
+        { amount: '60.00', description: 'Groceries', destination_id: '5', external_id: 'E-1' }
+      );
+
+      const result = compareTransactions(t1, t2, DEFAULT_OPTIONS);
+
+      expect(result.isDuplicate).toBe(true);
+      expect(result.reasons).toEqual(
+        expect.arrayContaining([
+          'Identical description',
+          'Same destination account',
+          'Same split amounts',
+          'Same external ID',
+        ])
+      );
+    });
+
+    it('should not match splits that only share the first split', () => {
+      const t1 = addSplits(createMockTransaction({ id: '1' }), { amount: '5.00' });
+      const t2 = createMockTransaction({ id: '2' });
+
+      expect(compareTransactions(t1, t2, DEFAULT_OPTIONS).isDuplicate).toBe(false);
+    });
+  });
+
+  describe('scoring profiles', () => {
+    it('should only accept other amounts within the amount tolerance', async () => {
+      const transactions = [
+        createMockTransaction({ id: '1', amount: '100.00' }),
+        createMockTransaction({ id: '2', amount: '100.80' }),
+        createMockTransaction({ id: '3', amount: '102.00' }),
+      ];
+
+      const exact = await streamGroups(finder, transactions);
+      const tolerant = await streamGroups(finder, transactions, { amountTolerance: 1 });
+      const result = compareTransactions(
+        transactions[0],
+        transactions[1],
+        resolveDuplicateFinderOptions({ amountTolerance: 1 })
+      );
+
+      expect(exact).toEqual([]);
+      expect(tolerant.map((group) => group.transactionIds)).toEqual([['1', '2']]);
+      expect(result.reasons).toContain('Amounts within 1%');
+      expect(result.breakdown.amountMatch).toBeCloseTo(0.1875);
+    });
+
+    it('should weight the criteria with the given weights', () => {
+      const t1 = createMockTransaction({ id: '1', externalId: 'E-1' });
+      const t2 = createMockTransaction({ id: '2', externalId: 'E-1' });
+
+      const result = compareTransactions(
+        t1,
+        t2,
+        resolveDuplicateFinderOptions({
+          weights: { date: 0.1, amount: 0.5, description: 0, destinationAccount: 0.1 },
+        })
+      );
+
+      expect(result.breakdown).toMatchObject({
+        dateMatch: 0.1,
+        amountMatch: 0.5,
+        descriptionMatch: 0,
+        sourceAccountMatch: 0.15,
+        destinationAccountMatch: 0.1,
+        externalIdMatch: 0.05,
+      });
+      expect(result.score).toBeCloseTo(0.9);
+    });
+
+    it('should only count descriptions more similar than the default threshold', () => {
+      const compareDescriptions = (description1: string, description2: string) =>
+        compareTransactions(
+          createMockTransaction({ id: '1', description: description1 }),
+          createMockTransaction({ id: '2', description: description2 }),
+          resolveDuplicateFinderOptions()
+        ).reasons;
+
+      // One edit in five characters is a similarity of exactly 0.8
+      expect(compareDescriptions('Rent1', 'Rent2')).not.toContain('Similar description');
+      expect(compareDescriptions('Rent12', 'Rent13')).toContain('Similar description');
+    });
+
+    it('should apply the description threshold, required matches and minimum score', () => {
+      const t1 = createMockTransaction({ id: '1', description: 'Rent May', destinationId: '3' });
+      const t2 = createMockTransaction({ id: '2', description: 'Rent June', destinationId: '4' });
+      const compare = (options: DuplicateFinderOptions) =>
+        compareTransactions(t1, t2, resolveDuplicateFinderOptions(options));
+
+      expect(compare({}).reasons).not.toContain('Similar description');
+      expect(compare({ descriptionThreshold: 0.5 }).reasons).toContain('Similar description');
+      expect(compare({ requiredMatches: 4 }).isDuplicate).toBe(true);
+      expect(compare({ requiredMatches: 5 }).isDuplicate).toBe(false);
+      expect(compare({ minScore: 0.5 }).isDuplicate).toBe(true);
+      expect(compare({ minScore: 0.7 }).isDuplicate).toBe(false);
+    });
+
+    it('should start from the preset and let other options override it', () => {
+      expect(resolveDuplicateFinderOptions({ preset: 'loose' })).toMatchObject({
+        dateRange: 7,
+        amountTolerance: 2,
+        requiredMatches: 2,
+      });
+      expect(
+        resolveDuplicateFinderOptions({
+          preset: 'crossSource',
+          dateRange: 2,
+          weights: { description: 0.3 },
+        })
+      ).toMatchObject({
+        dateRange: 2,
+        includeDestinationMatch: false,
+        weights: { amount: 0.35, description: 0.3, reference: 0.05 },
+      });
+    });
+
+    it('should only report identical copies with the strict import re-run preset', async () => {
+      const transactions = [
+        createMockTransaction({ id: '1', description: 'Coffee' }),
+        createMockTransaction({ id: '2', description: 'Coffee' }),
+        createMockTransaction({ id: '3', description: 'Coffee Shop', date: '2024-01-20' }),
+        createMockTransaction({ id: '4', description: 'Coffee shop', date: '2024-01-25' }),
+      ];
+
+      const strict = await streamGroups(finder, transactions, { preset: 'strictImportRerun' });
+      const loose = await streamGroups(finder, transactions, { preset: 'loose' });
+
+      expect(strict.map((group) => group.transactionIds)).toEqual([['1', '2']]);
+      expect(loose.map((group) => group.transactionIds)).toEqual([['1', '2', '3']]);
+    });
+  });
+
+  describe('dismissed duplicates', () => {
+    const transactions = [
+      createMockTransaction({ id: '1', description: 'Pocket money' }),
+      createMockTransaction({ id: '2', description: 'Pocket money' }),
+      createMockTransaction({ id: '3', description: 'Pocket money' }),
+    ];
+
+    it('should skip pairs dismissed as not a duplicate', async () => {
+      dismissals.dismiss([transactions[0], transactions[1]]);
+
+      const groups = await streamGroups(finder, transactions);
+
+      expect(groups.map((group) => group.transactionIds)).toEqual([['1', '3']]);
+    });
+
+    it('should not report dismissed groups at all', async () => {
+      dismissals.dismiss(transactions);
+
+      expect(await streamGroups(finder, transactions)).toEqual([]);
+    });
+
+    it('should report dismissed pairs with includeDismissed', async () => {
+      dismissals.dismiss(transactions);
+
+      const groups = await streamGroups(finder, transactions, { includeDismissed: true });
+
+      expect(groups.map((group) => group.transactionIds)).toEqual([['1', '2', '3']]);
+    });
+  });
+
   describe('deleteTransaction', () => {
     it('should delete a transaction', async () => {
       await finder.deleteTransaction('123');
@@ -482,6 +864,130 @@ describe('DuplicateTransactionFinder', () => {
     });
   });
 
+  describe('mergeTransactions', () => {
+    beforeEach(() => {
+      const transactions = [
+        withSplit(createMockTransaction({ id: '1' }), fintsSplit),
+        withSplit(createMockTransaction({ id: '2' }), csvSplit),
+        createMockTransaction({ id: '3' }),
+      ];
+      mockFireflyApi.getTransaction = vi.fn(async (id: string) =>
+        transactions.find((t) => t.id === id)
+      );
+      mockFireflyApi.updateTransaction = vi.fn().mockResolvedValue({});
+    });
+
+    it('should update the survivor and delete the duplicates', async () => {
+      const result = await finder.mergeTransactions({
+        survivorId: '1',
+        duplicateIds: ['2', '3'],
+        fields: { category: '2', tags: 'combine' },
+      });
+
+      expect(mockFireflyApi.updateTransaction).toHaveBeenCalledWith('1', '1', {
+        category_id: '5',
+        category_name: 'Groceries',
+        tags: ['csv-import'],
+      });
+      expect(mockFireflyApi.deleteTransaction.mock.calls).toEqual([['2'], ['3']]);
+      expect(result).toEqual({
+        survivorId: '1',
+        updatedFields: ['tags', 'category'],
+        deleted: ['2', '3'],
+        failed: [],
+      });
+    });
+
+    it('should not delete duplicates if the survivor cannot be updated', async () => {
+      mockFireflyApi.updateTransaction.mockRejectedValue(new Error('Invalid budget'));
+
+      await expect(
+        finder.mergeTransactions({ survivorId: '1', duplicateIds: ['2'], fields: { budget: '2' } })
+      ).rejects.toThrow('Invalid budget');
+      expect(mockFireflyApi.deleteTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should report duplicates that could not be deleted', async () => {
+      mockFireflyApi.deleteTransaction.mockRejectedValueOnce(new Error('Not found'));
+
+      const result = await finder.mergeTransactions({
+        survivorId: '1',
+        duplicateIds: ['2', '3'],
+        fields: {},
+      });
+
+      expect(mockFireflyApi.updateTransaction).not.toHaveBeenCalled();
+      expect(result.deleted).toEqual(['3']);
+      expect(result.failed).toEqual([{ id: '2', error: 'Not found' }]);
+    });
+  });
+
+  describe('scalability', () => {
+    it('should find the same groups as comparing every pair', async () => {
+      const transactions = createRandomTransactions(2000);
+      const expected = findDuplicatesByComparingAll(transactions, DEFAULT_OPTIONS);
+
+      const groups = await streamGroups(finder, transactions);
+
+      expect(expected.length).toBeGreaterThan(100);
+      expect(groups).toEqual(expected);
+    });
+
+    it('should find the same groups with a wider date range', async () => {
+      const transactions = createRandomTransactions(2000);
+      const options = { ...DEFAULT_OPTIONS, dateRange: 30, includeSourceMatch: false };
+
+      const groups = await streamGroups(finder, transactions, options);
+
+      expect(groups).toEqual(findDuplicatesByComparingAll(transactions, options));
+    });
+
+    it('should find the same groups with an amount tolerance', async () => {
+      const transactions = createRandomTransactions(2000);
+      const options = resolveDuplicateFinderOptions({ preset: 'loose' });
+
+      const groups = await streamGroups(finder, transactions, options);
+
+      expect(groups).toEqual(findDuplicatesByComparingAll(transactions, options));
+    });
+
+    it('should analyze 50,000 transactions in reasonable time', async () => {
+      const transactions = createRandomTransactions(50000);
+
+      const startedAt = Date.now();
+      const groups = await streamGroups(finder, transactions);
+      const duration = Date.now() - startedAt;
+
+      expect(groups.length).toBeGreaterThan(1000);
+      expect(duration).toBeLessThan(20000);
+    }, 60000);
+
+    it('should yield to the event loop during long analyses', async () => {
+      let ticks = 0;
+      const interval = setInterval(() => ticks++, 0);
+
+      try {
+        await streamGroups(finder, createRandomTransactions(5000));
+      } finally {
+        clearInterval(interval);
+      }
+
+      expect(ticks).toBeGreaterThan(0);
+    });
+
+    it('should only compare transactions of the same account with sameAccountOnly', async () => {
+      const transactions = [
+        createMockTransaction({ id: '1', sourceId: '1' }),
+        createMockTransaction({ id: '2', sourceId: '3' }),
+        createMockTransaction({ id: '3', sourceId: '1' }),
+      ];
+
+      const groups = await streamGroups(finder, transactions, { sameAccountOnly: true });
+
+      expect(groups.map((group) => group.transactionIds)).toEqual([['1', '3']]);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle transactions without splits', async () => {
       const transactionWithNoSplits: FireflyTransaction = {
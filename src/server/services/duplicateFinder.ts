@@ -1,11 +1,25 @@
 import { v4 as uuidv4 } from 'uuid';
 import { FireflyApiClient } from '../clients/firefly.js';
 import { createLogger } from '../utils/logger.js';
-import type { FireflyTransaction } from '../../shared/types/firefly.js';
+import {
+  getDuplicateDismissalStore,
+  getPairKey,
+  type DuplicateDismissalStore,
+} from './duplicateDismissals.js';
+import { SEPA_FIELDS } from '../../shared/types/firefly.js';
+import { getTotalAmount } from '../../shared/utils/transactions.js';
+import {
+  resolveDuplicateFinderOptions,
+  type ResolvedDuplicateFinderOptions,
+} from '../../shared/utils/duplicates.js';
+import type { FireflyTransaction, FireflyTransactionSplit } from '../../shared/types/firefly.js';
 import type {
   DuplicateGroup,
   DuplicateFinderOptions,
   DuplicateConfidenceBreakdown,
+  DuplicateMergeField,
+  DuplicateMergeRequest,
+  DuplicateMergeResult,
 } from '../../shared/types/app.js';
 
 const logger = createLogger('DuplicateService');
@@ -22,22 +36,477 @@ interface CompareResult {
   breakdown: DuplicateConfidenceBreakdown;
 }
 
+type MergeUpdates = Parameters<FireflyApiClient['updateTransaction']>[2];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/** Transactions analyzed between two yields to the event loop */
+const YIELD_BATCH_SIZE = 500;
+
+/** Transaction that can be a duplicate of others in the same bucket */
+interface Candidate {
+  /** Position in the analyzed transactions */
+  index: number;
+  transaction: FireflyTransaction;
+  time: number;
+  amount: number;
+  /** Candidates of the bucket, sorted by date */
+  bucket: Candidate[];
+  /** Position in the bucket */
+  position: number;
+}
+
+/**
+ * Whether two amounts differ by at most the tolerance (in percent of the larger
+ * amount)
+ */
+function isAmountWithinTolerance(amount1: number, amount2: number, tolerance: number): boolean {
+  return (
+    Math.abs(amount1 - amount2) <=
+    (tolerance / 100) * Math.max(Math.abs(amount1), Math.abs(amount2))
+  );
+}
+
+/**
+ * Key of the bucket of transactions that can be duplicates of each other: same
+ * type, total amount (unless an amount tolerance is set), and with
+ * sameAccountOnly the same own account (source of withdrawals and transfers,
+ * destination of deposits). Null for transactions that cannot match any other.
+ */
+function getBucketKey(
+  transaction: FireflyTransaction,
+  amount: number,
+  options: ResolvedDuplicateFinderOptions
+): string | null {
+  const split = transaction.attributes.transactions[0];
+  if (!split || Number.isNaN(amount)) return null;
+
+  const key = options.amountTolerance > 0 ? split.type : `${split.type}|${amount}`;
+  if (!options.sameAccountOnly) return key;
+  return `${key}|${split.type === 'deposit' ? split.destination_id : split.source_id}`;
+}
+
+/**
+ * Sort transactions into buckets of possible duplicates, indexed by their
+ * position in the list (undefined for transactions that cannot match)
+ */
+function getCandidates(
+  transactions: FireflyTransaction[],
+  options: ResolvedDuplicateFinderOptions
+): Array<Candidate | undefined> {
+  const candidates: Array<Candidate | undefined> = [];
+  const buckets: Map<string, Candidate[]> = new Map();
+
+  transactions.forEach((transaction, index) => {
+    const split = transaction.attributes.transactions[0];
+    const amount = getTotalAmount(transaction);
+    const key = getBucketKey(transaction, amount, options);
+    const time = split ? new Date(split.date).getTime() : NaN;
+    if (key === null || Number.isNaN(time)) return;
+
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = [];
+      buckets.set(key, bucket);
+    }
+    const candidate: Candidate = { index, transaction, time, amount, bucket, position: 0 };
+    bucket.push(candidate);
+    candidates[index] = candidate;
+  });
+
+  for (const bucket of buckets.values()) {
+    bucket.sort((a, b) => a.time - b.time);
+    bucket.forEach((candidate, position) => (candidate.position = position));
+  }
+
+  return candidates;
+}
+
+/**
+ * Candidates of the same bucket dated within the date range of a candidate and
+ * with an amount within the tolerance, in list order
+ */
+function getCandidatesInRange(
+  candidate: Candidate,
+  options: ResolvedDuplicateFinderOptions
+): Candidate[] {
+  const { bucket, position, time, amount } = candidate;
+  const inRange = (other: Candidate) => Math.abs(time - other.time) / DAY_MS <= options.dateRange;
+  const matches: Candidate[] = [];
+
+  for (let i = position - 1; i >= 0 && inRange(bucket[i]); i--) matches.push(bucket[i]);
+  for (let i = position + 1; i < bucket.length && inRange(bucket[i]); i++) matches.push(bucket[i]);
+
+  return matches
+    .filter((other) => isAmountWithinTolerance(amount, other.amount, options.amountTolerance))
+    .sort((a, b) => a.index - b.index);
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/** Merge source combining the values of all transactions */
+export const MERGE_COMBINE = 'combine';
+
+/**
+ * Split a single-valued field is taken from: the chosen split, or for 'combine'
+ * the first split with a value (the survivor, if it has one)
+ */
+function pickSplit(
+  splits: Map<string, FireflyTransactionSplit>,
+  source: string,
+  field: keyof FireflyTransactionSplit
+): FireflyTransactionSplit | undefined {
+  if (source !== MERGE_COMBINE) return splits.get(source);
+  const values = [...splits.values()];
+  return values.find((split) => split[field] !== null && split[field] !== '') ?? values[0];
+}
+
+/**
+ * Updates turning the survivor into the merged transaction, given the first split
+ * of each transaction by transaction ID (survivor first, so combining prefers its
+ * values). Combining joins the
+ * notes (each distinct note once) and tags of all transactions, and fills empty
+ * fields from the first duplicate that has them. Only changed fields are returned.
+ */
+export function getMergedValues(
+  survivorId: string,
+  splits: Map<string, FireflyTransactionSplit>,
+  fields: DuplicateMergeRequest['fields']
+): { updates: MergeUpdates; updatedFields: DuplicateMergeField[] } {
+  const survivor = splits.get(survivorId);
+  if (!survivor) throw new Error(`Transaction ${survivorId} is not part of the merge`);
+
+  const updates: MergeUpdates = {};
+  const updatedFields: Set<DuplicateMergeField> = new Set();
+
+  if (fields.notes) {
+    const notes =
+      fields.notes === MERGE_COMBINE
+        ? [
+            ...new Set([...splits.values()].map((split) => split.notes?.trim()).filter(Boolean)),
+          ].join('\n\n')
+        : splits.get(fields.notes)?.notes;
+    if ((notes || null) !== (survivor.notes || null)) {
+      updates.notes = notes || null;
+      updatedFields.add('notes');
+    }
+  }
+
+  if (fields.tags) {
+    const tags =
+      fields.tags === MERGE_COMBINE
+        ? [...new Set([...splits.values()].flatMap((split) => split.tags))]
+        : (splits.get(fields.tags)?.tags ?? []);
+    if (JSON.stringify(tags) !== JSON.stringify(survivor.tags)) {
+      updates.tags = tags;
+      updatedFields.add('tags');
+    }
+  }
+
+  if (fields.category) {
+    const source = pickSplit(splits, fields.category, 'category_id');
+    if (source && source.category_id !== survivor.category_id) {
+      updates.category_id = source.category_id;
+      updates.category_name = source.category_name;
+      updatedFields.add('category');
+    }
+  }
+
+  if (fields.budget) {
+    const source = pickSplit(splits, fields.budget, 'budget_id');
+    if (source && source.budget_id !== survivor.budget_id) {
+      updates.budget_id = source.budget_id;
+      updates.budget_name = source.budget_name;
+      updatedFields.add('budget');
+    }
+  }
+
+  if (fields.external_id) {
+    const source = pickSplit(splits, fields.external_id, 'external_id');
+    if (source && (source.external_id || null) !== (survivor.external_id || null)) {
+      updates.external_id = source.external_id;
+      updatedFields.add('external_id');
+    }
+  }
+
+  if (fields.sepa) {
+    for (const field of SEPA_FIELDS) {
+      const source = pickSplit(splits, fields.sepa, field);
+      if (source && (source[field] || null) !== (survivor[field] || null)) {
+        updates[field] = source[field];
+        updatedFields.add('sepa');
+      }
+    }
+  }
+
+  return { updates, updatedFields: [...updatedFields] };
+}
+
+/**
+ * Highest similarity between the descriptions of any two splits
+ */
+function getDescriptionSimilarity(
+  splits1: FireflyTransactionSplit[],
+  splits2: FireflyTransactionSplit[]
+): number {
+  let best = 0;
+  for (const split1 of splits1) {
+    for (const split2 of splits2) {
+      best = Math.max(best, calculateStringSimilarity(split1.description, split2.description));
+      if (best === 1) return best;
+    }
+  }
+  return best;
+}
+
+/**
+ * Whether the splits of both transactions use the same accounts
+ */
+function haveSameAccounts(
+  splits1: FireflyTransactionSplit[],
+  splits2: FireflyTransactionSplit[],
+  field: 'source_id' | 'destination_id'
+): boolean {
+  const getAccounts = (splits: FireflyTransactionSplit[]) =>
+    [...new Set(splits.map((split) => split[field]))].sort().join(',');
+  return getAccounts(splits1) === getAccounts(splits2);
+}
+
+/**
+ * Whether any split of one transaction has the same reference as a split of
+ * the other
+ */
+function shareReference(
+  splits1: FireflyTransactionSplit[],
+  splits2: FireflyTransactionSplit[],
+  field: 'external_id' | 'import_hash_v2'
+): boolean {
+  const references = new Set(splits1.map((split) => split[field]).filter(Boolean));
+  return splits2.some((split) => split[field] && references.has(split[field]));
+}
+
+/**
+ * Whether both transactions are split into the same amounts
+ */
+function haveSameSplitAmounts(
+  splits1: FireflyTransactionSplit[],
+  splits2: FireflyTransactionSplit[]
+): boolean {
+  if (splits1.length !== splits2.length) return false;
+  const getAmounts = (splits: FireflyTransactionSplit[]) =>
+    splits.map((split) => parseFloat(split.amount)).sort((a, b) => a - b);
+  const amounts2 = getAmounts(splits2);
+  return getAmounts(splits1).every((amount, index) => amount === amounts2[index]);
+}
+
+/**
+ * Compare two transactions with all their splits. Same type, dates within the
+ * date range and total amounts within the amount tolerance are required;
+ * descriptions, accounts, currency, split amounts, external ID and import hash
+ * add to the score and the number of matching criteria. The criteria are
+ * weighted with the options' weights.
+ */
+export function compareTransactions(
+  t1: FireflyTransaction,
+  t2: FireflyTransaction,
+  options: ResolvedDuplicateFinderOptions
+): CompareResult {
+  const { weights } = options;
+  const reasons: string[] = [];
+  let score = 0;
+  let matchCount = 0;
+
+  const breakdown: DuplicateConfidenceBreakdown = {
+    dateMatch: 0,
+    amountMatch: 0,
+    descriptionMatch: 0,
+    sourceAccountMatch: 0,
+    destinationAccountMatch: 0,
+    externalIdMatch: 0,
+    importHashMatch: 0,
+  };
+
+  // Splits of a transaction share type, date and currency
+  const splits1 = t1.attributes.transactions;
+  const splits2 = t2.attributes.transactions;
+  const split1 = splits1[0];
+  const split2 = splits2[0];
+
+  if (!split1 || !split2) {
+    return { isDuplicate: false, score: 0, reasons: [], breakdown };
+  }
+
+  // Check if same type
+  if (split1.type !== split2.type) {
+    return { isDuplicate: false, score: 0, reasons: [], breakdown };
+  }
+
+  // Check date proximity (required, dates a few days apart score 75%)
+  const date1 = new Date(split1.date);
+  const date2 = new Date(split2.date);
+  const daysDiff = Math.abs((date1.getTime() - date2.getTime()) / DAY_MS);
+
+  if (daysDiff <= options.dateRange) {
+    matchCount++;
+    if (daysDiff === 0) {
+      reasons.push('Same date');
+      breakdown.dateMatch = weights.date;
+    } else {
+      reasons.push(`Dates within ${Math.ceil(daysDiff)} day(s)`);
+      breakdown.dateMatch = weights.date * 0.75;
+    }
+    score += breakdown.dateMatch;
+  } else {
+    return { isDuplicate: false, score: 0, reasons: [], breakdown };
+  }
+
+  // Check the amount of all splits together (required, amounts within the
+  // tolerance score 75%)
+  const amount1 = getTotalAmount(t1);
+  const amount2 = getTotalAmount(t2);
+
+  if (amount1 === amount2) {
+    matchCount++;
+    breakdown.amountMatch = weights.amount;
+    reasons.push('Exact same amount');
+  } else if (isAmountWithinTolerance(amount1, amount2, options.amountTolerance)) {
+    matchCount++;
+    breakdown.amountMatch = weights.amount * 0.75;
+    reasons.push(`Amounts within ${options.amountTolerance}%`);
+  } else {
+    return { isDuplicate: false, score: 0, reasons: [], breakdown };
+  }
+  score += breakdown.amountMatch;
+
+  // Check description similarity
+  if (options.includeDescriptionMatch) {
+    const descSimilarity = getDescriptionSimilarity(splits1, splits2);
+    if (descSimilarity > options.descriptionThreshold) {
+      matchCount++;
+      const descScore = descSimilarity * weights.description;
+      score += descScore;
+      breakdown.descriptionMatch = descScore;
+      if (descSimilarity === 1) {
+        reasons.push('Identical description');
+      } else {
+        reasons.push('Similar description');
+      }
+    }
+  }
+
+  // Check source account
+  if (options.includeSourceMatch && haveSameAccounts(splits1, splits2, 'source_id')) {
+    matchCount++;
+    score += weights.sourceAccount;
+    breakdown.sourceAccountMatch = weights.sourceAccount;
+    reasons.push('Same source account');
+  }
+
+  // Check destination account
+  if (options.includeDestinationMatch && haveSameAccounts(splits1, splits2, 'destination_id')) {
+    matchCount++;
+    score += weights.destinationAccount;
+    breakdown.destinationAccountMatch = weights.destinationAccount;
+    reasons.push('Same destination account');
+  }
+
+  // Check currency (counts toward match count but no score - it's expected)
+  if (split1.currency_code === split2.currency_code) {
+    matchCount++;
+  }
+
+  // Split transactions split the same way (counts toward match count but no score)
+  if (splits1.length > 1 && haveSameSplitAmounts(splits1, splits2)) {
+    matchCount++;
+    reasons.push('Same split amounts');
+  }
+
+  // Check external ID if present (bonus)
+  if (shareReference(splits1, splits2, 'external_id')) {
+    matchCount += 2;
+    score += weights.reference;
+    breakdown.externalIdMatch = weights.reference;
+    reasons.push('Same external ID');
+  }
+
+  // Check import hash if present (bonus, but cap total at 100%)
+  if (shareReference(splits1, splits2, 'import_hash_v2')) {
+    matchCount += 2;
+    const hashScore = Math.max(0, Math.min(weights.reference, 1 - score)); // Don't exceed 100%
+    score += hashScore;
+    breakdown.importHashMatch = hashScore;
+    reasons.push('Same import hash');
+  }
+
+  score = Math.min(score, 1);
+  const isDuplicate = matchCount >= options.requiredMatches && score >= options.minScore;
+  return { isDuplicate, score, reasons, breakdown };
+}
+
+function calculateStringSimilarity(str1: string, str2: string): number {
+  if (str1 === str2) return 1;
+  if (!str1 || !str2) return 0;
+
+  const s1 = str1.toLowerCase().trim();
+  const s2 = str2.toLowerCase().trim();
+
+  if (s1 === s2) return 1;
+
+  // Levenshtein distance based similarity
+  const longer = s1.length > s2.length ? s1 : s2;
+  const shorter = s1.length > s2.length ? s2 : s1;
+
+  if (longer.length === 0) return 1;
+
+  const distance = levenshteinDistance(longer, shorter);
+  return (longer.length - distance) / longer.length;
+}
+
+function levenshteinDistance(s1: string, s2: string): number {
+  const costs: number[] = [];
+
+  for (let i = 0; i <= s1.length; i++) {
+    let lastValue = i;
+    for (let j = 0; j <= s2.length; j++) {
+      if (i === 0) {
+        costs[j] = j;
+      } else if (j > 0) {
+        let newValue = costs[j - 1];
+        if (s1.charAt(i - 1) !== s2.charAt(j - 1)) {
+          newValue = Math.min(Math.min(newValue, lastValue), costs[j]) + 1;
+        }
+        costs[j - 1] = lastValue;
+        lastValue = newValue;
+      }
+    }
+    if (i > 0) {
+      costs[s2.length] = lastValue;
+    }
+  }
+
+  return costs[s2.length];
+}
+
 export class DuplicateTransactionFinder {
   private fireflyApi: FireflyApiClient;
-  private defaultOptions: Required<DuplicateFinderOptions> = {
-    dateRange: 3, // days
-    amountTolerance: 0.01, // 1%
-    includeDescriptionMatch: true,
-    includeSourceMatch: true,
-    includeDestinationMatch: true,
-  };
+  private dismissals: DuplicateDismissalStore;
 
-  constructor(fireflyApi: FireflyApiClient) {
+  constructor(
+    fireflyApi: FireflyApiClient,
+    dismissals: DuplicateDismissalStore = getDuplicateDismissalStore()
+  ) {
     this.fireflyApi = fireflyApi;
+    this.dismissals = dismissals;
   }
 
   /**
-   * Streaming version for finding duplicates with progress events
+   * Streaming version for finding duplicates with progress events. Transactions
+   * are only compared with others of the same bucket (type, amount and with
+   * sameAccountOnly the account) within the date range and amount tolerance,
+   * and the event loop is yielded to between batches. Pairs dismissed as "not a
+   * duplicate" are skipped unless includeDismissed is set.
    * @param startDate - Start date for fetching transactions (ignored if cachedTransactions provided)
    * @param endDate - End date for fetching transactions (ignored if cachedTransactions provided)
    * @param options - Duplicate finder options
@@ -49,7 +518,8 @@ export class DuplicateTransactionFinder {
     options?: DuplicateFinderOptions,
     cachedTransactions?: FireflyTransaction[]
   ): AsyncGenerator<StreamEvent> {
-    const opts = { ...this.defaultOptions, ...options };
+    // Defaults, overridden by the preset and the given options
+    const opts = resolveDuplicateFinderOptions(options);
 
     logger.debug('Starting duplicate finding stream', {
       opts,
@@ -91,6 +561,12 @@ export class DuplicateTransactionFinder {
       data: { current: 0, total, message: `Analyzing ${total} transactions...` },
     };
 
+    // Only transactions of the same bucket within the date range are compared
+    const candidates = getCandidates(transactions, opts);
+    const dismissedPairs = opts.includeDismissed
+      ? new Set<string>()
+      : this.dismissals.getDismissedPairs();
+
     // Group potential duplicates
     const duplicateGroups: DuplicateGroup[] = [];
     const processedIds = new Set<string>();
@@ -99,7 +575,12 @@ export class DuplicateTransactionFinder {
       const transaction = transactions[i];
       const transactionId = transaction.id;
 
-      // Emit progress every 10 transactions or at the end
+      // Let other requests run during long analyses
+      if (i > 0 && i % YIELD_BATCH_SIZE === 0) {
+        await yieldToEventLoop();
+      }
+
+      // Emit progress every 50 transactions or at the end
       if (i % 50 === 0 || i === transactions.length - 1) {
         yield {
           type: 'progress',
@@ -111,7 +592,8 @@ export class DuplicateTransactionFinder {
         };
       }
 
-      if (processedIds.has(transactionId)) {
+      const candidate = candidates[i];
+      if (!candidate || processedIds.has(transactionId)) {
         continue;
       }
 
@@ -128,15 +610,18 @@ export class DuplicateTransactionFinder {
         importHashMatch: 0,
       };
 
-      for (let j = i + 1; j < transactions.length; j++) {
-        const otherTransaction = transactions[j];
-        const otherId = otherTransaction.id;
+      for (const other of getCandidatesInRange(candidate, opts)) {
+        const otherTransaction = other.transaction;
 
-        if (processedIds.has(otherId)) {
+        // Earlier transactions were already compared with this one
+        if (other.index <= i || processedIds.has(otherTransaction.id)) {
+          continue;
+        }
+        if (dismissedPairs.has(getPairKey(transactionId, otherTransaction.id))) {
           continue;
         }
 
-        const matchResult = this.compareTransactions(transaction, otherTransaction, opts);
+        const matchResult = compareTransactions(transaction, otherTransaction, opts);
 
         if (matchResult.isDuplicate) {
           potentialDuplicates.push(otherTransaction);
@@ -192,187 +677,54 @@ export class DuplicateTransactionFinder {
     return duplicateGroups.sort((a, b) => b.matchScore - a.matchScore);
   }
 
-  private compareTransactions(
-    t1: FireflyTransaction,
-    t2: FireflyTransaction,
-    options: Required<DuplicateFinderOptions>
-  ): CompareResult {
-    const reasons: string[] = [];
-    let score = 0;
-    let matchCount = 0;
-    const requiredMatches = 3; // Need at least 3 matching criteria to be considered duplicate
-
-    // Weights that add up to 100%:
-    // - Date match: 20% (required)
-    // - Amount match: 25% (required)
-    // - Description match: 20%
-    // - Source account: 15%
-    // - Destination account: 15%
-    // - External ID or Import hash: 5% bonus (capped at total 100%)
-
-    const breakdown: DuplicateConfidenceBreakdown = {
-      dateMatch: 0,
-      amountMatch: 0,
-      descriptionMatch: 0,
-      sourceAccountMatch: 0,
-      destinationAccountMatch: 0,
-      externalIdMatch: 0,
-      importHashMatch: 0,
-    };
-
-    // Get first transaction split from each (most transactions have just one)
-    const split1 = t1.attributes.transactions[0];
-    const split2 = t2.attributes.transactions[0];
-
-    if (!split1 || !split2) {
-      return { isDuplicate: false, score: 0, reasons: [], breakdown };
-    }
-
-    // Check if same type
-    if (split1.type !== split2.type) {
-      return { isDuplicate: false, score: 0, reasons: [], breakdown };
-    }
-
-    // Check date proximity (20%)
-    const date1 = new Date(split1.date);
-    const date2 = new Date(split2.date);
-    const daysDiff = Math.abs((date1.getTime() - date2.getTime()) / (1000 * 60 * 60 * 24));
-
-    if (daysDiff <= options.dateRange) {
-      matchCount++;
-      if (daysDiff === 0) {
-        reasons.push('Same date');
-        score += 0.2;
-        breakdown.dateMatch = 0.2;
-      } else {
-        reasons.push(`Dates within ${Math.ceil(daysDiff)} day(s)`);
-        score += 0.15;
-        breakdown.dateMatch = 0.15;
-      }
-    } else {
-      return { isDuplicate: false, score: 0, reasons: [], breakdown };
-    }
-
-    // Check exact amount match (25% - required)
-    const amount1 = parseFloat(split1.amount);
-    const amount2 = parseFloat(split2.amount);
-
-    if (amount1 === amount2) {
-      matchCount++;
-      score += 0.25;
-      breakdown.amountMatch = 0.25;
-      reasons.push('Exact same amount');
-    } else {
-      return { isDuplicate: false, score: 0, reasons: [], breakdown };
-    }
-
-    // Check description similarity (20%)
-    if (options.includeDescriptionMatch) {
-      const descSimilarity = this.calculateStringSimilarity(split1.description, split2.description);
-      if (descSimilarity > 0.8) {
-        matchCount++;
-        const descScore = descSimilarity * 0.2;
-        score += descScore;
-        breakdown.descriptionMatch = descScore;
-        if (descSimilarity === 1) {
-          reasons.push('Identical description');
-        } else {
-          reasons.push('Similar description');
-        }
-      }
-    }
-
-    // Check source account (15%)
-    if (options.includeSourceMatch && split1.source_id === split2.source_id) {
-      matchCount++;
-      score += 0.15;
-      breakdown.sourceAccountMatch = 0.15;
-      reasons.push('Same source account');
-    }
-
-    // Check destination account (15%)
-    if (options.includeDestinationMatch && split1.destination_id === split2.destination_id) {
-      matchCount++;
-      score += 0.15;
-      breakdown.destinationAccountMatch = 0.15;
-      reasons.push('Same destination account');
-    }
-
-    // Check currency (counts toward match count but no score - it's expected)
-    if (split1.currency_code === split2.currency_code) {
-      matchCount++;
-    }
+  async deleteTransaction(transactionId: string): Promise<void> {
+    await this.fireflyApi.deleteTransaction(transactionId);
+  }
 
-    // Check external ID if present (5% bonus)
-    if (split1.external_id && split2.external_id && split1.external_id === split2.external_id) {
-      matchCount += 2;
-      score += 0.05;
-      breakdown.externalIdMatch = 0.05;
-      reasons.push('Same external ID');
+  /**
+   * Merge duplicates into one transaction: update the survivor with the chosen
+   * values, then delete the others. Nothing is deleted if the update fails.
+   */
+  async mergeTransactions(request: DuplicateMergeRequest): Promise<DuplicateMergeResult> {
+    const survivor = await this.fireflyApi.getTransaction(request.survivorId);
+    const survivorSplit = survivor.attributes.transactions[0];
+
+    const splits = new Map([[survivor.id, survivorSplit]]);
+    for (const id of request.duplicateIds) {
+      const duplicate = await this.fireflyApi.getTransaction(id);
+      splits.set(id, duplicate.attributes.transactions[0]);
     }
 
-    // Check import hash if present (5% bonus, but cap total at 100%)
-    if (
-      split1.import_hash_v2 &&
-      split2.import_hash_v2 &&
-      split1.import_hash_v2 === split2.import_hash_v2
-    ) {
-      matchCount += 2;
-      const hashScore = Math.min(0.05, 1 - score); // Don't exceed 100%
-      score += hashScore;
-      breakdown.importHashMatch = hashScore;
-      reasons.push('Same import hash');
+    const { updates, updatedFields } = getMergedValues(survivor.id, splits, request.fields);
+    if (updatedFields.length > 0) {
+      await this.fireflyApi.updateTransaction(
+        survivor.id,
+        survivorSplit.transaction_journal_id,
+        updates
+      );
     }
 
-    const isDuplicate = matchCount >= requiredMatches;
-    return { isDuplicate, score: Math.min(score, 1), reasons, breakdown };
-  }
-
-  private calculateStringSimilarity(str1: string, str2: string): number {
-    if (str1 === str2) return 1;
-    if (!str1 || !str2) return 0;
-
-    const s1 = str1.toLowerCase().trim();
-    const s2 = str2.toLowerCase().trim();
-
-    if (s1 === s2) return 1;
-
-    // Levenshtein distance based similarity
-    const longer = s1.length > s2.length ? s1 : s2;
-    const shorter = s1.length > s2.length ? s2 : s1;
-
-    if (longer.length === 0) return 1;
-
-    const distance = this.levenshteinDistance(longer, shorter);
-    return (longer.length - distance) / longer.length;
-  }
-
-  private levenshteinDistance(s1: string, s2: string): number {
-    const costs: number[] = [];
-
-    for (let i = 0; i <= s1.length; i++) {
-      let lastValue = i;
-      for (let j = 0; j <= s2.length; j++) {
-        if (i === 0) {
-          costs[j] = j;
-        } else if (j > 0) {
-          let newValue = costs[j - 1];
-          if (s1.charAt(i - 1) !== s2.charAt(j - 1)) {
-            newValue = Math.min(Math.min(newValue, lastValue), costs[j]) + 1;
-          }
-          costs[j - 1] = lastValue;
-          lastValue = newValue;
-        }
-      }
-      if (i > 0) {
-        costs[s2.length] = lastValue;
+    const result: DuplicateMergeResult = {
+      survivorId: survivor.id,
+      updatedFields,
+      deleted: [],
+      failed: [],
+    };
+    for (const id of request.duplicateIds) {
+      try {
+        await this.fireflyApi.deleteTransaction(id);
+        result.deleted.push(id);
+      } catch (error) {
+        result.failed.push({
+          id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
       }
     }
 
-    return costs[s2.length];
-  }
-
-  async deleteTransaction(transactionId: string): Promise<void> {
-    await this.fireflyApi.deleteTransaction(transactionId);
+    logger.info(
+      `Merged ${result.deleted.length} duplicates into ${survivor.id} (${updatedFields.join(', ') || 'no changes'})`
+    );
+    return result;
   }
 }
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  FindReplaceService,
+  FindReplaceTimeoutError,
+  MAX_REGEX_INPUT_LENGTH,
+  REGEX_TIME_BUDGET_MS,
+  createFindPattern,
+  findMatches,
+} from './findReplace.js';
+import type { FireflyTransaction, FireflyTransactionSplit } from '../../shared/types/firefly.js';
+import type { FireflyApiClient } from '../clients/firefly.js';
+import type { FindReplaceOptions } from '../../shared/types/app.js';
+
+function createTransaction(
+  id: string,
+  overrides: Partial<FireflyTransactionSplit> = {}
+): FireflyTransaction {
+  return {
+    id,
+    type: 'transactions',
+    attributes: {
+      created_at: '2024-06-01T08:00:00.000Z',
+      updated_at: '2024-06-01T08:00:00.000Z',
+      user: '1',
+      group_title: null,
+      transactions: [
+        {
+          transaction_journal_id: `j${id}`,
+          type: 'withdrawal',
+          date: '2024-05-01T00:00:00+02:00',
+          amount: '23.40',
+          description: 'SEPA-LASTSCHRIFT REWE SAGT DANKE 12345//MUENCHEN/DE',
+          source_name: 'Checking',
+          destination_name: 'REWE SAGT DANKE 12345',
+          tags: [],
+          notes: null,
+          ...overrides,
+        } as FireflyTransactionSplit,
+      ],
+    },
+  };
+}
+
+function options(overrides: Partial<FindReplaceOptions> = {}): FindReplaceOptions {
+  return {
+    field: 'description',
+    find: 'SEPA-LASTSCHRIFT ',
+    replace: '',
+    mode: 'literal',
+    caseSensitive: true,
+    ...overrides,
+  };
+}
+
+describe('findMatches', () => {
+  it('should replace literal text everywhere in the field', () => {
+    const matches = findMatches(
+      [createTransaction('1'), createTransaction('2', { description: 'Rent' })],
+      options({ find: '/', replace: ' ' })
+    );
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({
+      transactionId: '1',
+      journalId: 'j1',
+      field: 'description',
+      oldValue: 'SEPA-LASTSCHRIFT REWE SAGT DANKE 12345//MUENCHEN/DE',
+      newValue: 'SEPA-LASTSCHRIFT REWE SAGT DANKE 12345  MUENCHEN DE',
+    });
+  });
+
+  it('should treat literal text and replacements as plain text', () => {
+    const [match] = findMatches(
+      [createTransaction('1', { description: 'Costs (a.b) 5$' })],
+      options({ find: '(a.b)', replace: '$1' })
+    );
+
+    expect(match.newValue).toBe('Costs $1 5$');
+  });
+
+  it('should insert capture groups of regular expressions', () => {
+    const [match] = findMatches(
+      [createTransaction('1')],
+      options({
+        find: '^SEPA-LASTSCHRIFT (\\w+) SAGT DANKE \\d+//(?<city>\\w+)/DE$',
+        replace: '$1 ($<city>)',
+        mode: 'regex',
+      })
+    );
+
+    expect(match.newValue).toBe('REWE (MUENCHEN)');
+  });
+
+  it('should ignore case unless case-sensitive', () => {
+    const transactions = [createTransaction('1')];
+
+    expect(findMatches(transactions, options({ find: 'rewe', replace: 'Rewe' }))).toHaveLength(0);
+    expect(
+      findMatches(transactions, options({ find: 'rewe', replace: 'Rewe', caseSensitive: false }))
+    ).toHaveLength(1);
+  });
+
+  it('should search the counterparty of withdrawals and deposits but not transfers', () => {
+    const matches = findMatches(
+      [
+        createTransaction('1'),
+        createTransaction('2', { type: 'deposit', source_name: 'REWE SAGT DANKE 12345' }),
+        createTransaction('3', { type: 'transfer', destination_name: 'REWE SAGT DANKE 12345' }),
+      ],
+      options({ field: 'counterparty', find: ' SAGT DANKE \\d+', mode: 'regex' })
+    );
+
+    expect(matches.map((match) => [match.transactionId, match.newValue])).toEqual([
+      ['1', 'REWE'],
+      ['2', 'REWE'],
+    ]);
+  });
+
+  it('should skip replacements that would empty required fields', () => {
+    const transactions = [createTransaction('1', { notes: 'imported' })];
+
+    expect(findMatches(transactions, options({ find: '.*', mode: 'regex' }))).toHaveLength(0);
+    expect(
+      findMatches(transactions, options({ field: 'notes', find: 'imported' }))[0].newValue
+    ).toBe('');
+  });
+
+  it('should reject invalid regular expressions', () => {
+    expect(() =>
+      createFindPattern({ find: '(unclosed', mode: 'regex', caseSensitive: true })
+    ).toThrow(SyntaxError);
+  });
+
+  it('should not run regular expressions on overlong values', () => {
+    const transactions = [
+      createTransaction('1', { notes: 'x'.repeat(MAX_REGEX_INPUT_LENGTH) }),
+      createTransaction('2', { notes: 'x'.repeat(MAX_REGEX_INPUT_LENGTH + 1) }),
+    ];
+
+    expect(
+      findMatches(
+        transactions,
+        options({ field: 'notes', find: 'x+', replace: 'y', mode: 'regex' })
+      ).map((m) => m.transactionId)
+    ).toEqual(['1']);
+    expect(
+      findMatches(transactions, options({ field: 'notes', find: 'x', replace: 'y' }))
+    ).toHaveLength(2);
+  });
+
+  it('should abort regular expression searches that exceed the time budget', () => {
+    const transactions = [createTransaction('1'), createTransaction('2')];
+    const now = vi.spyOn(Date, 'now');
+    now.mockReturnValueOnce(0).mockReturnValue(REGEX_TIME_BUDGET_MS + 1);
+
+    try {
+      expect(() => findMatches(transactions, options({ find: 'REWE', mode: 'regex' }))).toThrow(
+        FindReplaceTimeoutError
+      );
+    } finally {
+      now.mockRestore();
+    }
+  });
+});
+
+describe('FindReplaceService', () => {
+  let fireflyApi: {
+    getTransaction: ReturnType<typeof vi.fn>;
+    updateTransaction: ReturnType<typeof vi.fn>;
+  };
+  let service: FindReplaceService;
+
+  beforeEach(() => {
+    fireflyApi = {
+      getTransaction: vi.fn(),
+      updateTransaction: vi.fn().mockResolvedValue({}),
+    };
+    service = new FindReplaceService(fireflyApi as unknown as FireflyApiClient);
+  });
+
+  it('should update the selected field of each split', async () => {
+    fireflyApi.getTransaction.mockResolvedValue(createTransaction('2', { type: 'deposit' }));
+
+    const result = await service.applyChanges([
+      { transactionId: '1', journalId: 'j1', field: 'description', newValue: 'REWE' },
+      { transactionId: '1', journalId: 'j1', field: 'notes', newValue: '' },
+      { transactionId: '2', journalId: 'j2', field: 'counterparty', newValue: 'Employer' },
+    ]);
+
+    expect(fireflyApi.updateTransaction.mock.calls).toEqual([
+      ['1', 'j1', { description: 'REWE' }],
+      ['1', 'j1', { notes: null }],
+      ['2', 'j2', { source_name: 'Employer' }],
+    ]);
+    expect(result).toEqual({ successful: ['1', '1', '2'], failed: [] });
+  });
+
+  it('should report failed updates and continue', async () => {
+    fireflyApi.getTransaction.mockResolvedValue(createTransaction('2', { type: 'transfer' }));
+    fireflyApi.updateTransaction.mockRejectedValueOnce(new Error('Firefly III is down'));
+
+    const result = await service.applyChanges([
+      { transactionId: '1', journalId: 'j1', field: 'description', newValue: 'REWE' },
+      { transactionId: '2', journalId: 'j2', field: 'counterparty', newValue: 'Savings' },
+      { transactionId: '3', journalId: 'j3', field: 'description', newValue: 'Rent' },
+    ]);
+
+    expect(result).toEqual({
+      successful: ['3'],
+      failed: [
+        { transactionId: '1', error: 'Firefly III is down' },
+        { transactionId: '2', error: 'Transfers have no counterparty to rename' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Find & Replace
+ *
+ * Bulk cleanup of transaction fields. A search runs a literal or regular
+ * expression replacement over the description, notes or counterparty of every
+ * split and reports the splits whose value would change; the selected changes
+ * are then written through the Firefly III client one split at a time.
+ *
+ * User regular expressions run on the event loop, so a search only feeds them
+ * values up to MAX_REGEX_INPUT_LENGTH characters and gives up once it has run
+ * longer than REGEX_TIME_BUDGET_MS.
+ */
+
+import { FireflyApiClient } from '../clients/firefly.js';
+import type { FireflyTransaction, FireflyTransactionSplit } from '../../shared/types/firefly.js';
+import type {
+  BulkUpdateResult,
+  FindReplaceChange,
+  FindReplaceField,
+  FindReplaceMatch,
+  FindReplaceOptions,
+} from '../../shared/types/app.js';
+
+/** Longest value a regular expression is run on; longer values are skipped */
+export const MAX_REGEX_INPUT_LENGTH = 2000;
+
+/** How long a regular expression search may run before it is aborted */
+export const REGEX_TIME_BUDGET_MS = 2000;
+
+/**
+ * Error thrown when a regular expression search exceeds its time budget
+ */
+export class FindReplaceTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FindReplaceTimeoutError';
+  }
+}
+
+/**
+ * Split field holding the counterparty (transfers have none, both sides are own accounts)
+ */
+function getCounterpartyField(
+  split: FireflyTransactionSplit
+): 'source_name' | 'destination_name' | null {
+  if (split.type === 'withdrawal') return 'destination_name';
+  if (split.type === 'deposit') return 'source_name';
+  return null;
+}
+
+/**
+ * Get the searched value of a split (null if the split has no such field)
+ */
+export function getFieldValue(
+  split: FireflyTransactionSplit,
+  field: FindReplaceField
+): string | null {
+  if (field === 'counterparty') {
+    const counterpartyField = getCounterpartyField(split);
+    return counterpartyField ? (split[counterpartyField] ?? '') : null;
+  }
+  return split[field] ?? '';
+}
+
+/**
+ * Build the search pattern; throws a SyntaxError for invalid regular expressions
+ */
+export function createFindPattern(
+  options: Pick<FindReplaceOptions, 'find' | 'mode' | 'caseSensitive'>
+): RegExp {
+  const source =
+    options.mode === 'regex' ? options.find : options.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+/**
+ * Apply the replacement to a value. Literal replacements are inserted as-is,
+ * regex replacements may reference capture groups ($1, $<name>).
+ */
+export function replaceValue(value: string, pattern: RegExp, options: FindReplaceOptions): string {
+  // Reset the position kept by global patterns between values
+  pattern.lastIndex = 0;
+  return options.mode === 'regex'
+    ? value.replace(pattern, options.replace)
+    : value.replace(pattern, () => options.replace);
+}
+
+/**
+ * Find all splits whose field value the replacement would change. Splits whose
+ * description or counterparty would become empty are left out, Firefly III
+ * requires both. Throws a FindReplaceTimeoutError when a regular expression
+ * search runs out of time.
+ */
+export function findMatches(
+  transactions: FireflyTransaction[],
+  options: FindReplaceOptions
+): FindReplaceMatch[] {
+  const pattern = createFindPattern(options);
+  const matches: FindReplaceMatch[] = [];
+  const isRegex = options.mode === 'regex';
+  const deadline = Date.now() + REGEX_TIME_BUDGET_MS;
+
+  for (const transaction of transactions) {
+    for (const split of transaction.attributes.transactions) {
+      const oldValue = getFieldValue(split, options.field);
+      if (oldValue === null) continue;
+      if (isRegex && oldValue.length > MAX_REGEX_INPUT_LENGTH) continue;
+
+      const newValue = replaceValue(oldValue, pattern, options);
+      if (newValue === oldValue) continue;
+      if (options.field !== 'notes' && newValue.trim() === '') continue;
+
+      matches.push({
+        transactionId: transaction.id,
+        journalId: split.transaction_journal_id,
+        field: options.field,
+        oldValue,
+        newValue,
+        transaction: split,
+      });
+    }
+
+    if (isRegex && Date.now() > deadline) {
+      throw new FindReplaceTimeoutError(
+        'The regular expression took too long; simplify it or narrow the date range'
+      );
+    }
+  }
+
+  return matches;
+}
+
+export class FindReplaceService {
+  private fireflyApi: FireflyApiClient;
+
+  constructor(fireflyApi: FireflyApiClient) {
+    this.fireflyApi = fireflyApi;
+  }
+
+  /**
+   * Write the selected replacements
+   */
+  async applyChanges(changes: FindReplaceChange[]): Promise<BulkUpdateResult> {
+    const result: BulkUpdateResult = {
+      successful: [],
+      failed: [],
+    };
+
+    for (const change of changes) {
+      try {
+        await this.fireflyApi.updateTransaction(
+          change.transactionId,
+          change.journalId,
+          await this.getUpdates(change)
+        );
+        result.successful.push(change.transactionId);
+      } catch (error) {
+        result.failed.push({
+          transactionId: change.transactionId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private async getUpdates(
+    change: FindReplaceChange
+  ): Promise<Parameters<FireflyApiClient['updateTransaction']>[2]> {
+    if (change.field === 'description') return { description: change.newValue };
+    if (change.field === 'notes') return { notes: change.newValue || null };
+
+    // The counterparty side depends on the transaction type
+    const transaction = await this.fireflyApi.getTransaction(change.transactionId);
+    const split = transaction.attributes.transactions.find(
+      (t) => t.transaction_journal_id === change.journalId
+    );
+    if (!split) {
+      throw new Error(
+        `Transaction journal ${change.journalId} not found in transaction ${change.transactionId}`
+      );
+    }
+    const counterpartyField = getCounterpartyField(split);
+    if (!counterpartyField) {
+      throw new Error('Transfers have no counterparty to rename');
+    }
+    return { [counterpartyField]: change.newValue };
+  }
+}
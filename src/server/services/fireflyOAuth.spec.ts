@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  exchangeAuthorizationCode,
+  refreshTokens,
+  isTokenExpiring,
+  FireflyTokenError,
+  TOKEN_REFRESH_MARGIN_MS,
+  type FireflyOAuthTokens,
+} from './fireflyOAuth.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock('../config/index.js', () => ({
+  config: {
+    firefly: { apiUrl: 'https://firefly.example.com' },
+    auth: { fireflyOAuth: { clientId: '7', clientSecret: 'secret' } },
+  },
+}));
+
+const NOW = new Date('2024-06-01T12:00:00.000Z').getTime();
+
+function tokenResponse(body: Record<string, unknown>, status = 200) {
+  return {
+    ok: status < 400,
+    status,
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  };
+}
+
+function getRequestParams(fetchMock: ReturnType<typeof vi.fn>, call = 0): URLSearchParams {
+  return fetchMock.mock.calls[call][1].body as URLSearchParams;
+}
+
+describe('fireflyOAuth', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.runOnlyPendingTimers();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('exchangeAuthorizationCode', () => {
+    it('should exchange the code and compute the token expiry', async () => {
+      fetchMock.mockResolvedValue(
+        tokenResponse({ access_token: 'access', refresh_token: 'refresh', expires_in: 3600 })
+      );
+
+      const tokens = await exchangeAuthorizationCode('code-1', 'https://app/callback');
+
+      expect(tokens).toEqual({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresAt: NOW + 3600 * 1000,
+      });
+      expect(fetchMock.mock.calls[0][0]).toBe('https://firefly.example.com/oauth/token');
+      const params = getRequestParams(fetchMock);
+      expect(params.get('grant_type')).toBe('authorization_code');
+      expect(params.get('code')).toBe('code-1');
+      expect(params.get('client_id')).toBe('7');
+      expect(params.get('client_secret')).toBe('secret');
+    });
+
+    it('should throw a FireflyTokenError when Firefly III rejects the request', async () => {
+      fetchMock.mockResolvedValue(tokenResponse({ error: 'invalid_grant' }, 400));
+
+      await expect(exchangeAuthorizationCode('bad', 'https://app/callback')).rejects.toBeInstanceOf(
+        FireflyTokenError
+      );
+    });
+  });
+
+  describe('isTokenExpiring', () => {
+    it('should report tokens within the refresh margin as expiring', () => {
+      const tokens: FireflyOAuthTokens = { accessToken: 'a', refreshToken: 'r', expiresAt: 0 };
+
+      expect(isTokenExpiring({ ...tokens, expiresAt: NOW + TOKEN_REFRESH_MARGIN_MS })).toBe(true);
+      expect(isTokenExpiring({ ...tokens, expiresAt: NOW + 2 * TOKEN_REFRESH_MARGIN_MS })).toBe(
+        false
+      );
+      // Unknown expiry is never refreshed proactively
+      expect(isTokenExpiring(tokens)).toBe(false);
+    });
+  });
+
+  describe('refreshTokens', () => {
+    it('should share one refresh between parallel requests', async () => {
+      fetchMock.mockResolvedValue(
+        tokenResponse({ access_token: 'new', refresh_token: 'rotated', expires_in: 3600 })
+      );
+      const tokens = { accessToken: 'old', refreshToken: 'refresh-1', expiresAt: NOW };
+
+      const [first, second] = await Promise.all([refreshTokens(tokens), refreshTokens(tokens)]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(first).toEqual(second);
+      expect(first.refreshToken).toBe('rotated');
+      expect(getRequestParams(fetchMock).get('refresh_token')).toBe('refresh-1');
+    });
+
+    it('should keep the refresh token if Firefly III does not rotate it', async () => {
+      fetchMock.mockResolvedValue(tokenResponse({ access_token: 'new', expires_in: 3600 }));
+
+      const refreshed = await refreshTokens({
+        accessToken: 'old',
+        refreshToken: 'refresh-2',
+        expiresAt: NOW,
+      });
+
+      expect(refreshed).toMatchObject({ accessToken: 'new', refreshToken: 'refresh-2' });
+    });
+
+    it('should reject tokens without a refresh token', async () => {
+      await expect(
+        refreshTokens({ accessToken: 'old', refreshToken: '', expiresAt: NOW })
+      ).rejects.toBeInstanceOf(FireflyTokenError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Firefly III OAuth Tokens
+ *
+ * Exchanges and refreshes the OAuth tokens of users who signed in with Firefly III.
+ * The tokens are kept in the user's session so API calls made on their behalf go
+ * to their own Firefly III account instead of the server-wide FIREFLY_API_TOKEN.
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('FireflyOAuth');
+
+/** Refresh access tokens this long before they expire */
+export const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * OAuth tokens of a user signed in with Firefly III
+ */
+export interface FireflyOAuthTokens {
+  accessToken: string;
+  /** Empty if Firefly III did not issue a refresh token */
+  refreshToken: string;
+  /** Expiry of the access token (ms since epoch, 0 = unknown) */
+  expiresAt: number;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+/**
+ * Error thrown when Firefly III rejects a token request
+ */
+export class FireflyTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FireflyTokenError';
+  }
+}
+
+/** How long a finished refresh is reused for requests still holding the old tokens */
+const RECENT_REFRESH_TTL_MS = 30 * 1000;
+
+// Refreshes in flight (and recently finished), keyed by refresh token. Firefly III
+// (Laravel Passport) revokes a refresh token once it is used, so parallel requests
+// of one session must share a single refresh.
+const pendingRefreshes = new Map<string, Promise<FireflyOAuthTokens>>();
+
+/**
+ * Request tokens from the Firefly III token endpoint
+ */
+async function requestTokens(params: Record<string, string>): Promise<FireflyOAuthTokens> {
+  const tokenParams: Record<string, string> = {
+    ...params,
+    client_id: config.auth.fireflyOAuth.clientId,
+  };
+
+  // Only include client_secret if configured (for confidential clients)
+  if (config.auth.fireflyOAuth.clientSecret) {
+    tokenParams.client_secret = config.auth.fireflyOAuth.clientSecret;
+  }
+
+  const response = await fetch(`${config.firefly.apiUrl}/oauth/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(tokenParams),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error('Firefly token error:', errorText);
+    throw new FireflyTokenError(`Token request failed with status ${response.status}`);
+  }
+
+  const data = (await response.json()) as TokenResponse;
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? '',
+    expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : 0,
+  };
+}
+
+/**
+ * Exchange an authorization code for tokens
+ */
+export function exchangeAuthorizationCode(
+  code: string,
+  redirectUri: string
+): Promise<FireflyOAuthTokens> {
+  return requestTokens({
+    grant_type: 'authorization_code',
+    redirect_uri: redirectUri,
+    code,
+  });
+}
+
+/**
+ * Check whether an access token expires soon and should be refreshed
+ */
+export function isTokenExpiring(tokens: FireflyOAuthTokens): boolean {
+  return tokens.expiresAt > 0 && tokens.expiresAt - TOKEN_REFRESH_MARGIN_MS <= Date.now();
+}
+
+/**
+ * Get new tokens using the refresh token
+ * @throws {FireflyTokenError} if there is no refresh token or Firefly III rejects it
+ */
+export function refreshTokens(tokens: FireflyOAuthTokens): Promise<FireflyOAuthTokens> {
+  if (!tokens.refreshToken) {
+    return Promise.reject(new FireflyTokenError('No refresh token available'));
+  }
+
+  const pending = pendingRefreshes.get(tokens.refreshToken);
+  if (pending) return pending;
+
+  const refresh = requestTokens({
+    grant_type: 'refresh_token',
+    refresh_token: tokens.refreshToken,
+  })
+    .then((refreshed) => ({
+      ...refreshed,
+      // Keep the old refresh token if Firefly III did not rotate it
+      refreshToken: refreshed.refreshToken || tokens.refreshToken,
+    }))
+    .finally(() => {
+      setTimeout(() => pendingRefreshes.delete(tokens.refreshToken), RECENT_REFRESH_TTL_MS).unref();
+    });
+
+  pendingRefreshes.set(tokens.refreshToken, refresh);
+  return refresh;
+}
@@ -1,9 +1,33 @@
 // Business logic services
 export { DuplicateTransactionFinder } from './duplicateFinder.js';
+export { DuplicateDismissalStore, getDuplicateDismissalStore } from './duplicateDismissals.js';
 export { SubscriptionFinder } from './subscriptionFinder.js';
 export { AISuggestionService } from './aiSuggestions.js';
-export { AmazonOrderExtender } from './amazonExtender.js';
+export {
+  SuggestionRuleService,
+  proposeRules,
+  getCommonPrefix,
+  SUGGESTION_RULE_GROUP_TITLE,
+  MIN_RULE_MATCHES,
+} from './suggestionRules.js';
+export { AmazonOrderExtender, isAmazonTransaction } from './amazonExtender.js';
 export { PayPalExtender } from './paypalExtender.js';
+export {
+  FindReplaceService,
+  findMatches,
+  createFindPattern,
+  replaceValue,
+  getFieldValue,
+} from './findReplace.js';
+export { simulateRules, evaluateTrigger, isTriggerSupported } from './ruleSimulator.js';
+export { TransferPairService, findTransferPairs, isAccountCounterparty } from './transferPairs.js';
+export { ConverterProfileLibrary, getConverterProfileLibrary } from './converterProfiles.js';
+export {
+  importConvertedTransactions,
+  type ImportTransaction,
+  type ConverterImportOptions,
+  type ConverterImportResult,
+} from './converterImport.js';
 
 // Caching
 export {
@@ -13,9 +37,85 @@ export {
   clearSessionCache,
   clearAllCaches,
 } from './transactionCache.js';
+export {
+  TransactionMirror,
+  getTransactionMirror,
+  type TransactionMirrorSource,
+  type TransactionMirrorQuery,
+} from './transactionMirror.js';
+
+// Background jobs
+export {
+  JobManager,
+  getJobManager,
+  MAX_RUNNING_JOBS_PER_OWNER,
+  type JobEvent,
+  type JobListener,
+} from './jobManager.js';
+
+// Scheduled automations
+export {
+  Scheduler,
+  getScheduler,
+  runScheduledTool,
+  MAX_RUNS_PER_SCHEDULE,
+  type ScheduleInput,
+  type ScheduleChanges,
+  type ScheduleFinding,
+  type ScheduledToolResult,
+  type ScheduledToolRunner,
+} from './scheduler.js';
+
+// Firefly III webhooks
+export {
+  WebhookProcessor,
+  getWebhookProcessor,
+  runWebhookAction,
+  verifyWebhookSignature,
+  MAX_WEBHOOK_DELIVERIES,
+  WEBHOOK_SIGNATURE_HEADER,
+  STORE_TRANSACTION_TRIGGER,
+  type WebhookMessage,
+  type WebhookOptions,
+  type WebhookActionRunner,
+} from './webhooks.js';
+
+// Audit log
+export {
+  AuditLog,
+  getAuditLog,
+  getAuditContext,
+  getAuditScope,
+  isInAuditScope,
+  runWithAuditContext,
+  toAuditSnapshot,
+  DEFAULT_AUDIT_PAGE_SIZE,
+  MAX_AUDIT_PAGE_SIZE,
+  type AuditContext,
+  type AuditChange,
+  type AuditScope,
+} from './auditLog.js';
+
+// Firefly III OAuth tokens (per-user API access)
+export {
+  exchangeAuthorizationCode,
+  refreshTokens,
+  isTokenExpiring,
+  FireflyTokenError,
+  TOKEN_REFRESH_MARGIN_MS,
+  type FireflyOAuthTokens,
+} from './fireflyOAuth.js';
+
+// Revertible bulk operations
+export { OperationLog, getOperationLog, DEFAULT_OPERATION_LIMIT } from './operations.js';
+
+// Dry runs of write endpoints
+export { DryRun, runDryRun, getDryRun, describeDryRun, DRY_RUN_ID_PREFIX } from './dryRun.js';
 
 // Session lifecycle management
 export {
+  SessionStore,
+  type StorePersistenceOptions,
   getAmazonExtenderStore,
   getPayPalExtenderStore,
   getFinTSClientStore,
@@ -26,3 +126,56 @@ export {
   stopCleanupInterval,
   getStoreStats,
 } from './sessionStore.js';
+
+// Persistence
+export {
+  MemoryPersistenceBackend,
+  SqlitePersistenceBackend,
+  getPersistenceBackend,
+  closePersistenceBackend,
+  type PersistenceBackend,
+  type PersistedRecord,
+} from './persistence.js';
+
+// Shared state
+export {
+  MemorySharedStore,
+  RedisSharedStore,
+  getSharedStore,
+  closeSharedStore,
+  type SharedStore,
+  type SharedCounter,
+} from './sharedStore.js';
+
+// Metrics
+export {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  metricsRegistry,
+  METRICS_CONTENT_TYPE,
+  httpRequestsTotal,
+  httpRequestDuration,
+  fireflyApiRequestsTotal,
+  fireflyApiErrorsTotal,
+  aiRequestDuration,
+  aiRequestFailuresTotal,
+  fintsDialogsTotal,
+  sseStreamsOpen,
+  sessionStoreEntries,
+  type MetricLabels,
+} from './metrics.js';
+
+// API description
+export {
+  buildOpenApiDocument,
+  listRouterRoutes,
+  getOperationKey,
+  type ApiRouteGroup,
+  type ApiAccess,
+  type OperationDoc,
+  type RegisteredRoute,
+  type OpenApiDocument,
+  type HttpMethod,
+} from './openapi.js';
@@ -0,0 +1,246 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JobManager, type JobEvent } from './jobManager.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Generator that yields the given events, waiting for `gate` before each one
+ * when provided so tests can control progress
+ */
+async function* events(list: JobEvent[], gate?: () => Promise<void>): AsyncGenerator<JobEvent> {
+  for (const event of list) {
+    if (gate) await gate();
+    yield event;
+  }
+}
+
+/**
+ * Wait until all pending background work has run
+ */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+/**
+ * Create a gate that releases one step per call to `release`
+ */
+function createGate() {
+  const waiting: Array<() => void> = [];
+  return {
+    gate: () => new Promise<void>((resolve) => waiting.push(resolve)),
+    release: async () => {
+      waiting.shift()?.();
+      await flush();
+    },
+  };
+}
+
+describe('JobManager', () => {
+  let manager: JobManager;
+
+  beforeEach(() => {
+    manager = new JobManager(RETENTION_MS);
+  });
+
+  it('should run a job to completion and buffer results', async () => {
+    const job = manager.start(
+      'session-1',
+      'duplicates',
+      events([
+        { type: 'progress', data: { current: 1, total: 2 } },
+        { type: 'result', data: { id: 'group-1' } },
+        { type: 'progress', data: { current: 2, total: 2 } },
+        { type: 'result', data: { id: 'group-2' } },
+        { type: 'complete', data: { total: 2 } },
+      ])
+    );
+    expect(job.status).toBe('running');
+
+    await flush();
+
+    const info = manager.get('session-1', job.id);
+    expect(info?.status).toBe('completed');
+    expect(info?.finishedAt).not.toBeNull();
+    expect(info?.progress).toEqual({ current: 2, total: 2 });
+    expect(info?.resultCount).toBe(2);
+
+    const results = manager.getResults('session-1', job.id);
+    expect(results?.results).toEqual([{ id: 'group-1' }, { id: 'group-2' }]);
+  });
+
+  it('should count suggestion and per-item error events', async () => {
+    const job = manager.start(
+      'session-1',
+      'categorySuggestions',
+      events([
+        { type: 'suggestion', data: { transactionId: '1' } },
+        { type: 'error', data: { transactionId: '2', error: 'AI timeout' } },
+        { type: 'complete', data: null },
+      ])
+    );
+    await flush();
+
+    const results = manager.getResults('session-1', job.id);
+    expect(results?.job.status).toBe('completed');
+    expect(results?.job.errorCount).toBe(1);
+    expect(results?.results).toEqual([{ transactionId: '1' }]);
+    expect(results?.errors).toEqual([{ transactionId: '2', error: 'AI timeout' }]);
+  });
+
+  it('should mark jobs as failed when the generator throws', async () => {
+    async function* failing(): AsyncGenerator<JobEvent> {
+      yield { type: 'progress', data: { current: 0, total: 1 } };
+      throw new Error('Firefly unavailable');
+    }
+
+    const job = manager.start('session-1', 'subscriptions', failing());
+    await flush();
+
+    const info = manager.get('session-1', job.id);
+    expect(info?.status).toBe('failed');
+    expect(info?.error).toBe('Firefly unavailable');
+  });
+
+  it('should replay buffered events and stream live events to attached listeners', async () => {
+    const { gate, release } = createGate();
+    const job = manager.start(
+      'session-1',
+      'duplicates',
+      events(
+        [
+          { type: 'progress', data: { current: 1, total: 2 } },
+          { type: 'result', data: { id: 'group-1' } },
+          { type: 'result', data: { id: 'group-2' } },
+        ],
+        gate
+      )
+    );
+    await release();
+    await release();
+
+    const received: Array<JobEvent | null> = [];
+    manager.attach('session-1', job.id, (event) => received.push(event));
+    expect(received).toEqual([
+      { type: 'progress', data: { current: 1, total: 2 } },
+      { type: 'result', data: { id: 'group-1' } },
+    ]);
+
+    await release();
+    await flush();
+
+    expect(received.slice(2)).toEqual([{ type: 'result', data: { id: 'group-2' } }, null]);
+  });
+
+  it('should signal the end immediately when attaching to a finished job', async () => {
+    const job = manager.start('session-1', 'duplicates', events([{ type: 'complete', data: {} }]));
+    await flush();
+
+    const listener = vi.fn();
+    manager.attach('session-1', job.id, listener);
+
+    expect(listener).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should stop delivering events after detaching', async () => {
+    const { gate, release } = createGate();
+    const job = manager.start(
+      'session-1',
+      'duplicates',
+      events([{ type: 'result', data: { id: 'group-1' } }], gate)
+    );
+
+    const listener = vi.fn();
+    const detach = manager.attach('session-1', job.id, listener);
+    detach?.();
+    await release();
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(manager.get('session-1', job.id)?.status).toBe('completed');
+  });
+
+  it('should cancel a running job after the current step', async () => {
+    const { gate, release } = createGate();
+    const job = manager.start(
+      'session-1',
+      'tagSuggestions',
+      events(
+        [
+          { type: 'suggestion', data: { transactionId: '1' } },
+          { type: 'suggestion', data: { transactionId: '2' } },
+        ],
+        gate
+      )
+    );
+
+    expect(manager.cancel('session-1', job.id)?.status).toBe('running');
+    await release();
+    await flush();
+
+    const info = manager.get('session-1', job.id);
+    expect(info?.status).toBe('cancelled');
+    expect(info?.resultCount).toBe(1);
+  });
+
+  it('should isolate jobs between owners', async () => {
+    const job = manager.start('session-1', 'duplicates', events([]));
+
+    expect(manager.get('session-2', job.id)).toBeUndefined();
+    expect(manager.getResults('session-2', job.id)).toBeUndefined();
+    expect(manager.attach('session-2', job.id, vi.fn())).toBeUndefined();
+    expect(manager.cancel('session-2', job.id)).toBeUndefined();
+    expect(manager.remove('session-2', job.id)).toBe(false);
+    expect(manager.list('session-2')).toEqual([]);
+    expect(manager.list('session-1')).toHaveLength(1);
+  });
+
+  it('should count running jobs per owner', async () => {
+    const { gate } = createGate();
+    manager.start('session-1', 'duplicates', events([{ type: 'complete', data: {} }], gate));
+    manager.start('session-1', 'subscriptions', events([]));
+    await flush();
+
+    expect(manager.countRunning('session-1')).toBe(1);
+    expect(manager.countRunning('session-2')).toBe(0);
+  });
+
+  it('should remove jobs and all jobs of an owner', async () => {
+    const first = manager.start('session-1', 'duplicates', events([]));
+    manager.start('session-1', 'subscriptions', events([]));
+    manager.start('session-2', 'duplicates', events([]));
+
+    expect(manager.remove('session-1', first.id)).toBe(true);
+    expect(manager.get('session-1', first.id)).toBeUndefined();
+    expect(manager.removeAll('session-1')).toBe(1);
+    expect(manager.list('session-1')).toEqual([]);
+    expect(manager.list('session-2')).toHaveLength(1);
+  });
+
+  it('should prune finished jobs after the retention period', async () => {
+    vi.useFakeTimers();
+    try {
+      const job = manager.start('session-1', 'duplicates', events([]));
+      await flush();
+
+      vi.advanceTimersByTime(RETENTION_MS - 1000);
+      expect(manager.get('session-1', job.id)).toBeDefined();
+
+      vi.advanceTimersByTime(2000);
+      expect(manager.get('session-1', job.id)).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
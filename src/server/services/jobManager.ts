@@ -0,0 +1,290 @@
+/**
+ * Background Job Manager
+ *
+ * Runs long analyses (duplicate finding, subscription detection, AI suggestions)
+ * detached from the HTTP request that started them. Stream events produced by the
+ * service generators are buffered so clients can disconnect, reattach to the live
+ * event stream and fetch the final results later.
+ *
+ * Buffering:
+ * - Only the latest progress event is kept
+ * - All result, suggestion, error and complete events are kept in order
+ *
+ * Finished jobs are retained for JOB_RETENTION_HOURS (default: 1 hour).
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import type { JobInfo, JobKind, JobResults } from '../../shared/types/app.js';
+
+const logger = createLogger('Jobs');
+
+/** Maximum number of concurrently running jobs per session */
+export const MAX_RUNNING_JOBS_PER_OWNER = 3;
+
+/**
+ * Event produced by a job generator (same shape as the SSE stream events)
+ */
+export interface JobEvent {
+  type: string;
+  data: unknown;
+}
+
+/** Listener for live job events; called with null when the job has finished */
+export type JobListener = (event: JobEvent | null) => void;
+
+/** Event types that carry results */
+const RESULT_EVENT_TYPES = new Set(['result', 'suggestion']);
+
+interface Job {
+  info: JobInfo;
+  ownerId: string;
+  events: JobEvent[];
+  lastProgress: JobEvent | null;
+  listeners: Set<JobListener>;
+  cancelRequested: boolean;
+}
+
+/**
+ * Tracks background jobs per session
+ */
+export class JobManager {
+  private jobs: Map<string, Job> = new Map();
+  private retentionMs: number;
+
+  constructor(retentionMs: number = config.jobs.retentionMs) {
+    this.retentionMs = retentionMs;
+  }
+
+  /**
+   * Start a job. The generator is consumed in the background.
+   */
+  start(ownerId: string, kind: JobKind, generator: AsyncGenerator<JobEvent>): JobInfo {
+    this.pruneExpired();
+
+    const job: Job = {
+      info: {
+        id: crypto.randomUUID(),
+        kind,
+        status: 'running',
+        createdAt: new Date().toISOString(),
+        finishedAt: null,
+        progress: null,
+        resultCount: 0,
+        errorCount: 0,
+        error: null,
+      },
+      ownerId,
+      events: [],
+      lastProgress: null,
+      listeners: new Set(),
+      cancelRequested: false,
+    };
+    this.jobs.set(job.info.id, job);
+
+    logger.info(`Started ${kind} job ${job.info.id}`);
+    void this.run(job, generator);
+
+    return { ...job.info };
+  }
+
+  /**
+   * Get job info if the job exists and belongs to the owner
+   */
+  get(ownerId: string, id: string): JobInfo | undefined {
+    const job = this.getOwnedJob(ownerId, id);
+    return job ? { ...job.info } : undefined;
+  }
+
+  /**
+   * List jobs of an owner, newest first
+   */
+  list(ownerId: string): JobInfo[] {
+    this.pruneExpired();
+    return Array.from(this.jobs.values())
+      .filter((job) => job.ownerId === ownerId)
+      .map((job) => ({ ...job.info }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Count running jobs of an owner
+   */
+  countRunning(ownerId: string): number {
+    return this.list(ownerId).filter((job) => job.status === 'running').length;
+  }
+
+  /**
+   * Get the buffered results of a job
+   */
+  getResults(ownerId: string, id: string): JobResults | undefined {
+    const job = this.getOwnedJob(ownerId, id);
+    if (!job) return undefined;
+
+    return {
+      job: { ...job.info },
+      results: job.events.filter((e) => RESULT_EVENT_TYPES.has(e.type)).map((e) => e.data),
+      errors: job.events.filter((e) => e.type === 'error').map((e) => e.data),
+    };
+  }
+
+  /**
+   * Replay buffered events and subscribe to live events.
+   * Returns an unsubscribe function, or undefined if the job does not exist.
+   * The listener receives null once the job has finished.
+   */
+  attach(ownerId: string, id: string, listener: JobListener): (() => void) | undefined {
+    const job = this.getOwnedJob(ownerId, id);
+    if (!job) return undefined;
+
+    if (job.lastProgress) {
+      listener(job.lastProgress);
+    }
+    for (const event of job.events) {
+      listener(event);
+    }
+
+    if (job.info.status !== 'running') {
+      listener(null);
+      return () => {};
+    }
+
+    job.listeners.add(listener);
+    return () => {
+      job.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Request cancellation of a running job.
+   * The job stops after the step it is currently processing.
+   */
+  cancel(ownerId: string, id: string): JobInfo | undefined {
+    const job = this.getOwnedJob(ownerId, id);
+    if (!job) return undefined;
+
+    if (job.info.status === 'running') {
+      job.cancelRequested = true;
+      logger.info(`Cancellation requested for job ${id}`);
+    }
+    return { ...job.info };
+  }
+
+  /**
+   * Cancel (if running) and forget a job
+   */
+  remove(ownerId: string, id: string): boolean {
+    const job = this.getOwnedJob(ownerId, id);
+    if (!job) return false;
+
+    job.cancelRequested = true;
+    this.jobs.delete(id);
+    return true;
+  }
+
+  /**
+   * Cancel and forget all jobs of an owner (e.g., on logout)
+   */
+  removeAll(ownerId: string): number {
+    let removed = 0;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.ownerId === ownerId) {
+        job.cancelRequested = true;
+        this.jobs.delete(job.info.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Drop finished jobs past the retention period
+   */
+  pruneExpired(): number {
+    const cutoff = Date.now() - this.retentionMs;
+    let removed = 0;
+    for (const [id, job] of this.jobs.entries()) {
+      if (job.info.finishedAt && new Date(job.info.finishedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      logger.debug(`Pruned ${removed} expired jobs`);
+    }
+    return removed;
+  }
+
+  private getOwnedJob(ownerId: string, id: string): Job | undefined {
+    this.pruneExpired();
+    const job = this.jobs.get(id);
+    return job && job.ownerId === ownerId ? job : undefined;
+  }
+
+  private async run(job: Job, generator: AsyncGenerator<JobEvent>): Promise<void> {
+    try {
+      for await (const event of generator) {
+        this.record(job, event);
+        if (job.cancelRequested) {
+          break;
+        }
+      }
+      this.finish(job, job.cancelRequested ? 'cancelled' : 'completed');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Job ${job.info.id} failed: ${message}`);
+      job.info.error = message;
+      this.record(job, { type: 'error', data: { error: message } });
+      this.finish(job, 'failed');
+    }
+  }
+
+  private record(job: Job, event: JobEvent): void {
+    if (event.type === 'progress') {
+      job.lastProgress = event;
+      job.info.progress = event.data as JobInfo['progress'];
+    } else {
+      job.events.push(event);
+      if (RESULT_EVENT_TYPES.has(event.type)) {
+        job.info.resultCount++;
+      } else if (event.type === 'error') {
+        job.info.errorCount++;
+      }
+    }
+
+    this.notify(job, event);
+  }
+
+  private finish(job: Job, status: JobInfo['status']): void {
+    job.info.status = status;
+    job.info.finishedAt = new Date().toISOString();
+    logger.info(`Job ${job.info.id} ${status} (${job.info.resultCount} results)`);
+
+    this.notify(job, null);
+    job.listeners.clear();
+  }
+
+  private notify(job: Job, event: JobEvent | null): void {
+    for (const listener of job.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn(`Job listener error for ${job.info.id}:`, error);
+      }
+    }
+  }
+}
+
+// Shared manager instance, created lazily on first use
+let managerInstance: JobManager | null = null;
+
+/**
+ * Get the shared job manager
+ */
+export function getJobManager(): JobManager {
+  if (!managerInstance) {
+    managerInstance = new JobManager();
+  }
+  return managerInstance;
+}
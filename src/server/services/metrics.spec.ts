@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  metricsRegistry,
+  sessionStoreEntries,
+} from './metrics.js';
+
+vi.mock('./sessionStore.js', () => ({
+  getStoreStats: () => ({ amazonExtender: 2, fintsClients: 0 }),
+}));
+
+describe('metrics', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters with HELP and TYPE lines', () => {
+    const counter = registry.register(new Counter('test_requests_total', 'Test requests'));
+    counter.inc({ method: 'GET', status: '200' });
+    counter.inc({ method: 'GET', status: '200' });
+    counter.inc({ method: 'POST', status: '500' }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP test_requests_total Test requests',
+        '# TYPE test_requests_total counter',
+        'test_requests_total{method="GET",status="200"} 2',
+        'test_requests_total{method="POST",status="500"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should treat label order as the same series', () => {
+    const counter = new Counter('test_total', 'Test');
+    counter.inc({ a: '1', b: '2' });
+    counter.inc({ b: '2', a: '1' });
+
+    expect(counter.get({ a: '1', b: '2' })).toBe(2);
+    expect(counter.renderSamples()).toHaveLength(1);
+  });
+
+  it('should escape label values', () => {
+    const counter = new Counter('test_total', 'Test');
+    counter.inc({ route: 'a"b\\c\nd' });
+
+    expect(counter.renderSamples()).toEqual(['test_total{route="a\\"b\\\\c\\nd"} 1']);
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const histogram = new Histogram('test_duration_seconds', 'Test durations', [0.1, 1]);
+    histogram.observe({ route: '/x' }, 0.05);
+    histogram.observe({ route: '/x' }, 0.5);
+    histogram.observe({ route: '/x' }, 2);
+
+    expect(histogram.renderSamples()).toEqual([
+      'test_duration_seconds_bucket{route="/x",le="0.1"} 1',
+      'test_duration_seconds_bucket{route="/x",le="1"} 2',
+      'test_duration_seconds_bucket{route="/x",le="+Inf"} 3',
+      'test_duration_seconds_sum{route="/x"} 2.55',
+      'test_duration_seconds_count{route="/x"} 3',
+    ]);
+  });
+
+  it('should observe elapsed time with labels added when the timer stops', () => {
+    const histogram = new Histogram('test_duration_seconds', 'Test durations', [1]);
+    const stop = histogram.startTimer({ provider: 'openai' });
+
+    const seconds = stop({ outcome: 'success' });
+
+    expect(seconds).toBeGreaterThanOrEqual(0);
+    expect(histogram.renderSamples()).toContain(
+      'test_duration_seconds_count{provider="openai",outcome="success"} 1'
+    );
+  });
+
+  it('should track gauges going up and down', () => {
+    const gauge = new Gauge('test_open', 'Open things');
+    gauge.inc();
+    gauge.inc();
+    gauge.dec();
+
+    expect(gauge.get()).toBe(1);
+    expect(gauge.renderSamples()).toEqual(['test_open 1']);
+  });
+
+  it('should collect session store entries when rendered', () => {
+    expect(sessionStoreEntries.renderSamples()).toEqual([
+      'toolbox_session_store_entries{store="amazonExtender"} 2',
+      'toolbox_session_store_entries{store="fintsClients"} 0',
+    ]);
+  });
+
+  it('should expose all application metrics', () => {
+    const output = metricsRegistry.render();
+
+    for (const name of [
+      'toolbox_http_requests_total',
+      'toolbox_http_request_duration_seconds',
+      'toolbox_firefly_api_requests_total',
+      'toolbox_firefly_api_errors_total',
+      'toolbox_ai_request_duration_seconds',
+      'toolbox_ai_request_failures_total',
+      'toolbox_fints_dialogs_total',
+      'toolbox_sse_streams_open',
+      'toolbox_session_store_entries',
+    ]) {
+      expect(output).toContain(`# TYPE ${name} `);
+    }
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Prometheus Metrics
+ *
+ * Small metric registry rendering the Prometheus text exposition format for
+ * GET /api/metrics. Counters, gauges and histograms keep one series per label
+ * combination; gauges can also be computed when the metrics are scraped.
+ */
+
+import { getStoreStats } from './sessionStore.js';
+
+/** Content type of the Prometheus text exposition format */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Default histogram buckets in seconds (HTTP and Firefly III request latencies) */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/** Histogram buckets in seconds for AI requests, which take much longer */
+const AI_BUCKETS = [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300];
+
+export type MetricLabels = Record<string, string>;
+
+interface Series<T> {
+  labels: MetricLabels;
+  value: T;
+}
+
+/**
+ * What the registry needs to render a metric
+ */
+interface RegisteredMetric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  renderSamples(): string[];
+  reset(): void;
+}
+
+/**
+ * Base class keeping one series per label combination
+ */
+abstract class Metric<T> implements RegisteredMetric {
+  readonly name: string;
+  readonly help: string;
+  protected series: Map<string, Series<T>> = new Map();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  /** Render the samples of this metric (without HELP/TYPE lines) */
+  abstract renderSamples(): string[];
+
+  /** Remove all series */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected getSeries(labels: MetricLabels, initial: () => T): Series<T> {
+    const key = getSeriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  /** Current value of a series (0 if it was never incremented) */
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(getSeriesKey(labels))?.value ?? 0;
+  }
+
+  renderSamples(): string[] {
+    return Array.from(this.series.values()).map(
+      (series) => `${this.name}${formatLabels(series.labels)} ${formatValue(series.value)}`
+    );
+  }
+}
+
+/**
+ * Value that can go up and down, optionally computed at scrape time
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+  private collect?: () => Series<number>[];
+
+  /**
+   * @param collect - Computes the series when scraped instead of tracking them
+   */
+  constructor(name: string, help: string, collect?: () => Series<number>[]) {
+    super(name, help);
+    this.collect = collect;
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  dec(labels: MetricLabels = {}, value = 1): void {
+    this.getSeries(labels, () => 0).value -= value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(getSeriesKey(labels))?.value ?? 0;
+  }
+
+  renderSamples(): string[] {
+    const series = this.collect ? this.collect() : Array.from(this.series.values());
+    return series.map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+interface HistogramValue {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values (e.g. durations) in cumulative buckets
+ */
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram';
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.getSeries(labels, () => ({
+      bucketCounts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.value.bucketCounts[index]++;
+    });
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  /**
+   * Start a timer; calling the returned function observes the elapsed seconds
+   */
+  startTimer(labels: MetricLabels = {}): (extraLabels?: MetricLabels) => number {
+    const start = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  renderSamples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const bucketLabels = { ...labels, le: formatValue(bound) };
+        lines.push(`${this.name}_bucket${formatLabels(bucketLabels)} ${value.bucketCounts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Collection of metrics rendered together
+ */
+export class MetricsRegistry {
+  private metrics: RegisteredMetric[] = [];
+
+  register<M extends RegisteredMetric>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.renderSamples());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /** Remove all recorded series (for tests) */
+  reset(): void {
+    for (const metric of this.metrics) {
+      metric.reset();
+    }
+  }
+}
+
+function getSeriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+// ============================================
+// Application Metrics
+// ============================================
+
+/** Registry exposed at /api/metrics */
+export const metricsRegistry = new MetricsRegistry();
+
+export const httpRequestsTotal = metricsRegistry.register(
+  new Counter('toolbox_http_requests_total', 'API requests by route and status code')
+);
+
+export const httpRequestDuration = metricsRegistry.register(
+  new Histogram('toolbox_http_request_duration_seconds', 'API request duration by route')
+);
+
+export const fireflyApiRequestsTotal = metricsRegistry.register(
+  new Counter('toolbox_firefly_api_requests_total', 'Requests made to the Firefly III API')
+);
+
+export const fireflyApiErrorsTotal = metricsRegistry.register(
+  new Counter(
+    'toolbox_firefly_api_errors_total',
+    'Failed Firefly III API requests (error responses and network errors)'
+  )
+);
+
+export const aiRequestDuration = metricsRegistry.register(
+  new Histogram('toolbox_ai_request_duration_seconds', 'AI chat request duration', AI_BUCKETS)
+);
+
+export const aiRequestFailuresTotal = metricsRegistry.register(
+  new Counter('toolbox_ai_request_failures_total', 'Failed AI chat requests')
+);
+
+export const fintsDialogsTotal = metricsRegistry.register(
+  new Counter('toolbox_fints_dialogs_total', 'FinTS dialog steps by outcome')
+);
+
+export const sseStreamsOpen = metricsRegistry.register(
+  new Gauge('toolbox_sse_streams_open', 'Server-sent event streams currently open')
+);
+
+export const sessionStoreEntries = metricsRegistry.register(
+  new Gauge('toolbox_session_store_entries', 'Entries held in session-scoped stores', () =>
+    Object.entries(getStoreStats()).map(([store, value]) => ({ labels: { store }, value }))
+  )
+);
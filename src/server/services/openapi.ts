@@ -0,0 +1,332 @@
+/**
+ * OpenAPI Document Generator
+ *
+ * Builds an OpenAPI 3.1 description of the API from the registered Express
+ * routers: paths and methods come from the route registrations, request bodies
+ * from the Zod schemas passed to `validateBody`, and summaries from the route
+ * groups' operation docs.
+ */
+
+import type { Router } from 'express';
+import { z } from 'zod';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Who may call the operations of a route group
+ * - session: signed-in user (session cookie, if auth is configured)
+ * - public: anyone
+ * - metricsToken: bearer token from METRICS_TOKEN (if configured)
+ * - webhookSignature: Firefly III webhook signature
+ */
+export type ApiAccess = 'session' | 'public' | 'metricsToken' | 'webhookSignature';
+
+/**
+ * Documentation of one operation
+ */
+export interface OperationDoc {
+  summary: string;
+  description?: string;
+  /** Query parameters (validated by the handler itself) */
+  query?: z.ZodObject;
+  /** JSON body parsed and validated by the handler itself */
+  body?: z.ZodType;
+  /** Multipart upload with the file in the `file` field */
+  upload?: boolean;
+  /** Responds with a server-sent event stream */
+  stream?: boolean;
+  /** Responds with something other than the JSON envelope (redirects, plain text) */
+  contentType?: string;
+}
+
+/**
+ * A router mounted below /api and the docs of its operations
+ */
+export interface ApiRouteGroup {
+  /** Mount path below /api (e.g. /duplicates) */
+  path: string;
+  router: Router;
+  tag: string;
+  access: ApiAccess;
+  /** Operation docs keyed by "METHOD /path" relative to the mount path */
+  operations: Record<string, OperationDoc>;
+}
+
+/**
+ * A route found in a router
+ */
+export interface RegisteredRoute {
+  method: HttpMethod;
+  /** Express path (e.g. /profiles/:id) */
+  path: string;
+  /** Schema of the body validated by validateBody, if any */
+  bodySchema?: z.ZodType;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Partial<Record<HttpMethod, JsonSchema>>>;
+  components: JsonSchema;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+const STATE_CHANGING_METHODS: HttpMethod[] = ['post', 'put', 'patch', 'delete'];
+
+const API_DESCRIPTION = [
+  'API of Toolbox for Firefly III. All responses except streams use the envelope',
+  '`{ success, data?, error?, message? }`.',
+  '',
+  'Scripts sign in like the browser does: log in (e.g. `POST /api/auth/basic/login`),',
+  'keep the session cookie, read a token from `GET /api/auth/csrf-token` and send it',
+  'in the `X-CSRF-Token` header together with an `Origin` header listed in',
+  '`CORS_ORIGINS` on every POST, PUT, PATCH and DELETE request.',
+].join('\n');
+
+/**
+ * List the routes registered directly on a router
+ */
+export function listRouterRoutes(router: Router): RegisteredRoute[] {
+  const routes: RegisteredRoute[] = [];
+
+  for (const layer of router.stack) {
+    if (!layer.route) continue;
+
+    const bodySchema = layer.route.stack
+      .map((handlerLayer) => getBodySchema(handlerLayer.handle))
+      .find((schema) => schema !== undefined);
+
+    const methods = new Set(layer.route.stack.map((handlerLayer) => handlerLayer.method));
+    for (const method of HTTP_METHODS) {
+      if (methods.has(method)) {
+        routes.push({ method, path: layer.route.path, bodySchema });
+      }
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Key of a route in ApiRouteGroup.operations
+ */
+export function getOperationKey(route: Pick<RegisteredRoute, 'method' | 'path'>): string {
+  return `${route.method.toUpperCase()} ${route.path}`;
+}
+
+/**
+ * Build the OpenAPI document for the given route groups
+ */
+export function buildOpenApiDocument(groups: ApiRouteGroup[], version: string): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const group of groups) {
+    for (const route of listRouterRoutes(group.router)) {
+      const doc = group.operations[getOperationKey(route)];
+      const fullPath = toOpenApiPath(`${group.path}${route.path === '/' ? '' : route.path}`);
+      paths[fullPath] ??= {};
+      paths[fullPath][route.method] = buildOperation(group, route, doc, fullPath);
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Toolbox for Firefly III API', version, description: API_DESCRIPTION },
+    servers: [{ url: '/api' }],
+    tags: [...new Set(groups.map((group) => group.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        sessionCookie: { type: 'apiKey', in: 'cookie', name: 'firefly_toolbox_session' },
+        metricsToken: { type: 'http', scheme: 'bearer' },
+        webhookSignature: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'Signature',
+          description: 'HMAC-SHA3-256 signature of the message with the webhook secret',
+        },
+      },
+      parameters: {
+        CsrfToken: {
+          name: 'X-CSRF-Token',
+          in: 'header',
+          required: false,
+          description: 'Token from GET /auth/csrf-token (required when authentication is enabled)',
+          schema: { type: 'string' },
+        },
+      },
+      schemas: {
+        ApiResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {},
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+          required: ['success'],
+        },
+        ErrorResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', const: false },
+            error: { type: 'string' },
+            requestId: { type: 'string', description: 'Correlation ID for the server logs' },
+            validationErrors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { field: { type: 'string' }, message: { type: 'string' } },
+                required: ['field', 'message'],
+              },
+            },
+          },
+          required: ['success', 'error'],
+        },
+      },
+    },
+  };
+}
+
+function buildOperation(
+  group: ApiRouteGroup,
+  route: RegisteredRoute,
+  doc: OperationDoc | undefined,
+  fullPath: string
+): JsonSchema {
+  const parameters: JsonSchema[] = Array.from(fullPath.matchAll(/\{(\w+)\}/g), ([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+
+  if (doc?.query) {
+    const querySchema = toJsonSchema(doc.query);
+    const properties = (querySchema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = new Set((querySchema.required ?? []) as string[]);
+    for (const [name, schema] of Object.entries(properties)) {
+      parameters.push({ name, in: 'query', required: required.has(name), schema });
+    }
+  }
+
+  if (group.access === 'session' && STATE_CHANGING_METHODS.includes(route.method)) {
+    parameters.push({ $ref: '#/components/parameters/CsrfToken' });
+  }
+
+  const responses: JsonSchema = {
+    '200': { description: 'Success', content: getResponseContent(doc) },
+  };
+  if (route.bodySchema || doc?.body || doc?.query) {
+    responses['400'] = errorResponse('Invalid request');
+  }
+  if (group.access !== 'public') {
+    responses['401'] = errorResponse('Not signed in or invalid token');
+  }
+
+  const requestBody = getRequestBody(route, doc);
+
+  return {
+    tags: [group.tag],
+    summary: doc?.summary ?? getOperationKey(route),
+    ...(doc?.description && { description: doc.description }),
+    operationId: toOperationId(route.method, fullPath),
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses,
+    security: getSecurity(group.access),
+  };
+}
+
+function getRequestBody(route: RegisteredRoute, doc: OperationDoc | undefined): JsonSchema | null {
+  if (doc?.upload) {
+    return {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: { file: { type: 'string', format: 'binary' } },
+            required: ['file'],
+          },
+        },
+      },
+    };
+  }
+  const bodySchema = route.bodySchema ?? doc?.body;
+  if (bodySchema) {
+    return {
+      required: true,
+      content: { 'application/json': { schema: toJsonSchema(bodySchema) } },
+    };
+  }
+  return null;
+}
+
+function getResponseContent(doc: OperationDoc | undefined): JsonSchema {
+  if (doc?.stream) {
+    return {
+      'text/event-stream': {
+        schema: { type: 'string', description: 'Events of the form `data: { type, data }`' },
+      },
+    };
+  }
+  if (doc?.contentType) {
+    return { [doc.contentType]: { schema: { type: 'string' } } };
+  }
+  return { 'application/json': { schema: { $ref: '#/components/schemas/ApiResponse' } } };
+}
+
+function errorResponse(description: string): JsonSchema {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+  };
+}
+
+function getSecurity(access: ApiAccess): Array<Record<string, string[]>> {
+  switch (access) {
+    case 'session':
+      return [{ sessionCookie: [] }];
+    case 'metricsToken':
+      // The token is optional, so scraping without one is documented too
+      return [{ metricsToken: [] }, {}];
+    case 'webhookSignature':
+      return [{ webhookSignature: [] }];
+    default:
+      return [];
+  }
+}
+
+function getBodySchema(handler: unknown): z.ZodType | undefined {
+  if (typeof handler === 'function' && 'bodySchema' in handler) {
+    const schema = (handler as { bodySchema: unknown }).bodySchema;
+    return schema instanceof z.ZodType ? schema : undefined;
+  }
+  return undefined;
+}
+
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  // Describe what clients send (before transforms); refinements are not representable
+  const jsonSchema = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }) as JsonSchema;
+  // The dialect is set once for the whole document (OpenAPI 3.1 uses JSON Schema 2020-12)
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function toOperationId(method: HttpMethod, path: string): string {
+  const words = path
+    .replace(/\{(\w+)\}/g, 'by-$1')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+  return method + words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+}
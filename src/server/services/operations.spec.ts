@@ -0,0 +1,322 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OperationLog } from './operations.js';
+import { AuditLog, runWithAuditContext, type AuditChange } from './auditLog.js';
+import { MemoryPersistenceBackend } from './persistence.js';
+import { runWithFireflyApi, type FireflyApiClient } from '../clients/firefly.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createChange(overrides: Partial<AuditChange> = {}): AuditChange {
+  return {
+    action: 'update',
+    resource: 'transaction',
+    resourceId: '100',
+    journalId: '200',
+    summary: 'Updated category of "Coffee"',
+    before: { description: 'Coffee', category_id: null, category_name: null, tags: [] },
+    after: { description: 'Coffee', category_id: '5', category_name: 'Food', tags: [] },
+    ...overrides,
+  };
+}
+
+describe('OperationLog', () => {
+  let auditLog: AuditLog;
+  let operationLog: OperationLog;
+  let fireflyApi: {
+    updateTransaction: ReturnType<typeof vi.fn>;
+    createTransaction: ReturnType<typeof vi.fn>;
+    deleteTransaction: ReturnType<typeof vi.fn>;
+  };
+
+  /** Record a change, advancing time so entries have distinct timestamps */
+  function record(change: AuditChange) {
+    vi.advanceTimersByTime(1000);
+    return auditLog.record(change);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-01T12:00:00.000Z'));
+    const backend = new MemoryPersistenceBackend();
+    auditLog = new AuditLog(backend, 0);
+    operationLog = new OperationLog(backend, auditLog, 0);
+    fireflyApi = {
+      updateTransaction: vi.fn().mockResolvedValue({}),
+      createTransaction: vi.fn().mockResolvedValue({}),
+      deleteTransaction: vi.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('run', () => {
+    it('should group changes under an operation attributed to the current context', async () => {
+      const { result, operation } = await runWithAuditContext(
+        { user: 'alice', tool: 'suggestions' },
+        () =>
+          operationLog.run('categories', async () => {
+            record(createChange());
+            record(createChange({ resourceId: '101', journalId: '201' }));
+            return 'done';
+          })
+      );
+
+      expect(result).toBe('done');
+      expect(operation).toMatchObject({
+        kind: 'categories',
+        user: 'alice',
+        tool: 'suggestions',
+        changeCount: 2,
+        status: 'applied',
+      });
+      expect(operationLog.get(operation!.id)).toEqual(operation);
+      expect(auditLog.query({ operationId: operation!.id }).total).toBe(2);
+    });
+
+    it('should only list operations of the Firefly III account in scope', async () => {
+      const { operation: shared } = await operationLog.run('categories', async () => {
+        record(createChange());
+      });
+      const { operation: own } = await runWithFireflyApi(
+        fireflyApi as unknown as FireflyApiClient,
+        () => operationLog.run('tags', async () => record(createChange())),
+        'default',
+        'firefly:7'
+      );
+
+      expect(own?.account).toBe('firefly:7');
+      expect(operationLog.list(10, { profileId: 'default', account: 'firefly:7' })).toEqual([own]);
+      expect(operationLog.list(10, { profileId: 'default', account: null })).toEqual([shared]);
+      expect(operationLog.list(10, { profileId: 'savings', account: null })).toEqual([]);
+      expect(operationLog.list()).toHaveLength(2);
+    });
+
+    it('should not keep an operation without changes', async () => {
+      const { operation } = await operationLog.run('tags', async () => undefined);
+
+      expect(operation).toBeNull();
+      expect(operationLog.list()).toEqual([]);
+    });
+
+    it('should keep changes made before a failure', async () => {
+      await expect(
+        operationLog.run('categories', async () => {
+          record(createChange());
+          throw new Error('Firefly III is down');
+        })
+      ).rejects.toThrow('Firefly III is down');
+
+      expect(operationLog.list()).toHaveLength(1);
+      expect(operationLog.list()[0].changeCount).toBe(1);
+    });
+  });
+
+  describe('revert', () => {
+    it('should restore only the fields the operation changed', async () => {
+      const { operation } = await operationLog.run('categories', async () => {
+        record(createChange());
+      });
+
+      const result = await operationLog.revert(
+        operation!.id,
+        fireflyApi as unknown as FireflyApiClient
+      );
+
+      expect(fireflyApi.updateTransaction).toHaveBeenCalledWith('100', '200', {
+        category_id: null,
+        category_name: null,
+      });
+      expect(result).toMatchObject({ reverted: 1, failed: [] });
+      expect(result!.operation.status).toBe('reverted');
+      expect(operationLog.get(operation!.id)!.status).toBe('reverted');
+    });
+
+    it('should restore renamed counterparties', async () => {
+      const { operation } = await operationLog.run('findReplace', async () => {
+        record(
+          createChange({
+            before: { description: 'Groceries', destination_name: 'REWE SAGT DANKE 12345' },
+            after: { description: 'Groceries', destination_name: 'REWE' },
+          })
+        );
+      });
+
+      await operationLog.revert(operation!.id, fireflyApi as unknown as FireflyApiClient);
+
+      expect(fireflyApi.updateTransaction).toHaveBeenCalledWith('100', '200', {
+        destination_name: 'REWE SAGT DANKE 12345',
+      });
+    });
+
+    it('should restore budgets, external IDs and SEPA fields of merged transactions', async () => {
+      const { operation } = await operationLog.run('duplicateMerge', async () => {
+        record(
+          createChange({
+            before: { budget_id: null, budget_name: null, external_id: null, sepa_ct_id: null },
+            after: { budget_id: '3', budget_name: 'Food', external_id: 'x1', sepa_ct_id: '4711' },
+          })
+        );
+      });
+
+      await operationLog.revert(operation!.id, fireflyApi as unknown as FireflyApiClient);
+
+      expect(fireflyApi.updateTransaction).toHaveBeenCalledWith('100', '200', {
+        budget_id: null,
+        budget_name: null,
+        external_id: null,
+        sepa_ct_id: null,
+      });
+    });
+
+    it('should re-create deleted transactions with all of their splits', async () => {
+      const { operation } = await operationLog.run('duplicateDelete', async () => {
+        for (const [journalId, amount] of [
+          ['200', '10.00'],
+          ['201', '5.00'],
+        ]) {
+          record(
+            createChange({
+              action: 'delete',
+              journalId,
+              summary: 'Deleted "Groceries"',
+              before: {
+                type: 'withdrawal',
+                date: '2024-05-01T00:00:00+00:00',
+                amount,
+                description: 'Groceries',
+                source_id: '1',
+                destination_id: '2',
+                category_id: null,
+                tags: ['food'],
+              },
+              after: null,
+            })
+          );
+        }
+      });
+
+      await operationLog.revert(operation!.id, fireflyApi as unknown as FireflyApiClient);
+
+      expect(fireflyApi.createTransaction).toHaveBeenCalledTimes(1);
+      const payload = fireflyApi.createTransaction.mock.calls[0][0];
+      expect(payload).toMatchObject({ error_if_duplicate_hash: false, apply_rules: false });
+      expect(payload.transactions.map((split: { amount: string }) => split.amount)).toEqual([
+        '10.00',
+        '5.00',
+      ]);
+      expect(payload.transactions[0]).not.toHaveProperty('category_id');
+      expect(payload.transactions[0]).toMatchObject({ source_id: '1', tags: ['food'] });
+    });
+
+    it('should delete created transactions after re-creating the ones they replaced', async () => {
+      const { operation } = await operationLog.run('transferPairs', async () => {
+        record(
+          createChange({
+            action: 'create',
+            resourceId: '300',
+            journalId: '400',
+            summary: 'Created transfer "Savings"',
+            before: null,
+            after: { type: 'transfer', amount: '100.00' },
+          })
+        );
+        record(
+          createChange({
+            action: 'delete',
+            summary: 'Deleted withdrawal "Savings"',
+            before: {
+              type: 'withdrawal',
+              date: '2024-05-01T00:00:00+00:00',
+              amount: '100.00',
+              description: 'Savings',
+              tags: [],
+            },
+            after: null,
+          })
+        );
+      });
+
+      const result = await operationLog.revert(
+        operation!.id,
+        fireflyApi as unknown as FireflyApiClient
+      );
+
+      expect(result).toMatchObject({ reverted: 2, failed: [] });
+      expect(fireflyApi.createTransaction).toHaveBeenCalledTimes(1);
+      expect(fireflyApi.deleteTransaction).toHaveBeenCalledWith('300');
+      expect(fireflyApi.createTransaction.mock.invocationCallOrder[0]).toBeLessThan(
+        fireflyApi.deleteTransaction.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should mark failures as partially reverted and retry only those', async () => {
+      const { operation } = await operationLog.run('tags', async () => {
+        record(createChange({ before: { tags: [] }, after: { tags: ['coffee'] } }));
+        record(
+          createChange({
+            resourceId: '101',
+            journalId: '201',
+            before: { tags: [] },
+            after: { tags: ['tea'] },
+          })
+        );
+      });
+      fireflyApi.updateTransaction.mockRejectedValueOnce(new Error('Not found'));
+
+      const first = await operationLog.revert(
+        operation!.id,
+        fireflyApi as unknown as FireflyApiClient
+      );
+
+      // Entries are reverted newest first
+      expect(first).toMatchObject({
+        reverted: 1,
+        failed: [{ transactionId: '101', error: 'Not found' }],
+      });
+      expect(first!.operation.status).toBe('partiallyReverted');
+
+      fireflyApi.updateTransaction.mockClear();
+      const second = await operationLog.revert(
+        operation!.id,
+        fireflyApi as unknown as FireflyApiClient
+      );
+
+      expect(fireflyApi.updateTransaction).toHaveBeenCalledTimes(1);
+      expect(fireflyApi.updateTransaction).toHaveBeenCalledWith('101', '201', { tags: [] });
+      expect(second!.operation.status).toBe('reverted');
+    });
+
+    it('should return undefined for unknown operations', async () => {
+      expect(
+        await operationLog.revert('missing', fireflyApi as unknown as FireflyApiClient)
+      ).toBeUndefined();
+    });
+  });
+
+  describe('prune', () => {
+    it('should remove operations older than the retention period', async () => {
+      const backend = new MemoryPersistenceBackend();
+      auditLog = new AuditLog(backend, 30 * DAY_MS);
+      operationLog = new OperationLog(backend, auditLog, 30 * DAY_MS);
+
+      await operationLog.run('categories', async () => {
+        record(createChange());
+      });
+      vi.advanceTimersByTime(31 * DAY_MS);
+
+      expect(operationLog.list()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Revertible Bulk Operations
+ *
+ * Groups the audit log entries written by one bulk apply (Amazon/PayPal descriptions,
+ * AI categories and tags, duplicate bulk delete) into an operation that can be
+ * reverted as a whole:
+ * - Updated splits get their previous description, notes, tags and category back
+ *   (only fields the operation changed are restored)
+ * - Deleted transactions are re-created from their snapshot (with new IDs)
+ * - Created transactions (e.g. transfers replacing a withdrawal/deposit pair)
+ *   are deleted again
+ *
+ * Reverting is retryable: entries that were already reverted are skipped.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import {
+  getActiveFireflyProfile,
+  getFireflyAccount,
+  type FireflyApiClient,
+} from '../clients/firefly.js';
+import { getPersistenceBackend, type PersistenceBackend } from './persistence.js';
+import {
+  getAuditContext,
+  getAuditLog,
+  isInAuditScope,
+  runWithAuditContext,
+  type AuditLog,
+  type AuditScope,
+} from './auditLog.js';
+import { SEPA_FIELDS } from '../../shared/types/firefly.js';
+import type {
+  AuditEntry,
+  BulkOperation,
+  BulkOperationKind,
+  OperationRevertResult,
+} from '../../shared/types/app.js';
+
+const logger = createLogger('Operations');
+
+/** Persistence namespace for bulk operations */
+const OPERATION_NAMESPACE = 'operations';
+
+/** Default number of operations returned by list() */
+export const DEFAULT_OPERATION_LIMIT = 50;
+
+type RecreatedTransaction = Parameters<FireflyApiClient['createTransaction']>[0];
+type RecreatedSplit = RecreatedTransaction['transactions'][number];
+
+/** Optional split fields copied when re-creating a deleted transaction */
+const RECREATED_FIELDS = [
+  'source_id',
+  'destination_id',
+  'category_id',
+  'budget_id',
+  'notes',
+  'currency_code',
+  'foreign_amount',
+  'foreign_currency_code',
+  'internal_reference',
+  'external_id',
+  'external_url',
+  'sepa_cc',
+  'sepa_ct_op',
+  'sepa_ct_id',
+  'sepa_db',
+  'sepa_country',
+  'sepa_ep',
+  'sepa_ci',
+  'sepa_batch_id',
+  'interest_date',
+  'book_date',
+  'process_date',
+  'due_date',
+  'payment_date',
+  'invoice_date',
+] as const;
+
+/**
+ * Convert a deleted split snapshot back into a create payload
+ */
+function toRecreatedSplit(snapshot: Record<string, unknown>): RecreatedSplit {
+  const split: RecreatedSplit = {
+    type: snapshot.type as RecreatedSplit['type'],
+    date: String(snapshot.date),
+    amount: String(snapshot.amount),
+    description: String(snapshot.description),
+    tags: Array.isArray(snapshot.tags) ? (snapshot.tags as string[]) : [],
+  };
+
+  for (const field of RECREATED_FIELDS) {
+    const value = snapshot[field];
+    if (value !== null && value !== undefined && value !== '') {
+      split[field] = String(value);
+    }
+  }
+
+  return split;
+}
+
+/**
+ * Check whether a field differs between the before and after snapshot of an entry
+ */
+function hasChanged(entry: AuditEntry, field: string): boolean {
+  return (
+    JSON.stringify(entry.before?.[field] ?? null) !== JSON.stringify(entry.after?.[field] ?? null)
+  );
+}
+
+/**
+ * Persistent record of revertible bulk operations
+ */
+export class OperationLog {
+  private backend: PersistenceBackend;
+  private auditLog: AuditLog;
+  private retentionMs: number;
+  private reverting: Set<string> = new Set();
+
+  constructor(
+    backend: PersistenceBackend = getPersistenceBackend(),
+    auditLog: AuditLog = getAuditLog(),
+    retentionMs: number = config.audit.retentionMs
+  ) {
+    this.backend = backend;
+    this.auditLog = auditLog;
+    this.retentionMs = retentionMs;
+  }
+
+  /**
+   * Run a bulk apply as an operation. Changes audited while it runs are grouped
+   * under the operation; no operation is kept if nothing was changed.
+   */
+  async run<T>(
+    kind: BulkOperationKind,
+    fn: () => Promise<T>
+  ): Promise<{ result: T; operation: BulkOperation | null }> {
+    const context = getAuditContext();
+    const operation: BulkOperation = {
+      id: crypto.randomUUID(),
+      kind,
+      tool: context?.tool ?? null,
+      user: context?.user ?? null,
+      account: getFireflyAccount(),
+      createdAt: new Date().toISOString(),
+      profileId: getActiveFireflyProfile().id,
+      changeCount: 0,
+      status: 'applied',
+      revertedAt: null,
+      revertedEntryIds: [],
+    };
+
+    let result: T;
+    try {
+      result = await runWithAuditContext(
+        { user: operation.user, tool: operation.tool, operationId: operation.id },
+        fn
+      );
+    } finally {
+      // Also keep changes made before a failure revertible
+      operation.changeCount = this.auditLog.listOperationEntries(operation.id).length;
+      if (operation.changeCount > 0) {
+        this.write(operation);
+      }
+    }
+
+    return { result, operation: operation.changeCount > 0 ? operation : null };
+  }
+
+  /**
+   * List operations, newest first (only those of the given scope, if any)
+   */
+  list(limit: number = DEFAULT_OPERATION_LIMIT, scope?: AuditScope): BulkOperation[] {
+    this.prune();
+
+    return this.readAll()
+      .filter((operation) => !scope || isInAuditScope(operation, scope))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * Get an operation by ID
+   */
+  get(id: string): BulkOperation | undefined {
+    const record = this.backend.get(OPERATION_NAMESPACE, id);
+    if (!record) return undefined;
+
+    try {
+      return JSON.parse(record.value) as BulkOperation;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable operation ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Check whether an operation is currently being reverted
+   */
+  isReverting(id: string): boolean {
+    return this.reverting.has(id);
+  }
+
+  /**
+   * Revert an operation. Returns undefined if the operation does not exist or
+   * is already being reverted.
+   */
+  async revert(
+    id: string,
+    fireflyApi: FireflyApiClient
+  ): Promise<OperationRevertResult | undefined> {
+    const operation = this.get(id);
+    if (!operation || this.reverting.has(id)) return undefined;
+
+    this.reverting.add(id);
+    try {
+      const reverted = new Set(operation.revertedEntryIds);
+      const pending = this.auditLog
+        .listOperationEntries(id)
+        .filter((entry) => !reverted.has(entry.id))
+        .reverse();
+
+      const result: OperationRevertResult = { operation, reverted: 0, failed: [] };
+
+      for (const step of this.planRevert(pending)) {
+        const transactionId = step[0].resourceId;
+        try {
+          if (step[0].action === 'create') {
+            await fireflyApi.deleteTransaction(transactionId);
+          } else if (step[0].action === 'delete') {
+            await fireflyApi.createTransaction({
+              error_if_duplicate_hash: false,
+              apply_rules: false,
+              fire_webhooks: false,
+              transactions: step.map((entry) => toRecreatedSplit(entry.before ?? {})),
+            });
+          } else {
+            await this.restoreSplit(fireflyApi, step[0]);
+          }
+          step.forEach((entry) => reverted.add(entry.id));
+          result.reverted++;
+        } catch (error) {
+          result.failed.push({
+            transactionId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      result.operation = {
+        ...operation,
+        status: result.failed.length > 0 ? 'partiallyReverted' : 'reverted',
+        revertedAt: new Date().toISOString(),
+        revertedEntryIds: [...reverted],
+      };
+      this.write(result.operation);
+
+      logger.info(
+        `Reverted operation ${id}: ${result.reverted} transactions restored, ${result.failed.length} failed`
+      );
+      return result;
+    } finally {
+      this.reverting.delete(id);
+    }
+  }
+
+  /**
+   * Remove operations older than the audit retention period
+   */
+  prune(): number {
+    if (this.retentionMs <= 0) return 0;
+
+    const cutoff = new Date(Date.now() - this.retentionMs).toISOString();
+    let removed = 0;
+    for (const operation of this.readAll()) {
+      if (operation.createdAt < cutoff) {
+        this.backend.delete(OPERATION_NAMESPACE, operation.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Group entries into revert steps: one per updated split, one per deleted
+   * transaction (all of its splits are re-created together) and one per created
+   * transaction (deleted as a whole). Entry order is kept.
+   */
+  private planRevert(entries: AuditEntry[]): AuditEntry[][] {
+    const steps: AuditEntry[][] = [];
+    const deletedGroups = new Map<string, AuditEntry[]>();
+    const createdGroups = new Map<string, AuditEntry[]>();
+
+    for (const entry of entries) {
+      if (entry.resource !== 'transaction') continue;
+
+      if (entry.action === 'delete' || entry.action === 'create') {
+        const groups = entry.action === 'delete' ? deletedGroups : createdGroups;
+        const group = groups.get(entry.resourceId);
+        if (group) {
+          group.push(entry);
+        } else {
+          const newGroup = [entry];
+          groups.set(entry.resourceId, newGroup);
+          steps.push(newGroup);
+        }
+      } else if (entry.action === 'update' && entry.journalId) {
+        steps.push([entry]);
+      }
+    }
+
+    // Splits were recorded in order; restore that order for re-creation
+    deletedGroups.forEach((group) => group.reverse());
+    return steps;
+  }
+
+  /**
+   * Restore the fields an update changed to their previous values
+   */
+  private async restoreSplit(fireflyApi: FireflyApiClient, entry: AuditEntry): Promise<void> {
+    const before = entry.before ?? {};
+    const updates: Parameters<FireflyApiClient['updateTransaction']>[2] = {};
+
+    if (hasChanged(entry, 'description')) {
+      updates.description = String(before.description);
+    }
+    if (hasChanged(entry, 'notes')) {
+      updates.notes = (before.notes as string | null) ?? null;
+    }
+    if (hasChanged(entry, 'source_name')) {
+      updates.source_name = String(before.source_name);
+    }
+    if (hasChanged(entry, 'destination_name')) {
+      updates.destination_name = String(before.destination_name);
+    }
+    if (hasChanged(entry, 'tags')) {
+      updates.tags = Array.isArray(before.tags) ? (before.tags as string[]) : [];
+    }
+    if (hasChanged(entry, 'category_id') || hasChanged(entry, 'category_name')) {
+      updates.category_id = (before.category_id as string | null) ?? null;
+      updates.category_name = (before.category_name as string | null) ?? null;
+    }
+    if (hasChanged(entry, 'budget_id') || hasChanged(entry, 'budget_name')) {
+      updates.budget_id = (before.budget_id as string | null) ?? null;
+      updates.budget_name = (before.budget_name as string | null) ?? null;
+    }
+    for (const field of ['external_id', ...SEPA_FIELDS] as const) {
+      if (hasChanged(entry, field)) {
+        updates[field] = (before[field] as string | null) ?? null;
+      }
+    }
+
+    if (Object.keys(updates).length === 0) return;
+    await fireflyApi.updateTransaction(entry.resourceId, entry.journalId as string, updates);
+  }
+
+  private readAll(): BulkOperation[] {
+    const operations: BulkOperation[] = [];
+    for (const record of this.backend.list(OPERATION_NAMESPACE)) {
+      try {
+        operations.push(JSON.parse(record.value) as BulkOperation);
+      } catch (error) {
+        logger.warn(`Ignoring unreadable operation ${record.key}:`, error);
+      }
+    }
+    return operations;
+  }
+
+  private write(operation: BulkOperation): void {
+    this.backend.set(OPERATION_NAMESPACE, operation.id, JSON.stringify(operation));
+  }
+}
+
+// Shared operation log instance, created lazily on first use
+let operationLogInstance: OperationLog | null = null;
+
+/**
+ * Get the shared operation log
+ */
+export function getOperationLog(): OperationLog {
+  if (!operationLogInstance) {
+    operationLogInstance = new OperationLog();
+  }
+  return operationLogInstance;
+}
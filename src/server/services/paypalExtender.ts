@@ -1,6 +1,7 @@
-import { FireflyApiClient } from '../clients/firefly.js';
+import { FireflyApiClient, getFireflyApi, type FireflyOwner } from '../clients/firefly.js';
 import { parseAmount } from '../utils/amountParser.js';
 import { createLogger } from '../utils/logger.js';
+import { getSearchableDescription, getTotalAmount } from '../../shared/utils/transactions.js';
 import type { FireflyTransaction } from '../../shared/types/firefly.js';
 import type {
   PayPalTransaction,
@@ -106,13 +107,21 @@ const CSV_HEADER_MAP: Record<string, keyof PayPalTransaction> = {
 };
 
 export class PayPalExtender {
-  private fireflyApi: FireflyApiClient;
+  /**
+   * Resolves the Firefly API client on every call: extenders live in the session
+   * store, while the request's client changes when its access token is refreshed
+   */
+  private getApi: () => FireflyApiClient;
   private paypalTransactions: PayPalTransaction[] = [];
   private cachedFireflyTransactions: FireflyTransaction[] | null = null;
   private cachedDateRange: { startDate?: string; endDate?: string } | null = null;
 
-  constructor(fireflyApi: FireflyApiClient) {
-    this.fireflyApi = fireflyApi;
+  constructor(
+    /** Firefly III book the uploaded transactions belong to (null if unknown) */
+    readonly owner: FireflyOwner | null = null,
+    getApi: () => FireflyApiClient = getFireflyApi
+  ) {
+    this.getApi = getApi;
   }
 
   /**
@@ -363,31 +372,29 @@ export class PayPalExtender {
       transactions = this.cachedFireflyTransactions;
     } else {
       logger.debug('Fetching transactions from Firefly III');
-      transactions = await this.fireflyApi.getAllTransactions(startDate, endDate, 'withdrawal');
+      transactions = await this.getApi().getAllTransactions(startDate, endDate, 'withdrawal');
       logger.info(`Fetched ${transactions.length} total transactions`);
       // Cache for potential reuse
       this.cachedFireflyTransactions = transactions;
       this.cachedDateRange = { startDate, endDate };
     }
 
-    // Filter for PayPal-related transactions
-    const filtered = transactions.filter((t) => {
-      const split = t.attributes.transactions[0];
-      if (!split) return false;
-
-      const description = split.description.toLowerCase();
-      const destination = split.destination_name?.toLowerCase() || '';
-      const source = split.source_name?.toLowerCase() || '';
-
-      const paypalIndicators = ['paypal', 'pp.', 'pp *', 'paypal *'];
-
-      return paypalIndicators.some(
-        (indicator) =>
-          description.includes(indicator) ||
-          destination.includes(indicator) ||
-          source.includes(indicator)
-      );
-    });
+    // Filter for PayPal-related transactions (any of their splits)
+    const paypalIndicators = ['paypal', 'pp.', 'pp *', 'paypal *'];
+    const filtered = transactions.filter((t) =>
+      t.attributes.transactions.some((split) => {
+        const description = split.description.toLowerCase();
+        const destination = split.destination_name?.toLowerCase() || '';
+        const source = split.source_name?.toLowerCase() || '';
+
+        return paypalIndicators.some(
+          (indicator) =>
+            description.includes(indicator) ||
+            destination.includes(indicator) ||
+            source.includes(indicator)
+        );
+      })
+    );
 
     return filtered;
   }
@@ -417,10 +424,9 @@ export class PayPalExtender {
     // Filter out transactions that have already been processed
     if (excludeProcessed) {
       const initialCount = transactions.length;
-      transactions = transactions.filter((t) => {
-        const split = t.attributes.transactions[0];
-        return !split?.tags?.includes(PAYPAL_EXTENDER_TAG);
-      });
+      transactions = transactions.filter(
+        (t) => !t.attributes.transactions.some((split) => split.tags?.includes(PAYPAL_EXTENDER_TAG))
+      );
       logger.debug(
         `Filtered out ${initialCount - transactions.length} already processed transactions`
       );
@@ -453,8 +459,10 @@ export class PayPalExtender {
         };
       }
 
-      const amount = Math.abs(parseFloat(split.amount));
+      // A payment can be split into several categories
+      const amount = Math.abs(getTotalAmount(transaction));
       const transactionDate = new Date(split.date);
+      const description = getSearchableDescription(transaction);
 
       // Try to find matching PayPal transaction
       let bestMatch: PayPalTransaction | null = null;
@@ -465,7 +473,7 @@ export class PayPalExtender {
         const { confidence, breakdown } = this.calculateMatchConfidence(
           amount,
           transactionDate,
-          split.description,
+          description,
           ppTransaction
         );
 
@@ -719,7 +727,7 @@ export class PayPalExtender {
     for (const match of matches) {
       try {
         // Get current transaction to merge tags
-        const currentTransaction = await this.fireflyApi.getTransaction(match.transactionId);
+        const currentTransaction = await this.getApi().getTransaction(match.transactionId);
         const currentSplit = currentTransaction.attributes.transactions.find(
           (t) => t.transaction_journal_id === match.journalId
         );
@@ -739,7 +747,7 @@ export class PayPalExtender {
           updateData.notes = match.newNotes;
         }
 
-        await this.fireflyApi.updateTransaction(match.transactionId, match.journalId, updateData);
+        await this.getApi().updateTransaction(match.transactionId, match.journalId, updateData);
         result.successful.push(match.transactionId);
       } catch (error) {
         result.failed.push({
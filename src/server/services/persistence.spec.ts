@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  MemoryPersistenceBackend,
+  SqlitePersistenceBackend,
+  type PersistenceBackend,
+} from './persistence.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const backends: Array<[string, () => PersistenceBackend]> = [
+  ['MemoryPersistenceBackend', () => new MemoryPersistenceBackend()],
+  ['SqlitePersistenceBackend', () => new SqlitePersistenceBackend(':memory:')],
+];
+
+describe.each(backends)('%s', (_name, createBackend) => {
+  let backend: PersistenceBackend;
+
+  afterEach(() => {
+    backend?.close();
+  });
+
+  it('should store and retrieve records', () => {
+    backend = createBackend();
+    backend.set('ns', 'key-1', '{"a":1}', 1000);
+
+    expect(backend.get('ns', 'key-1')).toEqual({ value: '{"a":1}', lastAccessed: 1000 });
+    expect(backend.get('ns', 'missing')).toBeUndefined();
+  });
+
+  it('should replace existing records', () => {
+    backend = createBackend();
+    backend.set('ns', 'key-1', 'first', 1000);
+    backend.set('ns', 'key-1', 'second', 2000);
+
+    expect(backend.get('ns', 'key-1')).toEqual({ value: 'second', lastAccessed: 2000 });
+    expect(backend.count('ns')).toBe(1);
+  });
+
+  it('should keep namespaces separate', () => {
+    backend = createBackend();
+    backend.set('ns-a', 'key', 'a');
+    backend.set('ns-b', 'key', 'b');
+
+    backend.clear('ns-a');
+
+    expect(backend.get('ns-a', 'key')).toBeUndefined();
+    expect(backend.get('ns-b', 'key')?.value).toBe('b');
+  });
+
+  it('should update last access time on touch', () => {
+    backend = createBackend();
+    backend.set('ns', 'key-1', 'value', 1000);
+    backend.touch('ns', 'key-1', 5000);
+    backend.touch('ns', 'missing', 5000);
+
+    expect(backend.get('ns', 'key-1')?.lastAccessed).toBe(5000);
+    expect(backend.count('ns')).toBe(1);
+  });
+
+  it('should delete records', () => {
+    backend = createBackend();
+    backend.set('ns', 'key-1', 'value');
+    backend.delete('ns', 'key-1');
+
+    expect(backend.get('ns', 'key-1')).toBeUndefined();
+    expect(backend.count('ns')).toBe(0);
+  });
+
+  it('should delete records older than a cutoff', () => {
+    backend = createBackend();
+    backend.set('ns', 'old', 'value', 1000);
+    backend.set('ns', 'new', 'value', 3000);
+    backend.set('other', 'old', 'value', 1000);
+
+    expect(backend.deleteOlderThan('ns', 2000)).toBe(1);
+    expect(backend.get('ns', 'old')).toBeUndefined();
+    expect(backend.get('ns', 'new')).toBeDefined();
+    expect(backend.get('other', 'old')).toBeDefined();
+  });
+
+  it('should list records in a namespace', () => {
+    backend = createBackend();
+    backend.set('ns', 'b', 'value-b', 2000);
+    backend.set('ns', 'a', 'value-a', 1000);
+    backend.set('other', 'c', 'value-c');
+
+    const records = backend.list('ns').sort((x, y) => x.key.localeCompare(y.key));
+
+    expect(records).toEqual([
+      { key: 'a', value: 'value-a', lastAccessed: 1000 },
+      { key: 'b', value: 'value-b', lastAccessed: 2000 },
+    ]);
+    expect(backend.list('empty')).toEqual([]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Persistence Backends
+ *
+ * Namespaced key/value storage used to keep session-scoped and shared data across restarts.
+ * Values are stored as serialized strings together with their last access time,
+ * so callers can apply their own TTL/retention rules.
+ *
+ * Backends:
+ * - sqlite: Embedded SQLite database file in DATA_DIR (default)
+ * - memory: In-process map (data is lost on restart)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('Persistence');
+
+/** SQLite database file name inside DATA_DIR */
+const DATABASE_FILE = 'toolbox.db';
+
+/**
+ * A persisted value with its last access timestamp
+ */
+export interface PersistedRecord {
+  value: string;
+  lastAccessed: number;
+}
+
+/**
+ * Storage backend for persisted session data
+ */
+export interface PersistenceBackend {
+  /** Backend name for logging */
+  readonly name: string;
+  /** Get a record, or undefined if it does not exist */
+  get(namespace: string, key: string): PersistedRecord | undefined;
+  /** List all records in a namespace */
+  list(namespace: string): Array<PersistedRecord & { key: string }>;
+  /** Insert or replace a record */
+  set(namespace: string, key: string, value: string, lastAccessed?: number): void;
+  /** Update the last access time of a record */
+  touch(namespace: string, key: string, lastAccessed?: number): void;
+  /** Delete a record */
+  delete(namespace: string, key: string): void;
+  /** Delete all records last accessed before the cutoff, returning the number removed */
+  deleteOlderThan(namespace: string, cutoff: number): number;
+  /** Delete all records in a namespace */
+  clear(namespace: string): void;
+  /** Count records in a namespace */
+  count(namespace: string): number;
+  /** Release resources held by the backend */
+  close(): void;
+}
+
+/**
+ * In-memory backend (no durability, useful for tests and STORAGE_BACKEND=memory)
+ */
+export class MemoryPersistenceBackend implements PersistenceBackend {
+  readonly name = 'memory';
+  private namespaces: Map<string, Map<string, PersistedRecord>> = new Map();
+
+  private getNamespace(namespace: string): Map<string, PersistedRecord> {
+    let records = this.namespaces.get(namespace);
+    if (!records) {
+      records = new Map();
+      this.namespaces.set(namespace, records);
+    }
+    return records;
+  }
+
+  get(namespace: string, key: string): PersistedRecord | undefined {
+    const record = this.namespaces.get(namespace)?.get(key);
+    return record ? { ...record } : undefined;
+  }
+
+  list(namespace: string): Array<PersistedRecord & { key: string }> {
+    const records = this.namespaces.get(namespace);
+    if (!records) return [];
+    return Array.from(records.entries()).map(([key, record]) => ({ key, ...record }));
+  }
+
+  set(namespace: string, key: string, value: string, lastAccessed = Date.now()): void {
+    this.getNamespace(namespace).set(key, { value, lastAccessed });
+  }
+
+  touch(namespace: string, key: string, lastAccessed = Date.now()): void {
+    const record = this.namespaces.get(namespace)?.get(key);
+    if (record) {
+      record.lastAccessed = lastAccessed;
+    }
+  }
+
+  delete(namespace: string, key: string): void {
+    this.namespaces.get(namespace)?.delete(key);
+  }
+
+  deleteOlderThan(namespace: string, cutoff: number): number {
+    const records = this.namespaces.get(namespace);
+    if (!records) return 0;
+
+    let removed = 0;
+    for (const [key, record] of records.entries()) {
+      if (record.lastAccessed < cutoff) {
+        records.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(namespace: string): void {
+    this.namespaces.delete(namespace);
+  }
+
+  count(namespace: string): number {
+    return this.namespaces.get(namespace)?.size ?? 0;
+  }
+
+  close(): void {
+    this.namespaces.clear();
+  }
+}
+
+/**
+ * SQLite backend storing all namespaces in a single table
+ */
+export class SqlitePersistenceBackend implements PersistenceBackend {
+  readonly name = 'sqlite';
+  private db: Database.Database;
+  private statements: {
+    get: Database.Statement<[string, string], { value: string; last_accessed: number }>;
+    list: Database.Statement<[string], { key: string; value: string; last_accessed: number }>;
+    set: Database.Statement<[string, string, string, number]>;
+    touch: Database.Statement<[number, string, string]>;
+    delete: Database.Statement<[string, string]>;
+    deleteOlderThan: Database.Statement<[string, number]>;
+    clear: Database.Statement<[string]>;
+    count: Database.Statement<[string], { count: number }>;
+  };
+
+  /**
+   * @param filename - Database file path, or ':memory:' for a transient database
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS session_data (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        last_accessed INTEGER NOT NULL,
+        PRIMARY KEY (namespace, key)
+      );
+      CREATE INDEX IF NOT EXISTS idx_session_data_last_accessed
+        ON session_data (namespace, last_accessed);
+    `);
+
+    this.statements = {
+      get: this.db.prepare(
+        'SELECT value, last_accessed FROM session_data WHERE namespace = ? AND key = ?'
+      ),
+      list: this.db.prepare(
+        'SELECT key, value, last_accessed FROM session_data WHERE namespace = ? ORDER BY key'
+      ),
+      set: this.db.prepare(
+        'INSERT OR REPLACE INTO session_data (namespace, key, value, last_accessed) VALUES (?, ?, ?, ?)'
+      ),
+      touch: this.db.prepare(
+        'UPDATE session_data SET last_accessed = ? WHERE namespace = ? AND key = ?'
+      ),
+      delete: this.db.prepare('DELETE FROM session_data WHERE namespace = ? AND key = ?'),
+      deleteOlderThan: this.db.prepare(
+        'DELETE FROM session_data WHERE namespace = ? AND last_accessed < ?'
+      ),
+      clear: this.db.prepare('DELETE FROM session_data WHERE namespace = ?'),
+      count: this.db.prepare('SELECT COUNT(*) AS count FROM session_data WHERE namespace = ?'),
+    };
+  }
+
+  get(namespace: string, key: string): PersistedRecord | undefined {
+    const row = this.statements.get.get(namespace, key);
+    return row ? { value: row.value, lastAccessed: row.last_accessed } : undefined;
+  }
+
+  list(namespace: string): Array<PersistedRecord & { key: string }> {
+    return this.statements.list.all(namespace).map((row) => ({
+      key: row.key,
+      value: row.value,
+      lastAccessed: row.last_accessed,
+    }));
+  }
+
+  set(namespace: string, key: string, value: string, lastAccessed = Date.now()): void {
+    this.statements.set.run(namespace, key, value, lastAccessed);
+  }
+
+  touch(namespace: string, key: string, lastAccessed = Date.now()): void {
+    this.statements.touch.run(lastAccessed, namespace, key);
+  }
+
+  delete(namespace: string, key: string): void {
+    this.statements.delete.run(namespace, key);
+  }
+
+  deleteOlderThan(namespace: string, cutoff: number): number {
+    return this.statements.deleteOlderThan.run(namespace, cutoff).changes;
+  }
+
+  clear(namespace: string): void {
+    this.statements.clear.run(namespace);
+  }
+
+  count(namespace: string): number {
+    return this.statements.count.get(namespace)?.count ?? 0;
+  }
+
+  close(): void {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+}
+
+// Shared backend instance, created lazily on first use
+let backendInstance: PersistenceBackend | null = null;
+
+/**
+ * Get the shared persistence backend configured via STORAGE_BACKEND and DATA_DIR
+ */
+export function getPersistenceBackend(): PersistenceBackend {
+  if (!backendInstance) {
+    if (config.storage.backend === 'sqlite') {
+      const filename = path.resolve(config.storage.dataDir, DATABASE_FILE);
+      backendInstance = new SqlitePersistenceBackend(filename);
+      logger.info(`Using SQLite persistence at ${filename}`);
+    } else {
+      backendInstance = new MemoryPersistenceBackend();
+      logger.info('Using in-memory persistence (data is lost on restart)');
+    }
+  }
+  return backendInstance;
+}
+
+/**
+ * Close the shared persistence backend (e.g., on shutdown)
+ */
+export function closePersistenceBackend(): void {
+  if (backendInstance) {
+    backendInstance.close();
+    backendInstance = null;
+  }
+}
@@ -0,0 +1,323 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateTrigger, isTriggerSupported, simulateRules } from './ruleSimulator.js';
+import type {
+  FireflyRule,
+  FireflyRuleGroup,
+  FireflyTransaction,
+  FireflyTransactionSplit,
+} from '../../shared/types/firefly.js';
+
+function createSplit(overrides: Partial<FireflyTransactionSplit> = {}): FireflyTransactionSplit {
+  return {
+    transaction_journal_id: 'j1',
+    type: 'withdrawal',
+    date: '2024-05-01T00:00:00+02:00',
+    amount: '23.40',
+    description: 'SEPA-LASTSCHRIFT REWE SAGT DANKE 12345',
+    source_name: 'Checking',
+    destination_name: 'REWE',
+    category_name: null,
+    budget_name: null,
+    tags: [],
+    notes: null,
+    ...overrides,
+  } as FireflyTransactionSplit;
+}
+
+function createTransaction(
+  id: string,
+  overrides: Partial<FireflyTransactionSplit> = {}
+): FireflyTransaction {
+  return {
+    id,
+    type: 'transactions',
+    attributes: {
+      created_at: '2024-06-01T08:00:00.000Z',
+      updated_at: '2024-06-01T08:00:00.000Z',
+      user: '1',
+      group_title: null,
+      transactions: [createSplit({ transaction_journal_id: `j${id}`, ...overrides })],
+    },
+  };
+}
+
+function createGroup(id: string, order: number, active = true): FireflyRuleGroup {
+  return {
+    id,
+    type: 'rule_groups',
+    attributes: {
+      created_at: '',
+      updated_at: '',
+      title: `Group ${id}`,
+      description: null,
+      order,
+      active,
+    },
+  };
+}
+
+function createRule(
+  id: string,
+  triggers: Array<{ type: string; value?: string; prohibited?: boolean }>,
+  actions: Array<{ type: string; value?: string }>,
+  overrides: Partial<FireflyRule['attributes']> = {}
+): FireflyRule {
+  return {
+    id,
+    type: 'rules',
+    attributes: {
+      created_at: '',
+      updated_at: '',
+      title: `Rule ${id}`,
+      description: null,
+      rule_group_id: 'g1',
+      rule_group_title: 'Group g1',
+      order: Number(id),
+      trigger: 'store-journal',
+      active: true,
+      strict: true,
+      stop_processing: false,
+      triggers: triggers.map((trigger, index) => ({
+        id: `${id}-t${index}`,
+        type: trigger.type,
+        value: trigger.value ?? '',
+        order: index,
+        active: true,
+        stop_processing: false,
+        prohibited: trigger.prohibited,
+      })),
+      actions: actions.map((action, index) => ({
+        id: `${id}-a${index}`,
+        type: action.type,
+        value: action.value ?? '',
+        order: index,
+        active: true,
+        stop_processing: false,
+      })),
+      ...overrides,
+    },
+  } as FireflyRule;
+}
+
+describe('evaluateTrigger', () => {
+  it('should compare text fields case-insensitively', () => {
+    const split = createSplit();
+
+    expect(evaluateTrigger({ type: 'description_contains', value: 'rewe sagt' }, split)).toBe(true);
+    expect(evaluateTrigger({ type: 'description_starts', value: 'sepa' }, split)).toBe(true);
+    expect(evaluateTrigger({ type: 'description_ends', value: 'DANKE' }, split)).toBe(false);
+    expect(evaluateTrigger({ type: 'destination_account_is', value: 'rewe' }, split)).toBe(true);
+    expect(evaluateTrigger({ type: 'account_is', value: 'checking' }, split)).toBe(true);
+  });
+
+  it('should compare absolute amounts, dates and other values', () => {
+    const split = createSplit({ amount: '-23.40', category_name: 'Groceries', tags: ['Food'] });
+
+    expect(evaluateTrigger({ type: 'amount_more', value: '20' }, split)).toBe(true);
+    expect(evaluateTrigger({ type: 'amount_less', value: '20' }, split)).toBe(false);
+    expect(evaluateTrigger({ type: 'amount_exactly', value: '23.4' }, split)).toBe(true);
+    expect(evaluateTrigger({ type: 'date_after', value: '2024-05-01' }, split)).toBe(true);
+    expect(evaluateTrigger({ type: 'date_before', value: '2024-04-30' }, split)).toBe(false);
+    expect(evaluateTrigger({ type: 'category_is', value: 'groceries' }, split)).toBe(true);
+    expect(evaluateTrigger({ type: 'has_no_category', value: '' }, split)).toBe(false);
+    expect(evaluateTrigger({ type: 'tag_is', value: 'food' }, split)).toBe(true);
+    expect(evaluateTrigger({ type: 'transaction_type', value: 'Withdrawal' }, split)).toBe(true);
+  });
+
+  it('should return null for unsupported triggers', () => {
+    expect(evaluateTrigger({ type: 'has_attachments', value: '' }, createSplit())).toBeNull();
+    expect(isTriggerSupported('has_attachments')).toBe(false);
+    expect(isTriggerSupported('source_account_ends')).toBe(true);
+  });
+});
+
+describe('simulateRules', () => {
+  const groups = [createGroup('g1', 1)];
+
+  it('should list the transactions each rule matches and its actions', () => {
+    const result = simulateRules(
+      groups,
+      [
+        createRule(
+          '1',
+          [{ type: 'destination_account_is', value: 'REWE' }],
+          [{ type: 'set_category', value: 'Groceries' }]
+        ),
+        createRule(
+          '2',
+          [{ type: 'amount_more', value: '100' }],
+          [{ type: 'add_tag', value: 'Big' }]
+        ),
+      ],
+      [createTransaction('1'), createTransaction('2', { destination_name: 'Netflix' })]
+    );
+
+    expect(result.transactionCount).toBe(2);
+    expect(result.rules[0]).toMatchObject({
+      id: '1',
+      ruleGroupTitle: 'Group g1',
+      triggers: [
+        { type: 'destination_account_is', value: 'REWE', prohibited: false, supported: true },
+      ],
+      actions: [{ type: 'set_category', value: 'Groceries' }],
+      matchedJournalIds: ['j1'],
+    });
+    expect(result.rules[1].matchedJournalIds).toEqual([]);
+    expect(Object.keys(result.transactions)).toEqual(['j1']);
+    expect(result.overlaps).toEqual([]);
+  });
+
+  it('should require all triggers of strict rules and any of non-strict rules', () => {
+    const triggers = [
+      { type: 'description_contains', value: 'REWE' },
+      { type: 'amount_more', value: '100' },
+    ];
+    const result = simulateRules(
+      groups,
+      [
+        createRule('1', triggers, [{ type: 'add_tag', value: 'A' }]),
+        createRule('2', triggers, [{ type: 'add_tag', value: 'B' }], { strict: false }),
+      ],
+      [createTransaction('1')]
+    );
+
+    expect(result.rules.map((rule) => rule.matchedJournalIds)).toEqual([[], ['j1']]);
+  });
+
+  it('should negate prohibited triggers and skip inactive rules and groups', () => {
+    const result = simulateRules(
+      [...groups, createGroup('g2', 2, false)],
+      [
+        createRule(
+          '1',
+          [{ type: 'destination_account_is', value: 'REWE', prohibited: true }],
+          [{ type: 'add_tag', value: 'A' }]
+        ),
+        createRule('2', [{ type: 'user_action' }], [{ type: 'add_tag', value: 'B' }], {
+          active: false,
+        }),
+        createRule('3', [{ type: 'user_action' }], [{ type: 'add_tag', value: 'C' }], {
+          rule_group_id: 'g2',
+        }),
+      ],
+      [createTransaction('1'), createTransaction('2', { destination_name: 'Netflix' })]
+    );
+
+    expect(result.rules.map((rule) => [rule.active, rule.matchedJournalIds])).toEqual([
+      [true, ['j2']],
+      [false, []],
+      [false, []],
+    ]);
+  });
+
+  it('should ignore unsupported triggers in strict rules only', () => {
+    const triggers = [{ type: 'has_attachments' }, { type: 'description_contains', value: 'REWE' }];
+    const result = simulateRules(
+      groups,
+      [
+        createRule('1', triggers, [{ type: 'add_tag', value: 'A' }]),
+        createRule('2', [{ type: 'has_attachments' }], [{ type: 'add_tag', value: 'B' }], {
+          strict: false,
+        }),
+      ],
+      [createTransaction('1')]
+    );
+
+    expect(result.rules[0].triggers[0].supported).toBe(false);
+    expect(result.rules.map((rule) => rule.matchedJournalIds)).toEqual([['j1'], []]);
+  });
+
+  it('should run rules in group order and stop processing within a group', () => {
+    const match = [{ type: 'description_contains', value: 'REWE' }];
+    const result = simulateRules(
+      [createGroup('g1', 2), createGroup('g2', 1)],
+      [
+        createRule('1', match, [{ type: 'add_tag', value: 'A' }], { stop_processing: true }),
+        createRule('2', match, [{ type: 'add_tag', value: 'B' }]),
+        createRule('3', match, [{ type: 'add_tag', value: 'C' }], { rule_group_id: 'g2' }),
+      ],
+      [createTransaction('1')]
+    );
+
+    expect(result.rules.map((rule) => rule.id)).toEqual(['3', '1', '2']);
+    expect(result.rules[2]).toMatchObject({ matchedJournalIds: [], skippedJournalIds: ['j1'] });
+    expect(result.overlaps).toEqual([{ journalId: 'j1', ruleIds: ['3', '1'], conflicts: [] }]);
+  });
+
+  it('should skip later rule groups after a group that stops processing', () => {
+    const stoppingGroup = createGroup('g1', 1);
+    stoppingGroup.attributes.stop_processing = true;
+    const result = simulateRules(
+      [stoppingGroup, createGroup('g2', 2)],
+      [
+        createRule('1', [{ type: 'description_contains', value: 'REWE' }], []),
+        createRule('2', [{ type: 'amount_more', value: '0' }], [], { rule_group_id: 'g2' }),
+      ],
+      [createTransaction('1'), createTransaction('2', { description: 'Rent' })]
+    );
+
+    expect(result.rules[0].groupStopProcessing).toBe(true);
+    expect(result.rules[1]).toMatchObject({
+      matchedJournalIds: ['j2'],
+      skippedJournalIds: ['j1'],
+    });
+  });
+
+  it('should evaluate later rules with the changes of earlier ones', () => {
+    const result = simulateRules(
+      groups,
+      [
+        createRule(
+          '1',
+          [{ type: 'destination_account_is', value: 'REWE' }],
+          [
+            { type: 'set_category', value: 'Groceries' },
+            { type: 'add_tag', value: 'Food' },
+            { type: 'update_piggy', value: 'Holiday' },
+          ]
+        ),
+        createRule('2', [{ type: 'category_is', value: 'Groceries' }], []),
+        createRule('3', [{ type: 'has_no_tag' }], []),
+      ],
+      [createTransaction('1')]
+    );
+
+    expect(result.rules.map((rule) => rule.matchedJournalIds)).toEqual([['j1'], ['j1'], []]);
+    expect(result.rules[0].actions.map((action) => action.supported)).toEqual([true, true, false]);
+    // Matched splits are listed as they were before the rules ran
+    expect(result.transactions.j1.split.category_name).toBeNull();
+  });
+
+  it('should report rules setting a field to different values as conflicts', () => {
+    const match = [{ type: 'description_contains', value: 'REWE' }];
+    const result = simulateRules(
+      groups,
+      [
+        createRule('1', match, [{ type: 'set_category', value: 'Groceries' }]),
+        createRule('2', match, [
+          { type: 'set_category', value: 'Shopping' },
+          { type: 'add_tag', value: 'Food' },
+        ]),
+        createRule('3', match, [{ type: 'set_category', value: 'Groceries' }]),
+      ],
+      [createTransaction('1')]
+    );
+
+    expect(result.overlaps).toEqual([
+      {
+        journalId: 'j1',
+        ruleIds: ['1', '2', '3'],
+        conflicts: [
+          {
+            field: 'category',
+            values: [
+              { ruleId: '1', value: 'Groceries' },
+              { ruleId: '2', value: 'Shopping' },
+              { ruleId: '3', value: 'Groceries' },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+});
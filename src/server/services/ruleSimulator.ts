@@ -0,0 +1,333 @@
+/**
+ * Rule Simulator
+ *
+ * Evaluates Firefly III rules locally against transactions to show which
+ * transactions each rule would run for, without running them. Rules are applied
+ * in Firefly III's order (rule groups, then rules within a group); a rule that
+ * stops processing skips the later rules of its group for the transactions it
+ * matched, a rule group that stops processing skips the later groups. Like in
+ * Firefly III, later rules see the changes of earlier ones: the actions of each
+ * matched rule are applied to a copy of the split before the next rule is
+ * evaluated (actions the simulator does not know are flagged and leave the copy
+ * unchanged). Transactions matched by several rules are reported as overlaps,
+ * including fields those rules set to different values.
+ *
+ * Text triggers compare case-insensitively like Firefly III. Triggers the
+ * simulator does not know are flagged; in strict rules they are treated as
+ * matching, in non-strict rules as not matching.
+ */
+
+import type {
+  FireflyRule,
+  FireflyRuleGroup,
+  FireflyTransaction,
+  FireflyTransactionSplit,
+} from '../../shared/types/firefly.js';
+import type {
+  RuleSimulationOverlap,
+  RuleSimulationResult,
+  RuleSimulationRule,
+} from '../../shared/types/app.js';
+
+type TextMatcher = (actual: string, expected: string) => boolean;
+type FieldValues = (split: FireflyTransactionSplit) => Array<string | null>;
+
+const TEXT_MATCHERS: Record<string, TextMatcher> = {
+  is: (actual, expected) => actual === expected,
+  contains: (actual, expected) => actual.includes(expected),
+  starts: (actual, expected) => actual.startsWith(expected),
+  ends: (actual, expected) => actual.endsWith(expected),
+};
+
+/** Split fields compared by the text triggers (<field>_is, _contains, _starts, _ends) */
+const TEXT_FIELDS: Record<string, FieldValues> = {
+  description: (split) => [split.description],
+  source_account: (split) => [split.source_name],
+  destination_account: (split) => [split.destination_name],
+  account: (split) => [split.source_name, split.destination_name],
+  notes: (split) => [split.notes],
+  external_id: (split) => [split.external_id],
+  internal_reference: (split) => [split.internal_reference],
+};
+
+function getAmount(split: FireflyTransactionSplit): number {
+  return Math.abs(parseFloat(split.amount));
+}
+
+function getDate(split: FireflyTransactionSplit): string {
+  return split.date.slice(0, 10);
+}
+
+function equalsIgnoreCase(actual: string | null, expected: string): boolean {
+  return (actual ?? '').toLowerCase() === expected.toLowerCase();
+}
+
+/** Triggers comparing other values than text */
+const VALUE_TRIGGERS: Record<string, (split: FireflyTransactionSplit, value: string) => boolean> = {
+  // Runs for every transaction stored or updated by a user
+  user_action: () => true,
+  transaction_type: (split, value) => equalsIgnoreCase(split.type, value),
+  amount_less: (split, value) => getAmount(split) < parseFloat(value),
+  amount_more: (split, value) => getAmount(split) > parseFloat(value),
+  amount_is: (split, value) => getAmount(split) === parseFloat(value),
+  amount_exactly: (split, value) => getAmount(split) === parseFloat(value),
+  // Dates compare inclusively, like Firefly III's search
+  date_on: (split, value) => getDate(split) === value,
+  date_is: (split, value) => getDate(split) === value,
+  date_before: (split, value) => getDate(split) <= value,
+  date_after: (split, value) => getDate(split) >= value,
+  category_is: (split, value) => equalsIgnoreCase(split.category_name, value),
+  has_any_category: (split) => Boolean(split.category_name),
+  has_no_category: (split) => !split.category_name,
+  budget_is: (split, value) => equalsIgnoreCase(split.budget_name, value),
+  has_any_budget: (split) => Boolean(split.budget_name),
+  has_no_budget: (split) => !split.budget_name,
+  bill_is: (split, value) => equalsIgnoreCase(split.bill_name, value),
+  tag_is: (split, value) => split.tags.some((tag) => equalsIgnoreCase(tag, value)),
+  has_any_tag: (split) => split.tags.length > 0,
+  has_no_tag: (split) => split.tags.length === 0,
+  any_notes: (split) => Boolean(split.notes),
+  no_notes: (split) => !split.notes,
+  currency_is: (split, value) =>
+    equalsIgnoreCase(split.currency_code, value) || split.currency_id === value,
+};
+
+/**
+ * Field and comparison of a text trigger such as `description_contains`
+ */
+function parseTextTrigger(type: string): { getValues: FieldValues; matcher: TextMatcher } | null {
+  const separator = type.lastIndexOf('_');
+  const field = type.slice(0, separator);
+  const comparison = type.slice(separator + 1);
+  if (!Object.hasOwn(TEXT_FIELDS, field) || !Object.hasOwn(TEXT_MATCHERS, comparison)) return null;
+  return { getValues: TEXT_FIELDS[field], matcher: TEXT_MATCHERS[comparison] };
+}
+
+export function isTriggerSupported(type: string): boolean {
+  return Object.hasOwn(VALUE_TRIGGERS, type) || parseTextTrigger(type) !== null;
+}
+
+/**
+ * Evaluate one trigger against a split (null for triggers the simulator does not know)
+ */
+export function evaluateTrigger(
+  trigger: { type: string; value: string },
+  split: FireflyTransactionSplit
+): boolean | null {
+  if (Object.hasOwn(VALUE_TRIGGERS, trigger.type))
+    return VALUE_TRIGGERS[trigger.type](split, trigger.value);
+
+  const textTrigger = parseTextTrigger(trigger.type);
+  if (!textTrigger) return null;
+
+  const expected = trigger.value.toLowerCase();
+  return textTrigger
+    .getValues(split)
+    .some((value) => textTrigger.matcher((value ?? '').toLowerCase(), expected));
+}
+
+/**
+ * Whether a rule's triggers match a split: all active triggers for strict rules,
+ * any of them otherwise
+ */
+function matchesRule(rule: FireflyRule, split: FireflyTransactionSplit): boolean {
+  const triggers = rule.attributes.triggers.filter((trigger) => trigger.active);
+  if (triggers.length === 0) return false;
+
+  const results = triggers.map((trigger) => {
+    const result = evaluateTrigger(trigger, split);
+    if (result === null) return rule.attributes.strict;
+    return trigger.prohibited ? !result : result;
+  });
+  return rule.attributes.strict ? results.every(Boolean) : results.some(Boolean);
+}
+
+type SplitAction = (split: FireflyTransactionSplit, value: string) => FireflyTransactionSplit;
+
+function appendText(text: string | null, value: string | null): string {
+  return `${text ?? ''}${value ?? ''}`;
+}
+
+/** Changes of the actions applied before later rules are evaluated */
+const SPLIT_ACTIONS: Record<string, SplitAction> = {
+  set_category: (split, value) => ({ ...split, category_name: value }),
+  clear_category: (split) => ({ ...split, category_name: null }),
+  set_budget: (split, value) => ({ ...split, budget_name: value }),
+  clear_budget: (split) => ({ ...split, budget_name: null }),
+  add_tag: (split, value) =>
+    split.tags.some((tag) => equalsIgnoreCase(tag, value))
+      ? split
+      : { ...split, tags: [...split.tags, value] },
+  remove_tag: (split, value) => ({
+    ...split,
+    tags: split.tags.filter((tag) => !equalsIgnoreCase(tag, value)),
+  }),
+  remove_all_tags: (split) => ({ ...split, tags: [] }),
+  set_description: (split, value) => ({ ...split, description: value }),
+  append_description: (split, value) => ({
+    ...split,
+    description: appendText(split.description, value),
+  }),
+  prepend_description: (split, value) => ({
+    ...split,
+    description: appendText(value, split.description),
+  }),
+  set_notes: (split, value) => ({ ...split, notes: value }),
+  append_notes: (split, value) => ({ ...split, notes: appendText(split.notes, value) }),
+  prepend_notes: (split, value) => ({ ...split, notes: appendText(value, split.notes) }),
+  clear_notes: (split) => ({ ...split, notes: null }),
+  set_source_account: (split, value) => ({ ...split, source_name: value }),
+  set_destination_account: (split, value) => ({ ...split, destination_name: value }),
+  link_to_bill: (split, value) => ({ ...split, bill_name: value }),
+  convert_withdrawal: (split) => ({ ...split, type: 'withdrawal' }),
+  convert_deposit: (split) => ({ ...split, type: 'deposit' }),
+  convert_transfer: (split) => ({ ...split, type: 'transfer' }),
+};
+
+/**
+ * Apply the active actions of a rule to a copy of a split
+ */
+function applyActions(rule: FireflyRule, split: FireflyTransactionSplit): FireflyTransactionSplit {
+  return rule.attributes.actions
+    .filter((action) => action.active && Object.hasOwn(SPLIT_ACTIONS, action.type))
+    .reduce((current, action) => SPLIT_ACTIONS[action.type](current, action.value), split);
+}
+
+/** Split field an action sets, for actions whose values can conflict */
+const ACTION_FIELDS: Record<string, string> = {
+  set_category: 'category',
+  clear_category: 'category',
+  set_budget: 'budget',
+  clear_budget: 'budget',
+  set_description: 'description',
+  set_notes: 'notes',
+  clear_notes: 'notes',
+  set_source_account: 'source_account',
+  set_destination_account: 'destination_account',
+  link_to_bill: 'bill',
+  convert_withdrawal: 'type',
+  convert_deposit: 'type',
+  convert_transfer: 'type',
+};
+
+function getConflicts(rules: FireflyRule[]): RuleSimulationOverlap['conflicts'] {
+  const values: Map<string, Array<{ ruleId: string; value: string }>> = new Map();
+
+  for (const rule of rules) {
+    for (const action of rule.attributes.actions.filter((a) => a.active)) {
+      const field = ACTION_FIELDS[action.type];
+      if (!field) continue;
+      // Clearing and converting are compared by the action, setting by the value
+      const value =
+        action.type.startsWith('set_') || action.type === 'link_to_bill'
+          ? action.value
+          : action.type;
+      values.set(field, [...(values.get(field) ?? []), { ruleId: rule.id, value }]);
+    }
+  }
+
+  return [...values.entries()]
+    .filter(([, entries]) => new Set(entries.map((entry) => entry.value)).size > 1)
+    .map(([field, entries]) => ({ field, values: entries }));
+}
+
+/**
+ * Simulate all rules against the splits of the given transactions
+ */
+export function simulateRules(
+  ruleGroups: FireflyRuleGroup[],
+  rules: FireflyRule[],
+  transactions: FireflyTransaction[]
+): RuleSimulationResult {
+  const groups = [...ruleGroups].sort((a, b) => a.attributes.order - b.attributes.order);
+  const groupOrder = new Map(groups.map((group, index) => [group.id, index]));
+  const groupsById = new Map(groups.map((group) => [group.id, group]));
+
+  // Execution order: rule groups, then rules within each group
+  const orderedRules = [...rules].sort(
+    (a, b) =>
+      (groupOrder.get(a.attributes.rule_group_id) ?? Infinity) -
+        (groupOrder.get(b.attributes.rule_group_id) ?? Infinity) ||
+      a.attributes.order - b.attributes.order
+  );
+
+  const simulated: RuleSimulationRule[] = orderedRules.map((rule) => {
+    const group = groupsById.get(rule.attributes.rule_group_id);
+    return {
+      id: rule.id,
+      title: rule.attributes.title,
+      ruleGroupId: rule.attributes.rule_group_id,
+      ruleGroupTitle: group?.attributes.title ?? rule.attributes.rule_group_title,
+      active: rule.attributes.active && (group?.attributes.active ?? true),
+      strict: rule.attributes.strict,
+      stopProcessing: rule.attributes.stop_processing,
+      groupStopProcessing: group?.attributes.stop_processing ?? false,
+      triggers: rule.attributes.triggers
+        .filter((trigger) => trigger.active)
+        .map((trigger) => ({
+          type: trigger.type,
+          value: trigger.value,
+          prohibited: trigger.prohibited ?? false,
+          supported: isTriggerSupported(trigger.type),
+        })),
+      actions: rule.attributes.actions
+        .filter((action) => action.active)
+        .map((action) => ({
+          type: action.type,
+          value: action.value,
+          supported: Object.hasOwn(SPLIT_ACTIONS, action.type),
+        })),
+      matchedJournalIds: [],
+      skippedJournalIds: [],
+    };
+  });
+
+  const result: RuleSimulationResult = {
+    rules: simulated,
+    transactions: {},
+    overlaps: [],
+    transactionCount: transactions.length,
+  };
+
+  for (const transaction of transactions) {
+    for (const split of transaction.attributes.transactions) {
+      const journalId = split.transaction_journal_id;
+      const matched: FireflyRule[] = [];
+      // Split as changed by the rules run so far
+      let current = split;
+      // Rule groups in which an earlier rule stopped processing
+      const stoppedGroups: Set<string> = new Set();
+      // Rule group that stops processing later groups
+      let lastGroupId: string | null = null;
+
+      orderedRules.forEach((rule, index) => {
+        const simulation = simulated[index];
+        if (!simulation.active || !matchesRule(rule, current)) return;
+
+        const groupStopped = lastGroupId !== null && lastGroupId !== simulation.ruleGroupId;
+        if (groupStopped || stoppedGroups.has(simulation.ruleGroupId)) {
+          simulation.skippedJournalIds.push(journalId);
+          return;
+        }
+        simulation.matchedJournalIds.push(journalId);
+        matched.push(rule);
+        current = applyActions(rule, current);
+        if (simulation.stopProcessing) stoppedGroups.add(simulation.ruleGroupId);
+        if (simulation.groupStopProcessing) lastGroupId = simulation.ruleGroupId;
+      });
+
+      if (matched.length > 0) {
+        result.transactions[journalId] = { transactionId: transaction.id, split };
+      }
+      if (matched.length > 1) {
+        result.overlaps.push({
+          journalId,
+          ruleIds: matched.map((rule) => rule.id),
+          conflicts: getConflicts(matched),
+        });
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,402 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Scheduler,
+  runScheduledTool,
+  MAX_RUNS_PER_SCHEDULE,
+  type ScheduleInput,
+  type ScheduledToolResult,
+} from './scheduler.js';
+import type { Schedule } from '../../shared/types/app.js';
+import { MemoryPersistenceBackend } from './persistence.js';
+
+const mocks = vi.hoisted(() => ({
+  suggestCategories: vi.fn(),
+  applyCategories: vi.fn(),
+  suggestTags: vi.fn(),
+  applyTags: vi.fn(),
+  findSubscriptionPatterns: vi.fn(),
+  findDuplicates: vi.fn(),
+}));
+
+const fireflyMocks = vi.hoisted(() => ({
+  getSharedFireflyApi: vi.fn(() => ({})),
+  runWithFireflyApi: vi.fn((_client: unknown, fn: () => unknown) => fn()),
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock('../clients/firefly.js', () => ({
+  getSharedFireflyApi: fireflyMocks.getSharedFireflyApi,
+  runWithFireflyApi: fireflyMocks.runWithFireflyApi,
+}));
+
+vi.mock('../config/index.js', () => ({
+  config: { scheduler: { enabled: true, timezone: '' } },
+  isAIConfigured: () => true,
+  DEFAULT_FIREFLY_PROFILE_ID: 'default',
+}));
+
+vi.mock('./aiSuggestions.js', () => ({
+  AISuggestionService: class {
+    suggestCategories = mocks.suggestCategories;
+    applyCategories = mocks.applyCategories;
+    suggestTags = mocks.suggestTags;
+    applyTags = mocks.applyTags;
+  },
+}));
+
+vi.mock('./operations.js', () => ({
+  getOperationLog: () => ({
+    run: async (_kind: string, fn: () => Promise<unknown>) => ({
+      result: await fn(),
+      operation: null,
+    }),
+  }),
+}));
+
+vi.mock('./subscriptionFinder.js', () => ({
+  SubscriptionFinder: class {
+    findSubscriptionPatterns = mocks.findSubscriptionPatterns;
+  },
+}));
+
+vi.mock('./duplicateFinder.js', () => ({
+  DuplicateTransactionFinder: class {
+    findDuplicates = mocks.findDuplicates;
+  },
+}));
+
+function createInput(overrides: Partial<ScheduleInput> = {}): ScheduleInput {
+  return {
+    name: 'Nightly categories',
+    cron: '0 3 * * *',
+    tool: 'categorySuggestions',
+    options: { lookbackDays: 7, maxTransactions: 50, autoApply: true, autoApplyMinConfidence: 0.9 },
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function createResult(overrides: Partial<ScheduledToolResult> = {}): ScheduledToolResult {
+  return { resultCount: 0, appliedCount: 0, failedCount: 0, findings: [], ...overrides };
+}
+
+describe('Scheduler', () => {
+  let backend: MemoryPersistenceBackend;
+  let runner: ReturnType<typeof vi.fn>;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    backend = new MemoryPersistenceBackend();
+    runner = vi.fn().mockResolvedValue(createResult());
+    scheduler = new Scheduler(backend, runner, 'UTC');
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  describe('schedule management', () => {
+    it('should create and list schedules by name', () => {
+      scheduler.create(createInput({ name: 'Weekly subscriptions', tool: 'subscriptions' }));
+      const created = scheduler.create(createInput({ name: '  Nightly categories ' }));
+
+      expect(created.name).toBe('Nightly categories');
+      expect(created.lastRunAt).toBeNull();
+      expect(scheduler.list().map((s) => s.name)).toEqual([
+        'Nightly categories',
+        'Weekly subscriptions',
+      ]);
+      expect(scheduler.get(created.id)?.cron).toBe('0 3 * * *');
+    });
+
+    it('should keep the connection profile a schedule was created in', () => {
+      const created = scheduler.create(createInput({ profileId: 'savings' }));
+
+      expect(created.profileId).toBe('savings');
+      expect(scheduler.create(createInput()).profileId).toBe('default');
+    });
+
+    it('should merge option changes on update', () => {
+      const created = scheduler.create(createInput());
+
+      const updated = scheduler.update(created.id, {
+        enabled: false,
+        options: { autoApplyMinConfidence: 0.95 },
+      });
+
+      expect(updated?.enabled).toBe(false);
+      expect(updated?.options).toEqual({
+        lookbackDays: 7,
+        maxTransactions: 50,
+        autoApply: true,
+        autoApplyMinConfidence: 0.95,
+      });
+      expect(scheduler.update('missing', { enabled: true })).toBeUndefined();
+    });
+
+    it('should delete schedules together with their runs', async () => {
+      const created = scheduler.create(createInput());
+      await scheduler.run(created.id);
+
+      expect(scheduler.delete(created.id)).toBe(true);
+      expect(scheduler.get(created.id)).toBeUndefined();
+      expect(scheduler.listRuns()).toEqual([]);
+      expect(scheduler.delete(created.id)).toBe(false);
+    });
+
+    it('should only plan enabled schedules once started', () => {
+      const enabled = scheduler.create(createInput());
+      const disabled = scheduler.create(createInput({ name: 'Paused', enabled: false }));
+      expect(scheduler.get(enabled.id)?.nextRunAt).toBeNull();
+
+      scheduler.start();
+
+      expect(scheduler.get(enabled.id)?.nextRunAt).toMatch(/T03:00:00\.000Z$/);
+      expect(scheduler.get(disabled.id)?.nextRunAt).toBeNull();
+
+      scheduler.update(enabled.id, { enabled: false });
+      expect(scheduler.get(enabled.id)?.nextRunAt).toBeNull();
+    });
+  });
+
+  describe('runs', () => {
+    it('should record completed runs', async () => {
+      runner.mockResolvedValue(createResult({ resultCount: 12, appliedCount: 5, failedCount: 1 }));
+      const created = scheduler.create(createInput());
+
+      const run = await scheduler.run(created.id);
+
+      expect(runner).toHaveBeenCalledWith('categorySuggestions', created.options, 'default');
+      expect(run).toMatchObject({
+        scheduleId: created.id,
+        scheduleName: 'Nightly categories',
+        trigger: 'manual',
+        status: 'completed',
+        resultCount: 12,
+        appliedCount: 5,
+        failedCount: 1,
+        error: null,
+      });
+      expect(run?.finishedAt).not.toBeNull();
+      expect(scheduler.listRuns(created.id)).toEqual([run]);
+      expect(scheduler.get(created.id)?.lastRunAt).toBe(run?.startedAt);
+    });
+
+    it('should run schedules on their connection profile', async () => {
+      const created = scheduler.create(createInput({ profileId: 'savings' }));
+      // Schedules stored before connection profiles run on the default one
+      const legacy: Schedule = { ...created, id: 'legacy' };
+      delete legacy.profileId;
+      backend.set('schedules', legacy.id, JSON.stringify(legacy));
+
+      const run = await scheduler.run(created.id);
+      const legacyRun = await scheduler.run(legacy.id);
+
+      expect(runner.mock.calls.map((call) => call[2])).toEqual(['savings', 'default']);
+      expect(run?.profileId).toBe('savings');
+      expect(legacyRun?.profileId).toBe('default');
+    });
+
+    it('should record failed runs instead of throwing', async () => {
+      runner.mockRejectedValue(new Error('AI is not configured'));
+      const created = scheduler.create(createInput());
+
+      const run = await scheduler.run(created.id);
+
+      expect(run?.status).toBe('failed');
+      expect(run?.error).toBe('AI is not configured');
+      expect(scheduler.isRunning(created.id)).toBe(false);
+    });
+
+    it('should not start a second run while one is in progress', async () => {
+      let finish: (result: ScheduledToolResult) => void = () => {};
+      runner.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+      const created = scheduler.create(createInput());
+
+      const first = scheduler.run(created.id);
+      expect(scheduler.isRunning(created.id)).toBe(true);
+      await expect(scheduler.run(created.id)).resolves.toBeUndefined();
+
+      finish(createResult());
+      await first;
+      expect(scheduler.isRunning(created.id)).toBe(false);
+    });
+
+    it('should return undefined for unknown schedules', async () => {
+      await expect(scheduler.run('missing')).resolves.toBeUndefined();
+    });
+
+    it('should report only findings not seen in earlier runs', async () => {
+      const created = scheduler.create(createInput({ tool: 'subscriptions' }));
+
+      runner.mockResolvedValueOnce(
+        createResult({ findings: [{ key: 'netflix', label: 'Netflix (monthly)' }] })
+      );
+      const first = await scheduler.run(created.id);
+
+      runner.mockResolvedValueOnce(
+        createResult({
+          findings: [
+            { key: 'netflix', label: 'Netflix (monthly)' },
+            { key: 'gym', label: 'Gym (monthly)' },
+          ],
+        })
+      );
+      const second = await scheduler.run(created.id);
+
+      expect(first?.newFindings).toEqual(['Netflix (monthly)']);
+      expect(second?.newFindings).toEqual(['Gym (monthly)']);
+    });
+
+    it('should keep a limited run history per schedule', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-06-01T12:00:00.000Z'));
+      const created = scheduler.create(createInput());
+
+      for (let i = 0; i < MAX_RUNS_PER_SCHEDULE + 2; i++) {
+        vi.advanceTimersByTime(1000);
+        await scheduler.run(created.id);
+      }
+
+      const runs = scheduler.listRuns(created.id);
+      expect(runs).toHaveLength(MAX_RUNS_PER_SCHEDULE);
+      expect(runs[0].startedAt > runs[runs.length - 1].startedAt).toBe(true);
+      expect(scheduler.listRuns(created.id, 5)).toHaveLength(5);
+    });
+
+    it('should run schedules when their cron expression is due', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-06-01T02:59:30.000Z'));
+      const created = scheduler.create(createInput());
+      scheduler.start();
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(runner).toHaveBeenCalledTimes(1);
+      expect(scheduler.listRuns(created.id)[0].trigger).toBe('schedule');
+    });
+  });
+});
+
+describe('runScheduledTool', () => {
+  const options = {
+    lookbackDays: 7,
+    maxTransactions: 25,
+    autoApply: true,
+    autoApplyMinConfidence: 0.9,
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-15T03:00:00.000Z'));
+    Object.values(mocks).forEach((mock) => mock.mockReset());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should auto-apply category suggestions above the confidence threshold', async () => {
+    mocks.suggestCategories.mockResolvedValue([
+      {
+        transactionId: '1',
+        transaction: { transaction_journal_id: 'j1' },
+        suggestedCategoryId: 'c1',
+        suggestedCategoryName: 'Groceries',
+        confidence: 0.95,
+      },
+      {
+        transactionId: '2',
+        transaction: { transaction_journal_id: 'j2' },
+        suggestedCategoryId: 'c2',
+        suggestedCategoryName: 'Travel',
+        confidence: 0.6,
+      },
+    ]);
+    mocks.applyCategories.mockResolvedValue({ successful: ['1'], failed: [] });
+
+    const result = await runScheduledTool('categorySuggestions', options);
+
+    expect(mocks.suggestCategories).toHaveBeenCalledWith('2024-06-08', '2024-06-15', {
+      maxSuggestions: 25,
+    });
+    expect(mocks.applyCategories).toHaveBeenCalledWith([
+      {
+        transactionId: '1',
+        journalId: 'j1',
+        updates: { category_id: 'c1', category_name: 'Groceries' },
+      },
+    ]);
+    expect(result).toEqual({ resultCount: 2, appliedCount: 1, failedCount: 0, findings: [] });
+  });
+
+  it('should not apply anything when auto-apply is off', async () => {
+    mocks.suggestTags.mockResolvedValue([
+      {
+        transactionId: '1',
+        transaction: { transaction_journal_id: 'j1', tags: ['existing'] },
+        suggestedTags: [{ tagId: 't1', tagName: 'coffee', confidence: 0.99, reasoning: '' }],
+      },
+    ]);
+
+    const result = await runScheduledTool('tagSuggestions', { ...options, autoApply: false });
+
+    expect(mocks.applyTags).not.toHaveBeenCalled();
+    expect(result.resultCount).toBe(1);
+  });
+
+  it('should merge confident tags with existing tags', async () => {
+    mocks.suggestTags.mockResolvedValue([
+      {
+        transactionId: '1',
+        transaction: { transaction_journal_id: 'j1', tags: ['existing'] },
+        suggestedTags: [
+          { tagId: 't1', tagName: 'coffee', confidence: 0.99, reasoning: '' },
+          { tagId: 't2', tagName: 'work', confidence: 0.5, reasoning: '' },
+        ],
+      },
+    ]);
+    mocks.applyTags.mockResolvedValue({ successful: ['1'], failed: [] });
+
+    await runScheduledTool('tagSuggestions', options);
+
+    expect(mocks.applyTags).toHaveBeenCalledWith([
+      { transactionId: '1', journalId: 'j1', updates: { tags: ['existing', 'coffee'] } },
+    ]);
+  });
+
+  it('should report subscription patterns as findings', async () => {
+    mocks.findSubscriptionPatterns.mockResolvedValue([
+      {
+        description: 'Netflix',
+        destinationAccount: 'Netflix Inc.',
+        averageAmount: 12.99,
+        pattern: { type: 'monthly' },
+      },
+    ]);
+
+    const result = await runScheduledTool('subscriptions', options, 'savings');
+
+    // Changes and audit entries belong to the schedule's profile, not the requesting user's
+    expect(fireflyMocks.getSharedFireflyApi).toHaveBeenCalledWith('savings');
+    expect(fireflyMocks.runWithFireflyApi).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.any(Function),
+      'savings'
+    );
+    expect(result.resultCount).toBe(1);
+    expect(result.findings).toEqual([
+      { key: 'monthly|netflix|netflix inc.', label: 'Netflix (monthly, 12.99)' },
+    ]);
+  });
+});
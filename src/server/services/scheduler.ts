@@ -0,0 +1,570 @@
+/**
+ * Scheduled Automations
+ *
+ * Runs the analysis tools on cron schedules without user interaction, e.g.
+ * "every night, suggest categories for the last 7 days and apply those above 0.9
+ * confidence" or "every Monday, look for new subscription patterns".
+ *
+ * Schedules, their run history and the findings already reported are kept in the
+ * persistence backend. Scheduled runs use the server's Firefly III API token of
+ * the connection profile the schedule was created in.
+ */
+
+import crypto from 'crypto';
+import { Cron } from 'croner';
+import {
+  getSharedFireflyApi,
+  runWithFireflyApi,
+  type FireflyApiClient,
+} from '../clients/firefly.js';
+import { config, isAIConfigured, DEFAULT_FIREFLY_PROFILE_ID } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { getPersistenceBackend, type PersistenceBackend } from './persistence.js';
+import { getAuditContext, runWithAuditContext } from './auditLog.js';
+import { getOperationLog } from './operations.js';
+import { AISuggestionService } from './aiSuggestions.js';
+import { SubscriptionFinder } from './subscriptionFinder.js';
+import { DuplicateTransactionFinder } from './duplicateFinder.js';
+import type {
+  Schedule,
+  ScheduleOptions,
+  ScheduleRun,
+  ScheduleTool,
+  TransactionUpdate,
+} from '../../shared/types/app.js';
+
+const logger = createLogger('Scheduler');
+
+/** Persistence namespaces */
+const SCHEDULE_NAMESPACE = 'schedules';
+const RUN_NAMESPACE = 'scheduleRuns';
+const FINDINGS_NAMESPACE = 'scheduleFindings';
+
+/** Number of runs kept in the history of each schedule */
+export const MAX_RUNS_PER_SCHEDULE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Editable schedule fields
+ */
+export interface ScheduleInput {
+  name: string;
+  cron: string;
+  tool: ScheduleTool;
+  options: ScheduleOptions;
+  enabled: boolean;
+  /** Firefly III connection profile to run on (default profile if not given) */
+  profileId?: string;
+}
+
+/**
+ * Changes to a schedule (options are merged into the current ones, the
+ * connection profile cannot be changed)
+ */
+export type ScheduleChanges = Partial<Omit<ScheduleInput, 'options' | 'profileId'>> & {
+  options?: Partial<ScheduleOptions>;
+};
+
+/**
+ * Something a run found that should only be reported once (e.g., a subscription pattern)
+ */
+export interface ScheduleFinding {
+  /** Stable identity used to detect findings reported by earlier runs */
+  key: string;
+  /** Human-readable description for the run history */
+  label: string;
+}
+
+/**
+ * Outcome of running a tool for a schedule
+ */
+export interface ScheduledToolResult {
+  resultCount: number;
+  appliedCount: number;
+  failedCount: number;
+  findings: ScheduleFinding[];
+}
+
+export type ScheduledToolRunner = (
+  tool: ScheduleTool,
+  options: ScheduleOptions,
+  profileId: string
+) => Promise<ScheduledToolResult>;
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Run a tool over the last `lookbackDays` days, applying AI suggestions
+ * above the confidence threshold when auto-apply is enabled
+ */
+export async function runScheduledTool(
+  tool: ScheduleTool,
+  options: ScheduleOptions,
+  profileId: string = DEFAULT_FIREFLY_PROFILE_ID
+): Promise<ScheduledToolResult> {
+  // Always the server's account of the profile, also for runs started by a user,
+  // so that changes are audited with the profile and account they were made in
+  const fireflyApi = getSharedFireflyApi(profileId);
+  return runWithFireflyApi(fireflyApi, () => runTool(tool, options, fireflyApi), profileId);
+}
+
+async function runTool(
+  tool: ScheduleTool,
+  options: ScheduleOptions,
+  fireflyApi: FireflyApiClient
+): Promise<ScheduledToolResult> {
+  const now = Date.now();
+  const startDate = toDateString(new Date(now - options.lookbackDays * DAY_MS));
+  const endDate = toDateString(new Date(now));
+
+  switch (tool) {
+    case 'categorySuggestions': {
+      if (!isAIConfigured()) {
+        throw new Error('AI is not configured');
+      }
+      const service = new AISuggestionService(fireflyApi);
+      const suggestions = await service.suggestCategories(startDate, endDate, {
+        maxSuggestions: options.maxTransactions,
+      });
+
+      const updates: TransactionUpdate[] = options.autoApply
+        ? suggestions
+            .filter(
+              (s) =>
+                !s.unableToClassify &&
+                s.suggestedCategoryId &&
+                s.confidence >= options.autoApplyMinConfidence
+            )
+            .map((s) => ({
+              transactionId: s.transactionId,
+              journalId: s.transaction.transaction_journal_id,
+              updates: {
+                category_id: s.suggestedCategoryId,
+                category_name: s.suggestedCategoryName,
+              },
+            }))
+        : [];
+      // Auto-applied changes can be undone like a manual apply
+      const result =
+        updates.length > 0
+          ? (await getOperationLog().run('categories', () => service.applyCategories(updates)))
+              .result
+          : { successful: [], failed: [] };
+
+      return {
+        resultCount: suggestions.length,
+        appliedCount: result.successful.length,
+        failedCount: result.failed.length,
+        findings: [],
+      };
+    }
+
+    case 'tagSuggestions': {
+      if (!isAIConfigured()) {
+        throw new Error('AI is not configured');
+      }
+      const service = new AISuggestionService(fireflyApi);
+      const suggestions = await service.suggestTags(startDate, endDate, {
+        maxSuggestions: options.maxTransactions,
+      });
+
+      const updates: TransactionUpdate[] = [];
+      if (options.autoApply) {
+        for (const suggestion of suggestions) {
+          const tagNames = suggestion.suggestedTags
+            .filter((tag) => tag.confidence >= options.autoApplyMinConfidence)
+            .map((tag) => tag.tagName);
+          if (tagNames.length === 0) continue;
+
+          updates.push({
+            transactionId: suggestion.transactionId,
+            journalId: suggestion.transaction.transaction_journal_id,
+            updates: {
+              tags: [...new Set([...(suggestion.transaction.tags || []), ...tagNames])],
+            },
+          });
+        }
+      }
+      const result =
+        updates.length > 0
+          ? (await getOperationLog().run('tags', () => service.applyTags(updates))).result
+          : { successful: [], failed: [] };
+
+      return {
+        resultCount: suggestions.length,
+        appliedCount: result.successful.length,
+        failedCount: result.failed.length,
+        findings: [],
+      };
+    }
+
+    case 'subscriptions': {
+      const finder = new SubscriptionFinder(fireflyApi);
+      const patterns = await finder.findSubscriptionPatterns(startDate, endDate);
+
+      return {
+        resultCount: patterns.length,
+        appliedCount: 0,
+        failedCount: 0,
+        findings: patterns.map((p) => ({
+          key: [p.pattern.type, p.description, p.destinationAccount].join('|').toLowerCase(),
+          label: `${p.description} (${p.pattern.type}, ${p.averageAmount.toFixed(2)})`,
+        })),
+      };
+    }
+
+    case 'duplicates': {
+      const finder = new DuplicateTransactionFinder(fireflyApi);
+      const groups = await finder.findDuplicates(startDate, endDate);
+
+      return {
+        resultCount: groups.length,
+        appliedCount: 0,
+        failedCount: 0,
+        findings: groups.map((group) => {
+          const first = group.transactions[0]?.attributes.transactions[0];
+          return {
+            key: group.transactions
+              .map((t) => t.id)
+              .sort()
+              .join(','),
+            label: `${first?.description ?? group.id} (${group.transactions.length}x, ${first?.date.split('T')[0] ?? ''})`,
+          };
+        }),
+      };
+    }
+  }
+}
+
+/**
+ * Manages schedules and runs them with cron timers
+ */
+export class Scheduler {
+  private backend: PersistenceBackend;
+  private runner: ScheduledToolRunner;
+  private timezone: string;
+  private timers: Map<string, Cron> = new Map();
+  private running: Set<string> = new Set();
+  private started = false;
+
+  constructor(
+    backend: PersistenceBackend = getPersistenceBackend(),
+    runner: ScheduledToolRunner = runScheduledTool,
+    timezone: string = config.scheduler.timezone
+  ) {
+    this.backend = backend;
+    this.runner = runner;
+    this.timezone = timezone;
+  }
+
+  /**
+   * Start the cron timers of all enabled schedules
+   */
+  start(): void {
+    this.started = true;
+    for (const schedule of this.readAll()) {
+      this.plan(schedule);
+    }
+    logger.info(`Scheduler started with ${this.timers.size} active schedules`);
+  }
+
+  /**
+   * Stop all cron timers (running tools finish in the background)
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      timer.stop();
+    }
+    this.timers.clear();
+    this.started = false;
+  }
+
+  /**
+   * List all schedules by name
+   */
+  list(): Schedule[] {
+    return this.readAll()
+      .map((schedule) => this.withNextRun(schedule))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  get(id: string): Schedule | undefined {
+    const schedule = this.read(id);
+    return schedule ? this.withNextRun(schedule) : undefined;
+  }
+
+  /**
+   * Create a schedule
+   */
+  create(input: ScheduleInput): Schedule {
+    const now = new Date().toISOString();
+    const schedule: Schedule = {
+      id: crypto.randomUUID(),
+      name: input.name.trim(),
+      cron: input.cron.trim(),
+      tool: input.tool,
+      options: input.options,
+      enabled: input.enabled,
+      profileId: input.profileId ?? DEFAULT_FIREFLY_PROFILE_ID,
+      createdAt: now,
+      updatedAt: now,
+      lastRunAt: null,
+      nextRunAt: null,
+    };
+
+    this.write(schedule);
+    this.plan(schedule);
+    logger.info(`Created schedule "${schedule.name}" (${schedule.cron}, ${schedule.tool})`);
+    return this.withNextRun(schedule);
+  }
+
+  /**
+   * Update a schedule. Changing the tool resets the findings already reported.
+   */
+  update(id: string, changes: ScheduleChanges): Schedule | undefined {
+    const schedule = this.read(id);
+    if (!schedule) return undefined;
+
+    const updated: Schedule = {
+      ...schedule,
+      ...changes,
+      name: changes.name?.trim() ?? schedule.name,
+      cron: changes.cron?.trim() ?? schedule.cron,
+      options: { ...schedule.options, ...changes.options },
+      updatedAt: new Date().toISOString(),
+    };
+    if (updated.tool !== schedule.tool) {
+      this.backend.delete(FINDINGS_NAMESPACE, id);
+    }
+
+    this.write(updated);
+    this.plan(updated);
+    logger.info(`Updated schedule "${updated.name}"`);
+    return this.withNextRun(updated);
+  }
+
+  /**
+   * Delete a schedule together with its run history
+   */
+  delete(id: string): boolean {
+    const schedule = this.read(id);
+    if (!schedule) return false;
+
+    this.timers.get(id)?.stop();
+    this.timers.delete(id);
+    this.backend.delete(SCHEDULE_NAMESPACE, id);
+    this.backend.delete(FINDINGS_NAMESPACE, id);
+    for (const run of this.readRuns(id)) {
+      this.backend.delete(RUN_NAMESPACE, run.id);
+    }
+
+    logger.info(`Deleted schedule "${schedule.name}"`);
+    return true;
+  }
+
+  /**
+   * Check whether a schedule is currently running
+   */
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  /**
+   * Run a schedule now. Resolves with the finished run, or undefined if the
+   * schedule does not exist or is already running. Tool errors are recorded
+   * as failed runs instead of being thrown.
+   */
+  async run(
+    id: string,
+    trigger: ScheduleRun['trigger'] = 'manual'
+  ): Promise<ScheduleRun | undefined> {
+    const schedule = this.read(id);
+    if (!schedule || this.running.has(id)) return undefined;
+
+    // Schedules created before connection profiles run on the default one
+    const profileId = schedule.profileId ?? DEFAULT_FIREFLY_PROFILE_ID;
+    this.running.add(id);
+    const run: ScheduleRun = {
+      id: crypto.randomUUID(),
+      scheduleId: id,
+      scheduleName: schedule.name,
+      tool: schedule.tool,
+      profileId,
+      trigger,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      resultCount: 0,
+      appliedCount: 0,
+      failedCount: 0,
+      newFindings: [],
+      error: null,
+    };
+    this.writeRun(run);
+    this.write({ ...schedule, lastRunAt: run.startedAt });
+    logger.info(`Running schedule "${schedule.name}" (${trigger})`);
+
+    try {
+      // Changes are audited as made by the scheduler (on behalf of the user for manual runs)
+      const result = await runWithAuditContext(
+        { user: getAuditContext()?.user ?? null, tool: 'scheduler' },
+        () => this.runner(schedule.tool, schedule.options, profileId)
+      );
+      run.status = 'completed';
+      run.resultCount = result.resultCount;
+      run.appliedCount = result.appliedCount;
+      run.failedCount = result.failedCount;
+      run.newFindings = this.recordFindings(id, result.findings);
+      logger.info(
+        `Schedule "${schedule.name}" completed: ${run.resultCount} results, ` +
+          `${run.appliedCount} applied, ${run.newFindings.length} new`
+      );
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Schedule "${schedule.name}" failed: ${run.error}`);
+    } finally {
+      run.finishedAt = new Date().toISOString();
+      this.running.delete(id);
+    }
+
+    // The schedule may have been deleted while running
+    if (this.read(id)) {
+      this.writeRun(run);
+      this.pruneRuns(id);
+    }
+    return run;
+  }
+
+  /**
+   * List runs, newest first, optionally for a single schedule
+   */
+  listRuns(scheduleId?: string, limit: number = MAX_RUNS_PER_SCHEDULE): ScheduleRun[] {
+    return this.readRuns(scheduleId).slice(0, limit);
+  }
+
+  /**
+   * (Re)create the cron timer of a schedule
+   */
+  private plan(schedule: Schedule): void {
+    this.timers.get(schedule.id)?.stop();
+    this.timers.delete(schedule.id);
+
+    if (!this.started || !schedule.enabled) return;
+
+    try {
+      const timer = new Cron(
+        schedule.cron,
+        { timezone: this.timezone || undefined, protect: true },
+        () => {
+          void this.run(schedule.id, 'schedule');
+        }
+      );
+      this.timers.set(schedule.id, timer);
+    } catch (error) {
+      logger.warn(`Cannot schedule "${schedule.name}" (${schedule.cron}):`, error);
+    }
+  }
+
+  /**
+   * Store the findings of a run and return the labels of those not seen before
+   */
+  private recordFindings(scheduleId: string, findings: ScheduleFinding[]): string[] {
+    if (findings.length === 0) return [];
+
+    const record = this.backend.get(FINDINGS_NAMESPACE, scheduleId);
+    const known = new Set<string>(record ? (JSON.parse(record.value) as string[]) : []);
+    const fresh = findings.filter((finding) => !known.has(finding.key));
+
+    for (const finding of fresh) {
+      known.add(finding.key);
+    }
+    this.backend.set(FINDINGS_NAMESPACE, scheduleId, JSON.stringify(Array.from(known)));
+
+    return fresh.map((finding) => finding.label);
+  }
+
+  private pruneRuns(scheduleId: string): void {
+    for (const run of this.readRuns(scheduleId).slice(MAX_RUNS_PER_SCHEDULE)) {
+      this.backend.delete(RUN_NAMESPACE, run.id);
+    }
+  }
+
+  private withNextRun(schedule: Schedule): Schedule {
+    const nextRun = this.timers.get(schedule.id)?.nextRun();
+    return { ...schedule, nextRunAt: nextRun ? nextRun.toISOString() : null };
+  }
+
+  private read(id: string): Schedule | undefined {
+    const record = this.backend.get(SCHEDULE_NAMESPACE, id);
+    if (!record) return undefined;
+
+    try {
+      return JSON.parse(record.value) as Schedule;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable schedule ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  private readAll(): Schedule[] {
+    const schedules: Schedule[] = [];
+    for (const record of this.backend.list(SCHEDULE_NAMESPACE)) {
+      try {
+        schedules.push(JSON.parse(record.value) as Schedule);
+      } catch (error) {
+        logger.warn(`Ignoring unreadable schedule ${record.key}:`, error);
+      }
+    }
+    return schedules;
+  }
+
+  private readRuns(scheduleId?: string): ScheduleRun[] {
+    const runs: ScheduleRun[] = [];
+    for (const record of this.backend.list(RUN_NAMESPACE)) {
+      try {
+        const run = JSON.parse(record.value) as ScheduleRun;
+        if (!scheduleId || run.scheduleId === scheduleId) {
+          runs.push(run);
+        }
+      } catch (error) {
+        logger.warn(`Ignoring unreadable schedule run ${record.key}:`, error);
+      }
+    }
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  private write(schedule: Schedule): void {
+    this.backend.set(
+      SCHEDULE_NAMESPACE,
+      schedule.id,
+      JSON.stringify({ ...schedule, nextRunAt: null })
+    );
+  }
+
+  private writeRun(run: ScheduleRun): void {
+    this.backend.set(RUN_NAMESPACE, run.id, JSON.stringify(run));
+  }
+}
+
+// Shared scheduler instance, created lazily on first use
+let schedulerInstance: Scheduler | null = null;
+
+/**
+ * Get the shared scheduler
+ */
+export function getScheduler(): Scheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new Scheduler();
+  }
+  return schedulerInstance;
+}
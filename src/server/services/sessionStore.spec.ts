@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
+  SessionStore,
   getAmazonExtenderStore,
   getPayPalExtenderStore,
   getFinTSClientStore,
@@ -10,6 +11,8 @@ import {
   stopCleanupInterval,
   getStoreStats,
 } from './sessionStore.js';
+import { MemoryPersistenceBackend } from './persistence.js';
+import { MemorySharedStore } from './sharedStore.js';
 
 // Mock the logger
 vi.mock('../utils/logger.js', () => ({
@@ -27,6 +30,12 @@ vi.mock('./transactionCache.js', () => ({
   clearSessionCache: vi.fn(),
 }));
 
+// Mock the job manager
+const mockJobManager = { removeAll: vi.fn() };
+vi.mock('./jobManager.js', () => ({
+  getJobManager: () => mockJobManager,
+}));
+
 describe('sessionStore', () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -251,6 +260,12 @@ describe('sessionStore', () => {
 
       expect(clearSessionCache).toHaveBeenCalledWith('session-1');
     });
+
+    it('should remove background jobs of the session', async () => {
+      await clearSessionData('session-1');
+
+      expect(mockJobManager.removeAll).toHaveBeenCalledWith('session-1');
+    });
   });
 
   describe('trackTransactionCacheSession', () => {
@@ -330,4 +345,158 @@ describe('sessionStore', () => {
       expect(store.size).toBeLessThanOrEqual(100);
     });
   });
+
+  describe('persistence', () => {
+    class Counter {
+      constructor(public count: number) {}
+    }
+
+    function createPersistentStore(
+      backend: MemoryPersistenceBackend,
+      retentionMs?: number,
+      sharedStore?: MemorySharedStore
+    ) {
+      const store = new SessionStore<Counter>('Counters');
+      store.enablePersistence({
+        serialize: (counter) => ({ count: counter.count }),
+        deserialize: (data) => new Counter((data as { count: number }).count),
+        retentionMs,
+        backend,
+        sharedStore,
+      });
+      return store;
+    }
+
+    it('should write entries through to the backend', () => {
+      const backend = new MemoryPersistenceBackend();
+      const store = createPersistentStore(backend);
+
+      store.set('session-1', new Counter(3));
+
+      expect(store.isPersistent).toBe(true);
+      expect(backend.get('Counters', 'session-1')?.value).toBe('{"count":3}');
+    });
+
+    it('should restore entries in a new store instance', () => {
+      const backend = new MemoryPersistenceBackend();
+      createPersistentStore(backend).set('session-1', new Counter(5));
+
+      const restarted = createPersistentStore(backend);
+      const restored = restarted.get('session-1');
+
+      expect(restored).toBeInstanceOf(Counter);
+      expect(restored?.count).toBe(5);
+      expect(restarted.size).toBe(1);
+    });
+
+    it('should persist in-place mutations on request', () => {
+      const backend = new MemoryPersistenceBackend();
+      const store = createPersistentStore(backend);
+      store.set('session-1', new Counter(1));
+
+      store.get('session-1')!.count = 2;
+      expect(backend.get('Counters', 'session-1')?.value).toBe('{"count":1}');
+
+      store.persist('session-1');
+      expect(backend.get('Counters', 'session-1')?.value).toBe('{"count":2}');
+    });
+
+    it('should load entries changed by another server instance', async () => {
+      const sharedStore = new MemorySharedStore();
+      const instanceA = createPersistentStore(new MemoryPersistenceBackend(), 0, sharedStore);
+      const instanceB = createPersistentStore(new MemoryPersistenceBackend(), 0, sharedStore);
+
+      instanceA.set('session-1', new Counter(1));
+      expect((await instanceB.load('session-1'))?.count).toBe(1);
+
+      instanceB.get('session-1')!.count = 2;
+      await instanceB.persist('session-1');
+
+      expect(instanceA.isShared).toBe(true);
+      expect(instanceA.get('session-1')?.count).toBe(1);
+      expect((await instanceA.load('session-1'))?.count).toBe(2);
+
+      await instanceA.delete('session-1');
+      expect(await sharedStore.get('sessionData:Counters:session-1')).toBeUndefined();
+    });
+
+    it('should keep persisted entries after memory eviction within retention', async () => {
+      const backend = new MemoryPersistenceBackend();
+      const store = createPersistentStore(backend, 60 * 60 * 1000);
+      store.set('session-1', new Counter(7));
+
+      vi.advanceTimersByTime(16 * 60 * 1000);
+      expect(await store.evictExpired()).toBe(1);
+      expect(store.size).toBe(0);
+      expect(store.persistedSize).toBe(1);
+
+      expect(store.get('session-1')?.count).toBe(7);
+    });
+
+    it('should list the values of all sessions, including evicted ones', async () => {
+      const backend = new MemoryPersistenceBackend();
+      const store = createPersistentStore(backend, 60 * 60 * 1000);
+      store.set('session-1', new Counter(1));
+      vi.advanceTimersByTime(16 * 60 * 1000);
+      await store.evictExpired();
+      store.set('session-2', new Counter(2));
+
+      const counts = store.values().map((counter) => counter.count);
+
+      expect(counts.sort()).toEqual([1, 2]);
+      expect(store.size).toBe(1);
+    });
+
+    it('should purge persisted entries past retention', async () => {
+      const backend = new MemoryPersistenceBackend();
+      const store = createPersistentStore(backend);
+      store.set('session-1', new Counter(7));
+
+      vi.advanceTimersByTime(16 * 60 * 1000);
+      await store.evictExpired();
+
+      expect(store.persistedSize).toBe(0);
+      expect(store.has('session-1')).toBe(false);
+    });
+
+    it('should not restore entries past retention', () => {
+      const backend = new MemoryPersistenceBackend();
+      createPersistentStore(backend).set('session-1', new Counter(1));
+
+      vi.advanceTimersByTime(16 * 60 * 1000);
+
+      expect(createPersistentStore(backend).get('session-1')).toBeUndefined();
+      expect(backend.count('Counters')).toBe(0);
+    });
+
+    it('should discard unreadable persisted entries', () => {
+      const backend = new MemoryPersistenceBackend();
+      backend.set('Counters', 'session-1', 'not json');
+
+      expect(createPersistentStore(backend).get('session-1')).toBeUndefined();
+      expect(backend.count('Counters')).toBe(0);
+    });
+
+    it('should remove persisted entries on delete', async () => {
+      const backend = new MemoryPersistenceBackend();
+      createPersistentStore(backend).set('session-1', new Counter(1));
+
+      const deleted = await createPersistentStore(backend).delete('session-1');
+
+      expect(deleted).toBe(true);
+      expect(backend.count('Counters')).toBe(0);
+    });
+
+    it('should remove persisted entries on clear', async () => {
+      const backend = new MemoryPersistenceBackend();
+      const store = createPersistentStore(backend);
+      store.set('session-1', new Counter(1));
+      store.set('session-2', new Counter(2));
+
+      await store.clear();
+
+      expect(store.size).toBe(0);
+      expect(backend.count('Counters')).toBe(0);
+    });
+  });
 });
@@ -12,9 +12,20 @@
  * - Automatic cleanup on interval
  * - Cleanup on logout
  * - Memory usage bounded by max entries per store
+ * - Optional write-through persistence (see persistence.ts) so serializable
+ *   data survives restarts, with an opt-in longer retention per store
+ * - Persisted entries are replicated to the shared store when it is distributed
+ *   (SHARED_STORE=redis), so other server instances can load them
+ *
+ * FinTS clients and dialog states are never persisted: they hold open bank
+ * dialogs and credentials, and a dialog cannot be resumed after a restart.
+ * Transaction caches stay in memory as well; after a restart they are refilled
+ * from Firefly III or the persisted transaction mirror.
  */
 
 import { createLogger } from '../utils/logger.js';
+import { getPersistenceBackend, type PersistenceBackend } from './persistence.js';
+import { getSharedStore, type SharedStore } from './sharedStore.js';
 
 const logger = createLogger('SessionStore');
 
@@ -27,11 +38,16 @@ const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
 /** Maximum entries per store type (safety limit) */
 const MAX_ENTRIES_PER_STORE = 100;
 
+/** Shared store key prefix for replicated entries, followed by "storeName:sessionId" */
+const SHARED_KEY_PREFIX = 'sessionData:';
+
 interface StoreEntry<T> {
   value: T;
   lastAccessed: number;
   /** Optional cleanup callback when entry is evicted */
   cleanup?: () => void | Promise<void>;
+  /** Serialized value as last written or restored (persistent stores only) */
+  data?: string;
 }
 
 interface StoreConfig {
@@ -41,14 +57,54 @@ interface StoreConfig {
   onEvict?: (sessionId: string, value: unknown) => void | Promise<void>;
 }
 
+/**
+ * Options for persisting a store's entries
+ */
+export interface StorePersistenceOptions<T> {
+  /** Convert a value into JSON-serializable data */
+  serialize: (value: T) => unknown;
+  /** Rebuild a value from previously serialized data */
+  deserialize: (data: unknown) => T;
+  /**
+   * How long persisted entries are kept after their last access.
+   * Defaults to the store TTL; a longer value keeps data on disk after
+   * the in-memory entry has been evicted.
+   */
+  retentionMs?: number;
+  /** Backend override (defaults to the shared backend from STORAGE_BACKEND) */
+  backend?: PersistenceBackend;
+  /**
+   * Store replicating entries to other server instances
+   * (defaults to the shared store from SHARED_STORE if it is distributed)
+   */
+  sharedStore?: SharedStore;
+}
+
+interface ActivePersistence<T> {
+  serialize: (value: T) => unknown;
+  deserialize: (data: unknown) => T;
+  retentionMs: number;
+  backend: PersistenceBackend;
+  sharedStore: SharedStore | null;
+}
+
+/**
+ * Get the shared store if it is visible to other server instances
+ */
+function getDistributedSharedStore(): SharedStore | null {
+  const store = getSharedStore();
+  return store.distributed ? store : null;
+}
+
 /**
  * Generic session-scoped store with TTL and eviction
  */
-class SessionStore<T> {
+export class SessionStore<T> {
   private name: string;
   private store: Map<string, StoreEntry<T>> = new Map();
   private ttlMs: number;
   private onEvict?: (sessionId: string, value: T) => void | Promise<void>;
+  private persistence: ActivePersistence<T> | null = null;
 
   constructor(name: string, config: StoreConfig = {}) {
     this.name = name;
@@ -56,23 +112,108 @@ class SessionStore<T> {
     this.onEvict = config.onEvict as typeof this.onEvict;
   }
 
+  /**
+   * Enable write-through persistence for this store.
+   * Entries missing from memory are restored from the backend on access.
+   */
+  enablePersistence(options: StorePersistenceOptions<T>): void {
+    this.persistence = {
+      serialize: options.serialize,
+      deserialize: options.deserialize,
+      retentionMs: Math.max(options.retentionMs || 0, this.ttlMs),
+      backend: options.backend ?? getPersistenceBackend(),
+      sharedStore: options.sharedStore ?? getDistributedSharedStore(),
+    };
+    logger.debug(
+      `${this.name}: Persistence enabled (${this.persistence.backend.name}, retention ${this.persistence.retentionMs / 1000}s)`
+    );
+  }
+
+  /**
+   * Whether entries of this store are persisted
+   */
+  get isPersistent(): boolean {
+    return this.persistence !== null;
+  }
+
+  /**
+   * Whether entries are replicated to other server instances
+   */
+  get isShared(): boolean {
+    return Boolean(this.persistence?.sharedStore);
+  }
+
   /**
    * Get an entry, updating its last accessed time
    */
   get(sessionId: string): T | undefined {
-    const entry = this.store.get(sessionId);
+    const entry = this.store.get(sessionId) ?? this.restore(sessionId);
     if (entry) {
       entry.lastAccessed = Date.now();
+      if (this.persistence) {
+        this.persistence.backend.touch(this.name, sessionId, entry.lastAccessed);
+        this.persistence.sharedStore
+          ?.expire(this.getSharedKey(sessionId), this.persistence.retentionMs)
+          .catch((error) => logger.warn(`${this.name}: Failed to extend shared entry:`, error));
+      }
       return entry.value;
     }
     return undefined;
   }
 
+  /**
+   * Get an entry, picking up changes other server instances made to it.
+   * Without a distributed shared store this is the same as get().
+   */
+  async load(sessionId: string): Promise<T | undefined> {
+    const sharedStore = this.persistence?.sharedStore;
+    if (!sharedStore) return this.get(sessionId);
+
+    const sharedKey = this.getSharedKey(sessionId);
+    const data = await sharedStore.get(sharedKey);
+    const current = this.store.get(sessionId);
+    if (data === undefined || current?.data === data) {
+      return this.get(sessionId);
+    }
+
+    const entry = this.deserializeEntry(sessionId, data, Date.now());
+    if (!entry) {
+      await sharedStore.delete(sharedKey);
+      return this.get(sessionId);
+    }
+
+    entry.cleanup = current?.cleanup;
+    this.store.set(sessionId, entry);
+    this.persistence?.backend.set(this.name, sessionId, data, entry.lastAccessed);
+    logger.debug(`${this.name}: Loaded shared entry for session ${sessionId}`);
+    return this.get(sessionId);
+  }
+
+  /**
+   * Get the values of all sessions, including persisted ones not loaded into
+   * memory, without updating their last accessed time
+   */
+  values(): T[] {
+    const values = Array.from(this.store.values(), (entry) => entry.value);
+    if (!this.persistence) return values;
+
+    const cutoff = Date.now() - this.persistence.retentionMs;
+    for (const record of this.persistence.backend.list(this.name)) {
+      if (this.store.has(record.key) || record.lastAccessed < cutoff) continue;
+
+      const entry = this.deserializeEntry(record.key, record.value, record.lastAccessed);
+      if (entry) {
+        values.push(entry.value);
+      }
+    }
+    return values;
+  }
+
   /**
    * Check if an entry exists
    */
   has(sessionId: string): boolean {
-    return this.store.has(sessionId);
+    return this.store.has(sessionId) || this.restore(sessionId) !== undefined;
   }
 
   /**
@@ -82,40 +223,50 @@ class SessionStore<T> {
     // Enforce max entries limit
     if (this.store.size >= MAX_ENTRIES_PER_STORE && !this.store.has(sessionId)) {
       logger.warn(`${this.name}: Max entries (${MAX_ENTRIES_PER_STORE}) reached, evicting oldest`);
-      this.evictOldest();
+      // Leaves memory right away, only the cleanup callbacks finish in the background
+      this.evictOldest().catch((error) => {
+        logger.error(`${this.name}: Failed to evict oldest entry:`, error);
+      });
     }
 
-    this.store.set(sessionId, {
+    const entry: StoreEntry<T> = {
       value,
       lastAccessed: Date.now(),
       cleanup,
-    });
+    };
+    this.store.set(sessionId, entry);
+    void this.write(sessionId, entry);
   }
 
   /**
-   * Delete an entry, running its cleanup callback
+   * Write the current value of an entry through to the persistence backend.
+   * Call this after mutating a stored object in place; the returned promise
+   * resolves once the entry has been replicated to the shared store.
    */
-  async delete(sessionId: string): Promise<boolean> {
+  async persist(sessionId: string): Promise<void> {
     const entry = this.store.get(sessionId);
     if (entry) {
-      this.store.delete(sessionId);
-      try {
-        if (entry.cleanup) {
-          await entry.cleanup();
-        }
-        if (this.onEvict) {
-          await this.onEvict(sessionId, entry.value);
-        }
-      } catch (error) {
-        logger.warn(`${this.name}: Cleanup error for session ${sessionId}:`, error);
-      }
-      return true;
+      await this.write(sessionId, entry);
     }
-    return false;
   }
 
   /**
-   * Evict expired entries based on TTL
+   * Delete an entry, running its cleanup callback
+   */
+  async delete(sessionId: string): Promise<boolean> {
+    const persisted = this.persistence?.backend.get(this.name, sessionId) !== undefined;
+    this.persistence?.backend.delete(this.name, sessionId);
+
+    const sharedStore = this.persistence?.sharedStore;
+    const shared = sharedStore ? await sharedStore.delete(this.getSharedKey(sessionId)) : false;
+
+    const evicted = await this.evictFromMemory(sessionId);
+    return evicted || persisted || shared;
+  }
+
+  /**
+   * Evict expired entries based on TTL.
+   * Persisted copies are kept until their retention period has passed.
    */
   async evictExpired(): Promise<number> {
     const now = Date.now();
@@ -128,13 +279,23 @@ class SessionStore<T> {
     }
 
     for (const sessionId of expiredSessions) {
-      await this.delete(sessionId);
+      await this.evictFromMemory(sessionId);
     }
 
     if (expiredSessions.length > 0) {
       logger.debug(`${this.name}: Evicted ${expiredSessions.length} expired entries`);
     }
 
+    if (this.persistence) {
+      const purged = this.persistence.backend.deleteOlderThan(
+        this.name,
+        now - this.persistence.retentionMs
+      );
+      if (purged > 0) {
+        logger.debug(`${this.name}: Purged ${purged} persisted entries past retention`);
+      }
+    }
+
     return expiredSessions.length;
   }
 
@@ -153,17 +314,123 @@ class SessionStore<T> {
     }
 
     if (oldestSession) {
-      await this.delete(oldestSession);
+      await this.evictFromMemory(oldestSession);
     }
   }
 
+  /**
+   * Remove an entry from memory only, running its cleanup callback
+   */
+  private async evictFromMemory(sessionId: string): Promise<boolean> {
+    const entry = this.store.get(sessionId);
+    if (entry) {
+      this.store.delete(sessionId);
+      try {
+        if (entry.cleanup) {
+          await entry.cleanup();
+        }
+        if (this.onEvict) {
+          await this.onEvict(sessionId, entry.value);
+        }
+      } catch (error) {
+        logger.warn(`${this.name}: Cleanup error for session ${sessionId}:`, error);
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Load an entry from the persistence backend into memory
+   */
+  private restore(sessionId: string): StoreEntry<T> | undefined {
+    if (!this.persistence) return undefined;
+
+    const record = this.persistence.backend.get(this.name, sessionId);
+    if (!record) return undefined;
+
+    if (Date.now() - record.lastAccessed > this.persistence.retentionMs) {
+      this.persistence.backend.delete(this.name, sessionId);
+      return undefined;
+    }
+
+    const entry = this.deserializeEntry(sessionId, record.value, record.lastAccessed);
+    if (!entry) {
+      this.persistence.backend.delete(this.name, sessionId);
+      return undefined;
+    }
+
+    this.store.set(sessionId, entry);
+    logger.debug(`${this.name}: Restored persisted entry for session ${sessionId}`);
+    return entry;
+  }
+
+  /**
+   * Rebuild an entry from serialized data, or undefined if the data is unreadable
+   */
+  private deserializeEntry(
+    sessionId: string,
+    data: string,
+    lastAccessed: number
+  ): StoreEntry<T> | undefined {
+    if (!this.persistence) return undefined;
+
+    try {
+      return {
+        value: this.persistence.deserialize(JSON.parse(data)),
+        lastAccessed,
+        data,
+      };
+    } catch (error) {
+      logger.warn(`${this.name}: Discarding unreadable persisted entry for ${sessionId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Serialize an entry to the persistence backend and the shared store
+   */
+  private async write(sessionId: string, entry: StoreEntry<T>): Promise<void> {
+    if (!this.persistence) return;
+
+    let data: string;
+    try {
+      data = JSON.stringify(this.persistence.serialize(entry.value));
+      entry.data = data;
+      this.persistence.backend.set(this.name, sessionId, data, entry.lastAccessed);
+    } catch (error) {
+      logger.error(`${this.name}: Failed to persist entry for session ${sessionId}:`, error);
+      return;
+    }
+
+    try {
+      await this.persistence.sharedStore?.set(
+        this.getSharedKey(sessionId),
+        data,
+        this.persistence.retentionMs
+      );
+    } catch (error) {
+      logger.error(`${this.name}: Failed to share entry for session ${sessionId}:`, error);
+    }
+  }
+
+  private getSharedKey(sessionId: string): string {
+    return `${SHARED_KEY_PREFIX}${this.name}:${sessionId}`;
+  }
+
   /**
    * Clear all entries
    */
   async clear(): Promise<void> {
+    this.persistence?.backend.clear(this.name);
+    const sharedStore = this.persistence?.sharedStore;
+    if (sharedStore) {
+      const keys = await sharedStore.keys(this.getSharedKey(''));
+      await Promise.all(keys.map((key) => sharedStore.delete(key)));
+    }
     const sessions = Array.from(this.store.keys());
     for (const sessionId of sessions) {
-      await this.delete(sessionId);
+      await this.evictFromMemory(sessionId);
     }
   }
 
@@ -173,6 +440,13 @@ class SessionStore<T> {
   get size(): number {
     return this.store.size;
   }
+
+  /**
+   * Get number of persisted entries (including ones not loaded into memory)
+   */
+  get persistedSize(): number {
+    return this.persistence?.backend.count(this.name) ?? 0;
+  }
 }
 
 // ============================================
@@ -185,10 +459,10 @@ let amazonExtenders: SessionStore<unknown> | null = null;
 /** PayPal extenders */
 let paypalExtenders: SessionStore<unknown> | null = null;
 
-/** FinTS clients */
+/** FinTS clients (memory only, see above) */
 let fintsClients: SessionStore<unknown> | null = null;
 
-/** FinTS dialog states */
+/** FinTS dialog states (memory only, see above) */
 let fintsDialogStates: SessionStore<unknown> | null = null;
 
 /** Transaction caches (already has TTL, but we track for session cleanup) */
@@ -252,11 +526,11 @@ export async function clearSessionData(sessionId: string): Promise<void> {
 
   const promises: Promise<boolean>[] = [];
 
-  if (amazonExtenders?.has(sessionId)) {
+  if (amazonExtenders?.has(sessionId) || amazonExtenders?.isShared) {
     promises.push(amazonExtenders.delete(sessionId));
   }
 
-  if (paypalExtenders?.has(sessionId)) {
+  if (paypalExtenders?.has(sessionId) || paypalExtenders?.isShared) {
     promises.push(paypalExtenders.delete(sessionId));
   }
 
@@ -270,6 +544,10 @@ export async function clearSessionData(sessionId: string): Promise<void> {
 
   await Promise.all(promises);
 
+  // Cancel and drop background jobs of this session
+  const { getJobManager } = await import('./jobManager.js');
+  getJobManager().removeAll(sessionId);
+
   // Clear transaction cache for this session
   if (transactionCacheSessions.has(sessionId)) {
     // Import dynamically to avoid circular dependency
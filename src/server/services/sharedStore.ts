@@ -0,0 +1,270 @@
+/**
+ * Shared State Store
+ *
+ * Key/value storage with per-key expiry for state that every server instance
+ * must see when running several replicas behind a load balancer: Express
+ * sessions (including their CSRF tokens), rate limit counters and the data of
+ * persistent session stores.
+ *
+ * Backends (SHARED_STORE):
+ * - memory: In-process map, only visible to this instance (default)
+ * - redis: Any Redis-compatible server at REDIS_URL
+ */
+
+import { config } from '../config/index.js';
+import { RedisClient } from '../clients/redis.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('SharedStore');
+
+/** Interval for removing expired keys from the memory backend */
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Keys fetched per SCAN call */
+const SCAN_COUNT = 100;
+
+/**
+ * Lua script for RedisSharedStore.increment: INCRBY and set the expiry of new
+ * counters in one step, so no parallel request or instance sees a counter
+ * without expiry. Returns the new value and the remaining time to live.
+ */
+const INCREMENT_SCRIPT = `
+local value = redis.call('INCRBY', KEYS[1], ARGV[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  ttl = tonumber(ARGV[2])
+end
+return {value, ttl}
+`;
+
+/** Value of a counter after an increment */
+export interface SharedCounter {
+  value: number;
+  /** Time until the counter expires */
+  ttlMs: number;
+}
+
+/**
+ * Storage backend for state shared between server instances
+ */
+export interface SharedStore {
+  /** Backend name for logging */
+  readonly name: string;
+  /** Whether other server instances see the same data */
+  readonly distributed: boolean;
+  /** Get a value, or undefined if it does not exist or has expired */
+  get(key: string): Promise<string | undefined>;
+  /** Insert or replace a value that expires after ttlMs */
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  /** Reset the expiry of an existing value */
+  expire(key: string, ttlMs: number): Promise<void>;
+  /**
+   * Atomically add to an integer value (negative amounts subtract). A missing
+   * value starts at 0 and expires after ttlMs; existing values keep their expiry.
+   */
+  increment(key: string, amount: number, ttlMs: number): Promise<SharedCounter>;
+  /** Delete a value, returning whether it existed */
+  delete(key: string): Promise<boolean>;
+  /** List the keys starting with the prefix */
+  keys(prefix: string): Promise<string[]>;
+  /** Release resources held by the backend */
+  close(): Promise<void>;
+}
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-process backend (not shared between instances, useful for tests and single instances)
+ */
+export class MemorySharedStore implements SharedStore {
+  readonly name = 'memory';
+  readonly distributed = false;
+  private entries: Map<string, MemoryEntry> = new Map();
+  private sweepInterval: ReturnType<typeof setInterval>;
+
+  constructor() {
+    this.sweepInterval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepInterval.unref();
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return this.read(key)?.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async expire(key: string, ttlMs: number): Promise<void> {
+    const entry = this.read(key);
+    if (entry) {
+      entry.expiresAt = Date.now() + ttlMs;
+    }
+  }
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<SharedCounter> {
+    const now = Date.now();
+    const entry = this.read(key) ?? { value: '0', expiresAt: now + ttlMs };
+    entry.value = String(parseInt(entry.value, 10) + amount);
+    this.entries.set(key, entry);
+    return { value: Number(entry.value), ttlMs: entry.expiresAt - now };
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.read(key) !== undefined && this.entries.delete(key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.entries.keys()).filter(
+      (key) => key.startsWith(prefix) && this.read(key) !== undefined
+    );
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepInterval);
+    this.entries.clear();
+  }
+
+  private read(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Redis-compatible backend; all keys are namespaced with a prefix so several
+ * deployments can share one server
+ */
+export class RedisSharedStore implements SharedStore {
+  readonly name = 'redis';
+  readonly distributed = true;
+  private client: RedisClient;
+  private keyPrefix: string;
+
+  constructor(client: RedisClient, keyPrefix = '') {
+    this.client = client;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const reply = await this.client.command('GET', this.keyPrefix + key);
+    return typeof reply === 'string' ? reply : undefined;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.command('SET', this.keyPrefix + key, value, 'PX', toRedisTtl(ttlMs));
+  }
+
+  async expire(key: string, ttlMs: number): Promise<void> {
+    await this.client.command('PEXPIRE', this.keyPrefix + key, toRedisTtl(ttlMs));
+  }
+
+  async increment(key: string, amount: number, ttlMs: number): Promise<SharedCounter> {
+    const reply = await this.client.command(
+      'EVAL',
+      INCREMENT_SCRIPT,
+      1,
+      this.keyPrefix + key,
+      amount,
+      toRedisTtl(ttlMs)
+    );
+    const [value, remainingMs] = reply as [number, number];
+    return { value, ttlMs: remainingMs };
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.client.command('DEL', this.keyPrefix + key)) === 1;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const pattern = escapeGlob(this.keyPrefix + prefix) + '*';
+    const keys: string[] = [];
+
+    let cursor = '0';
+    do {
+      const reply = await this.client.command(
+        'SCAN',
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        SCAN_COUNT
+      );
+      const [nextCursor, batch] = reply as [string, string[]];
+      for (const key of batch) {
+        keys.push(key.slice(this.keyPrefix.length));
+      }
+      cursor = nextCursor;
+    } while (cursor !== '0');
+
+    return keys;
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
+
+/**
+ * Redis expiry in whole milliseconds (must be positive)
+ */
+function toRedisTtl(ttlMs: number): number {
+  return Math.max(1, Math.ceil(ttlMs));
+}
+
+/**
+ * Escape glob characters so a prefix matches literally in SCAN MATCH
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+// Shared store instance, created lazily on first use
+let storeInstance: SharedStore | null = null;
+
+/**
+ * Get the shared store configured via SHARED_STORE and REDIS_URL
+ */
+export function getSharedStore(): SharedStore {
+  if (!storeInstance) {
+    if (config.sharedStore.backend === 'redis') {
+      storeInstance = new RedisSharedStore(
+        RedisClient.fromUrl(config.sharedStore.redisUrl),
+        config.sharedStore.keyPrefix
+      );
+      logger.info('Using Redis for shared state (sessions, rate limits, session data)');
+    } else {
+      storeInstance = new MemorySharedStore();
+      logger.debug('Using in-memory shared state (single instance only)');
+    }
+  }
+  return storeInstance;
+}
+
+/**
+ * Close the shared store (e.g., on shutdown)
+ */
+export async function closeSharedStore(): Promise<void> {
+  if (storeInstance) {
+    const store = storeInstance;
+    storeInstance = null;
+    await store.close();
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  SuggestionRuleService,
+  SUGGESTION_RULE_GROUP_TITLE,
+  getCommonPrefix,
+  proposeRules,
+} from './suggestionRules.js';
+import { TAGGER_TAG } from './aiSuggestions.js';
+import type { FireflyApiClient } from '../clients/firefly.js';
+import type { AcceptedSuggestion } from '../../shared/types/app.js';
+
+// Mock the AI client imported by the AI suggestion service
+vi.mock('../clients/ai.js', () => ({
+  analyzeForCategory: vi.fn(),
+  analyzeForTags: vi.fn(),
+}));
+
+function accepted(
+  description: string,
+  destinationName: string | null,
+  outcome: Omit<AcceptedSuggestion, 'transaction'>,
+  type = 'withdrawal'
+): AcceptedSuggestion {
+  return {
+    transaction: { description, type, source_name: 'Checking', destination_name: destinationName },
+    ...outcome,
+  };
+}
+
+describe('getCommonPrefix', () => {
+  it('should return the words all values start with', () => {
+    expect(getCommonPrefix(['REWE SAGT DANKE 12345', 'rewe sagt danke 67890'])).toBe(
+      'REWE SAGT DANKE'
+    );
+    expect(getCommonPrefix(['Rent', 'Salary'])).toBe('');
+  });
+});
+
+describe('proposeRules', () => {
+  it('should propose a category rule per counterparty', () => {
+    const proposals = proposeRules([
+      accepted('Card payment 1', 'REWE', { categoryName: 'Groceries' }),
+      accepted('Card payment 2', 'REWE', { categoryName: 'Groceries' }),
+      accepted('Card payment 3', 'REWE', { categoryName: 'Groceries' }),
+      accepted('Card payment 4', 'Netflix', { categoryName: 'Streaming' }),
+    ]);
+
+    expect(proposals).toEqual([
+      {
+        title: 'REWE → Groceries',
+        triggers: [{ type: 'destination_account_is', value: 'REWE' }],
+        actions: [{ type: 'set_category', value: 'Groceries' }],
+        matchCount: 3,
+        examples: ['Card payment 1', 'Card payment 2', 'Card payment 3'],
+      },
+    ]);
+  });
+
+  it('should match varying counterparties and descriptions by their common words', () => {
+    const proposals = proposeRules([
+      accepted('Shopping', 'REWE SAGT DANKE 12345', { categoryName: 'Groceries' }),
+      accepted('Shopping', 'REWE SAGT DANKE 67890', { categoryName: 'Groceries' }),
+      accepted('SEPA-LASTSCHRIFT STADTWERKE MUENCHEN 4711', '(no name)', { tags: ['Utilities'] }),
+      accepted('SEPA-LASTSCHRIFT STADTWERKE MUENCHEN 4712', null, { tags: ['Utilities'] }),
+    ]);
+
+    expect(proposals.map((proposal) => proposal.triggers)).toEqual([
+      [{ type: 'destination_account_contains', value: 'REWE SAGT DANKE' }],
+      [{ type: 'description_contains', value: 'SEPA-LASTSCHRIFT STADTWERKE MUENCHEN' }],
+    ]);
+  });
+
+  it('should use the source of deposits as counterparty', () => {
+    const [proposal] = proposeRules([
+      {
+        transaction: {
+          description: 'Salary May',
+          type: 'deposit',
+          source_name: 'ACME Corp',
+          destination_name: 'Checking',
+        },
+        categoryName: 'Income',
+      },
+      {
+        transaction: {
+          description: 'Salary June',
+          type: 'deposit',
+          source_name: 'ACME Corp',
+          destination_name: 'Checking',
+        },
+        categoryName: 'Income',
+      },
+    ]);
+
+    expect(proposal.triggers).toEqual([{ type: 'source_account_is', value: 'ACME Corp' }]);
+  });
+
+  it('should only propose actions all suggestions of a group agree on', () => {
+    const proposals = proposeRules([
+      accepted('Order 1', 'Amazon', { tags: ['Shopping', 'Online', TAGGER_TAG] }),
+      accepted('Order 2', 'Amazon', { tags: ['Online', TAGGER_TAG] }),
+      accepted('Lunch', 'Cafe', { categoryName: 'Food' }),
+      accepted('Beans', 'Cafe', { categoryName: 'Groceries' }),
+    ]);
+
+    expect(proposals).toHaveLength(1);
+    expect(proposals[0].actions).toEqual([{ type: 'add_tag', value: 'Online' }]);
+  });
+});
+
+describe('SuggestionRuleService', () => {
+  let fireflyApi: {
+    getAllRuleGroups: ReturnType<typeof vi.fn>;
+    createRuleGroup: ReturnType<typeof vi.fn>;
+    createRule: ReturnType<typeof vi.fn>;
+  };
+  let service: SuggestionRuleService;
+
+  const rule = {
+    title: 'REWE → Groceries',
+    triggers: [{ type: 'destination_account_is' as const, value: 'REWE' }],
+    actions: [{ type: 'set_category' as const, value: 'Groceries' }],
+  };
+
+  beforeEach(() => {
+    fireflyApi = {
+      getAllRuleGroups: vi.fn().mockResolvedValue([]),
+      createRuleGroup: vi.fn().mockResolvedValue({ id: 'rg1' }),
+      createRule: vi.fn().mockResolvedValue({ id: 'r1' }),
+    };
+    service = new SuggestionRuleService(fireflyApi as unknown as FireflyApiClient);
+  });
+
+  it('should create rules in a new rule group', async () => {
+    const result = await service.createRules([rule]);
+
+    expect(fireflyApi.createRuleGroup).toHaveBeenCalledWith(
+      expect.objectContaining({ title: SUGGESTION_RULE_GROUP_TITLE })
+    );
+    expect(fireflyApi.createRule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'REWE → Groceries',
+        rule_group_id: 'rg1',
+        trigger: 'store-journal',
+        strict: true,
+        triggers: [{ type: 'destination_account_is', value: 'REWE', active: true }],
+        actions: [{ type: 'set_category', value: 'Groceries', active: true }],
+      })
+    );
+    expect(result).toEqual({ created: [{ title: 'REWE → Groceries', ruleId: 'r1' }], failed: [] });
+  });
+
+  it('should reuse the rule group and report failed rules', async () => {
+    fireflyApi.getAllRuleGroups.mockResolvedValue([
+      { id: 'rg7', attributes: { title: SUGGESTION_RULE_GROUP_TITLE } },
+    ]);
+    fireflyApi.createRule.mockRejectedValueOnce(new Error('Invalid trigger'));
+
+    const result = await service.createRules([rule, { ...rule, title: 'Second' }]);
+
+    expect(fireflyApi.createRuleGroup).not.toHaveBeenCalled();
+    expect(fireflyApi.createRule).toHaveBeenLastCalledWith(
+      expect.objectContaining({ rule_group_id: 'rg7' })
+    );
+    expect(result).toEqual({
+      created: [{ title: 'Second', ruleId: 'r1' }],
+      failed: [{ title: 'REWE → Groceries', error: 'Invalid trigger' }],
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Rules from AI Suggestions
+ *
+ * Turns suggestions the user applied into Firefly III rules, so similar
+ * transactions are categorized and tagged by Firefly III itself instead of being
+ * classified by the AI again. Applied suggestions are grouped by counterparty
+ * (or, without one, by the leading words of the description); groups with
+ * enough transactions and a consistent outcome become rule proposals the user
+ * can edit before they are created.
+ */
+
+import { FireflyApiClient } from '../clients/firefly.js';
+import { TAGGER_TAG } from './aiSuggestions.js';
+import type { FireflyRuleGroup } from '../../shared/types/firefly.js';
+import type {
+  AcceptedSuggestion,
+  RuleCreationResult,
+  RuleProposal,
+  RuleProposalTriggerType,
+} from '../../shared/types/app.js';
+
+/** Rule group the proposed rules are created in */
+export const SUGGESTION_RULE_GROUP_TITLE = 'AI Suggestion Rules (Auto-generated)';
+
+/** Minimum number of applied suggestions a rule is proposed for */
+export const MIN_RULE_MATCHES = 2;
+
+/** Words of a description used to group transactions without a counterparty */
+const DESCRIPTION_KEY_WORDS = 3;
+
+/** Descriptions listed as examples per proposal */
+const MAX_EXAMPLES = 3;
+
+interface SuggestionGroup {
+  field: 'description' | 'source_account' | 'destination_account';
+  values: string[];
+  suggestions: AcceptedSuggestion[];
+}
+
+function tokenize(value: string): string[] {
+  return value.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Grouping key of a text: its leading words without numbers (store numbers,
+ * dates and references differ between otherwise equal bank texts)
+ */
+function getGroupKey(value: string, words?: number): string {
+  return tokenize(value)
+    .filter((token) => !/\d/.test(token))
+    .slice(0, words)
+    .join(' ')
+    .toLowerCase();
+}
+
+/**
+ * Longest sequence of whole words all values start with (compared case-insensitively)
+ */
+export function getCommonPrefix(values: string[]): string {
+  const [first, ...rest] = values.map(tokenize);
+  if (!first) return '';
+
+  let length = first.length;
+  for (const tokens of rest) {
+    let index = 0;
+    while (
+      index < length &&
+      index < tokens.length &&
+      tokens[index].toLowerCase() === first[index].toLowerCase()
+    ) {
+      index++;
+    }
+    length = index;
+  }
+  return first.slice(0, length).join(' ');
+}
+
+/**
+ * Counterparty of a transaction: the destination of withdrawals, the source of
+ * deposits. Placeholders such as "(no name)" do not count.
+ */
+function getCounterparty(
+  transaction: AcceptedSuggestion['transaction']
+): { field: 'source_account' | 'destination_account'; name: string } | null {
+  const field =
+    transaction.type === 'withdrawal'
+      ? 'destination_account'
+      : transaction.type === 'deposit'
+        ? 'source_account'
+        : null;
+  if (!field) return null;
+
+  const name = (
+    field === 'destination_account' ? transaction.destination_name : transaction.source_name
+  )?.trim();
+  if (!name || name.startsWith('(')) return null;
+  return { field, name };
+}
+
+function groupSuggestions(accepted: AcceptedSuggestion[]): SuggestionGroup[] {
+  const groups: Map<string, SuggestionGroup> = new Map();
+
+  for (const suggestion of accepted) {
+    const counterparty = getCounterparty(suggestion.transaction);
+    const field = counterparty?.field ?? 'description';
+    const value = counterparty?.name ?? suggestion.transaction.description;
+    const key = getGroupKey(value, counterparty ? undefined : DESCRIPTION_KEY_WORDS);
+    if (!key) continue;
+
+    const groupKey = `${field}:${key}`;
+    const group = groups.get(groupKey) ?? { field, values: [], suggestions: [] };
+    group.values.push(value);
+    group.suggestions.push(suggestion);
+    groups.set(groupKey, group);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Trigger matching all transactions of a group (null if they share no text)
+ */
+function getTrigger(group: SuggestionGroup): RuleProposal['triggers'][number] | null {
+  const distinct = new Set(group.values.map((value) => value.toLowerCase()));
+  if (group.field !== 'description' && distinct.size === 1) {
+    return { type: `${group.field}_is` as RuleProposalTriggerType, value: group.values[0] };
+  }
+
+  const prefix = getCommonPrefix(group.values);
+  if (!prefix) return null;
+  return {
+    type: `${group.field}_contains` as RuleProposalTriggerType,
+    value: prefix,
+  };
+}
+
+/**
+ * Actions every suggestion of a group agrees on: the category if all set the
+ * same one, and the tags all of them added
+ */
+function getActions(group: SuggestionGroup): RuleProposal['actions'] {
+  const actions: RuleProposal['actions'] = [];
+
+  const categories = new Set(group.suggestions.map((s) => s.categoryName ?? ''));
+  const [category] = categories;
+  if (categories.size === 1 && category) {
+    actions.push({ type: 'set_category', value: category });
+  }
+
+  const [first, ...rest] = group.suggestions.map(
+    (s) => new Set((s.tags ?? []).filter((tag) => tag !== TAGGER_TAG))
+  );
+  const commonTags = [...first].filter((tag) => rest.every((tags) => tags.has(tag)));
+  for (const tag of commonTags) {
+    actions.push({ type: 'add_tag', value: tag });
+  }
+
+  return actions;
+}
+
+/**
+ * Propose rules for groups of similar applied suggestions, most common first
+ */
+export function proposeRules(accepted: AcceptedSuggestion[]): RuleProposal[] {
+  const proposals: RuleProposal[] = [];
+
+  for (const group of groupSuggestions(accepted)) {
+    if (group.suggestions.length < MIN_RULE_MATCHES) continue;
+
+    const trigger = getTrigger(group);
+    const actions = getActions(group);
+    if (!trigger || actions.length === 0) continue;
+
+    proposals.push({
+      title: `${trigger.value} → ${actions.map((action) => action.value).join(', ')}`,
+      triggers: [trigger],
+      actions,
+      matchCount: group.suggestions.length,
+      examples: [...new Set(group.suggestions.map((s) => s.transaction.description))].slice(
+        0,
+        MAX_EXAMPLES
+      ),
+    });
+  }
+
+  return proposals.sort((a, b) => b.matchCount - a.matchCount);
+}
+
+export class SuggestionRuleService {
+  private fireflyApi: FireflyApiClient;
+
+  constructor(fireflyApi: FireflyApiClient) {
+    this.fireflyApi = fireflyApi;
+  }
+
+  /**
+   * Create rules in the suggestion rule group. Rules run when transactions are
+   * stored and only apply if all of their triggers match.
+   */
+  async createRules(
+    rules: Array<Pick<RuleProposal, 'title' | 'triggers' | 'actions'>>
+  ): Promise<RuleCreationResult> {
+    const result: RuleCreationResult = { created: [], failed: [] };
+    const ruleGroup = await this.getOrCreateRuleGroup();
+
+    for (const rule of rules) {
+      try {
+        const created = await this.fireflyApi.createRule({
+          title: rule.title,
+          description: 'Auto-generated from applied AI suggestions by Toolbox for Firefly III',
+          rule_group_id: ruleGroup.id,
+          trigger: 'store-journal',
+          active: true,
+          strict: true,
+          stop_processing: false,
+          triggers: rule.triggers.map((trigger) => ({ ...trigger, active: true })),
+          actions: rule.actions.map((action) => ({ ...action, active: true })),
+        });
+        result.created.push({ title: rule.title, ruleId: created.id });
+      } catch (error) {
+        result.failed.push({
+          title: rule.title,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private async getOrCreateRuleGroup(): Promise<FireflyRuleGroup> {
+    const existingGroups = await this.fireflyApi.getAllRuleGroups();
+    const existingGroup = existingGroups.find(
+      (g) => g.attributes.title === SUGGESTION_RULE_GROUP_TITLE
+    );
+    if (existingGroup) {
+      return existingGroup;
+    }
+
+    return this.fireflyApi.createRuleGroup({
+      title: SUGGESTION_RULE_GROUP_TITLE,
+      description: 'Auto-generated rules from AI suggestions applied in Toolbox for Firefly III',
+      active: true,
+    });
+  }
+}
@@ -19,6 +19,11 @@ vi.mock('../utils/logger.js', () => ({
   }),
 }));
 
+let activeProfileId = 'default';
+vi.mock('../clients/firefly.js', () => ({
+  getActiveFireflyProfile: () => ({ id: activeProfileId }),
+}));
+
 // Helper to create a mock transaction
 function createMockTransaction(id: string): FireflyTransaction {
   return {
@@ -97,6 +102,7 @@ describe('transactionCache', () => {
   beforeEach(() => {
     // Clear all caches before each test
     clearAllCaches();
+    activeProfileId = 'default';
   });
 
   afterEach(() => {
@@ -178,6 +184,17 @@ describe('transactionCache', () => {
       expect(getCachedTransactions('session-2', cacheKey)).toEqual(transactions2);
     });
 
+    it('should isolate caches between Firefly III profiles', () => {
+      const transactions = [createMockTransaction('1')];
+      setCachedTransactions('session-1', 'same-key', transactions);
+
+      activeProfileId = 'business';
+      expect(getCachedTransactions('session-1', 'same-key')).toBeNull();
+
+      activeProfileId = 'default';
+      expect(getCachedTransactions('session-1', 'same-key')).toEqual(transactions);
+    });
+
     it('should handle multiple cache keys per session', () => {
       const sessionId = 'session-1';
       const transactions1 = [createMockTransaction('1')];
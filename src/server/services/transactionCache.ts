@@ -1,3 +1,4 @@
+import { getActiveFireflyProfile } from '../clients/firefly.js';
 import { createLogger } from '../utils/logger.js';
 import type { FireflyTransaction } from '../../shared/types/firefly.js';
 
@@ -8,7 +9,8 @@ interface CacheEntry {
   timestamp: number;
 }
 
-// Cache keyed by: sessionId -> dateRangeKey -> transactions
+// Cache keyed by: sessionId -> profileId:dateRangeKey -> transactions
+// (keyed by connection profile so results from different Firefly III instances never mix)
 const cache = new Map<string, Map<string, CacheEntry>>();
 
 // Cache TTL: 10 minutes
@@ -32,6 +34,13 @@ export function getCacheKey(startDate?: string, endDate?: string, extra?: string
   return `${startDate || ''}-${endDate || ''}-${extra || ''}`;
 }
 
+/**
+ * Scope a cache key to the active Firefly III connection profile
+ */
+function getProfileScopedKey(cacheKey: string): string {
+  return `${getActiveFireflyProfile().id}:${cacheKey}`;
+}
+
 /**
  * Get cached transactions for a session and date range
  */
@@ -42,13 +51,13 @@ export function getCachedTransactions(
   const sessionCache = cache.get(sessionId);
   if (!sessionCache) return null;
 
-  const entry = sessionCache.get(cacheKey);
+  const entry = sessionCache.get(getProfileScopedKey(cacheKey));
   if (!entry) return null;
 
   // Check if cache is expired
   if (Date.now() - entry.timestamp > CACHE_TTL) {
     logger.debug(`Cache expired for ${cacheKey}`);
-    sessionCache.delete(cacheKey);
+    sessionCache.delete(getProfileScopedKey(cacheKey));
     return null;
   }
 
@@ -74,7 +83,7 @@ export function setCachedTransactions(
     }
   }
 
-  sessionCache.set(cacheKey, {
+  sessionCache.set(getProfileScopedKey(cacheKey), {
     transactions,
     timestamp: Date.now(),
   });
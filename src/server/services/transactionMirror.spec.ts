@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TransactionMirror, type TransactionMirrorSource } from './transactionMirror.js';
+import { MemoryPersistenceBackend } from './persistence.js';
+import type { FireflyTransaction, FireflyTransactionSplit } from '../../shared/types/firefly.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const MAX_AGE_MS = 5 * 60 * 1000;
+
+function createTransaction(
+  id: string,
+  date: string,
+  overrides: Partial<FireflyTransactionSplit> = {},
+  updatedAt = '2024-06-01T08:00:00.000Z'
+): FireflyTransaction {
+  return {
+    id,
+    type: 'transactions',
+    attributes: {
+      created_at: updatedAt,
+      updated_at: updatedAt,
+      user: '1',
+      group_title: null,
+      transactions: [
+        {
+          transaction_journal_id: `j${id}`,
+          type: 'withdrawal',
+          date: `${date}T00:00:00+02:00`,
+          amount: '10.00',
+          description: `Transaction ${id}`,
+          ...overrides,
+        } as FireflyTransactionSplit,
+      ],
+    },
+  };
+}
+
+/**
+ * Fake Firefly III holding the remote transactions
+ */
+function createSource(transactions: FireflyTransaction[]) {
+  const remote = new Map(transactions.map((t) => [t.id, t]));
+  const inRange = (startDate?: string, endDate?: string) =>
+    Array.from(remote.values()).filter((t) => {
+      const date = t.attributes.transactions[0].date.slice(0, 10);
+      return (!startDate || date >= startDate) && (!endDate || date <= endDate);
+    });
+
+  const source = {
+    fetchAllTransactions: vi.fn(async (startDate?: string, endDate?: string) =>
+      inRange(startDate, endDate)
+    ),
+    countTransactions: vi.fn(
+      async (startDate?: string, endDate?: string) => inRange(startDate, endDate).length
+    ),
+    searchAllTransactions: vi.fn(async (query: string) => {
+      const since = query.replace('updated_at_after:', '');
+      return Array.from(remote.values()).filter(
+        (t) => t.attributes.updated_at.slice(0, 10) > since
+      );
+    }),
+  } satisfies TransactionMirrorSource;
+
+  return { remote, source };
+}
+
+describe('TransactionMirror', () => {
+  let backend: MemoryPersistenceBackend;
+  let mirror: TransactionMirror;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-06-01T12:00:00.000Z'));
+    backend = new MemoryPersistenceBackend();
+    mirror = new TransactionMirror(backend, MAX_AGE_MS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should download all transactions on first use and filter them locally', async () => {
+    const { source } = createSource([
+      createTransaction('1', '2023-12-31'),
+      createTransaction('2', '2024-03-15'),
+      createTransaction('3', '2024-05-01', { type: 'deposit' }),
+      createTransaction('4', '2024-05-02', { type: 'opening balance' }),
+    ]);
+
+    const transactions = await mirror.getTransactions('default', source, {
+      startDate: '2024-01-01',
+      endDate: '2024-12-31',
+    });
+
+    expect(source.fetchAllTransactions).toHaveBeenCalledWith(undefined, undefined, 'all');
+    // Newest first; opening balances only with type "all"
+    expect(transactions.map((t) => t.id)).toEqual(['3', '2']);
+    expect(
+      (await mirror.getTransactions('default', source, { type: 'withdrawal' })).map((t) => t.id)
+    ).toEqual(['2', '1']);
+    expect(source.fetchAllTransactions).toHaveBeenCalledTimes(1);
+    expect(mirror.getStatus('default')).toMatchObject({
+      transactionCount: 4,
+      lastSyncAt: '2024-06-01T12:00:00.000Z',
+      lastFullSyncAt: '2024-06-01T12:00:00.000Z',
+      lastError: null,
+    });
+  });
+
+  it('should sync only changes once the copy is older than the maximum age', async () => {
+    const { remote, source } = createSource([
+      createTransaction('1', '2024-05-01', {}, '2024-05-01T08:00:00.000Z'),
+    ]);
+    await mirror.getTransactions('default', source);
+
+    vi.setSystemTime(new Date('2024-06-01T12:10:00.000Z'));
+    remote.set(
+      '1',
+      createTransaction('1', '2024-05-01', { description: 'Renamed' }, '2024-06-01T12:05:00.000Z')
+    );
+    remote.set('2', createTransaction('2', '2024-06-01', {}, '2024-06-01T12:06:00.000Z'));
+
+    const transactions = await mirror.getTransactions('default', source);
+
+    expect(source.searchAllTransactions).toHaveBeenCalledWith('updated_at_after:2024-05-31');
+    expect(source.fetchAllTransactions).toHaveBeenCalledTimes(1);
+    expect(transactions.map((t) => t.attributes.transactions[0].description)).toEqual([
+      'Transaction 2',
+      'Renamed',
+    ]);
+  });
+
+  it('should remove transactions deleted in Firefly III, downloading only affected years', async () => {
+    const { remote, source } = createSource([
+      createTransaction('1', '2022-02-01'),
+      createTransaction('2', '2024-03-01'),
+      createTransaction('3', '2024-04-01'),
+    ]);
+    await mirror.getTransactions('default', source);
+    remote.delete('3');
+
+    await mirror.sync('default', source);
+
+    expect(source.fetchAllTransactions).toHaveBeenLastCalledWith('2024-01-01', '2024-12-31', 'all');
+    expect(source.fetchAllTransactions).toHaveBeenCalledTimes(2);
+    expect(mirror.getStatus('default').transactionCount).toBe(2);
+  });
+
+  it('should keep the copy across instances', async () => {
+    const { source } = createSource([createTransaction('1', '2024-05-01')]);
+    await mirror.getTransactions('default', source);
+
+    const restarted = new TransactionMirror(backend, MAX_AGE_MS);
+
+    expect((await restarted.getTransactions('default', source)).map((t) => t.id)).toEqual(['1']);
+    expect(source.fetchAllTransactions).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share a running sync between concurrent reads', async () => {
+    const { source } = createSource([createTransaction('1', '2024-05-01')]);
+
+    await Promise.all([
+      mirror.getTransactions('default', source),
+      mirror.getTransactions('default', source),
+    ]);
+
+    expect(source.fetchAllTransactions).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply writes made through the toolbox after the first sync', async () => {
+    mirror.upsert('default', createTransaction('9', '2024-05-01'));
+    expect(mirror.getStatus('default').transactionCount).toBe(0);
+
+    const { source } = createSource([createTransaction('1', '2024-05-01')]);
+    await mirror.getTransactions('default', source);
+    mirror.upsert('default', createTransaction('2', '2024-05-02'));
+    mirror.remove('default', '1');
+
+    expect((await mirror.getTransactions('default', source)).map((t) => t.id)).toEqual(['2']);
+  });
+
+  it('should record failed syncs', async () => {
+    const { source } = createSource([]);
+    source.fetchAllTransactions.mockRejectedValueOnce(new Error('Firefly III API error'));
+
+    await expect(mirror.getTransactions('default', source)).rejects.toThrow(
+      'Firefly III API error'
+    );
+    expect(mirror.getStatus('default')).toMatchObject({
+      lastSyncAt: null,
+      lastError: 'Firefly III API error',
+      syncing: false,
+    });
+  });
+
+  it('should keep the copies of connection profiles apart', async () => {
+    await mirror.getTransactions(
+      'default',
+      createSource([createTransaction('1', '2024-05-01')]).source
+    );
+    await mirror.getTransactions('business', createSource([]).source);
+
+    expect(mirror.getStatus('default').transactionCount).toBe(1);
+    expect(mirror.getStatus('business').transactionCount).toBe(0);
+  });
+});
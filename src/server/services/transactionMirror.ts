@@ -0,0 +1,329 @@
+/**
+ * Transaction Mirror
+ *
+ * Keeps a local copy of the transactions of each Firefly III connection profile,
+ * so analyses of long periods no longer download the whole history on every run.
+ * The copy lives in the persistence backend, is shared by all sessions and is
+ * brought up to date incrementally:
+ * - new and changed transactions are found with the `updated_at_after:` search
+ * - deletions are found by comparing the number of transactions per year and
+ *   downloading years whose count differs again
+ * - writes made through the toolbox are applied to the copy right away
+ */
+
+import { config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { getPersistenceBackend, type PersistenceBackend } from './persistence.js';
+import type { FireflyApiClient } from '../clients/firefly.js';
+import type { TransactionMirrorStatus } from '../../shared/types/app.js';
+import type { FireflyTransaction } from '../../shared/types/firefly.js';
+
+const logger = createLogger('TransactionMirror');
+
+/** Persistence namespace for the sync state of each profile */
+const STATE_NAMESPACE = 'transactionMirrorState';
+
+/** Transaction types Firefly III returns when no type is requested */
+const DEFAULT_TYPES = ['withdrawal', 'deposit', 'transfer'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Firefly III API calls used to sync the copy
+ */
+export type TransactionMirrorSource = Pick<
+  FireflyApiClient,
+  'fetchAllTransactions' | 'searchAllTransactions' | 'countTransactions'
+>;
+
+/**
+ * Transactions to read, with the same meaning as the Firefly III API parameters
+ */
+export interface TransactionMirrorQuery {
+  startDate?: string;
+  endDate?: string;
+  type?: string;
+}
+
+interface MirrorState {
+  lastSyncAt: string | null;
+  lastFullSyncAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Persistence namespace for the transactions of a profile
+ */
+function getTransactionNamespace(profileId: string): string {
+  return `transactionMirror:${profileId}`;
+}
+
+/**
+ * Booking date (YYYY-MM-DD) of a transaction
+ */
+function getBookingDate(transaction: FireflyTransaction): string {
+  return transaction.attributes.transactions[0]?.date.slice(0, 10) ?? '';
+}
+
+/**
+ * Check whether a transaction matches the type parameter of the Firefly III API
+ */
+function matchesType(transaction: FireflyTransaction, type?: string): boolean {
+  if (type === 'all') return true;
+  const splitType = transaction.attributes.transactions[0]?.type;
+  if (!type || type === 'default') return DEFAULT_TYPES.includes(splitType);
+  return splitType === type;
+}
+
+/**
+ * Local copy of Firefly III transactions, synced incrementally
+ */
+export class TransactionMirror {
+  private backend: PersistenceBackend;
+  private maxAgeMs: number;
+  /** Copies loaded from the backend, keyed by profile and transaction ID */
+  private copies: Map<string, Map<string, FireflyTransaction>> = new Map();
+  /** Running syncs, keyed by profile */
+  private syncs: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    backend: PersistenceBackend = getPersistenceBackend(),
+    maxAgeMs: number = config.mirror.maxAgeMs
+  ) {
+    this.backend = backend;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  /**
+   * Get transactions from the copy, syncing it first if it is older than the maximum age
+   */
+  async getTransactions(
+    profileId: string,
+    source: TransactionMirrorSource,
+    query: TransactionMirrorQuery = {}
+  ): Promise<FireflyTransaction[]> {
+    if (this.isStale(profileId)) {
+      await this.sync(profileId, source);
+    }
+
+    return Array.from(this.load(profileId).values())
+      .filter((transaction) => {
+        const date = getBookingDate(transaction);
+        return (
+          matchesType(transaction, query.type) &&
+          (!query.startDate || date >= query.startDate) &&
+          (!query.endDate || date <= query.endDate)
+        );
+      })
+      .sort(
+        (a, b) => getBookingDate(b).localeCompare(getBookingDate(a)) || Number(b.id) - Number(a.id)
+      );
+  }
+
+  /**
+   * Bring the copy up to date. The first sync, or a full one, downloads all transactions.
+   * Concurrent calls share the running sync; a full sync waits for it and then starts.
+   */
+  async sync(profileId: string, source: TransactionMirrorSource, full = false): Promise<void> {
+    const running = this.syncs.get(profileId);
+    if (running) {
+      if (!full) return running;
+      await running.catch(() => undefined);
+    }
+
+    const sync = this.runSync(profileId, source, full).finally(() => {
+      this.syncs.delete(profileId);
+    });
+    this.syncs.set(profileId, sync);
+    return sync;
+  }
+
+  /**
+   * Store a transaction created or updated through the toolbox
+   * (ignored until the profile was synced for the first time)
+   */
+  upsert(profileId: string, transaction: FireflyTransaction): void {
+    if (!this.getState(profileId).lastSyncAt) return;
+    this.write(profileId, transaction);
+  }
+
+  /**
+   * Remove a transaction deleted through the toolbox
+   */
+  remove(profileId: string, id: string): void {
+    this.copies.get(profileId)?.delete(id);
+    this.backend.delete(getTransactionNamespace(profileId), id);
+  }
+
+  /**
+   * Get the sync status of a profile
+   */
+  getStatus(profileId: string): Omit<TransactionMirrorStatus, 'enabled'> {
+    const state = this.getState(profileId);
+    return {
+      profileId,
+      transactionCount:
+        this.copies.get(profileId)?.size ?? this.backend.count(getTransactionNamespace(profileId)),
+      lastSyncAt: state.lastSyncAt,
+      lastFullSyncAt: state.lastFullSyncAt,
+      lastError: state.lastError,
+      syncing: this.syncs.has(profileId),
+      maxAgeMs: this.maxAgeMs,
+    };
+  }
+
+  private isStale(profileId: string): boolean {
+    const { lastSyncAt } = this.getState(profileId);
+    return !lastSyncAt || Date.now() - Date.parse(lastSyncAt) > this.maxAgeMs;
+  }
+
+  private async runSync(
+    profileId: string,
+    source: TransactionMirrorSource,
+    full: boolean
+  ): Promise<void> {
+    const state = this.getState(profileId);
+    const startedAt = new Date().toISOString();
+
+    try {
+      if (full || !state.lastSyncAt) {
+        await this.downloadAll(profileId, source);
+        state.lastFullSyncAt = startedAt;
+      } else {
+        await this.syncChanges(profileId, source, state.lastSyncAt);
+        await this.syncDeletions(profileId, source);
+      }
+      state.lastSyncAt = startedAt;
+      state.lastError = null;
+    } catch (error) {
+      state.lastError = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to sync transactions of profile ${profileId}:`, error);
+      throw error;
+    } finally {
+      this.backend.set(STATE_NAMESPACE, profileId, JSON.stringify(state));
+    }
+  }
+
+  /**
+   * Replace the copy with all transactions
+   */
+  private async downloadAll(profileId: string, source: TransactionMirrorSource): Promise<void> {
+    const transactions = await source.fetchAllTransactions(undefined, undefined, 'all');
+
+    this.copies.delete(profileId);
+    this.backend.clear(getTransactionNamespace(profileId));
+    for (const transaction of transactions) {
+      this.write(profileId, transaction);
+    }
+    logger.info(`Downloaded ${transactions.length} transactions of profile ${profileId}`);
+  }
+
+  /**
+   * Store transactions created or updated since the last sync. The search only
+   * accepts days, so it starts a day early; storing a transaction twice is harmless.
+   */
+  private async syncChanges(
+    profileId: string,
+    source: TransactionMirrorSource,
+    lastSyncAt: string
+  ): Promise<void> {
+    const since = new Date(Date.parse(lastSyncAt) - DAY_MS).toISOString().slice(0, 10);
+    const changed = await source.searchAllTransactions(`updated_at_after:${since}`);
+
+    for (const transaction of changed) {
+      this.write(profileId, transaction);
+    }
+    logger.debug(`Synced ${changed.length} changed transactions of profile ${profileId}`);
+  }
+
+  /**
+   * Find transactions deleted in Firefly III. Firefly III does not report
+   * deletions, so only years whose number of transactions differs are
+   * downloaded again; if the totals still differ, everything is.
+   */
+  private async syncDeletions(profileId: string, source: TransactionMirrorSource): Promise<void> {
+    const copy = this.load(profileId);
+    if ((await source.countTransactions(undefined, undefined, 'all')) === copy.size) return;
+
+    const byYear = new Map<string, FireflyTransaction[]>();
+    for (const transaction of copy.values()) {
+      const year = getBookingDate(transaction).slice(0, 4);
+      const transactions = byYear.get(year) ?? [];
+      transactions.push(transaction);
+      byYear.set(year, transactions);
+    }
+
+    for (const [year, local] of byYear) {
+      const startDate = `${year}-01-01`;
+      const endDate = `${year}-12-31`;
+      if ((await source.countTransactions(startDate, endDate, 'all')) === local.length) continue;
+
+      const remote = await source.fetchAllTransactions(startDate, endDate, 'all');
+      const remoteIds = new Set(remote.map((transaction) => transaction.id));
+      for (const transaction of local) {
+        if (!remoteIds.has(transaction.id)) this.remove(profileId, transaction.id);
+      }
+      for (const transaction of remote) {
+        this.write(profileId, transaction);
+      }
+      logger.debug(`Re-synced ${year} of profile ${profileId}`);
+    }
+
+    if ((await source.countTransactions(undefined, undefined, 'all')) !== copy.size) {
+      logger.warn(`Transactions of profile ${profileId} still differ, downloading all`);
+      await this.downloadAll(profileId, source);
+    }
+  }
+
+  private write(profileId: string, transaction: FireflyTransaction): void {
+    this.load(profileId).set(transaction.id, transaction);
+    this.backend.set(
+      getTransactionNamespace(profileId),
+      transaction.id,
+      JSON.stringify(transaction)
+    );
+  }
+
+  /**
+   * Get the copy of a profile, reading it from the backend on first use
+   */
+  private load(profileId: string): Map<string, FireflyTransaction> {
+    let copy = this.copies.get(profileId);
+    if (copy) return copy;
+
+    copy = new Map();
+    for (const record of this.backend.list(getTransactionNamespace(profileId))) {
+      try {
+        copy.set(record.key, JSON.parse(record.value) as FireflyTransaction);
+      } catch (error) {
+        logger.warn(`Ignoring unreadable transaction ${record.key}:`, error);
+      }
+    }
+    this.copies.set(profileId, copy);
+    return copy;
+  }
+
+  private getState(profileId: string): MirrorState {
+    const record = this.backend.get(STATE_NAMESPACE, profileId);
+    if (record) {
+      try {
+        return JSON.parse(record.value) as MirrorState;
+      } catch (error) {
+        logger.warn(`Ignoring unreadable sync state of profile ${profileId}:`, error);
+      }
+    }
+    return { lastSyncAt: null, lastFullSyncAt: null, lastError: null };
+  }
+}
+
+let transactionMirrorInstance: TransactionMirror | null = null;
+
+/**
+ * Get the shared transaction mirror
+ */
+export function getTransactionMirror(): TransactionMirror {
+  if (!transactionMirrorInstance) {
+    transactionMirrorInstance = new TransactionMirror();
+  }
+  return transactionMirrorInstance;
+}
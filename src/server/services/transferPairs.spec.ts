@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TransferPairService, findTransferPairs, isAccountCounterparty } from './transferPairs.js';
+import type {
+  FireflyAccount,
+  FireflyTransaction,
+  FireflyTransactionSplit,
+} from '../../shared/types/firefly.js';
+import type { FireflyApiClient } from '../clients/firefly.js';
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+function createAccount(id: string, name: string, iban: string | null = null): FireflyAccount {
+  return {
+    id,
+    type: 'accounts',
+    attributes: { name, type: 'asset', iban, account_number: null },
+  } as FireflyAccount;
+}
+
+function createTransaction(
+  id: string,
+  overrides: Partial<FireflyTransactionSplit> = {}
+): FireflyTransaction {
+  return {
+    id,
+    type: 'transactions',
+    attributes: {
+      created_at: '2024-06-01T08:00:00.000Z',
+      updated_at: '2024-06-01T08:00:00.000Z',
+      user: '1',
+      group_title: null,
+      transactions: [
+        {
+          transaction_journal_id: `j${id}`,
+          type: 'withdrawal',
+          date: '2024-05-01T00:00:00+02:00',
+          amount: '500.00',
+          description: 'Savings',
+          currency_code: 'EUR',
+          currency_decimal_places: 2,
+          source_id: '1',
+          source_name: 'Checking',
+          source_iban: null,
+          destination_id: '10',
+          destination_name: 'Savings',
+          destination_iban: null,
+          category_id: null,
+          external_id: null,
+          tags: [],
+          notes: null,
+          ...overrides,
+        } as FireflyTransactionSplit,
+      ],
+    },
+  };
+}
+
+/** Deposit into the savings account from an imported revenue account */
+function createDeposit(id: string, overrides: Partial<FireflyTransactionSplit> = {}) {
+  return createTransaction(id, {
+    type: 'deposit',
+    source_id: '20',
+    source_name: 'John Doe',
+    destination_id: '2',
+    destination_name: 'Savings',
+    ...overrides,
+  });
+}
+
+const accounts = [
+  createAccount('1', 'Checking', 'DE89 3704 0044 0532 0130 00'),
+  createAccount('2', 'Savings'),
+];
+
+describe('isAccountCounterparty', () => {
+  it('should match the IBAN regardless of spacing and the name regardless of case', () => {
+    expect(isAccountCounterparty('Someone', 'de89370400440532013000', accounts[0])).toBe(true);
+    expect(isAccountCounterparty(' savings ', null, accounts[1])).toBe(true);
+    expect(isAccountCounterparty('Savings Bank', 'DE02120300000000202051', accounts[1])).toBe(
+      false
+    );
+  });
+});
+
+describe('findTransferPairs', () => {
+  it('should pair a withdrawal and a deposit whose counterparty is the other account', () => {
+    const pairs = findTransferPairs(
+      [createTransaction('1'), createDeposit('2', { date: '2024-05-02T00:00:00+02:00' })],
+      accounts
+    );
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({
+      id: '1-2',
+      sourceAccount: { id: '1', name: 'Checking' },
+      destinationAccount: { id: '2', name: 'Savings' },
+      dayDifference: 1,
+      matchedBothSides: false,
+    });
+  });
+
+  it('should ignore other amounts, currencies, dates and counterparties', () => {
+    const pairs = findTransferPairs(
+      [
+        createTransaction('1'),
+        createDeposit('2', { amount: '500.01' }),
+        createDeposit('3', { currency_code: 'USD' }),
+        createDeposit('4', { date: '2024-05-05T00:00:00+02:00' }),
+        createTransaction('5', { destination_name: 'Landlord' }),
+        createDeposit('6', { date: '2024-04-20T00:00:00+02:00' }),
+      ],
+      accounts
+    );
+
+    expect(pairs).toEqual([]);
+  });
+
+  it('should leave out bookings on the same or foreign accounts and split transactions', () => {
+    const split = createTransaction('3');
+    split.attributes.transactions.push({ ...split.attributes.transactions[0] });
+
+    const pairs = findTransferPairs(
+      [
+        createTransaction('1'),
+        createDeposit('2', { destination_id: '1', destination_name: 'Checking' }),
+        split,
+        createDeposit('4', { destination_id: '99' }),
+      ],
+      accounts
+    );
+
+    expect(pairs).toEqual([]);
+  });
+
+  it('should prefer pairs matched on both sides and use each transaction once', () => {
+    const pairs = findTransferPairs(
+      [
+        createTransaction('1'),
+        createDeposit('2'),
+        createDeposit('3', {
+          date: '2024-05-03T00:00:00+02:00',
+          source_iban: 'DE89370400440532013000',
+        }),
+      ],
+      accounts
+    );
+
+    expect(pairs.map((pair) => [pair.id, pair.matchedBothSides])).toEqual([['1-3', true]]);
+  });
+
+  it('should use the configured date window', () => {
+    const transactions = [
+      createTransaction('1'),
+      createDeposit('2', { date: '2024-05-06T00:00:00+02:00' }),
+    ];
+
+    expect(findTransferPairs(transactions, accounts)).toEqual([]);
+    expect(findTransferPairs(transactions, accounts, { dateRange: 5 })).toHaveLength(1);
+  });
+});
+
+describe('TransferPairService', () => {
+  let fireflyApi: {
+    getTransaction: ReturnType<typeof vi.fn>;
+    createTransaction: ReturnType<typeof vi.fn>;
+    deleteTransaction: ReturnType<typeof vi.fn>;
+  };
+  let service: TransferPairService;
+
+  beforeEach(() => {
+    const transactions: Record<string, FireflyTransaction> = {
+      '1': createTransaction('1', { tags: ['bank'], notes: 'Monthly savings', category_id: '7' }),
+      '2': createDeposit('2', { tags: ['bank', 'import'], notes: 'Monthly savings' }),
+    };
+    fireflyApi = {
+      getTransaction: vi.fn(async (id: string) => transactions[id]),
+      createTransaction: vi.fn().mockResolvedValue({ id: '3' }),
+      deleteTransaction: vi.fn().mockResolvedValue(undefined),
+    };
+    service = new TransferPairService(fireflyApi as unknown as FireflyApiClient);
+  });
+
+  it('should create a transfer between the two accounts and delete the pair', async () => {
+    const result = await service.convertPairs([{ withdrawalId: '1', depositId: '2' }]);
+
+    expect(result).toEqual({ created: ['3'], failed: [], partial: [] });
+    expect(fireflyApi.createTransaction).toHaveBeenCalledWith({
+      error_if_duplicate_hash: false,
+      apply_rules: false,
+      fire_webhooks: false,
+      transactions: [
+        {
+          type: 'transfer',
+          date: '2024-05-01T00:00:00+02:00',
+          amount: '500.00',
+          description: 'Savings',
+          source_id: '1',
+          destination_id: '2',
+          currency_code: 'EUR',
+          category_id: '7',
+          tags: ['bank', 'import'],
+          notes: 'Monthly savings',
+        },
+      ],
+    });
+    expect(fireflyApi.deleteTransaction.mock.calls).toEqual([['1'], ['2']]);
+  });
+
+  it('should not delete anything if the pair changed or the transfer fails', async () => {
+    fireflyApi.createTransaction.mockRejectedValueOnce(new Error('Invalid account'));
+
+    const result = await service.convertPairs([
+      { withdrawalId: '2', depositId: '1' },
+      { withdrawalId: '1', depositId: '2' },
+    ]);
+
+    expect(result.created).toEqual([]);
+    expect(result.failed).toEqual([
+      {
+        withdrawalId: '2',
+        depositId: '1',
+        error: 'Transaction 2 is no longer a single withdrawal',
+      },
+      { withdrawalId: '1', depositId: '2', error: 'Invalid account' },
+    ]);
+    expect(fireflyApi.deleteTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should delete the transfer again if the withdrawal cannot be deleted', async () => {
+    fireflyApi.deleteTransaction.mockRejectedValueOnce(new Error('Server error'));
+
+    const result = await service.convertPairs([{ withdrawalId: '1', depositId: '2' }]);
+
+    expect(result).toEqual({
+      created: [],
+      failed: [{ withdrawalId: '1', depositId: '2', error: 'Server error' }],
+      partial: [],
+    });
+    expect(fireflyApi.deleteTransaction.mock.calls).toEqual([['1'], ['3']]);
+  });
+
+  it('should report the transfer as partial if the pair cannot be removed', async () => {
+    // Deposit of the first pair, then withdrawal and rollback of the second
+    fireflyApi.deleteTransaction
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Server error'))
+      .mockRejectedValueOnce(new Error('Server error'))
+      .mockRejectedValueOnce(new Error('Server error'));
+    fireflyApi.createTransaction
+      .mockResolvedValueOnce({ id: '3' })
+      .mockResolvedValueOnce({ id: '4' });
+
+    const result = await service.convertPairs([
+      { withdrawalId: '1', depositId: '2' },
+      { withdrawalId: '1', depositId: '2' },
+    ]);
+
+    expect(result).toEqual({
+      created: [],
+      failed: [],
+      partial: [
+        {
+          withdrawalId: '1',
+          depositId: '2',
+          transferId: '3',
+          error: 'Deposit 2 could not be deleted: Server error',
+        },
+        {
+          withdrawalId: '1',
+          depositId: '2',
+          transferId: '4',
+          error: 'Withdrawal 1 could not be deleted: Server error',
+        },
+      ],
+    });
+    expect(fireflyApi.deleteTransaction.mock.calls).toEqual([['1'], ['2'], ['1'], ['4']]);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Transfer Pair Detection
+ *
+ * Finds transfers between own asset accounts that were imported twice: once as
+ * a withdrawal from one account and once as a deposit into the other. A
+ * withdrawal and a deposit form a pair when they have the same currency and
+ * amount, are booked within a few days of each other, and the counterparty of
+ * at least one side names the other asset account (by IBAN, account number or
+ * name). Each pair can be replaced with a single Firefly III transfer.
+ */
+
+import { createLogger } from '../utils/logger.js';
+import type { FireflyApiClient } from '../clients/firefly.js';
+import type {
+  FireflyAccount,
+  FireflyTransaction,
+  FireflyTransactionSplit,
+} from '../../shared/types/firefly.js';
+import type {
+  TransferConversion,
+  TransferConversionResult,
+  TransferPair,
+  TransferPairOptions,
+} from '../../shared/types/app.js';
+
+const logger = createLogger('TransferPairs');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TransferSplit = Parameters<FireflyApiClient['createTransaction']>[0]['transactions'][number];
+
+const DEFAULT_OPTIONS: Required<TransferPairOptions> = {
+  dateRange: 3,
+};
+
+/** The transfer was created, but the pair could not be removed completely */
+class PartialConversionError extends Error {
+  constructor(
+    readonly transferId: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PartialConversionError';
+  }
+}
+
+/** Single-split transaction booked on one of the asset accounts */
+interface Booking {
+  transaction: FireflyTransaction;
+  split: FireflyTransactionSplit;
+  account: FireflyAccount;
+  /** Amount in minor units, to compare without rounding errors */
+  cents: number;
+  time: number;
+}
+
+function normalizeIban(value: string | null | undefined): string {
+  return (value ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+function normalizeName(value: string | null | undefined): string {
+  return (value ?? '').trim().toLowerCase();
+}
+
+/**
+ * Whether a counterparty (name and IBAN of the other side of a booking) is the
+ * given asset account
+ */
+export function isAccountCounterparty(
+  name: string | null | undefined,
+  iban: string | null | undefined,
+  account: FireflyAccount
+): boolean {
+  const counterpartyIban = normalizeIban(iban);
+  if (counterpartyIban) {
+    const accountNumbers = [account.attributes.iban, account.attributes.account_number]
+      .map(normalizeIban)
+      .filter(Boolean);
+    if (accountNumbers.includes(counterpartyIban)) return true;
+  }
+
+  const counterpartyName = normalizeName(name);
+  return counterpartyName !== '' && counterpartyName === normalizeName(account.attributes.name);
+}
+
+/**
+ * Bookings of the given type on an asset account (transactions with several
+ * splits are left out, they cannot be replaced by a single transfer)
+ */
+function getBookings(
+  transactions: FireflyTransaction[],
+  accounts: Map<string, FireflyAccount>,
+  type: 'withdrawal' | 'deposit'
+): Booking[] {
+  const bookings: Booking[] = [];
+
+  for (const transaction of transactions) {
+    if (transaction.attributes.transactions.length !== 1) continue;
+    const split = transaction.attributes.transactions[0];
+    if (split.type !== type) continue;
+
+    const account = accounts.get(type === 'withdrawal' ? split.source_id : split.destination_id);
+    if (!account) continue;
+
+    bookings.push({
+      transaction,
+      split,
+      account,
+      cents: Math.round(Math.abs(parseFloat(split.amount)) * 100),
+      time: new Date(split.date.slice(0, 10)).getTime(),
+    });
+  }
+
+  return bookings;
+}
+
+/**
+ * Find withdrawal/deposit pairs between the given asset accounts. Every
+ * transaction is part of at most one pair; pairs matched on both sides and
+ * booked closer together are preferred.
+ */
+export function findTransferPairs(
+  transactions: FireflyTransaction[],
+  assetAccounts: FireflyAccount[],
+  options: TransferPairOptions = {}
+): TransferPair[] {
+  const { dateRange } = { ...DEFAULT_OPTIONS, ...options };
+  const accounts = new Map(assetAccounts.map((account) => [account.id, account]));
+
+  const withdrawals = getBookings(transactions, accounts, 'withdrawal');
+  const deposits = getBookings(transactions, accounts, 'deposit');
+
+  const candidates: TransferPair[] = [];
+  for (const withdrawal of withdrawals) {
+    for (const deposit of deposits) {
+      if (deposit.account.id === withdrawal.account.id) continue;
+      if (deposit.cents !== withdrawal.cents) continue;
+      if (deposit.split.currency_code !== withdrawal.split.currency_code) continue;
+
+      const dayDifference = Math.round(Math.abs(deposit.time - withdrawal.time) / DAY_MS);
+      if (dayDifference > dateRange) continue;
+
+      // The withdrawal went to the other account, or the deposit came from this one
+      const withdrawalMatches = isAccountCounterparty(
+        withdrawal.split.destination_name,
+        withdrawal.split.destination_iban,
+        deposit.account
+      );
+      const depositMatches = isAccountCounterparty(
+        deposit.split.source_name,
+        deposit.split.source_iban,
+        withdrawal.account
+      );
+      if (!withdrawalMatches && !depositMatches) continue;
+
+      candidates.push({
+        id: `${withdrawal.transaction.id}-${deposit.transaction.id}`,
+        withdrawal: withdrawal.transaction,
+        deposit: deposit.transaction,
+        sourceAccount: { id: withdrawal.account.id, name: withdrawal.account.attributes.name },
+        destinationAccount: { id: deposit.account.id, name: deposit.account.attributes.name },
+        dayDifference,
+        matchedBothSides: withdrawalMatches && depositMatches,
+      });
+    }
+  }
+
+  candidates.sort(
+    (a, b) =>
+      Number(b.matchedBothSides) - Number(a.matchedBothSides) || a.dayDifference - b.dayDifference
+  );
+
+  const paired: Set<string> = new Set();
+  const pairs: TransferPair[] = [];
+  for (const candidate of candidates) {
+    if (paired.has(candidate.withdrawal.id) || paired.has(candidate.deposit.id)) continue;
+    paired.add(candidate.withdrawal.id);
+    paired.add(candidate.deposit.id);
+    pairs.push(candidate);
+  }
+
+  return pairs.sort((a, b) =>
+    b.withdrawal.attributes.transactions[0].date.localeCompare(
+      a.withdrawal.attributes.transactions[0].date
+    )
+  );
+}
+
+/**
+ * Replaces withdrawal/deposit pairs with transfers
+ */
+export class TransferPairService {
+  private fireflyApi: FireflyApiClient;
+
+  constructor(fireflyApi: FireflyApiClient) {
+    this.fireflyApi = fireflyApi;
+  }
+
+  /**
+   * Create a transfer for each pair, then delete the withdrawal and deposit.
+   * Nothing is deleted if the transfer cannot be created, and the transfer is
+   * deleted again if the withdrawal cannot be. Pairs left with both the
+   * transfer and one of the original bookings are reported as partial.
+   */
+  async convertPairs(pairs: TransferConversion[]): Promise<TransferConversionResult> {
+    const result: TransferConversionResult = { created: [], failed: [], partial: [] };
+
+    for (const pair of pairs) {
+      try {
+        result.created.push(await this.convertPair(pair));
+      } catch (error) {
+        if (error instanceof PartialConversionError) {
+          logger.error(
+            `Created transfer ${error.transferId} but could not remove ${pair.withdrawalId}/${pair.depositId}`
+          );
+          result.partial.push({ ...pair, transferId: error.transferId, error: error.message });
+          continue;
+        }
+        logger.warn(`Failed to convert ${pair.withdrawalId}/${pair.depositId} to a transfer`);
+        result.failed.push({
+          ...pair,
+          error: getErrorMessage(error),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private async convertPair(pair: TransferConversion): Promise<string> {
+    const [withdrawal, deposit] = await Promise.all([
+      this.fireflyApi.getTransaction(pair.withdrawalId),
+      this.fireflyApi.getTransaction(pair.depositId),
+    ]);
+    const from = getSingleSplit(withdrawal, 'withdrawal');
+    const to = getSingleSplit(deposit, 'deposit');
+
+    const split: TransferSplit = {
+      type: 'transfer',
+      date: from.date,
+      amount: Math.abs(parseFloat(from.amount)).toFixed(from.currency_decimal_places ?? 2),
+      description: from.description,
+      source_id: from.source_id,
+      destination_id: to.destination_id,
+      tags: [...new Set([...from.tags, ...to.tags])],
+    };
+
+    const notes = [...new Set([from.notes?.trim(), to.notes?.trim()].filter(Boolean))];
+    if (notes.length > 0) split.notes = notes.join('\n\n');
+    if (from.currency_code) split.currency_code = from.currency_code;
+    const categoryId = from.category_id ?? to.category_id;
+    if (categoryId) split.category_id = categoryId;
+    const externalId = from.external_id ?? to.external_id;
+    if (externalId) split.external_id = externalId;
+
+    const transfer = await this.fireflyApi.createTransaction({
+      error_if_duplicate_hash: false,
+      apply_rules: false,
+      fire_webhooks: false,
+      transactions: [split],
+    });
+
+    try {
+      await this.fireflyApi.deleteTransaction(withdrawal.id);
+    } catch (error) {
+      // Nothing was replaced yet, so undo the transfer
+      await this.removeTransfer(
+        transfer.id,
+        `Withdrawal ${withdrawal.id} could not be deleted: ${getErrorMessage(error)}`
+      );
+      throw error;
+    }
+
+    try {
+      await this.fireflyApi.deleteTransaction(deposit.id);
+    } catch (error) {
+      // The withdrawal is gone, so the transfer has to stay
+      throw new PartialConversionError(
+        transfer.id,
+        `Deposit ${deposit.id} could not be deleted: ${getErrorMessage(error)}`
+      );
+    }
+
+    return transfer.id;
+  }
+
+  /** Delete a created transfer again, or report it as partial if that fails too */
+  private async removeTransfer(transferId: string, reason: string): Promise<void> {
+    try {
+      await this.fireflyApi.deleteTransaction(transferId);
+    } catch {
+      throw new PartialConversionError(transferId, reason);
+    }
+  }
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function getSingleSplit(
+  transaction: FireflyTransaction,
+  type: 'withdrawal' | 'deposit'
+): FireflyTransactionSplit {
+  const splits = transaction.attributes.transactions;
+  if (splits.length !== 1 || splits[0].type !== type) {
+    throw new Error(`Transaction ${transaction.id} is no longer a single ${type}`);
+  }
+  return splits[0];
+}
@@ -0,0 +1,468 @@
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  WebhookProcessor,
+  runWebhookAction,
+  verifyWebhookSignature,
+  type WebhookOptions,
+} from './webhooks.js';
+import { MemoryPersistenceBackend } from './persistence.js';
+import type { FireflyTransaction } from '../../shared/types/firefly.js';
+import type { WebhookActionResult } from '../../shared/types/app.js';
+
+const mocks = vi.hoisted(() => ({
+  getTransaction: vi.fn(),
+  streamCategorySuggestions: vi.fn(),
+  applyCategories: vi.fn(),
+  streamTagSuggestions: vi.fn(),
+  applyTags: vi.fn(),
+  findDuplicates: vi.fn(),
+  amazonExtenders: [] as unknown[],
+}));
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock('../clients/firefly.js', () => ({
+  getFireflyApi: () => ({ getTransaction: mocks.getTransaction }),
+  getSharedFireflyApi: () => ({ getTransaction: mocks.getTransaction }),
+  runWithFireflyApi: (_client: unknown, fn: () => unknown) => fn(),
+  getFireflyOwner: () => ({ profileId: 'default', account: null }),
+  isSameFireflyOwner: (a: object, b: object) => JSON.stringify(a) === JSON.stringify(b),
+}));
+
+vi.mock('../config/index.js', () => ({
+  config: {
+    webhooks: {
+      actions: ['categories', 'duplicates'],
+      autoApply: false,
+      autoApplyMinConfidence: 0.9,
+      duplicateLookbackDays: 7,
+    },
+  },
+  isAIConfigured: () => true,
+}));
+
+vi.mock('./aiSuggestions.js', () => ({
+  TAGGER_TAG: 'Toolbox for FFIII: Suggested Tags',
+  AISuggestionService: class {
+    streamCategorySuggestions = mocks.streamCategorySuggestions;
+    applyCategories = mocks.applyCategories;
+    streamTagSuggestions = mocks.streamTagSuggestions;
+    applyTags = mocks.applyTags;
+  },
+}));
+
+vi.mock('./operations.js', () => ({
+  getOperationLog: () => ({
+    run: async (_kind: string, fn: () => Promise<unknown>) => ({
+      result: await fn(),
+      operation: null,
+    }),
+  }),
+}));
+
+vi.mock('./duplicateFinder.js', () => ({
+  DuplicateTransactionFinder: class {
+    findDuplicates = mocks.findDuplicates;
+  },
+}));
+
+vi.mock('./sessionStore.js', () => ({
+  getAmazonExtenderStore: () => ({ values: () => mocks.amazonExtenders }),
+  getPayPalExtenderStore: () => ({ values: () => [] }),
+}));
+
+const SECRET = 'webhook-secret';
+
+function sign(body: string, timestamp: number, secret: string = SECRET): string {
+  const signature = crypto
+    .createHmac('sha3-256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function createTransaction(
+  id: string,
+  split: Partial<FireflyTransaction['attributes']['transactions'][0]> = {}
+): FireflyTransaction {
+  return {
+    id,
+    attributes: {
+      transactions: [
+        {
+          transaction_journal_id: `j${id}`,
+          description: 'Coffee Shop',
+          amount: '4.50',
+          type: 'withdrawal',
+          date: '2024-03-10T00:00:00+00:00',
+          destination_name: 'Coffee Shop',
+          tags: [],
+          ...split,
+        },
+      ],
+    },
+  } as unknown as FireflyTransaction;
+}
+
+async function* events(...items: Array<{ type: string; data: unknown }>) {
+  yield* items;
+}
+
+const options: WebhookOptions = {
+  actions: ['categories', 'duplicates'],
+  autoApply: true,
+  autoApplyMinConfidence: 0.9,
+  duplicateLookbackDays: 7,
+};
+
+describe('verifyWebhookSignature', () => {
+  const body = '{"uuid":"abc","trigger":"STORE_TRANSACTION","content":{"id":1}}';
+  const now = 1_700_000_000_000;
+  const timestamp = now / 1000;
+
+  it('should accept messages signed with the secret', () => {
+    expect(verifyWebhookSignature(Buffer.from(body), sign(body, timestamp), SECRET, now)).toBe(
+      true
+    );
+  });
+
+  it('should reject other secrets and changed bodies', () => {
+    const header = sign(body, timestamp, 'other-secret');
+
+    expect(verifyWebhookSignature(Buffer.from(body), header, SECRET, now)).toBe(false);
+    expect(
+      verifyWebhookSignature(Buffer.from(body + ' '), sign(body, timestamp), SECRET, now)
+    ).toBe(false);
+  });
+
+  it('should reject old and malformed signatures', () => {
+    const old = sign(body, timestamp - 10 * 60);
+
+    expect(verifyWebhookSignature(Buffer.from(body), old, SECRET, now)).toBe(false);
+    expect(verifyWebhookSignature(Buffer.from(body), 'v1=abc', SECRET, now)).toBe(false);
+    expect(verifyWebhookSignature(Buffer.from(body), undefined, SECRET, now)).toBe(false);
+    expect(verifyWebhookSignature(Buffer.from(body), sign(body, timestamp, ''), '', now)).toBe(
+      false
+    );
+  });
+});
+
+describe('WebhookProcessor', () => {
+  let backend: MemoryPersistenceBackend;
+  let runner: ReturnType<typeof vi.fn>;
+  let processor: WebhookProcessor;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    backend = new MemoryPersistenceBackend();
+    runner = vi.fn(
+      async (action: WebhookActionResult['action']): Promise<WebhookActionResult> => ({
+        action,
+        status: 'none',
+        message: 'Nothing found',
+        confidence: null,
+      })
+    );
+    processor = new WebhookProcessor(backend, runner, options);
+    mocks.getTransaction.mockResolvedValue(createTransaction('42'));
+  });
+
+  it('should run the configured actions on the new transaction', async () => {
+    const delivery = processor.accept(
+      { messageId: 'm1', trigger: 'STORE_TRANSACTION', transactionId: '42' },
+      'default'
+    );
+    expect(delivery?.status).toBe('queued');
+
+    await processor.idle();
+
+    expect(runner.mock.calls.map(([action]) => action)).toEqual(['categories', 'duplicates']);
+    const [stored] = processor.list();
+    expect(stored).toMatchObject({
+      id: delivery?.id,
+      transactionId: '42',
+      description: 'Coffee Shop',
+      status: 'completed',
+      error: null,
+    });
+    expect(stored.results.map((result) => result.action)).toEqual(['categories', 'duplicates']);
+    expect(stored.finishedAt).not.toBeNull();
+  });
+
+  it('should ignore repeated messages', async () => {
+    const message = { messageId: 'm1', trigger: 'STORE_TRANSACTION', transactionId: '42' };
+    processor.accept(message, 'default');
+
+    expect(processor.accept(message, 'default')).toBeUndefined();
+    await processor.idle();
+    expect(processor.list()).toHaveLength(1);
+  });
+
+  it('should record failing actions and continue with the next one', async () => {
+    runner.mockRejectedValueOnce(new Error('AI request failed'));
+
+    processor.accept({ messageId: 'm1', trigger: 'STORE_TRANSACTION', transactionId: '42' }, 'a');
+    await processor.idle();
+
+    const [stored] = processor.list();
+    expect(stored.status).toBe('completed');
+    expect(stored.results[0]).toMatchObject({ status: 'failed', message: 'AI request failed' });
+    expect(stored.results[1].action).toBe('duplicates');
+  });
+
+  it('should reload the transaction after an action changed it', async () => {
+    runner.mockResolvedValueOnce({
+      action: 'categories',
+      status: 'applied',
+      message: 'Category "Food"',
+      confidence: 0.95,
+    });
+
+    processor.accept({ messageId: 'm1', trigger: 'STORE_TRANSACTION', transactionId: '42' }, 'a');
+    await processor.idle();
+
+    expect(mocks.getTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should record deliveries whose transaction cannot be loaded as failed', async () => {
+    mocks.getTransaction.mockRejectedValue(new Error('Not found'));
+
+    processor.accept({ messageId: 'm1', trigger: 'STORE_TRANSACTION', transactionId: '42' }, 'a');
+    await processor.idle();
+
+    expect(processor.list()[0]).toMatchObject({ status: 'failed', error: 'Not found' });
+    expect(runner).not.toHaveBeenCalled();
+  });
+
+  it('should keep processing deliveries after one could not be stored', async () => {
+    const set = backend.set.bind(backend);
+    vi.spyOn(backend, 'set').mockImplementation((namespace, key, value, lastAccessed) => {
+      if (value.includes('"transactionId":"1"') && value.includes('"status":"processing"')) {
+        throw new Error('Disk full');
+      }
+      set(namespace, key, value, lastAccessed);
+    });
+
+    processor.accept({ messageId: 'm1', trigger: 'STORE_TRANSACTION', transactionId: '1' }, 'a');
+    processor.accept({ messageId: 'm2', trigger: 'STORE_TRANSACTION', transactionId: '2' }, 'a');
+    await processor.idle();
+
+    const second = processor.list().find((delivery) => delivery.transactionId === '2');
+    expect(second?.status).toBe('completed');
+  });
+
+  it('should resume deliveries interrupted by a restart', async () => {
+    processor.accept({ messageId: 'm1', trigger: 'STORE_TRANSACTION', transactionId: '42' }, 'a');
+    await processor.idle();
+    const [completed] = processor.list();
+    const interrupted = {
+      ...completed,
+      id: 'interrupted',
+      messageId: 'm2',
+      status: 'processing',
+      receivedAt: new Date(Date.parse(completed.receivedAt) + 1000).toISOString(),
+      results: [completed.results[0]],
+      finishedAt: null,
+    };
+    backend.set('webhookDeliveries', interrupted.id, JSON.stringify(interrupted));
+    runner.mockClear();
+
+    const restarted = new WebhookProcessor(backend, runner, options);
+    expect(restarted.resume()).toBe(1);
+    await restarted.idle();
+
+    expect(runner).toHaveBeenCalledTimes(2);
+    const [resumed] = restarted.list();
+    expect(resumed).toMatchObject({ id: 'interrupted', status: 'completed' });
+    expect(resumed.results).toHaveLength(2);
+  });
+
+  it('should list deliveries of a connection profile', async () => {
+    processor.accept({ messageId: 'm1', trigger: 'STORE_TRANSACTION', transactionId: '1' }, 'a');
+    processor.accept({ messageId: 'm2', trigger: 'STORE_TRANSACTION', transactionId: '2' }, 'b');
+    await processor.idle();
+
+    expect(processor.list('b').map((delivery) => delivery.transactionId)).toEqual(['2']);
+    expect(processor.list(undefined, 1)).toHaveLength(1);
+  });
+});
+
+describe('runWebhookAction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.amazonExtenders = [];
+    mocks.applyCategories.mockResolvedValue({ successful: ['42'], failed: [] });
+  });
+
+  function mockCategorySuggestion(confidence: number) {
+    mocks.streamCategorySuggestions.mockReturnValue(
+      events({
+        type: 'suggestion',
+        data: {
+          transactionId: '42',
+          transaction: createTransaction('42').attributes.transactions[0],
+          suggestedCategoryId: '7',
+          suggestedCategoryName: 'Food',
+          confidence,
+        },
+      })
+    );
+  }
+
+  it('should apply category suggestions above the confidence threshold', async () => {
+    mockCategorySuggestion(0.95);
+
+    const result = await runWebhookAction('categories', createTransaction('42'), options);
+
+    expect(result).toEqual({
+      action: 'categories',
+      status: 'applied',
+      message: 'Category "Food"',
+      confidence: 0.95,
+    });
+    expect(mocks.applyCategories).toHaveBeenCalledWith([
+      {
+        transactionId: '42',
+        journalId: 'j42',
+        updates: { category_id: '7', category_name: 'Food' },
+      },
+    ]);
+  });
+
+  it('should only suggest categories below the threshold or without auto-apply', async () => {
+    mockCategorySuggestion(0.6);
+    const below = await runWebhookAction('categories', createTransaction('42'), options);
+
+    mockCategorySuggestion(0.95);
+    const manual = await runWebhookAction('categories', createTransaction('42'), {
+      ...options,
+      autoApply: false,
+    });
+
+    expect(below.status).toBe('suggested');
+    expect(manual.status).toBe('suggested');
+    expect(mocks.applyCategories).not.toHaveBeenCalled();
+  });
+
+  it('should skip transactions that already have a category', async () => {
+    const transaction = createTransaction('42', { category_id: '3', category_name: 'Rent' });
+
+    const result = await runWebhookAction('categories', transaction, options);
+
+    expect(result.status).toBe('skipped');
+    expect(mocks.streamCategorySuggestions).not.toHaveBeenCalled();
+  });
+
+  it('should only skip split transactions when every split has a category', async () => {
+    const transaction = createTransaction('42', { category_id: '3', category_name: 'Rent' });
+    transaction.attributes.transactions.push({
+      ...transaction.attributes.transactions[0],
+      transaction_journal_id: 'j43',
+    });
+
+    const categorized = await runWebhookAction('categories', transaction, options);
+
+    transaction.attributes.transactions[1].category_id = null;
+    transaction.attributes.transactions[1].category_name = null;
+    mockCategorySuggestion(0.95);
+    await runWebhookAction('categories', transaction, options);
+
+    expect(categorized).toMatchObject({
+      status: 'skipped',
+      message: 'All splits already have a category',
+    });
+    expect(mocks.streamCategorySuggestions).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report AI errors as failures', async () => {
+    mocks.streamCategorySuggestions.mockReturnValue(
+      events({ type: 'error', data: { transactionId: '42', error: 'Rate limited' } })
+    );
+
+    await expect(runWebhookAction('categories', createTransaction('42'), options)).rejects.toThrow(
+      'Rate limited'
+    );
+  });
+
+  it('should apply only the confident tags', async () => {
+    mocks.streamTagSuggestions.mockReturnValue(
+      events({
+        type: 'suggestion',
+        data: {
+          transactionId: '42',
+          transaction: createTransaction('42', { tags: ['existing'] }).attributes.transactions[0],
+          suggestedTags: [
+            { tagId: '1', tagName: 'coffee', confidence: 0.95 },
+            { tagId: '2', tagName: 'travel', confidence: 0.4 },
+          ],
+        },
+      })
+    );
+    mocks.applyTags.mockResolvedValue({ successful: ['42'], failed: [] });
+
+    const result = await runWebhookAction(
+      'tags',
+      createTransaction('42', { tags: ['existing'] }),
+      options
+    );
+
+    expect(result).toMatchObject({ status: 'applied', message: 'Tags coffee', confidence: 0.95 });
+    expect(mocks.applyTags).toHaveBeenCalledWith([
+      { transactionId: '42', journalId: 'j42', updates: { tags: ['existing', 'coffee'] } },
+    ]);
+  });
+
+  it('should report duplicates around the transaction date without deleting them', async () => {
+    mocks.findDuplicates.mockResolvedValue([
+      {
+        id: 'g1',
+        transactions: [createTransaction('42'), createTransaction('17')],
+        matchScore: 0.92,
+        matchReasons: [],
+      },
+    ]);
+
+    const result = await runWebhookAction('duplicates', createTransaction('42'), options);
+
+    expect(mocks.findDuplicates).toHaveBeenCalledWith('2024-03-03', '2024-03-17');
+    expect(result).toEqual({
+      action: 'duplicates',
+      status: 'suggested',
+      message: 'Possible duplicate of #17',
+      confidence: 0.92,
+    });
+  });
+
+  it('should skip enrichment without uploaded data', async () => {
+    const transaction = createTransaction('42', { description: 'AMZN Mktp DE' });
+
+    const amazon = await runWebhookAction('amazon', transaction, options);
+    const paypal = await runWebhookAction('paypal', transaction, options);
+
+    expect(amazon).toMatchObject({ status: 'skipped', message: 'No Amazon orders uploaded' });
+    expect(paypal).toMatchObject({ status: 'skipped', message: 'No PayPal transactions uploaded' });
+  });
+
+  it('should ignore orders uploaded for another Firefly III book', async () => {
+    const order = { orderId: '302-1', items: [], total: 12.5 };
+    mocks.amazonExtenders = [
+      { owner: { profileId: 'business', account: null }, getLoadedOrders: () => [order] },
+      { owner: { profileId: 'default', account: 'firefly:7' }, getLoadedOrders: () => [order] },
+      { owner: null, getLoadedOrders: () => [order] },
+    ];
+    const transaction = createTransaction('42', { description: 'AMZN Mktp DE' });
+
+    const result = await runWebhookAction('amazon', transaction, options);
+
+    expect(result).toMatchObject({ status: 'skipped', message: 'No Amazon orders uploaded' });
+  });
+});
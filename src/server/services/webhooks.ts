@@ -0,0 +1,619 @@
+/**
+ * Firefly III Webhook Processing
+ *
+ * Firefly III sends a webhook message when a transaction is stored (e.g., by
+ * its own importer, a rule or the toolbox's CSV import). For each new
+ * transaction the configured actions run one after another: Amazon and PayPal
+ * enrichment from previously uploaded data, AI category and tag suggestions and
+ * a duplicate check against the transactions around its date. Suggestions and
+ * matches above the confidence threshold are applied when auto-apply is enabled
+ * (revertible like a manual apply); all other results are only recorded.
+ *
+ * Deliveries and their results are kept in the persistence backend. Messages
+ * are processed one at a time with the server's Firefly III API token of the
+ * connection profile the webhook was sent to, so only Amazon and PayPal data
+ * uploaded for that book (by users working with the same token) is matched.
+ */
+
+import crypto from 'crypto';
+import {
+  getFireflyApi,
+  getFireflyOwner,
+  getSharedFireflyApi,
+  isSameFireflyOwner,
+  runWithFireflyApi,
+  type FireflyOwner,
+} from '../clients/firefly.js';
+import { config, isAIConfigured, type Config } from '../config/index.js';
+import { createLogger } from '../utils/logger.js';
+import { getPersistenceBackend, type PersistenceBackend } from './persistence.js';
+import { runWithAuditContext } from './auditLog.js';
+import { getOperationLog } from './operations.js';
+import { AISuggestionService, TAGGER_TAG } from './aiSuggestions.js';
+import { AmazonOrderExtender, AMAZON_EXTENDER_TAG, isAmazonTransaction } from './amazonExtender.js';
+import { PayPalExtender, PAYPAL_EXTENDER_TAG } from './paypalExtender.js';
+import { DuplicateTransactionFinder } from './duplicateFinder.js';
+import {
+  getAmazonExtenderStore,
+  getPayPalExtenderStore,
+  type SessionStore,
+} from './sessionStore.js';
+import type { FireflyTransaction } from '../../shared/types/firefly.js';
+import type {
+  BulkUpdateResult,
+  CategorySuggestion,
+  TagSuggestion,
+  WebhookAction,
+  WebhookActionResult,
+  WebhookActionStatus,
+  WebhookDelivery,
+} from '../../shared/types/app.js';
+
+const logger = createLogger('Webhooks');
+
+/** Persistence namespace */
+const DELIVERY_NAMESPACE = 'webhookDeliveries';
+
+/** Number of deliveries kept in the history */
+export const MAX_WEBHOOK_DELIVERIES = 200;
+
+/** Header carrying Firefly III's signature ("t=<timestamp>,v1=<hex HMAC>") */
+export const WEBHOOK_SIGNATURE_HEADER = 'signature';
+
+/** Maximum age of a signature, against replayed messages */
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/** Trigger of the messages the receiver processes */
+export const STORE_TRANSACTION_TRIGGER = 'STORE_TRANSACTION';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type WebhookOptions = Config['webhooks'];
+
+/**
+ * A webhook message accepted for processing
+ */
+export interface WebhookMessage {
+  /** UUID of the Firefly III message */
+  messageId: string;
+  trigger: string;
+  /** Firefly III transaction group ID */
+  transactionId: string;
+}
+
+export type WebhookActionRunner = (
+  action: WebhookAction,
+  transaction: FireflyTransaction,
+  options: WebhookOptions
+) => Promise<WebhookActionResult>;
+
+/**
+ * Verify Firefly III's signature of a webhook message: an HMAC-SHA3-256 of
+ * "<timestamp>.<raw body>" with the webhook's secret
+ */
+export function verifyWebhookSignature(
+  body: Buffer,
+  header: string | undefined,
+  secret: string,
+  now: number = Date.now()
+): boolean {
+  if (!header || !secret) return false;
+
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    })
+  );
+  const timestamp = parts.get('t') ?? '';
+  const signature = parts.get('v1') ?? '';
+  if (!/^\d+$/.test(timestamp) || !/^[0-9a-f]+$/i.test(signature)) return false;
+  if (Math.abs(now - Number(timestamp) * 1000) > SIGNATURE_TOLERANCE_MS) return false;
+
+  const expected = crypto
+    .createHmac('sha3-256', secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest();
+  const provided = Buffer.from(signature, 'hex');
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function toResult(
+  action: WebhookAction,
+  status: WebhookActionStatus,
+  message: string,
+  confidence: number | null = null
+): WebhookActionResult {
+  return { action, status, message, confidence };
+}
+
+function shouldApply(options: WebhookOptions, confidence: number): boolean {
+  return options.autoApply && confidence >= options.autoApplyMinConfidence;
+}
+
+/**
+ * Result of an auto-apply of a single transaction
+ */
+function toApplyResult(
+  action: WebhookAction,
+  result: BulkUpdateResult,
+  label: string,
+  confidence: number
+): WebhookActionResult {
+  const failure = result.failed[0];
+  return failure
+    ? toResult(action, 'failed', `${label}: ${failure.error}`, confidence)
+    : toResult(action, 'applied', label, confidence);
+}
+
+function uniqueBy<T>(items: T[], getKey: (item: T) => string): T[] {
+  const unique = new Map<string, T>();
+  for (const item of items) {
+    const key = getKey(item);
+    if (!unique.has(key)) {
+      unique.set(key, item);
+    }
+  }
+  return Array.from(unique.values());
+}
+
+/**
+ * Run a single-transaction suggestion stream, returning its suggestions (one
+ * per split)
+ * @throws if the AI request for a split failed
+ */
+async function collectSuggestions<T>(
+  events: AsyncGenerator<{ type: string; data: unknown }>
+): Promise<T[]> {
+  const suggestions: T[] = [];
+  for await (const event of events) {
+    if (event.type === 'suggestion') {
+      suggestions.push(event.data as T);
+    } else if (event.type === 'error') {
+      throw new Error((event.data as { error: string }).error);
+    }
+  }
+  return suggestions;
+}
+
+/**
+ * Extenders of all sessions with data uploaded for the Firefly III book the
+ * webhook is processed in
+ */
+function getOwnExtenders<T extends { owner: FireflyOwner | null }>(store: SessionStore<T>): T[] {
+  const owner = getFireflyOwner();
+  return store
+    .values()
+    .filter((extender) => extender.owner && isSameFireflyOwner(extender.owner, owner));
+}
+
+async function enrichFromAmazon(
+  transaction: FireflyTransaction,
+  options: WebhookOptions
+): Promise<WebhookActionResult> {
+  const split = transaction.attributes.transactions[0];
+  const orders = uniqueBy(
+    getOwnExtenders(getAmazonExtenderStore<AmazonOrderExtender>()).flatMap((extender) =>
+      extender.getLoadedOrders()
+    ),
+    (order) => order.orderId
+  );
+
+  if (orders.length === 0) return toResult('amazon', 'skipped', 'No Amazon orders uploaded');
+  if (!isAmazonTransaction(transaction)) {
+    return toResult('amazon', 'skipped', 'Not an Amazon transaction');
+  }
+  if (transaction.attributes.transactions.some((s) => s.tags?.includes(AMAZON_EXTENDER_TAG))) {
+    return toResult('amazon', 'skipped', 'Already enriched');
+  }
+
+  const extender = new AmazonOrderExtender();
+  extender.loadOrders(orders);
+  extender.setCachedTransactions([transaction]);
+  const [match] = await extender.matchTransactionsWithOrders();
+  if (!match?.matchedOrder) return toResult('amazon', 'none', 'No matching order');
+
+  const label = `Order ${match.matchedOrder.orderId}`;
+  if (!shouldApply(options, match.matchConfidence)) {
+    return toResult('amazon', 'suggested', label, match.matchConfidence);
+  }
+
+  const { result } = await getOperationLog().run('amazonDescriptions', () =>
+    extender.applyDescriptions([
+      {
+        transactionId: transaction.id,
+        journalId: split.transaction_journal_id,
+        newDescription: match.suggestedDescription,
+        newNotes: match.suggestedNotes,
+      },
+    ])
+  );
+  return toApplyResult('amazon', result, label, match.matchConfidence);
+}
+
+async function enrichFromPayPal(
+  transaction: FireflyTransaction,
+  options: WebhookOptions
+): Promise<WebhookActionResult> {
+  const split = transaction.attributes.transactions[0];
+  const paypalTransactions = uniqueBy(
+    getOwnExtenders(getPayPalExtenderStore<PayPalExtender>()).flatMap((extender) =>
+      extender.getLoadedTransactions()
+    ),
+    (t) => t.transactionCode || JSON.stringify(t)
+  );
+
+  if (paypalTransactions.length === 0) {
+    return toResult('paypal', 'skipped', 'No PayPal transactions uploaded');
+  }
+  if (transaction.attributes.transactions.some((s) => s.tags?.includes(PAYPAL_EXTENDER_TAG))) {
+    return toResult('paypal', 'skipped', 'Already enriched');
+  }
+
+  const extender = new PayPalExtender();
+  extender.loadTransactions(paypalTransactions);
+  extender.setCachedTransactions([transaction]);
+  const matches = await extender.matchTransactionsWithPayPal();
+  if (matches.length === 0) return toResult('paypal', 'skipped', 'Not a PayPal transaction');
+
+  const [match] = matches;
+  if (!match.matchedPayPalTransaction) {
+    return toResult('paypal', 'none', 'No matching PayPal transaction');
+  }
+
+  const label = `PayPal payment to ${match.matchedPayPalTransaction.name}`;
+  if (!shouldApply(options, match.matchConfidence)) {
+    return toResult('paypal', 'suggested', label, match.matchConfidence);
+  }
+
+  const { result } = await getOperationLog().run('paypalDescriptions', () =>
+    extender.applyDescriptions([
+      {
+        transactionId: transaction.id,
+        journalId: split.transaction_journal_id,
+        newDescription: match.suggestedDescription,
+        newNotes: match.suggestedNotes,
+      },
+    ])
+  );
+  return toApplyResult('paypal', result, label, match.matchConfidence);
+}
+
+async function suggestCategory(
+  transaction: FireflyTransaction,
+  options: WebhookOptions
+): Promise<WebhookActionResult> {
+  const splits = transaction.attributes.transactions;
+  if (!isAIConfigured()) return toResult('categories', 'skipped', 'AI is not configured');
+  if (splits.every((split) => split.category_id || split.category_name)) {
+    const message =
+      splits.length === 1
+        ? `Already in category "${splits[0].category_name}"`
+        : 'All splits already have a category';
+    return toResult('categories', 'skipped', message);
+  }
+
+  const service = new AISuggestionService(getFireflyApi());
+  const suggestions = (
+    await collectSuggestions<CategorySuggestion>(
+      service.streamCategorySuggestions(undefined, undefined, { maxSuggestions: 1 }, [transaction])
+    )
+  ).filter((suggestion) => !suggestion.unableToClassify);
+  if (suggestions.length === 0) {
+    return toResult('categories', 'none', 'No fitting category');
+  }
+
+  const getLabel = (items: CategorySuggestion[]) =>
+    items.map((suggestion) => `Category "${suggestion.suggestedCategoryName}"`).join(', ');
+  const accepted = suggestions.filter((suggestion) => shouldApply(options, suggestion.confidence));
+  if (accepted.length === 0) {
+    const confidence = Math.max(...suggestions.map((suggestion) => suggestion.confidence));
+    return toResult('categories', 'suggested', getLabel(suggestions), confidence);
+  }
+
+  const confidence = Math.min(...accepted.map((suggestion) => suggestion.confidence));
+  const { result } = await getOperationLog().run('categories', () =>
+    service.applyCategories(
+      accepted.map((suggestion) => ({
+        transactionId: transaction.id,
+        journalId: suggestion.transaction.transaction_journal_id,
+        updates: {
+          category_id: suggestion.suggestedCategoryId,
+          category_name: suggestion.suggestedCategoryName,
+        },
+      }))
+    )
+  );
+  return toApplyResult('categories', result, getLabel(accepted), confidence);
+}
+
+async function suggestTags(
+  transaction: FireflyTransaction,
+  options: WebhookOptions
+): Promise<WebhookActionResult> {
+  if (!isAIConfigured()) return toResult('tags', 'skipped', 'AI is not configured');
+  if (transaction.attributes.transactions.every((split) => split.tags?.includes(TAGGER_TAG))) {
+    return toResult('tags', 'skipped', 'Already processed for tags');
+  }
+
+  const service = new AISuggestionService(getFireflyApi());
+  const suggestions = (
+    await collectSuggestions<TagSuggestion>(
+      service.streamTagSuggestions(undefined, undefined, { maxSuggestions: 1 }, [transaction])
+    )
+  ).filter((suggestion) => suggestion.suggestedTags.length > 0);
+  if (suggestions.length === 0) {
+    return toResult('tags', 'none', 'No fitting tags');
+  }
+
+  const suggestedTags = suggestions.flatMap((suggestion) => suggestion.suggestedTags);
+  const confidence = Math.max(...suggestedTags.map((tag) => tag.confidence));
+  const updates = suggestions
+    .map((suggestion) => ({
+      split: suggestion.transaction,
+      accepted: suggestion.suggestedTags
+        .filter((tag) => shouldApply(options, tag.confidence))
+        .map((tag) => tag.tagName),
+    }))
+    .filter((update) => update.accepted.length > 0);
+  if (updates.length === 0) {
+    const names = [...new Set(suggestedTags.map((tag) => tag.tagName))];
+    return toResult('tags', 'suggested', `Tags ${names.join(', ')}`, confidence);
+  }
+
+  const { result } = await getOperationLog().run('tags', () =>
+    service.applyTags(
+      updates.map(({ split, accepted }) => ({
+        transactionId: transaction.id,
+        journalId: split.transaction_journal_id,
+        updates: { tags: [...new Set([...(split.tags || []), ...accepted])] },
+      }))
+    )
+  );
+  const accepted = [...new Set(updates.flatMap((update) => update.accepted))];
+  return toApplyResult('tags', result, `Tags ${accepted.join(', ')}`, confidence);
+}
+
+async function checkDuplicates(
+  transaction: FireflyTransaction,
+  options: WebhookOptions
+): Promise<WebhookActionResult> {
+  const split = transaction.attributes.transactions[0];
+  const date = new Date(split.date).getTime();
+  const lookbackMs = options.duplicateLookbackDays * DAY_MS;
+
+  const finder = new DuplicateTransactionFinder(getFireflyApi());
+  const groups = await finder.findDuplicates(
+    toDateString(new Date(date - lookbackMs)),
+    toDateString(new Date(date + lookbackMs))
+  );
+  const group = groups.find((g) => g.transactions.some((t) => t.id === transaction.id));
+  if (!group) return toResult('duplicates', 'none', 'No duplicates');
+
+  // Duplicates are never deleted automatically
+  const others = group.transactions.filter((t) => t.id !== transaction.id).map((t) => `#${t.id}`);
+  return toResult(
+    'duplicates',
+    'suggested',
+    `Possible duplicate of ${others.join(', ')}`,
+    group.matchScore
+  );
+}
+
+/**
+ * Run a webhook action on a new transaction with the current Firefly III API client
+ */
+export async function runWebhookAction(
+  action: WebhookAction,
+  transaction: FireflyTransaction,
+  options: WebhookOptions
+): Promise<WebhookActionResult> {
+  if (!transaction.attributes.transactions[0]) {
+    return toResult(action, 'skipped', 'Transaction has no splits');
+  }
+
+  switch (action) {
+    case 'amazon':
+      return enrichFromAmazon(transaction, options);
+    case 'paypal':
+      return enrichFromPayPal(transaction, options);
+    case 'categories':
+      return suggestCategory(transaction, options);
+    case 'tags':
+      return suggestTags(transaction, options);
+    case 'duplicates':
+      return checkDuplicates(transaction, options);
+  }
+}
+
+/**
+ * Records webhook deliveries and processes them one at a time
+ */
+export class WebhookProcessor {
+  private backend: PersistenceBackend;
+  private runner: WebhookActionRunner;
+  private options: WebhookOptions;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    backend: PersistenceBackend = getPersistenceBackend(),
+    runner: WebhookActionRunner = runWebhookAction,
+    options: WebhookOptions = config.webhooks
+  ) {
+    this.backend = backend;
+    this.runner = runner;
+    this.options = options;
+  }
+
+  /**
+   * Record a webhook message and queue it for processing. Returns undefined
+   * if the message was already received (Firefly III retries deliveries).
+   */
+  accept(message: WebhookMessage, profileId: string): WebhookDelivery | undefined {
+    if (this.readAll().some((delivery) => delivery.messageId === message.messageId)) {
+      logger.debug(`Ignoring repeated webhook message ${message.messageId}`);
+      return undefined;
+    }
+
+    const delivery: WebhookDelivery = {
+      id: crypto.randomUUID(),
+      messageId: message.messageId,
+      profileId,
+      trigger: message.trigger,
+      transactionId: message.transactionId,
+      description: null,
+      status: 'queued',
+      receivedAt: new Date().toISOString(),
+      finishedAt: null,
+      results: [],
+      error: null,
+    };
+    this.write(delivery);
+    this.prune();
+    logger.info(`Received webhook for transaction ${delivery.transactionId} (${profileId})`);
+
+    this.enqueue(delivery);
+    return delivery;
+  }
+
+  /**
+   * Queue deliveries that were received or being processed when the server
+   * stopped, oldest first. Returns the number of deliveries queued.
+   */
+  resume(): number {
+    const pending = this.readAll()
+      .filter((delivery) => delivery.status === 'queued' || delivery.status === 'processing')
+      .reverse();
+
+    for (const delivery of pending) {
+      // Actions of an interrupted run are run again from the start
+      delivery.results = [];
+      this.enqueue(delivery);
+    }
+    if (pending.length > 0) {
+      logger.info(`Resuming ${pending.length} interrupted webhook deliveries`);
+    }
+    return pending.length;
+  }
+
+  /**
+   * Wait until all queued deliveries have been processed
+   */
+  idle(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * List deliveries, newest first, optionally for a single connection profile
+   */
+  list(profileId?: string, limit: number = MAX_WEBHOOK_DELIVERIES): WebhookDelivery[] {
+    return this.readAll()
+      .filter((delivery) => !profileId || delivery.profileId === profileId)
+      .slice(0, limit);
+  }
+
+  /**
+   * Run the configured actions on the delivery's transaction. Errors are
+   * recorded in the delivery instead of being thrown.
+   */
+  private async process(delivery: WebhookDelivery): Promise<void> {
+    delivery.status = 'processing';
+    this.write(delivery);
+
+    try {
+      const fireflyApi = getSharedFireflyApi(delivery.profileId);
+      await runWithFireflyApi(
+        fireflyApi,
+        () =>
+          runWithAuditContext({ user: null, tool: 'webhook' }, async () => {
+            let transaction = await fireflyApi.getTransaction(delivery.transactionId);
+            delivery.description = transaction.attributes.transactions[0]?.description ?? null;
+
+            for (const action of this.options.actions) {
+              let result: WebhookActionResult;
+              try {
+                result = await this.runner(action, transaction, this.options);
+              } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                result = toResult(action, 'failed', message);
+              }
+              delivery.results.push(result);
+              logger.info(
+                `Webhook ${action} for transaction ${delivery.transactionId}: ` +
+                  `${result.status} (${result.message})`
+              );
+
+              // Later actions work on the changed transaction
+              if (result.status === 'applied') {
+                transaction = await fireflyApi.getTransaction(delivery.transactionId);
+              }
+            }
+          }),
+        delivery.profileId
+      );
+      delivery.status = 'completed';
+    } catch (error) {
+      delivery.status = 'failed';
+      delivery.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Webhook for transaction ${delivery.transactionId} failed: ${delivery.error}`);
+    } finally {
+      delivery.finishedAt = new Date().toISOString();
+      this.write(delivery);
+    }
+  }
+
+  /**
+   * Process a delivery after the ones queued before it. The queue keeps going
+   * if processing fails unexpectedly (e.g. the delivery cannot be stored).
+   */
+  private enqueue(delivery: WebhookDelivery): void {
+    this.queue = this.queue
+      .then(() => this.process(delivery))
+      .catch((error) => {
+        logger.error(`Processing webhook for transaction ${delivery.transactionId} failed:`, error);
+      });
+  }
+
+  private prune(): void {
+    for (const delivery of this.readAll().slice(MAX_WEBHOOK_DELIVERIES)) {
+      this.backend.delete(DELIVERY_NAMESPACE, delivery.id);
+    }
+  }
+
+  private readAll(): WebhookDelivery[] {
+    const deliveries: WebhookDelivery[] = [];
+    for (const record of this.backend.list(DELIVERY_NAMESPACE)) {
+      try {
+        deliveries.push(JSON.parse(record.value) as WebhookDelivery);
+      } catch (error) {
+        logger.warn(`Ignoring unreadable webhook delivery ${record.key}:`, error);
+      }
+    }
+    return deliveries.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+  }
+
+  private write(delivery: WebhookDelivery): void {
+    this.backend.set(DELIVERY_NAMESPACE, delivery.id, JSON.stringify(delivery));
+  }
+}
+
+// Shared webhook processor instance, created lazily on first use
+let processorInstance: WebhookProcessor | null = null;
+
+/**
+ * Get the shared webhook processor
+ */
+export function getWebhookProcessor(): WebhookProcessor {
+  if (!processorInstance) {
+    processorInstance = new WebhookProcessor();
+  }
+  return processorInstance;
+}
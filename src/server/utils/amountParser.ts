@@ -1,4 +1,4 @@
-import { config } from '../config/index.js';
+import { getActiveFireflyProfile } from '../clients/firefly.js';
 
 export interface NumberFormatConfig {
   decimalSeparator: string;
@@ -7,7 +7,8 @@ export interface NumberFormatConfig {
 
 /**
  * Parse a monetary amount string into a number using the configured number format.
- * Handles EU (1.234,56) and US (1,234.56) formats based on config.numberFormat.
+ * Handles EU (1.234,56) and US (1,234.56) formats based on the number format of the
+ * active Firefly III connection profile.
  *
  * @param value - The string or number to parse
  * @param formatConfig - Optional format config override (for testing)
@@ -20,10 +21,7 @@ export function parseAmount(value: unknown, formatConfig?: NumberFormatConfig):
   const amountStr = value.trim();
   if (!amountStr) return 0;
 
-  const format = formatConfig ?? {
-    decimalSeparator: config.numberFormat.decimalSeparator,
-    thousandsSeparator: config.numberFormat.thousandsSeparator,
-  };
+  const format = formatConfig ?? getActiveFireflyProfile().numberFormat;
 
   // Remove currency symbols and whitespace
   let cleaned = amountStr.replace(/[€$£\s]/g, '').trim();
@@ -54,10 +52,7 @@ export function parseAmount(value: unknown, formatConfig?: NumberFormatConfig):
  * @returns Formatted string
  */
 export function formatAmount(value: number, formatConfig?: NumberFormatConfig): string {
-  const format = formatConfig ?? {
-    decimalSeparator: config.numberFormat.decimalSeparator,
-    thousandsSeparator: config.numberFormat.thousandsSeparator,
-  };
+  const format = formatConfig ?? getActiveFireflyProfile().numberFormat;
 
   const [intPart, decPart] = Math.abs(value).toFixed(2).split('.');
 
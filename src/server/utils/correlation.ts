@@ -0,0 +1,44 @@
+/**
+ * Request Correlation IDs
+ *
+ * Every API request gets an ID that is attached to all messages logged while
+ * handling it, returned in the X-Request-Id response header and included in
+ * error responses, so a log line can be tied to the request that caused it.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+/** Header carrying the correlation ID (accepted from proxies, always returned) */
+export const CORRELATION_ID_HEADER = 'x-request-id';
+
+/** IDs accepted from the X-Request-Id request header */
+const VALID_CORRELATION_ID = /^[\w.:-]{1,128}$/;
+
+const correlationStorage = new AsyncLocalStorage<string>();
+
+/**
+ * Run a function with a correlation ID. Messages logged by the function and
+ * anything it awaits include the ID.
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlationStorage.run(correlationId, fn);
+}
+
+/**
+ * Get the correlation ID of the current request or run
+ */
+export function getCorrelationId(): string | undefined {
+  return correlationStorage.getStore();
+}
+
+/**
+ * Use an ID set by a reverse proxy if it looks sane, otherwise create one
+ */
+export function resolveCorrelationId(incoming: string | string[] | undefined): string {
+  const value = Array.isArray(incoming) ? incoming[0] : incoming;
+  if (value && VALID_CORRELATION_ID.test(value)) {
+    return value;
+  }
+  return crypto.randomUUID();
+}
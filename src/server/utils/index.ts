@@ -1,5 +1,12 @@
 export { createLogger, logger, loggers, type Logger, type LogLevel } from './logger.js';
 
+export {
+  runWithCorrelationId,
+  getCorrelationId,
+  resolveCorrelationId,
+  CORRELATION_ID_HEADER,
+} from './correlation.js';
+
 export { parseAmount, formatAmount, type NumberFormatConfig } from './amountParser.js';
 
 export { parseJsonAsync } from './asyncJson.js';
@@ -13,7 +20,12 @@ export {
 export {
   validateBody,
   // Converter schemas
+  importTransactionSchema,
   converterImportSchema,
+  converterConfigSchema,
+  converterProfileCreateSchema,
+  converterProfileUpdateSchema,
+  converterProfileDuplicateSchema,
   // Amazon schemas
   amazonUploadJsonSchema,
   amazonMatchSchema,
@@ -36,12 +48,35 @@ export {
   // Duplicate schemas
   duplicateFindSchema,
   bulkDeleteSchema,
+  duplicateMergeSchema,
+  duplicateDismissSchema,
+  // Transfer pair schemas
+  transferPairFindSchema,
+  transferConvertSchema,
   // Suggestion schemas
   suggestionRequestSchema,
   applySuggestionsSchema,
+  proposeRulesSchema,
+  createRulesSchema,
+  // Find & replace schemas
+  findReplaceSearchSchema,
+  findReplaceApplySchema,
   // Subscription schemas
   subscriptionFindSchema,
   createSubscriptionSchema,
+  // Job schemas
+  jobCreateSchema,
+  // Schedule schemas
+  scheduleCreateSchema,
+  scheduleUpdateSchema,
+  // Audit log schemas
+  auditQuerySchema,
+  // Connection profile schemas
+  fireflyProfileSelectSchema,
+  // Transaction mirror schemas
+  transactionMirrorSyncSchema,
+  // Webhook schemas
+  fireflyWebhookSchema,
 } from './validation.js';
 
 export type {
@@ -50,6 +85,9 @@ export type {
   DateRangeBody,
   CountTransactionsBody,
   ConverterImportBody,
+  ConverterProfileCreateBody,
+  ConverterProfileUpdateBody,
+  ConverterProfileDuplicateBody,
   AmazonMatchBody,
   AmazonApplyBody,
   PayPalUploadCsvBody,
@@ -65,10 +103,33 @@ export type {
   // Duplicate types
   DuplicateFindBody,
   BulkDeleteBody,
+  DuplicateMergeBody,
+  DuplicateDismissBody,
+  // Transfer pair types
+  TransferPairFindBody,
+  TransferConvertBody,
   // Suggestion types
   SuggestionRequestBody,
   ApplySuggestionsBody,
+  ProposeRulesBody,
+  CreateRulesBody,
+  // Find & replace types
+  FindReplaceSearchBody,
+  FindReplaceApplyBody,
   // Subscription types
   SubscriptionFindBody,
   CreateSubscriptionBody,
+  // Job types
+  JobCreateBody,
+  // Schedule types
+  ScheduleCreateBody,
+  ScheduleUpdateBody,
+  // Audit log types
+  AuditQueryParams,
+  // Connection profile types
+  FireflyProfileSelectBody,
+  // Transaction mirror types
+  TransactionMirrorSyncBody,
+  // Webhook types
+  FireflyWebhookMessage,
 } from './validation.js';
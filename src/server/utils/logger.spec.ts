@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createLogger } from './logger.js';
+import { createLogger, logToStderr } from './logger.js';
+import { runWithCorrelationId } from './correlation.js';
 
 describe('createLogger', () => {
   let consoleSpy: {
@@ -18,9 +19,11 @@ describe('createLogger', () => {
     delete process.env.LOG_LEVEL;
     delete process.env.LOG_COLOR;
     delete process.env.NO_COLOR;
+    delete process.env.LOG_FORMAT;
   });
 
   afterEach(() => {
+    logToStderr(false);
     vi.restoreAllMocks();
   });
 
@@ -217,6 +220,22 @@ describe('createLogger', () => {
     });
   });
 
+  describe('stderr output', () => {
+    it('should write all levels to stderr when enabled', () => {
+      process.env.LOG_LEVEL = 'debug';
+      const logger = createLogger('Cli');
+
+      logToStderr();
+      logger.info('Info message');
+      logger.warn('Warn message');
+      logger.debug('Debug message');
+
+      expect(consoleSpy.log).not.toHaveBeenCalled();
+      expect(consoleSpy.warn).not.toHaveBeenCalled();
+      expect(consoleSpy.error).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe('color handling', () => {
     it('should disable colors when NO_COLOR is set', () => {
       process.env.LOG_LEVEL = 'info';
@@ -297,4 +316,89 @@ describe('createLogger', () => {
       expect(loggedMessage).toContain('DEBUG');
     });
   });
+
+  describe('correlation IDs', () => {
+    it('should include the correlation ID of the current request', async () => {
+      process.env.LOG_LEVEL = 'info';
+      const logger = createLogger('Test');
+
+      await runWithCorrelationId('req-42', async () => {
+        await Promise.resolve();
+        logger.info('Inside request');
+      });
+      logger.info('Outside request');
+
+      expect(consoleSpy.log.mock.calls[0][0]).toContain('[Test] (req-42)');
+      expect(consoleSpy.log.mock.calls[1][0]).not.toContain('req-42');
+    });
+
+    it('should support the {correlationId} placeholder', () => {
+      process.env.LOG_LEVEL = 'info';
+      process.env.LOG_FORMAT = '{correlationId} {message}';
+      const logger = createLogger('Test');
+
+      runWithCorrelationId('req-7', () => logger.info('Hello'));
+      logger.info('Hello');
+
+      expect(consoleSpy.log.mock.calls[0][0]).toBe('req-7 Hello');
+      expect(consoleSpy.log.mock.calls[1][0]).toBe('- Hello');
+    });
+
+    it('should not repeat the correlation ID after {where} when the placeholder is used', () => {
+      process.env.LOG_LEVEL = 'info';
+      process.env.NO_COLOR = '1';
+      process.env.LOG_FORMAT = '{where} {correlationId} {message}';
+      const logger = createLogger('Test');
+
+      runWithCorrelationId('req-9', () => logger.info('Hello'));
+
+      expect(consoleSpy.log.mock.calls[0][0]).toBe('[Test] req-9 Hello');
+    });
+  });
+
+  describe('JSON format', () => {
+    beforeEach(() => {
+      process.env.LOG_LEVEL = 'debug';
+      process.env.LOG_FORMAT = 'json';
+    });
+
+    it('should write one JSON object per line', () => {
+      const logger = createLogger('FinTS');
+
+      runWithCorrelationId('req-1', () => logger.warn('Dialog failed', { bankCode: '12345' }));
+
+      const line = consoleSpy.warn.mock.calls[0][0] as string;
+      expect(line).not.toContain('\n');
+      expect(JSON.parse(line)).toEqual({
+        timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        level: 'warn',
+        module: 'FinTS',
+        message: 'Dialog failed',
+        correlationId: 'req-1',
+        meta: { bankCode: '12345' },
+      });
+    });
+
+    it('should omit correlation ID and meta when absent', () => {
+      const logger = createLogger('Server');
+
+      logger.info('Started');
+
+      const entry = JSON.parse(consoleSpy.log.mock.calls[0][0]);
+      expect(entry).not.toHaveProperty('correlationId');
+      expect(entry).not.toHaveProperty('meta');
+    });
+
+    it('should serialize errors and circular data', () => {
+      const logger = createLogger('Test');
+      const data: Record<string, unknown> = { error: new Error('Boom') };
+      data.self = data;
+
+      logger.error('Failed', data);
+
+      const entry = JSON.parse(consoleSpy.error.mock.calls[0][0]);
+      expect(entry.meta.error).toMatchObject({ name: 'Error', message: 'Boom' });
+      expect(entry.meta.self).toBe('[Circular]');
+    });
+  });
 });
@@ -8,8 +8,14 @@
  * - debug: All messages including debug
  *
  * Configure via LOG_LEVEL environment variable (default: 'info')
+ *
+ * LOG_FORMAT is either a template for human-readable lines or `json` for one
+ * JSON object per line (for log pipelines such as Loki). Messages logged while
+ * handling a request carry the request's correlation ID.
  */
 
+import { getCorrelationId } from './correlation.js';
+
 export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
 
 const LOG_LEVELS: Record<LogLevel, number> = {
@@ -54,12 +60,23 @@ function getConfiguredLevel(): LogLevel {
   return 'info';
 }
 
+// Write every message to stderr instead of stdout (set by the CLI)
+let stderrOnly = false;
+
+/**
+ * Write all log messages to stderr, keeping stdout free for command output
+ */
+export function logToStderr(enabled: boolean = true): void {
+  stderrOnly = enabled;
+}
+
 /**
  * Check if coloring is enabled
  */
 function isColorEnabled(): boolean {
   // Disable colors if NO_COLOR is set or not a TTY
-  if (process.env.NO_COLOR || !process.stdout.isTTY) {
+  const stream = stderrOnly ? process.stderr : process.stdout;
+  if (process.env.NO_COLOR || !stream.isTTY) {
     return false;
   }
   return process.env.LOG_COLOR !== 'false';
@@ -75,14 +92,73 @@ function formatTimestamp(): string {
   return `${date} ${time}`;
 }
 
+/**
+ * Check if messages are written as JSON lines
+ */
+function isJsonFormat(): boolean {
+  return process.env.LOG_FORMAT?.trim().toLowerCase() === 'json';
+}
+
+/**
+ * Convert log data into a JSON-safe value (errors become name, message and stack)
+ */
+function toJsonMeta(data: unknown): unknown {
+  const seen = new WeakSet<object>();
+  const replacer = (_key: string, value: unknown): unknown => {
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, stack: value.stack };
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (value !== null && typeof value === 'object') {
+      if (seen.has(value)) return '[Circular]';
+      seen.add(value);
+    }
+    return value;
+  };
+
+  try {
+    const json = JSON.stringify(data, replacer);
+    return json === undefined ? String(data) : JSON.parse(json);
+  } catch {
+    return String(data);
+  }
+}
+
+/**
+ * Format a log message as a single JSON line
+ */
+function formatJsonMessage(
+  level: LogLevel,
+  context: string,
+  message: string,
+  data?: unknown
+): string {
+  const correlationId = getCorrelationId();
+  return JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    module: context || undefined,
+    message,
+    correlationId,
+    meta: data === undefined ? undefined : toJsonMeta(data),
+  });
+}
+
 /**
  * Format a log message
  */
 function formatMessage(level: LogLevel, context: string, message: string, data?: unknown): string {
+  if (isJsonFormat()) {
+    return formatJsonMessage(level, context, message, data);
+  }
+
   const timestamp = formatTimestamp();
   const style = LEVEL_STYLES[level];
   const useColors = isColorEnabled();
   const format = process.env.LOG_FORMAT || DEFAULT_LOG_FORMAT;
+  const correlationId = getCorrelationId();
 
   let formattedMessage = format;
 
@@ -112,8 +188,17 @@ function formatMessage(level: LogLevel, context: string, message: string, data?:
   } else if (context) {
     whereStr = `[${context}]`;
   }
+  // Templates with a {correlationId} placeholder place the ID themselves
+  if (correlationId && !format.includes('{correlationId}')) {
+    whereStr += useColors
+      ? ` ${COLORS.dim}(${correlationId})${COLORS.reset}`
+      : ` (${correlationId})`;
+  }
   formattedMessage = formattedMessage.replace('{where}', whereStr);
 
+  // {correlationId} - ID of the request being handled
+  formattedMessage = formattedMessage.replace('{correlationId}', correlationId || '-');
+
   // {message}
   formattedMessage = formattedMessage.replace('{message}', message);
 
@@ -166,6 +251,11 @@ export function createLogger(context: string = ''): Logger {
 
     const formattedMessage = formatMessage(level, context, message, data);
 
+    if (stderrOnly) {
+      console.error(formattedMessage);
+      return;
+    }
+
     switch (level) {
       case 'error':
         console.error(formattedMessage);
@@ -4,6 +4,9 @@ import {
   dateRangeSchema,
   countTransactionsSchema,
   converterImportSchema,
+  converterConfigSchema,
+  converterProfileCreateSchema,
+  converterProfileUpdateSchema,
   amazonMatchSchema,
   amazonApplySchema,
   paypalUploadCsvSchema,
@@ -20,6 +23,9 @@ import {
   createSubscriptionSchema,
   transactionListSchema,
   transactionUpdateSchema,
+  scheduleCreateSchema,
+  scheduleUpdateSchema,
+  auditQuerySchema,
   validateBody,
 } from './validation.js';
 
@@ -183,6 +189,94 @@ describe('validation schemas', () => {
     });
   });
 
+  describe('converterConfigSchema', () => {
+    const validConfig = {
+      name: 'DKB',
+      description: 'DKB checking account',
+      version: '1.0',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      csvOptions: {
+        delimiter: ';',
+        quoteChar: '"',
+        hasHeader: true,
+        skipRows: 4,
+        encoding: 'utf-8',
+      },
+      exportOptions: { delimiter: ',', quoteChar: '"', quoteMode: 'needed', lineEnding: 'lf' },
+      swimlanes: [
+        {
+          id: 'lane-1',
+          targetColumn: 'description',
+          enabled: true,
+          blocks: [
+            {
+              id: 'block-1',
+              type: 'conditional',
+              condition: { useCurrentValue: false, column: 'Type', operator: 'isEmpty', value: '' },
+              thenBlocks: [{ id: 'block-2', type: 'static', value: 'Unknown' }],
+              elseBlocks: [{ id: 'block-3', type: 'column', sourceColumn: 'Verwendungszweck' }],
+            },
+          ],
+        },
+      ],
+    };
+
+    it('should accept a valid configuration with nested blocks', () => {
+      const result = converterConfigSchema.safeParse(validConfig);
+      expect(result.success).toBe(true);
+    });
+
+    it('should default export options for older configurations', () => {
+      const legacyConfig: Record<string, unknown> = { ...validConfig };
+      delete legacyConfig.exportOptions;
+      const result = converterConfigSchema.safeParse(legacyConfig);
+      expect(result.success).toBe(true);
+      expect(result.data?.exportOptions.lineEnding).toBe('lf');
+    });
+
+    it('should reject unknown target columns', () => {
+      const result = converterConfigSchema.safeParse({
+        ...validConfig,
+        swimlanes: [{ id: 'lane-1', targetColumn: 'unknown', enabled: true, blocks: [] }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject invalid nested blocks', () => {
+      const result = converterConfigSchema.safeParse({
+        ...validConfig,
+        swimlanes: [
+          {
+            id: 'lane-1',
+            targetColumn: 'description',
+            enabled: true,
+            blocks: [
+              {
+                id: 'block-1',
+                type: 'conditional',
+                condition: { useCurrentValue: true, column: '', operator: 'equals', value: '' },
+                thenBlocks: [{ id: 'block-2', type: 'truncate', maxLength: 'ten' }],
+                elseBlocks: [],
+              },
+            ],
+          },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should require a profile name when creating a profile', () => {
+      const result = converterProfileCreateSchema.safeParse({ name: '  ', config: validConfig });
+      expect(result.success).toBe(false);
+    });
+
+    it('should require a name or configuration when updating a profile', () => {
+      expect(converterProfileUpdateSchema.safeParse({}).success).toBe(false);
+      expect(converterProfileUpdateSchema.safeParse({ name: 'ING' }).success).toBe(true);
+    });
+  });
+
   describe('amazonMatchSchema', () => {
     it('should accept valid match params', () => {
       const result = amazonMatchSchema.safeParse({
@@ -375,7 +469,7 @@ describe('validation schemas', () => {
         endDate: '2024-01-31',
         options: {
           dateRange: 3,
-          amountTolerance: 0.01,
+          amountTolerance: 2, // percent
           includeDescriptionMatch: true,
         },
       });
@@ -390,6 +484,31 @@ describe('validation schemas', () => {
       });
       expect(result.success).toBe(false);
     });
+
+    it('should accept presets, thresholds and weights', () => {
+      const result = duplicateFindSchema.safeParse({
+        options: {
+          preset: 'crossSource',
+          descriptionThreshold: 0.5,
+          requiredMatches: 4,
+          minScore: 0.6,
+          weights: { amount: 0.4, destinationAccount: 0 },
+        },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown presets and out of range scoring values', () => {
+      for (const options of [
+        { preset: 'paranoid' },
+        { amountTolerance: 150 },
+        { descriptionThreshold: 1.5 },
+        { requiredMatches: 0 },
+        { weights: { date: -0.1 } },
+      ]) {
+        expect(duplicateFindSchema.safeParse({ options }).success).toBe(false);
+      }
+    });
   });
 
   describe('bulkDeleteSchema', () => {
@@ -586,6 +705,81 @@ describe('validation schemas', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('scheduleCreateSchema', () => {
+    it('should apply option defaults', () => {
+      const result = scheduleCreateSchema.safeParse({
+        name: 'Weekly subscriptions',
+        cron: '0 6 * * 1',
+        tool: 'subscriptions',
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.enabled).toBe(true);
+        expect(result.data.options).toEqual({
+          lookbackDays: 7,
+          maxTransactions: 50,
+          autoApply: false,
+          autoApplyMinConfidence: 0.9,
+        });
+      }
+    });
+
+    it('should reject invalid cron expressions', () => {
+      const result = scheduleCreateSchema.safeParse({
+        name: 'Broken',
+        cron: '61 * * * *',
+        tool: 'duplicates',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unknown tools', () => {
+      const result = scheduleCreateSchema.safeParse({
+        name: 'Unknown',
+        cron: '0 3 * * *',
+        tool: 'amazon',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('scheduleUpdateSchema', () => {
+    it('should accept partial option changes', () => {
+      const result = scheduleUpdateSchema.safeParse({ options: { autoApply: true } });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject empty updates', () => {
+      const result = scheduleUpdateSchema.safeParse({});
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject out-of-range confidence', () => {
+      const result = scheduleUpdateSchema.safeParse({ options: { autoApplyMinConfidence: 1.5 } });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('auditQuerySchema', () => {
+    it('should coerce pagination query strings', () => {
+      const result = auditQuerySchema.safeParse({ tool: 'duplicates', page: '2', pageSize: '25' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ tool: 'duplicates', page: 2, pageSize: 25 });
+      }
+    });
+
+    it('should reject unknown tools', () => {
+      const result = auditQuerySchema.safeParse({ tool: 'unknown' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject invalid dates', () => {
+      const result = auditQuerySchema.safeParse({ start: '01.06.2024' });
+      expect(result.success).toBe(false);
+    });
+  });
 });
 
 describe('validateBody middleware', () => {
@@ -5,8 +5,10 @@
  * request bodies and files are well-formed before processing.
  */
 import { z } from 'zod';
+import { Cron } from 'croner';
 import type { Request, Response, NextFunction } from 'express';
 import type { ApiResponse } from '../../shared/types/app.js';
+import type { TransformBlock } from '../../shared/types/converter.js';
 
 // =============================================================================
 // Common Schemas
@@ -22,6 +24,11 @@ const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY
  */
 const optionalDateString = dateString.optional();
 
+/**
+ * Dry run flag of write endpoints: report the changes instead of making them
+ */
+const dryRun = z.boolean().optional().default(false);
+
 /**
  * Date range query parameters for transaction filtering
  */
@@ -101,6 +108,203 @@ export const converterImportSchema = z.object({
     .min(1, 'At least one transaction is required')
     .max(1000, 'Maximum 1000 transactions per import'),
   options: importOptionsSchema.optional(),
+  dryRun,
+});
+
+// =============================================================================
+// Converter Profile Schemas
+// =============================================================================
+
+const fireflyImportColumnSchema = z.enum([
+  'type',
+  'date',
+  'amount',
+  'description',
+  'currency_code',
+  'foreign_amount',
+  'foreign_currency_code',
+  'budget_name',
+  'category_name',
+  'source_name',
+  'destination_name',
+  'tags',
+  'notes',
+  'internal_reference',
+  'external_id',
+  'external_url',
+  'sepa_cc',
+  'sepa_ct_op',
+  'sepa_ct_id',
+  'sepa_db',
+  'sepa_country',
+  'sepa_ep',
+  'sepa_ci',
+  'sepa_batch_id',
+  'interest_date',
+  'book_date',
+  'process_date',
+  'due_date',
+  'payment_date',
+  'invoice_date',
+]);
+
+const conditionOperatorSchema = z.enum([
+  'equals',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'greaterThan',
+  'lessThan',
+  'isEmpty',
+  'isNotEmpty',
+  'matches',
+]);
+
+const separatorSchema = z.enum(['.', ',']);
+const thousandsSeparatorSchema = z.enum(['', '.', ',', ' ']);
+
+/**
+ * Transform block (recursive: conditional and switch blocks contain nested blocks)
+ */
+const transformBlockSchema: z.ZodType<TransformBlock> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({ id: z.string(), type: z.literal('column'), sourceColumn: z.string() }),
+    z.object({ id: z.string(), type: z.literal('static'), value: z.string() }),
+    z.object({
+      id: z.string(),
+      type: z.literal('truncate'),
+      maxLength: z.number().int().nonnegative(),
+      ellipsis: z.boolean(),
+    }),
+    z.object({
+      id: z.string(),
+      type: z.literal('dateFormat'),
+      inputFormat: z.string(),
+      outputFormat: z.string(),
+    }),
+    z.object({
+      id: z.string(),
+      type: z.literal('numberFormat'),
+      inputDecimalSeparator: separatorSchema,
+      inputThousandsSeparator: thousandsSeparatorSchema,
+      outputDecimalSeparator: separatorSchema,
+      outputThousandsSeparator: thousandsSeparatorSchema,
+      decimals: z.number().int().nonnegative(),
+      absolute: z.boolean(),
+    }),
+    z.object({
+      id: z.string(),
+      type: z.literal('conditional'),
+      condition: z.object({
+        useCurrentValue: z.boolean(),
+        column: z.string(),
+        operator: conditionOperatorSchema,
+        value: z.string(),
+      }),
+      thenBlocks: z.array(transformBlockSchema),
+      elseBlocks: z.array(transformBlockSchema),
+    }),
+    z.object({
+      id: z.string(),
+      type: z.literal('switchCase'),
+      useCurrentValue: z.boolean(),
+      column: z.string(),
+      cases: z.array(
+        z.object({
+          operator: conditionOperatorSchema,
+          value: z.string(),
+          blocks: z.array(transformBlockSchema),
+        })
+      ),
+      defaultBlocks: z.array(transformBlockSchema),
+    }),
+    z.object({
+      id: z.string(),
+      type: z.literal('removeRow'),
+      condition: z.object({
+        column: z.string(),
+        operator: conditionOperatorSchema,
+        value: z.string(),
+      }),
+    }),
+    z.object({ id: z.string(), type: z.literal('prefix'), prefix: z.string() }),
+    z.object({ id: z.string(), type: z.literal('suffix'), suffix: z.string() }),
+    z.object({
+      id: z.string(),
+      type: z.literal('replace'),
+      find: z.string(),
+      replace: z.string(),
+      useRegex: z.boolean(),
+      caseInsensitive: z.boolean(),
+    }),
+    z.object({ id: z.string(), type: z.literal('customScript'), script: z.string().max(65535) }),
+  ])
+);
+
+/**
+ * Complete converter configuration (matches ConverterConfig)
+ */
+export const converterConfigSchema = z.object({
+  name: z.string().max(255),
+  description: z.string().max(4096),
+  version: z.string().max(32),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  csvOptions: z.object({
+    delimiter: z.string().max(4),
+    quoteChar: z.string().max(4),
+    hasHeader: z.boolean(),
+    skipRows: z.number().int().nonnegative(),
+    encoding: z.string().max(32),
+  }),
+  // Older configurations were saved without export options
+  exportOptions: z
+    .object({
+      delimiter: z.string().max(4),
+      quoteChar: z.string().max(4),
+      quoteMode: z.enum(['always', 'needed', 'never']),
+      lineEnding: z.enum(['lf', 'crlf']).default('lf'),
+    })
+    .default({ delimiter: ',', quoteChar: '"', quoteMode: 'needed', lineEnding: 'lf' }),
+  swimlanes: z
+    .array(
+      z.object({
+        id: z.string(),
+        targetColumn: fireflyImportColumnSchema,
+        blocks: z.array(transformBlockSchema),
+        enabled: z.boolean(),
+      })
+    )
+    .max(100),
+});
+
+const profileNameSchema = z.string().trim().min(1, 'Name is required').max(255);
+
+/**
+ * Create converter profile request body
+ */
+export const converterProfileCreateSchema = z.object({
+  name: profileNameSchema,
+  config: converterConfigSchema,
+});
+
+/**
+ * Update (rename and/or save) converter profile request body
+ */
+export const converterProfileUpdateSchema = z
+  .object({
+    name: profileNameSchema.optional(),
+    config: converterConfigSchema.optional(),
+  })
+  .refine((body) => body.name !== undefined || body.config !== undefined, {
+    message: 'Provide a new name or configuration',
+  });
+
+/**
+ * Duplicate converter profile request body
+ */
+export const converterProfileDuplicateSchema = z.object({
+  name: profileNameSchema.optional(),
 });
 
 // =============================================================================
@@ -157,6 +361,7 @@ export const amazonApplySchema = z.object({
       })
     )
     .min(1, 'At least one match is required'),
+  dryRun,
 });
 
 // =============================================================================
@@ -193,6 +398,7 @@ export const paypalApplySchema = z.object({
       })
     )
     .min(1, 'At least one match is required'),
+  dryRun,
 });
 
 // =============================================================================
@@ -305,6 +511,7 @@ export const fintsImportSchema = z.object({
     .array(fintsImportResultSchema)
     .min(1, 'At least one transaction is required')
     .max(1000, 'Maximum 1000 transactions per import'),
+  dryRun,
 });
 
 // =============================================================================
@@ -345,12 +552,29 @@ export const transactionUpdateSchema = z.object({
 /**
  * Duplicate finder options
  */
+const duplicateScoreWeightsSchema = z.object({
+  date: z.number().min(0).max(1).optional(),
+  amount: z.number().min(0).max(1).optional(),
+  description: z.number().min(0).max(1).optional(),
+  sourceAccount: z.number().min(0).max(1).optional(),
+  destinationAccount: z.number().min(0).max(1).optional(),
+  reference: z.number().min(0).max(1).optional(),
+});
+
 const duplicateFinderOptionsSchema = z.object({
+  preset: z.enum(['strictImportRerun', 'crossSource', 'loose']).optional(),
   dateRange: z.number().int().positive().max(365).optional(),
+  // Percent of the amount
   amountTolerance: z.number().min(0).max(100).optional(),
+  descriptionThreshold: z.number().min(0).max(1).optional(),
+  requiredMatches: z.number().int().min(1).max(10).optional(),
+  minScore: z.number().min(0).max(1).optional(),
+  weights: duplicateScoreWeightsSchema.optional(),
   includeDescriptionMatch: z.boolean().optional(),
   includeSourceMatch: z.boolean().optional(),
   includeDestinationMatch: z.boolean().optional(),
+  sameAccountOnly: z.boolean().optional(),
+  includeDismissed: z.boolean().optional(),
 });
 
 /**
@@ -370,6 +594,93 @@ export const bulkDeleteSchema = z.object({
     .array(z.string().min(1))
     .min(1, 'At least one transaction ID is required')
     .max(100, 'Maximum 100 transactions per bulk delete'),
+  dryRun,
+});
+
+/**
+ * Duplicate merge request body. Fields are taken from one of the merged
+ * transactions or combined from all of them.
+ */
+export const duplicateMergeSchema = z
+  .object({
+    survivorId: z.string().min(1),
+    duplicateIds: z
+      .array(z.string().min(1))
+      .min(1, 'At least one duplicate is required')
+      .max(20, 'Maximum 20 duplicates per merge'),
+    fields: z
+      .partialRecord(
+        z.enum(['notes', 'tags', 'category', 'budget', 'external_id', 'sepa']),
+        z.string().min(1)
+      )
+      .optional()
+      .default({}),
+    dryRun,
+  })
+  .refine((body) => !body.duplicateIds.includes(body.survivorId), {
+    message: 'The kept transaction cannot be deleted',
+    path: ['duplicateIds'],
+  })
+  .refine(
+    (body) =>
+      Object.values(body.fields).every(
+        (source) =>
+          source === 'combine' ||
+          source === body.survivorId ||
+          body.duplicateIds.includes(source as string)
+      ),
+    { message: 'Fields can only be taken from the merged transactions', path: ['fields'] }
+  );
+
+/**
+ * Duplicate dismissal request body: transactions that are not duplicates of
+ * each other
+ */
+export const duplicateDismissSchema = z.object({
+  transactionIds: z
+    .array(z.string().min(1))
+    .min(2, 'At least two transactions are required')
+    .max(20, 'Maximum 20 transactions per dismissal')
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: 'Transactions must be different',
+    }),
+});
+
+// =============================================================================
+// Transfer Pair Schemas
+// =============================================================================
+
+/**
+ * Transfer pair find request body
+ */
+export const transferPairFindSchema = z.object({
+  startDate: optionalDateString,
+  endDate: optionalDateString,
+  options: z
+    .object({
+      dateRange: z.number().int().nonnegative().max(30).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Transfer conversion request body: each pair is replaced with one transfer
+ */
+export const transferConvertSchema = z.object({
+  pairs: z
+    .array(
+      z
+        .object({
+          withdrawalId: z.string().min(1),
+          depositId: z.string().min(1),
+        })
+        .refine((pair) => pair.withdrawalId !== pair.depositId, {
+          message: 'Withdrawal and deposit must be different transactions',
+        })
+    )
+    .min(1, 'At least one pair is required')
+    .max(100, 'Maximum 100 pairs per request'),
+  dryRun,
 });
 
 // =============================================================================
@@ -416,6 +727,124 @@ export const applySuggestionsSchema = z.object({
     .array(transactionUpdateItemSchema)
     .min(1, 'At least one update is required')
     .max(100, 'Maximum 100 updates per request'),
+  dryRun,
+});
+
+/**
+ * Rule proposal request body (suggestions the user applied)
+ */
+export const proposeRulesSchema = z.object({
+  accepted: z
+    .array(
+      z.object({
+        transaction: z.object({
+          description: z.string().max(1024),
+          type: z.string().max(50),
+          source_name: z.string().max(255).nullable().optional(),
+          destination_name: z.string().max(255).nullable().optional(),
+        }),
+        categoryName: z.string().max(255).optional(),
+        tags: z.array(z.string().max(255)).max(100).optional(),
+      })
+    )
+    .min(1, 'At least one applied suggestion is required')
+    .max(1000, 'Maximum 1000 applied suggestions per request'),
+});
+
+/**
+ * Create rules request body (proposals as edited by the user)
+ */
+export const createRulesSchema = z.object({
+  rules: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1, 'Rule title is required').max(255),
+        triggers: z
+          .array(
+            z.object({
+              type: z.enum([
+                'description_contains',
+                'description_starts',
+                'destination_account_is',
+                'destination_account_contains',
+                'source_account_is',
+                'source_account_contains',
+              ]),
+              value: z.string().trim().min(1, 'Trigger value is required').max(255),
+            })
+          )
+          .min(1, 'At least one trigger is required')
+          .max(10),
+        actions: z
+          .array(
+            z.object({
+              type: z.enum(['set_category', 'add_tag']),
+              value: z.string().trim().min(1).max(255),
+            })
+          )
+          .min(1, 'At least one action is required')
+          .max(20),
+      })
+    )
+    .min(1, 'At least one rule is required')
+    .max(50, 'Maximum 50 rules per request'),
+});
+
+// =============================================================================
+// Find & Replace Schemas
+// =============================================================================
+
+const findReplaceField = z.enum(['description', 'notes', 'counterparty']);
+
+/** Longest regular expression accepted by find & replace */
+const MAX_FIND_REGEX_LENGTH = 200;
+
+/**
+ * Find & replace search request body
+ */
+export const findReplaceSearchSchema = z
+  .object({
+    startDate: optionalDateString,
+    endDate: optionalDateString,
+    field: findReplaceField,
+    find: z.string().min(1, 'Search text is required').max(1000),
+    replace: z.string().max(1000),
+    mode: z.enum(['literal', 'regex']).optional().default('literal'),
+    caseSensitive: z.boolean().optional().default(false),
+  })
+  .refine(
+    (body) => {
+      if (body.mode !== 'regex') return true;
+      try {
+        new RegExp(body.find);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid regular expression', path: ['find'] }
+  )
+  .refine((body) => body.mode !== 'regex' || body.find.length <= MAX_FIND_REGEX_LENGTH, {
+    message: `Regular expressions are limited to ${MAX_FIND_REGEX_LENGTH} characters`,
+    path: ['find'],
+  });
+
+/**
+ * Find & replace apply request body
+ */
+export const findReplaceApplySchema = z.object({
+  changes: z
+    .array(
+      z.object({
+        transactionId: z.string().min(1),
+        journalId: z.string().min(1),
+        field: findReplaceField,
+        newValue: z.string().max(65535),
+      })
+    )
+    .min(1, 'At least one change is required')
+    .max(1000, 'Maximum 1000 changes per request'),
+  dryRun,
 });
 
 // =============================================================================
@@ -463,6 +892,161 @@ export const createSubscriptionSchema = z.object({
   createRule: z.boolean().optional(),
 });
 
+// =============================================================================
+// Background Job Schemas
+// =============================================================================
+
+/**
+ * Start background job request body (params match the corresponding stream endpoint)
+ */
+export const jobCreateSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('duplicates'), params: duplicateFindSchema.default({}) }),
+  z.object({ kind: z.literal('subscriptions'), params: subscriptionFindSchema.default({}) }),
+  z.object({ kind: z.literal('categorySuggestions'), params: suggestionRequestSchema.default({}) }),
+  z.object({ kind: z.literal('tagSuggestions'), params: suggestionRequestSchema.default({}) }),
+]);
+
+// =============================================================================
+// Schedule Schemas
+// =============================================================================
+
+/**
+ * Cron expression that croner can schedule (5 or 6 fields, e.g. "0 3 * * *")
+ */
+const cronExpressionSchema = z
+  .string()
+  .trim()
+  .min(1, 'Cron expression is required')
+  .max(100)
+  .refine((value) => {
+    try {
+      new Cron(value, { paused: true }).stop();
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid cron expression');
+
+const scheduleToolSchema = z.enum([
+  'duplicates',
+  'subscriptions',
+  'categorySuggestions',
+  'tagSuggestions',
+]);
+
+const scheduleOptionsSchema = z.object({
+  lookbackDays: z.number().int().min(1).max(3650),
+  maxTransactions: z.number().int().min(1).max(1000),
+  autoApply: z.boolean(),
+  autoApplyMinConfidence: z.number().min(0).max(1),
+});
+
+/**
+ * Create schedule request body
+ */
+export const scheduleCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  cron: cronExpressionSchema,
+  tool: scheduleToolSchema,
+  options: scheduleOptionsSchema
+    .partial()
+    .default({})
+    .transform((options) => ({
+      lookbackDays: options.lookbackDays ?? 7,
+      maxTransactions: options.maxTransactions ?? 50,
+      autoApply: options.autoApply ?? false,
+      autoApplyMinConfidence: options.autoApplyMinConfidence ?? 0.9,
+    })),
+  enabled: z.boolean().default(true),
+});
+
+/**
+ * Update schedule request body (options are merged into the current ones)
+ */
+export const scheduleUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+    cron: cronExpressionSchema.optional(),
+    tool: scheduleToolSchema.optional(),
+    options: scheduleOptionsSchema.partial().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: 'At least one field is required',
+  });
+
+// =============================================================================
+// Audit Log Schemas
+// =============================================================================
+
+/**
+ * Audit log query parameters (all values arrive as strings)
+ */
+export const auditQuerySchema = z.object({
+  tool: z
+    .enum([
+      'duplicates',
+      'subscriptions',
+      'suggestions',
+      'amazon',
+      'paypal',
+      'transactions',
+      'converter',
+      'fints',
+      'scheduler',
+      'webhook',
+      'cli',
+      'findReplace',
+      'transferPairs',
+      'undo',
+    ])
+    .optional(),
+  transactionId: z.string().trim().min(1).optional(),
+  operationId: z.string().trim().min(1).optional(),
+  start: optionalDateString,
+  end: optionalDateString,
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().max(200).optional(),
+});
+
+// =============================================================================
+// Firefly III Connection Profile Schemas
+// =============================================================================
+
+/**
+ * Schema for selecting the connection profile of the session
+ */
+export const fireflyProfileSelectSchema = z.object({
+  profileId: z.string().min(1, 'Profile ID is required').max(100),
+});
+
+// =============================================================================
+// Transaction Mirror Schemas
+// =============================================================================
+
+/**
+ * Schema for syncing the transaction mirror (full = download all transactions again)
+ */
+export const transactionMirrorSyncSchema = z.object({
+  full: z.boolean().optional().default(false),
+});
+
+// =============================================================================
+// Webhook Schemas
+// =============================================================================
+
+/**
+ * Firefly III webhook message (only the fields the receiver uses). The webhook
+ * must respond with transaction details, so the content is a transaction group.
+ */
+export const fireflyWebhookSchema = z.object({
+  uuid: z.string().min(1).max(100),
+  trigger: z.string().min(1).max(100),
+  content: z.object({
+    id: z.union([z.number().int().positive(), z.string().regex(/^\d+$/)]).transform(String),
+  }),
+});
+
 // =============================================================================
 // Validation Middleware Factory
 // =============================================================================
@@ -476,10 +1060,11 @@ export interface ValidationError {
 }
 
 /**
- * Create Express middleware to validate request body against a Zod schema
+ * Create Express middleware to validate request body against a Zod schema.
+ * The schema is kept on the middleware (`bodySchema`) for the API description.
  */
 export function validateBody<T extends z.ZodTypeAny>(schema: T) {
-  return (req: Request, res: Response, next: NextFunction): void => {
+  const middleware = (req: Request, res: Response, next: NextFunction): void => {
     const result = schema.safeParse(req.body);
 
     if (!result.success) {
@@ -503,6 +1088,7 @@ export function validateBody<T extends z.ZodTypeAny>(schema: T) {
     req.body = result.data;
     next();
   };
+  return Object.assign(middleware, { bodySchema: schema });
 }
 
 // =============================================================================
@@ -514,6 +1100,9 @@ export type DateRangeBody = z.infer<typeof dateRangeSchema>;
 export type CountTransactionsBody = z.infer<typeof countTransactionsSchema>;
 
 export type ConverterImportBody = z.infer<typeof converterImportSchema>;
+export type ConverterProfileCreateBody = z.infer<typeof converterProfileCreateSchema>;
+export type ConverterProfileUpdateBody = z.infer<typeof converterProfileUpdateSchema>;
+export type ConverterProfileDuplicateBody = z.infer<typeof converterProfileDuplicateSchema>;
 export type AmazonMatchBody = z.infer<typeof amazonMatchSchema>;
 export type AmazonApplyBody = z.infer<typeof amazonApplySchema>;
 export type PayPalUploadCsvBody = z.infer<typeof paypalUploadCsvSchema>;
@@ -529,9 +1118,36 @@ export type TransactionUpdateBody = z.infer<typeof transactionUpdateSchema>;
 // Duplicate types
 export type DuplicateFindBody = z.infer<typeof duplicateFindSchema>;
 export type BulkDeleteBody = z.infer<typeof bulkDeleteSchema>;
+export type DuplicateMergeBody = z.infer<typeof duplicateMergeSchema>;
+export type DuplicateDismissBody = z.infer<typeof duplicateDismissSchema>;
+// Transfer pair types
+export type TransferPairFindBody = z.infer<typeof transferPairFindSchema>;
+export type TransferConvertBody = z.infer<typeof transferConvertSchema>;
 // Suggestion types
 export type SuggestionRequestBody = z.infer<typeof suggestionRequestSchema>;
 export type ApplySuggestionsBody = z.infer<typeof applySuggestionsSchema>;
+export type ProposeRulesBody = z.infer<typeof proposeRulesSchema>;
+export type CreateRulesBody = z.infer<typeof createRulesSchema>;
+// Find & replace types
+export type FindReplaceSearchBody = z.infer<typeof findReplaceSearchSchema>;
+export type FindReplaceApplyBody = z.infer<typeof findReplaceApplySchema>;
 // Subscription types
 export type SubscriptionFindBody = z.infer<typeof subscriptionFindSchema>;
 export type CreateSubscriptionBody = z.infer<typeof createSubscriptionSchema>;
+// Job types
+export type JobCreateBody = z.infer<typeof jobCreateSchema>;
+// Schedule types
+export type ScheduleCreateBody = z.infer<typeof scheduleCreateSchema>;
+export type ScheduleUpdateBody = z.infer<typeof scheduleUpdateSchema>;
+
+// Audit log types
+export type AuditQueryParams = z.infer<typeof auditQuerySchema>;
+
+// Connection profile types
+export type FireflyProfileSelectBody = z.infer<typeof fireflyProfileSelectSchema>;
+
+// Transaction mirror types
+export type TransactionMirrorSyncBody = z.infer<typeof transactionMirrorSyncSchema>;
+
+// Webhook types
+export type FireflyWebhookMessage = z.infer<typeof fireflyWebhookSchema>;
@@ -21,12 +21,115 @@ export interface DuplicateGroup {
   confidenceBreakdown?: DuplicateConfidenceBreakdown;
 }
 
+/** Built-in duplicate scoring profiles */
+export type DuplicatePreset = 'strictImportRerun' | 'crossSource' | 'loose';
+
+/** Share of the duplicate score each criterion adds on a full match (0-1) */
+export interface DuplicateScoreWeights {
+  date: number;
+  amount: number;
+  description: number;
+  sourceAccount: number;
+  destinationAccount: number;
+  /** Added for a shared external ID and for a shared import hash */
+  reference: number;
+}
+
 export interface DuplicateFinderOptions {
+  preset?: DuplicatePreset; // start from a built-in profile, other options override it
   dateRange?: number; // days to consider for date matching
-  amountTolerance?: number; // percentage tolerance for amount matching
+  amountTolerance?: number; // percent the amounts may differ by (0 = exact)
+  descriptionThreshold?: number; // description similarity (0-1) a match must exceed
+  requiredMatches?: number; // matching criteria (date, amount, description, accounts, ...) needed
+  minScore?: number; // minimum score (0-1) of a duplicate
+  weights?: Partial<DuplicateScoreWeights>;
   includeDescriptionMatch?: boolean;
   includeSourceMatch?: boolean;
   includeDestinationMatch?: boolean;
+  sameAccountOnly?: boolean; // only compare transactions booked on the same own account
+  includeDismissed?: boolean; // also report pairs dismissed as "not a duplicate"
+}
+
+/** Fields a merge of duplicates takes over from the deleted transactions */
+export type DuplicateMergeField = 'notes' | 'tags' | 'category' | 'budget' | 'external_id' | 'sepa';
+
+export interface DuplicateMergeRequest {
+  /** Transaction that is kept and updated */
+  survivorId: string;
+  /** Transactions deleted after the survivor was updated */
+  duplicateIds: string[];
+  /**
+   * Per field, the ID of the transaction whose value is kept, or 'combine' to
+   * combine the values of all transactions. Fields not listed keep the
+   * survivor's value.
+   */
+  fields: Partial<Record<DuplicateMergeField, string>>;
+}
+
+export interface DuplicateMergeResult {
+  survivorId: string;
+  /** Fields of the survivor that changed */
+  updatedFields: DuplicateMergeField[];
+  /** IDs of the deleted duplicates */
+  deleted: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+/** Transaction of a dismissed duplicate, as it was when it was dismissed */
+export interface DismissedTransaction {
+  id: string;
+  date: string;
+  description: string;
+  amount: string;
+  currencyCode: string;
+}
+
+/**
+ * Transactions the user marked as "not a duplicate" of each other. No pair of
+ * them is reported as duplicates again.
+ */
+export interface DuplicateDismissal {
+  /** Sorted transaction IDs joined with commas */
+  id: string;
+  transactions: DismissedTransaction[];
+  dismissedAt: string;
+}
+
+// Transfer Pair Types
+/**
+ * Transfer between two own asset accounts that was recorded as a withdrawal
+ * from one and a deposit into the other
+ */
+export interface TransferPair {
+  id: string;
+  withdrawal: FireflyTransaction;
+  deposit: FireflyTransaction;
+  /** Asset account the withdrawal is booked on (source of the transfer) */
+  sourceAccount: { id: string; name: string };
+  /** Asset account the deposit is booked on (destination of the transfer) */
+  destinationAccount: { id: string; name: string };
+  /** Days between the two bookings */
+  dayDifference: number;
+  /** Whether both counterparties name the other account (otherwise only one does) */
+  matchedBothSides: boolean;
+}
+
+export interface TransferPairOptions {
+  dateRange?: number; // max days between withdrawal and deposit
+}
+
+/** Pair selected for replacing with a transfer */
+export interface TransferConversion {
+  withdrawalId: string;
+  depositId: string;
+}
+
+export interface TransferConversionResult {
+  /** IDs of the created transfers */
+  created: string[];
+  failed: Array<TransferConversion & { error: string }>;
+  /** Pairs whose transfer was created but whose withdrawal or deposit is still there */
+  partial: Array<TransferConversion & { transferId: string; error: string }>;
 }
 
 // Subscription Finder Types (finds patterns to create Firefly subscriptions)
@@ -98,6 +201,53 @@ export interface AISuggestionOptions {
   minConfidence?: number;
 }
 
+/** Applied suggestion, used to propose Firefly III rules */
+export interface AcceptedSuggestion {
+  transaction: {
+    description: string;
+    type: string;
+    source_name?: string | null;
+    destination_name?: string | null;
+  };
+  /** Category set by the suggestion */
+  categoryName?: string;
+  /** Tags added by the suggestion */
+  tags?: string[];
+}
+
+export type RuleProposalTriggerType =
+  | 'description_contains'
+  | 'description_starts'
+  | 'destination_account_is'
+  | 'destination_account_contains'
+  | 'source_account_is'
+  | 'source_account_contains';
+
+export type RuleProposalActionType = 'set_category' | 'add_tag';
+
+/** Firefly III rule proposed from a group of similar applied suggestions */
+export interface RuleProposal {
+  title: string;
+  /** All triggers must match */
+  triggers: Array<{ type: RuleProposalTriggerType; value: string }>;
+  actions: Array<{ type: RuleProposalActionType; value: string }>;
+  /** Number of applied suggestions the rule covers */
+  matchCount: number;
+  /** Descriptions of some of these transactions */
+  examples: string[];
+}
+
+export interface RuleProposalResult {
+  /** Rule group the rules are created in */
+  ruleGroupTitle: string;
+  proposals: RuleProposal[];
+}
+
+export interface RuleCreationResult {
+  created: Array<{ title: string; ruleId: string }>;
+  failed: Array<{ title: string; error: string }>;
+}
+
 // Amazon Order Types (from Amazon Order History Exporter)
 export interface AmazonOrderPromotion {
   description: string;
@@ -294,6 +444,8 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   message?: string;
+  /** Correlation ID of the failed request, to find the matching server log lines */
+  requestId?: string;
   /** Field-level validation errors, present when success=false due to invalid input */
   validationErrors?: ValidationError[];
 }
@@ -306,6 +458,415 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+// Background Job Types
+export type JobKind = 'duplicates' | 'subscriptions' | 'categorySuggestions' | 'tagSuggestions';
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobInfo {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  createdAt: string;
+  /** When the job completed, failed or was cancelled */
+  finishedAt: string | null;
+  /** Latest progress update */
+  progress: { current: number; total: number; message?: string } | null;
+  /** Number of buffered result/suggestion events */
+  resultCount: number;
+  /** Number of per-item error events */
+  errorCount: number;
+  /** Error message if the job failed */
+  error: string | null;
+}
+
+/**
+ * Buffered job output for fetching results after the job finished
+ */
+export interface JobResults<T = unknown> {
+  job: JobInfo;
+  results: T[];
+  errors: unknown[];
+}
+
+// Scheduled Automation Types
+/** Tools that can run on a schedule (same analyses as background jobs) */
+export type ScheduleTool = JobKind;
+
+export interface ScheduleOptions {
+  /** Number of days before the run to analyze */
+  lookbackDays: number;
+  /** Maximum number of transactions sent to AI per run (AI tools only) */
+  maxTransactions: number;
+  /** Apply AI suggestions automatically (AI tools only) */
+  autoApply: boolean;
+  /** Minimum confidence for automatically applied suggestions */
+  autoApplyMinConfidence: number;
+}
+
+export interface Schedule {
+  id: string;
+  name: string;
+  /** Cron expression (minute hour day-of-month month day-of-week) */
+  cron: string;
+  tool: ScheduleTool;
+  options: ScheduleOptions;
+  enabled: boolean;
+  /** Firefly III connection profile the schedule runs on (missing = default profile) */
+  profileId?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+  /** Next planned run (null when disabled or the scheduler is off) */
+  nextRunAt: string | null;
+}
+
+export type ScheduleRunStatus = 'running' | 'completed' | 'failed';
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  scheduleName: string;
+  tool: ScheduleTool;
+  /** Firefly III connection profile the run used (missing for runs before profiles) */
+  profileId?: string;
+  /** Whether the run was started by the scheduler or manually */
+  trigger: 'schedule' | 'manual';
+  status: ScheduleRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  /** Number of suggestions, patterns or duplicate groups found */
+  resultCount: number;
+  /** Number of transactions updated by auto-apply */
+  appliedCount: number;
+  /** Number of failed auto-apply updates */
+  failedCount: number;
+  /** Findings not reported by earlier runs of the schedule (e.g., new subscription patterns) */
+  newFindings: string[];
+  error: string | null;
+}
+
+// Webhook Types
+/** Action run on transactions reported by Firefly III webhooks, in the order they run */
+export type WebhookAction = 'amazon' | 'paypal' | 'categories' | 'tags' | 'duplicates';
+
+/**
+ * Outcome of a webhook action
+ * - applied: the transaction was updated (auto-apply)
+ * - suggested: found a suggestion, match or duplicate that was not applied
+ * - none: found nothing
+ * - skipped: not applicable (e.g., AI not configured, nothing uploaded, already processed)
+ * - failed: the action failed
+ */
+export type WebhookActionStatus = 'applied' | 'suggested' | 'none' | 'skipped' | 'failed';
+
+export interface WebhookActionResult {
+  action: WebhookAction;
+  status: WebhookActionStatus;
+  /** Human-readable description of the outcome */
+  message: string;
+  /** Confidence of the suggestion or match, if any */
+  confidence: number | null;
+}
+
+export type WebhookDeliveryStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  /** UUID of the Firefly III webhook message (repeated deliveries are ignored) */
+  messageId: string;
+  /** Firefly III connection profile that sent the webhook */
+  profileId: string;
+  trigger: string;
+  /** Firefly III transaction group ID */
+  transactionId: string;
+  /** Description of the transaction when it was processed */
+  description: string | null;
+  status: WebhookDeliveryStatus;
+  receivedAt: string;
+  finishedAt: string | null;
+  results: WebhookActionResult[];
+  error: string | null;
+}
+
+export interface WebhookSettings {
+  /** Whether a webhook secret is configured for the active connection profile */
+  enabled: boolean;
+  /** URL to enter in Firefly III */
+  url: string;
+  actions: WebhookAction[];
+  autoApply: boolean;
+  autoApplyMinConfidence: number;
+}
+
+export interface WebhookOverview {
+  settings: WebhookSettings;
+  /** Recent deliveries of the active connection profile, newest first */
+  deliveries: WebhookDelivery[];
+}
+
+// Rule Simulator Types
+export interface RuleSimulationRule {
+  id: string;
+  title: string;
+  ruleGroupId: string;
+  ruleGroupTitle: string;
+  /** Whether the rule and its group are active (inactive rules are not evaluated) */
+  active: boolean;
+  /** Whether all triggers must match (otherwise any) */
+  strict: boolean;
+  /** Whether later rules of the group are skipped for matched transactions */
+  stopProcessing: boolean;
+  /** Whether the rule's group skips later rule groups for matched transactions */
+  groupStopProcessing: boolean;
+  triggers: Array<{
+    type: string;
+    value: string;
+    prohibited: boolean;
+    /** Whether the simulator can evaluate the trigger */
+    supported: boolean;
+  }>;
+  actions: Array<{
+    type: string;
+    value: string;
+    /** Whether the simulator applies the action before evaluating later rules */
+    supported: boolean;
+  }>;
+  /** Journal IDs of the splits the rule would run for */
+  matchedJournalIds: string[];
+  /** Journal IDs of splits the triggers match, but an earlier rule or rule group stops processing */
+  skippedJournalIds: string[];
+}
+
+/** Transaction several rules would run for */
+export interface RuleSimulationOverlap {
+  journalId: string;
+  /** Matching rules in execution order */
+  ruleIds: string[];
+  /** Fields set to different values by more than one rule (the last rule wins) */
+  conflicts: Array<{
+    field: string;
+    values: Array<{ ruleId: string; value: string }>;
+  }>;
+}
+
+export interface RuleSimulationResult {
+  rules: RuleSimulationRule[];
+  /** Splits matched by at least one rule, keyed by journal ID */
+  transactions: Record<string, { transactionId: string; split: FireflyTransactionSplit }>;
+  overlaps: RuleSimulationOverlap[];
+  /** Number of transactions evaluated */
+  transactionCount: number;
+}
+
+// Find & Replace Types
+/** Transaction field searched; the counterparty is the destination of withdrawals and the source of deposits */
+export type FindReplaceField = 'description' | 'notes' | 'counterparty';
+
+export type FindReplaceMode = 'literal' | 'regex';
+
+export interface FindReplaceOptions {
+  field: FindReplaceField;
+  find: string;
+  /** Replacement text; in regex mode $1, $2 or $<name> insert capture groups */
+  replace: string;
+  mode: FindReplaceMode;
+  caseSensitive: boolean;
+}
+
+/** Transaction split whose field value would change */
+export interface FindReplaceMatch {
+  transactionId: string;
+  journalId: string;
+  field: FindReplaceField;
+  oldValue: string;
+  newValue: string;
+  transaction: FireflyTransactionSplit;
+}
+
+/** Replacement selected for applying */
+export interface FindReplaceChange {
+  transactionId: string;
+  journalId: string;
+  field: FindReplaceField;
+  newValue: string;
+}
+
+// Transaction Mirror Types
+export interface TransactionMirrorStatus {
+  /** Whether transactions of the active connection are read from the local copy */
+  enabled: boolean;
+  /** Firefly III connection profile of the local copy */
+  profileId: string;
+  /** Number of transactions in the local copy */
+  transactionCount: number;
+  /** Start of the last successful sync (null = never synced) */
+  lastSyncAt: string | null;
+  /** Start of the last successful full download */
+  lastFullSyncAt: string | null;
+  /** Error of the last sync, if it failed */
+  lastError: string | null;
+  /** Whether a sync is running */
+  syncing: boolean;
+  /** Age after which the next read syncs first (ms) */
+  maxAgeMs: number;
+}
+
+// Audit Log Types
+/** Tool that wrote a change to Firefly III */
+export type AuditTool =
+  | 'duplicates'
+  | 'subscriptions'
+  | 'suggestions'
+  | 'amazon'
+  | 'paypal'
+  | 'transactions'
+  | 'converter'
+  | 'fints'
+  | 'scheduler'
+  | 'webhook'
+  | 'cli'
+  | 'findReplace'
+  | 'transferPairs'
+  | 'undo';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditResource = 'transaction' | 'subscription' | 'rule' | 'ruleGroup';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  /** Username of the signed-in user (null without authentication or for scheduled runs) */
+  user: string | null;
+  /**
+   * Firefly III account the change was written with: the signed-in user's own
+   * account (Firefly III OAuth), null (or missing) for the configured token
+   */
+  account?: string | null;
+  /** Firefly III connection profile the change was made in (missing = default profile) */
+  profileId?: string;
+  tool: AuditTool | null;
+  action: AuditAction;
+  resource: AuditResource;
+  /** Firefly III ID of the transaction group, subscription, rule or rule group */
+  resourceId: string;
+  /** Transaction journal (split) ID for transaction changes */
+  journalId: string | null;
+  /** Revertible bulk operation the change belongs to */
+  operationId: string | null;
+  /** Short human-readable description */
+  summary: string;
+  /** Transaction split or object attributes before the change (null for creations) */
+  before: Record<string, unknown> | null;
+  /** Transaction split or object attributes after the change (null for deletions) */
+  after: Record<string, unknown> | null;
+}
+
+export interface AuditQuery {
+  tool?: AuditTool;
+  /** Transaction group or journal ID */
+  transactionId?: string;
+  /** Bulk operation ID */
+  operationId?: string;
+  /** Start date (YYYY-MM-DD, inclusive) */
+  start?: string;
+  /** End date (YYYY-MM-DD, inclusive) */
+  end?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+// Bulk Operation Types
+/** Bulk apply that can be reverted as a whole */
+export type BulkOperationKind =
+  | 'amazonDescriptions'
+  | 'paypalDescriptions'
+  | 'categories'
+  | 'tags'
+  | 'duplicateDelete'
+  | 'duplicateMerge'
+  | 'findReplace'
+  | 'transferPairs';
+
+export type BulkOperationStatus = 'applied' | 'reverted' | 'partiallyReverted';
+
+export interface BulkOperation {
+  id: string;
+  kind: BulkOperationKind;
+  tool: AuditTool | null;
+  user: string | null;
+  /** Firefly III account the changes were made with (see AuditEntry.account) */
+  account?: string | null;
+  createdAt: string;
+  /** Firefly III connection profile the changes were made in */
+  profileId?: string;
+  /** Number of audited changes (transaction splits) made by the operation */
+  changeCount: number;
+  status: BulkOperationStatus;
+  revertedAt: string | null;
+  /** Audit entries already reverted (skipped when retrying a partial revert) */
+  revertedEntryIds: string[];
+}
+
+export interface OperationRevertResult {
+  operation: BulkOperation;
+  /** Number of transactions restored or re-created */
+  reverted: number;
+  failed: Array<{
+    transactionId: string;
+    error: string;
+  }>;
+}
+
+// Dry Run Types
+/** Split field value shown in a dry run diff (tags as a list, empty values as null) */
+export type DryRunValue = string | string[] | null;
+
+export interface DryRunFieldChange {
+  /** Firefly III split field, e.g. "description" or "category_name" */
+  field: string;
+  oldValue: DryRunValue;
+  newValue: DryRunValue;
+}
+
+/** Change a write endpoint would make to one transaction split */
+export interface DryRunChange {
+  action: AuditAction;
+  /** Existing transaction (null for transactions that would be created) */
+  transactionId: string | null;
+  journalId: string | null;
+  description: string;
+  date: string;
+  amount: string;
+  /** Changed fields of updates, values of creations (empty for deletions) */
+  fields: DryRunFieldChange[];
+}
+
+/** Added to the result of write endpoints called with dryRun: true */
+export interface DryRunResult {
+  dryRun: true;
+  changes: DryRunChange[];
+}
+
+// Firefly III Connection Profile Types
+export interface FireflyProfileInfo {
+  id: string;
+  name: string;
+  apiUrl: string;
+  numberFormat: {
+    locale: string;
+    decimalSeparator: string;
+    thousandsSeparator: string;
+  };
+}
+
+export interface FireflyProfileList {
+  profiles: FireflyProfileInfo[];
+  /** Profile used by the current session */
+  activeProfileId: string;
+}
+
 // Tool Status Types
 export interface ToolStatus {
   name: string;
@@ -339,8 +900,12 @@ export interface BulkUpdateResult {
   successful: string[];
   failed: Array<{
     transactionId: string;
+    /** Split that failed, when updating single splits of a transaction */
+    journalId?: string;
     error: string;
   }>;
+  /** Revertible operation recording the changes (null when nothing was changed) */
+  operationId?: string | null;
 }
 
 // Subscription Creation (creates a Firefly subscription/bill)
@@ -438,6 +438,32 @@ export interface ConverterConfig {
   swimlanes: SwimlaneConfig[];
 }
 
+/**
+ * Named converter configuration stored on the server and shared by all users
+ */
+export interface ConverterProfile {
+  id: string;
+  name: string;
+  config: ConverterConfig;
+  createdAt: string;
+  updatedAt: string;
+  /** When the profile was last loaded into the converter (null if never) */
+  lastUsedAt: string | null;
+}
+
+/**
+ * Profile list entry (without the full configuration)
+ */
+export interface ConverterProfileSummary {
+  id: string;
+  name: string;
+  description: string;
+  swimlaneCount: number;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt: string | null;
+}
+
 /**
  * Parsed CSV data from uploaded file
  */
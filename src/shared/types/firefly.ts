@@ -110,6 +110,20 @@ export interface FireflyTransactionSplit {
   has_attachments: boolean;
 }
 
+/** SEPA fields of a split, as stored by bank imports */
+export const SEPA_FIELDS = [
+  'sepa_cc',
+  'sepa_ct_op',
+  'sepa_ct_id',
+  'sepa_db',
+  'sepa_country',
+  'sepa_ep',
+  'sepa_ci',
+  'sepa_batch_id',
+] as const;
+
+export type FireflySepaField = (typeof SEPA_FIELDS)[number];
+
 export interface FireflyCategory {
   id: string;
   type: string;
@@ -264,6 +278,8 @@ export interface FireflyRuleGroup {
     description: string | null;
     order: number;
     active: boolean;
+    /** Skip later rule groups for transactions a rule of this group ran for */
+    stop_processing?: boolean;
   };
 }
 
@@ -273,6 +289,8 @@ export interface FireflyRuleTrigger {
   value: string;
   order: number;
   active: boolean;
+  /** Negated trigger: matches when the condition does not hold */
+  prohibited?: boolean;
   stop_processing: boolean;
 }
 
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportTransformedCSV,
+  hasCustomScripts,
+  parseCSVContent,
+  parseCSVLine,
+  transformCSV,
+  validateTransformedCSV,
+} from './converter';
+import { createDefaultConfig, type ConverterConfig, type TransformBlock } from '../types/converter';
+
+const CSV_OPTIONS = { delimiter: ';', quoteChar: '"', hasHeader: true, skipRows: 0 };
+
+const BANK_EXPORT = [
+  'Booking date;Amount;Purpose;Payee',
+  '01.03.2025;-12,50;"Coffee; Shop";Cafe',
+  '02.03.2025;1.250,00;Salary;ACME',
+  '03.03.2025;0,00;Fee reversal;Bank',
+].join('\n');
+
+function lane(
+  targetColumn: ConverterConfig['swimlanes'][0]['targetColumn'],
+  blocks: TransformBlock[]
+) {
+  return { id: targetColumn, targetColumn, enabled: true, blocks };
+}
+
+function column(sourceColumn: string): TransformBlock {
+  return { id: `c-${sourceColumn}`, type: 'column', sourceColumn };
+}
+
+function createConfig(): ConverterConfig {
+  return {
+    ...createDefaultConfig(),
+    csvOptions: { ...CSV_OPTIONS, encoding: 'utf-8' },
+    swimlanes: [
+      lane('type', [
+        column('Amount'),
+        {
+          id: 'type',
+          type: 'conditional',
+          condition: { column: '', operator: 'startsWith', value: '-', useCurrentValue: true },
+          thenBlocks: [{ id: 'w', type: 'static', value: 'withdrawal' }],
+          elseBlocks: [{ id: 'd', type: 'static', value: 'deposit' }],
+        },
+      ]),
+      lane('date', [
+        column('Booking date'),
+        { id: 'df', type: 'dateFormat', inputFormat: 'DD.MM.YYYY', outputFormat: 'YYYY-MM-DD' },
+      ]),
+      lane('amount', [
+        column('Amount'),
+        {
+          id: 'nf',
+          type: 'numberFormat',
+          inputDecimalSeparator: ',',
+          inputThousandsSeparator: '.',
+          outputDecimalSeparator: '.',
+          outputThousandsSeparator: '',
+          decimals: 2,
+          absolute: true,
+        },
+      ]),
+      lane('description', [column('Purpose')]),
+      lane('source_name', [{ id: 's', type: 'static', value: 'Checking' }]),
+      lane('destination_name', [column('Payee')]),
+    ],
+  } as ConverterConfig;
+}
+
+describe('parseCSVLine', () => {
+  it('should split on the delimiter outside of quotes', () => {
+    expect(parseCSVLine('a;"b;c";"say ""hi""" ', ';')).toEqual(['a', 'b;c', 'say "hi"']);
+  });
+});
+
+describe('parseCSVContent', () => {
+  it('should read headers and rows', () => {
+    const parsed = parseCSVContent(BANK_EXPORT, CSV_OPTIONS);
+
+    expect(parsed.headers).toEqual(['Booking date', 'Amount', 'Purpose', 'Payee']);
+    expect(parsed.rows).toHaveLength(3);
+    expect(parsed.rows[0]).toEqual(['01.03.2025', '-12,50', 'Coffee; Shop', 'Cafe']);
+  });
+
+  it('should skip metadata rows and number columns without a header', () => {
+    const parsed = parseCSVContent('Account 123\r\n\r\n1;2\r\n3;4', {
+      ...CSV_OPTIONS,
+      hasHeader: false,
+      skipRows: 1,
+    });
+
+    expect(parsed.headers).toEqual(['Column 1', 'Column 2']);
+    expect(parsed.rows).toEqual([
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('should reject empty content', () => {
+    expect(() => parseCSVContent('\n\n', CSV_OPTIONS)).toThrow('CSV file is empty');
+  });
+});
+
+describe('transformCSV', () => {
+  it('should run every row through the swimlanes', () => {
+    const transactions = transformCSV(parseCSVContent(BANK_EXPORT, CSV_OPTIONS), createConfig());
+
+    expect(transactions[0]).toEqual({
+      type: 'withdrawal',
+      date: '2025-03-01',
+      amount: '12.50',
+      description: 'Coffee; Shop',
+      source_name: 'Checking',
+      destination_name: 'Cafe',
+    });
+    expect(transactions[1]).toMatchObject({ type: 'deposit', amount: '1250.00' });
+  });
+
+  it('should leave out removed rows', () => {
+    const config = createConfig();
+    config.swimlanes[3].blocks.push({
+      id: 'rm',
+      type: 'removeRow',
+      condition: { column: 'Purpose', operator: 'contains', value: 'Fee' },
+    });
+
+    expect(transformCSV(parseCSVContent(BANK_EXPORT, CSV_OPTIONS), config)).toHaveLength(2);
+  });
+});
+
+describe('validateTransformedCSV', () => {
+  it('should report missing required columns', () => {
+    const config = createConfig();
+    config.swimlanes = config.swimlanes.filter((s) => s.targetColumn !== 'date');
+
+    const validation = validateTransformedCSV(parseCSVContent(BANK_EXPORT, CSV_OPTIONS), config);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors[0]).toMatchObject({ type: 'missing_column', column: 'date' });
+  });
+
+  it('should count rows with invalid values', () => {
+    const validation = validateTransformedCSV(
+      parseCSVContent(BANK_EXPORT, CSV_OPTIONS),
+      createConfig()
+    );
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors.map((e) => e.type)).toEqual(['negative_amount']);
+    expect(validation.summary).toEqual({
+      totalRows: 3,
+      validRows: 2,
+      rowsWithErrors: 1,
+      rowsRemoved: 0,
+    });
+  });
+});
+
+describe('exportTransformedCSV', () => {
+  it('should write the enabled columns with the export options', () => {
+    const config = createConfig();
+    config.exportOptions = {
+      delimiter: ';',
+      quoteChar: '"',
+      quoteMode: 'needed',
+      lineEnding: 'lf',
+    };
+    config.swimlanes = config.swimlanes.slice(1, 4);
+
+    const csv = exportTransformedCSV(parseCSVContent(BANK_EXPORT, CSV_OPTIONS), config);
+
+    expect(csv.split('\n')).toEqual([
+      'date;amount;description',
+      '2025-03-01;12.50;"Coffee; Shop"',
+      '2025-03-02;1250.00;Salary',
+      '2025-03-03;0.00;Fee reversal',
+      '',
+    ]);
+  });
+});
+
+describe('hasCustomScripts', () => {
+  it('should find scripts nested in conditions', () => {
+    const config = createConfig();
+    expect(hasCustomScripts(config)).toBe(false);
+
+    const conditional = config.swimlanes[0].blocks[1];
+    if (conditional.type === 'conditional') {
+      conditional.elseBlocks.push({ id: 'js', type: 'customScript', script: 'return value;' });
+    }
+    expect(hasCustomScripts(config)).toBe(true);
+  });
+});
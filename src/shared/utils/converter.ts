@@ -0,0 +1,736 @@
+/**
+ * Bank Export Converter Transformation
+ *
+ * Parses bank CSV exports and runs them through the swimlanes of a converter
+ * configuration. Shared by the converter page in the browser and the CLI, so
+ * both produce the same transactions from the same profile.
+ */
+
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat.js';
+import { VALID_TRANSACTION_TYPES } from '../types/converter.js';
+import type {
+  ConverterConfig,
+  FireflyImportColumn,
+  ImportValidation,
+  ParsedCSV,
+  SwimlaneConfig,
+  SwimlaneError,
+  TransformBlock,
+  TransformedTransaction,
+  ValidationIssue,
+} from '../types/converter.js';
+
+// Enable custom date parsing - extend modifies dayjs in place
+dayjs.extend(customParseFormat);
+
+/**
+ * Options for reading a CSV export
+ */
+export type CSVParseOptions = Pick<
+  ConverterConfig['csvOptions'],
+  'delimiter' | 'quoteChar' | 'hasHeader' | 'skipRows'
+>;
+
+/**
+ * Result of transforming a single CSV row
+ */
+export interface TransformedRow {
+  values: Record<string, string>;
+  removeRow: boolean;
+  errors: Record<string, SwimlaneError>;
+}
+
+/**
+ * Parse CSV content into headers and rows
+ * @throws {Error} if the content has no rows
+ */
+export function parseCSVContent(text: string, options: CSVParseOptions): ParsedCSV {
+  let lines = text.split(/\r?\n/).filter((line) => line.trim());
+
+  // Skip initial rows (bank metadata, etc.)
+  if (options.skipRows > 0) {
+    lines = lines.slice(options.skipRows);
+  }
+  if (lines.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const rows = lines.map((line) => parseCSVLine(line, options.delimiter, options.quoteChar));
+
+  if (options.hasHeader) {
+    return { headers: rows[0], rows: rows.slice(1), rawContent: text };
+  }
+
+  // Generate column names: Column 1, Column 2, etc.
+  return {
+    headers: rows[0].map((_, i) => `Column ${i + 1}`),
+    rows,
+    rawContent: text,
+  };
+}
+
+/**
+ * Parse a single CSV line, handling quoted values
+ */
+export function parseCSVLine(line: string, delimiter: string, quoteChar = '"'): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  const quote = quoteChar || '"';
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    const nextChar = line[i + 1];
+
+    if (inQuotes) {
+      if (char === quote && nextChar === quote) {
+        // Escaped quote
+        current += quote;
+        i++;
+      } else if (char === quote) {
+        // End of quoted section
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else {
+      if (char === quote) {
+        // Start of quoted section
+        inQuotes = true;
+      } else if (char === delimiter) {
+        // End of field
+        result.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+  }
+
+  // Add the last field
+  result.push(current.trim());
+
+  return result;
+}
+
+/**
+ * Apply a single block transformation to a value
+ */
+function applyBlock(
+  block: TransformBlock,
+  value: string,
+  row: string[],
+  headers: string[]
+): { value: string; removeRow: boolean; error?: string } {
+  let result = value;
+  let removeRow = false;
+  let error: string | undefined;
+
+  switch (block.type) {
+    case 'column': {
+      const colIndex = headers.indexOf(block.sourceColumn);
+      result = colIndex >= 0 ? row[colIndex] || '' : '';
+      break;
+    }
+
+    case 'static':
+      result = block.value;
+      break;
+
+    case 'truncate':
+      if (result.length > block.maxLength) {
+        result = result.substring(0, block.maxLength);
+        if (block.ellipsis) {
+          result = result.substring(0, Math.max(0, block.maxLength - 3)) + '...';
+        }
+      }
+      break;
+
+    case 'dateFormat': {
+      const dateResult = convertDateFormat(result, block.inputFormat, block.outputFormat);
+      if (dateResult.error) {
+        error = dateResult.error;
+      }
+      result = dateResult.value;
+      break;
+    }
+
+    case 'numberFormat': {
+      // Parse the number from input format
+      let cleanedValue = result.trim();
+
+      // Remove thousands separator if specified
+      if (block.inputThousandsSeparator) {
+        // Escape special regex characters
+        const escapedSep = block.inputThousandsSeparator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        cleanedValue = cleanedValue.replace(new RegExp(escapedSep, 'g'), '');
+      }
+
+      // Replace input decimal separator with dot for parsing
+      if (block.inputDecimalSeparator === ',') {
+        cleanedValue = cleanedValue.replace(',', '.');
+      }
+
+      // Remove any remaining non-numeric characters except dot and minus
+      cleanedValue = cleanedValue.replace(/[^\d.-]/g, '');
+
+      let num = parseFloat(cleanedValue);
+
+      if (block.absolute) {
+        num = Math.abs(num);
+      }
+
+      if (!isNaN(num)) {
+        // Format with specified decimal places
+        result = num.toFixed(block.decimals);
+
+        // Apply output thousands separator if specified
+        if (block.outputThousandsSeparator) {
+          const parts = result.split('.');
+          parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, block.outputThousandsSeparator);
+          result = parts.join('.');
+        }
+
+        // Apply output decimal separator
+        if (block.outputDecimalSeparator === ',') {
+          result = result.replace('.', ',');
+        }
+      } else if (result.trim()) {
+        error = `Cannot parse "${result}" as a number`;
+      }
+      break;
+    }
+
+    case 'conditional': {
+      let condValue: string;
+      if (block.condition.useCurrentValue) {
+        condValue = result;
+      } else {
+        const condCol = headers.indexOf(block.condition.column);
+        condValue = condCol >= 0 ? row[condCol] || '' : '';
+      }
+      const matches = evaluateCondition(condValue, block.condition.operator, block.condition.value);
+      const blocksToExecute = matches ? block.thenBlocks : block.elseBlocks;
+
+      // Execute nested blocks if any
+      if (blocksToExecute.length > 0) {
+        for (const nestedBlock of blocksToExecute) {
+          const nestedResult = applyBlock(nestedBlock, result, row, headers);
+          result = nestedResult.value;
+          if (nestedResult.removeRow) {
+            removeRow = true;
+          }
+          if (nestedResult.error && !error) {
+            error = nestedResult.error;
+          }
+        }
+      }
+      // If no blocks defined, keep current value
+      break;
+    }
+
+    case 'switchCase': {
+      let switchValue: string;
+      if (block.useCurrentValue) {
+        switchValue = result;
+      } else {
+        const switchCol = headers.indexOf(block.column);
+        switchValue = switchCol >= 0 ? row[switchCol] || '' : '';
+      }
+      let blocksToExecute: TransformBlock[] = block.defaultBlocks;
+      for (const caseItem of block.cases) {
+        if (evaluateCondition(switchValue, caseItem.operator, caseItem.value)) {
+          blocksToExecute = caseItem.blocks;
+          break;
+        }
+      }
+
+      // Execute nested blocks if any
+      if (blocksToExecute.length > 0) {
+        for (const nestedBlock of blocksToExecute) {
+          const nestedResult = applyBlock(nestedBlock, result, row, headers);
+          result = nestedResult.value;
+          if (nestedResult.removeRow) {
+            removeRow = true;
+          }
+          if (nestedResult.error && !error) {
+            error = nestedResult.error;
+          }
+        }
+      }
+      // If no blocks defined, keep current value
+      break;
+    }
+
+    case 'removeRow': {
+      const removeCol = headers.indexOf(block.condition.column);
+      const removeValue = removeCol >= 0 ? row[removeCol] || '' : '';
+      removeRow = evaluateCondition(removeValue, block.condition.operator, block.condition.value);
+      break;
+    }
+
+    case 'prefix':
+      result = block.prefix + result;
+      break;
+
+    case 'suffix':
+      result = result + block.suffix;
+      break;
+
+    case 'replace': {
+      if (block.useRegex) {
+        try {
+          const flags = block.caseInsensitive ? 'gi' : 'g';
+          const regex = new RegExp(block.find, flags);
+          result = result.replace(regex, block.replace);
+        } catch (e) {
+          error = `Invalid regex: ${e instanceof Error ? e.message : 'Unknown error'}`;
+        }
+      } else {
+        if (block.caseInsensitive) {
+          const regex = new RegExp(escapeRegex(block.find), 'gi');
+          result = result.replace(regex, block.replace);
+        } else {
+          result = result.split(block.find).join(block.replace);
+        }
+      }
+      break;
+    }
+
+    case 'customScript': {
+      try {
+        // Create a safe function from the script
+        const fn = new Function('value', 'row', 'columns', block.script);
+        const scriptResult = fn(result, row, headers);
+        result = String(scriptResult ?? '');
+      } catch (e) {
+        error = `Script error: ${e instanceof Error ? e.message : 'Unknown error'}`;
+      }
+      break;
+    }
+  }
+
+  return { value: result, removeRow, error };
+}
+
+/**
+ * Evaluate a condition
+ */
+function evaluateCondition(value: string, operator: string, compareValue: string): boolean {
+  switch (operator) {
+    case 'equals':
+      return value === compareValue;
+    case 'contains':
+      return value.includes(compareValue);
+    case 'startsWith':
+      return value.startsWith(compareValue);
+    case 'endsWith':
+      return value.endsWith(compareValue);
+    case 'greaterThan':
+      return parseFloat(value) > parseFloat(compareValue);
+    case 'lessThan':
+      return parseFloat(value) < parseFloat(compareValue);
+    case 'isEmpty':
+      return !value || value.trim() === '';
+    case 'isNotEmpty':
+      return !!value && value.trim() !== '';
+    case 'matches':
+      try {
+        return new RegExp(compareValue).test(value);
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Convert date format using dayjs
+ * Supports standard format tokens: YYYY, YY, MM, DD, HH, mm, ss, etc.
+ * See: https://day.js.org/docs/en/parse/string-format
+ */
+function convertDateFormat(
+  value: string,
+  inputFormat: string,
+  outputFormat: string
+): { value: string; error?: string } {
+  if (!value) return { value: '' };
+
+  const parsed = dayjs(value, inputFormat, true); // strict parsing
+  if (!parsed.isValid()) {
+    // Try non-strict parsing as fallback
+    const looseParsed = dayjs(value, inputFormat);
+    if (looseParsed.isValid()) {
+      return { value: looseParsed.format(outputFormat) };
+    }
+    return {
+      value: value,
+      error: `Date "${value}" does not match format "${inputFormat}"`,
+    };
+  }
+
+  return { value: parsed.format(outputFormat) };
+}
+
+/**
+ * Escape special regex characters
+ */
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Transform a row through all enabled swimlanes
+ */
+export function transformRow(
+  row: string[],
+  headers: string[],
+  swimlanes: SwimlaneConfig[]
+): TransformedRow {
+  const values: Record<string, string> = {};
+  const errors: Record<string, SwimlaneError> = {};
+  let removeRow = false;
+
+  for (const swimlane of swimlanes) {
+    if (!swimlane.enabled) continue;
+
+    let value = '';
+    for (const block of swimlane.blocks) {
+      const result = applyBlock(block, value, row, headers);
+      value = result.value;
+      if (result.removeRow) {
+        removeRow = true;
+      }
+      if (result.error && !errors[swimlane.id]) {
+        errors[swimlane.id] = {
+          swimlaneId: swimlane.id,
+          column: swimlane.targetColumn,
+          message: result.error,
+          blockType: block.type,
+        };
+      }
+    }
+    values[swimlane.targetColumn] = value;
+  }
+
+  return { values, removeRow, errors };
+}
+
+/**
+ * Transform all rows, leaving out removed ones
+ */
+export function transformCSV(parsed: ParsedCSV, config: ConverterConfig): TransformedTransaction[] {
+  const enabledSwimlanes = config.swimlanes.filter((s) => s.enabled);
+  const transactions: TransformedTransaction[] = [];
+
+  for (const row of parsed.rows) {
+    const { values, removeRow } = transformRow(row, parsed.headers, enabledSwimlanes);
+    if (!removeRow) {
+      transactions.push(values);
+    }
+  }
+
+  return transactions;
+}
+
+/**
+ * Validate the transformed rows for a Firefly III import
+ */
+export function validateTransformedCSV(
+  parsed: ParsedCSV | null,
+  config: ConverterConfig
+): ImportValidation {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+
+  // Get current configuration's enabled columns
+  const enabledColumns = config.swimlanes.filter((s) => s.enabled).map((s) => s.targetColumn);
+
+  // Check for required columns
+  const requiredColumns: FireflyImportColumn[] = ['type', 'date', 'amount', 'description'];
+  for (const col of requiredColumns) {
+    if (!enabledColumns.includes(col)) {
+      errors.push({
+        type: 'missing_column',
+        message: `Missing required column: ${col}`,
+        column: col,
+      });
+    }
+  }
+
+  // Must have source_name or destination_name (or both)
+  const hasSourceName = enabledColumns.includes('source_name');
+  const hasDestinationName = enabledColumns.includes('destination_name');
+  if (!hasSourceName && !hasDestinationName) {
+    errors.push({
+      type: 'missing_account',
+      message: 'Must have either Source Account or Destination Account column',
+    });
+  }
+
+  // If there are structural errors, return early
+  if (errors.length > 0) {
+    return {
+      valid: false,
+      errors,
+      warnings,
+      summary: {
+        totalRows: parsed?.rows.length || 0,
+        validRows: 0,
+        rowsWithErrors: 0,
+        rowsRemoved: 0,
+      },
+    };
+  }
+
+  // Now validate actual data
+  const transactions = parsed ? transformCSV(parsed, config) : [];
+  let validRows = 0;
+  let rowsWithErrors = 0;
+  const rowsRemoved = (parsed?.rows.length || 0) - transactions.length;
+
+  // Track error types for summary
+  const invalidTypes: number[] = [];
+  const invalidDates: number[] = [];
+  const invalidOptionalDates: number[] = [];
+  const invalidAmounts: number[] = [];
+  const commaAmounts: number[] = [];
+  const negativeAmounts: number[] = [];
+  const missingAccounts: number[] = [];
+
+  // Optional date fields that need YYYY-MM-DD format if present
+  const optionalDateFields = [
+    'book_date',
+    'interest_date',
+    'process_date',
+    'due_date',
+    'payment_date',
+    'invoice_date',
+  ] as const;
+
+  for (let i = 0; i < transactions.length; i++) {
+    const tx = transactions[i];
+    const rowNum = i + 1;
+    let rowValid = true;
+
+    // Validate type
+    const txType = tx.type?.toLowerCase().trim();
+    if (
+      !txType ||
+      !VALID_TRANSACTION_TYPES.includes(txType as (typeof VALID_TRANSACTION_TYPES)[number])
+    ) {
+      invalidTypes.push(rowNum);
+      rowValid = false;
+    }
+
+    // Validate date (should be YYYY-MM-DD)
+    const dateValue = tx.date;
+    if (!dateValue || !/^\d{4}-\d{2}-\d{2}$/.test(dateValue)) {
+      invalidDates.push(rowNum);
+      rowValid = false;
+    }
+
+    // Validate amount (should be a valid positive number with dot notation)
+    const amountValue = tx.amount?.trim() || '';
+
+    // Check for comma decimal separator (e.g., "7,58" instead of "7.58")
+    if (amountValue && /^-?\d+,\d+$/.test(amountValue)) {
+      commaAmounts.push(rowNum);
+      rowValid = false;
+    } else {
+      const parsedAmount = parseFloat(amountValue);
+      if (!amountValue || isNaN(parsedAmount)) {
+        invalidAmounts.push(rowNum);
+        rowValid = false;
+      } else if (parsedAmount <= 0) {
+        negativeAmounts.push(rowNum);
+        rowValid = false;
+      }
+    }
+
+    // Validate account based on transaction type
+    if (txType === 'withdrawal' || txType === 'transfer') {
+      // Withdrawal needs source_name
+      if (!tx.source_name?.trim()) {
+        missingAccounts.push(rowNum);
+        rowValid = false;
+      }
+    }
+    if (txType === 'deposit' || txType === 'transfer') {
+      // Deposit needs destination_name
+      if (!tx.destination_name?.trim()) {
+        missingAccounts.push(rowNum);
+        rowValid = false;
+      }
+    }
+
+    // Validate optional date fields (must be YYYY-MM-DD if present)
+    for (const dateField of optionalDateFields) {
+      const dateVal = tx[dateField]?.trim();
+      if (dateVal && !/^\d{4}-\d{2}-\d{2}$/.test(dateVal)) {
+        invalidOptionalDates.push(rowNum);
+        rowValid = false;
+        break; // Only count row once even if multiple date fields are invalid
+      }
+    }
+
+    if (rowValid) {
+      validRows++;
+    } else {
+      rowsWithErrors++;
+    }
+  }
+
+  // Create summary errors
+  if (invalidTypes.length > 0) {
+    errors.push({
+      type: 'invalid_type',
+      message: `${invalidTypes.length} rows have invalid type (must be withdrawal, deposit, or transfer)`,
+      count: invalidTypes.length,
+    });
+  }
+
+  if (invalidDates.length > 0) {
+    errors.push({
+      type: 'invalid_date',
+      message: `${invalidDates.length} rows have invalid date format (must be YYYY-MM-DD)`,
+      count: invalidDates.length,
+    });
+  }
+
+  if (invalidOptionalDates.length > 0) {
+    errors.push({
+      type: 'invalid_date',
+      message: `${invalidOptionalDates.length} rows have invalid optional date format (book_date, interest_date, etc. must be YYYY-MM-DD)`,
+      count: invalidOptionalDates.length,
+    });
+  }
+
+  if (invalidAmounts.length > 0) {
+    errors.push({
+      type: 'invalid_amount',
+      message: `${invalidAmounts.length} rows have invalid amount (must be a number)`,
+      count: invalidAmounts.length,
+    });
+  }
+
+  if (commaAmounts.length > 0) {
+    errors.push({
+      type: 'comma_amount',
+      message: `${commaAmounts.length} rows use comma as decimal separator (e.g., "7,58"). Use a Replace block to convert commas to dots.`,
+      count: commaAmounts.length,
+    });
+  }
+
+  if (negativeAmounts.length > 0) {
+    errors.push({
+      type: 'negative_amount',
+      message: `${negativeAmounts.length} rows have negative or zero amounts (Firefly III requires positive amounts)`,
+      count: negativeAmounts.length,
+    });
+  }
+
+  if (missingAccounts.length > 0) {
+    errors.push({
+      type: 'missing_account',
+      message: `${missingAccounts.length} rows have missing account names`,
+      count: missingAccounts.length,
+    });
+  }
+
+  // Warnings for optional fields with foreign currency
+  const hasForeignAmount = enabledColumns.includes('foreign_amount');
+  const hasForeignCurrency = enabledColumns.includes('foreign_currency_code');
+  if (hasForeignAmount && !hasForeignCurrency) {
+    warnings.push({
+      type: 'general',
+      message: 'Foreign Amount is set but Foreign Currency Code is missing',
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    summary: {
+      totalRows: parsed?.rows.length || 0,
+      validRows,
+      rowsWithErrors,
+      rowsRemoved,
+    },
+  };
+}
+
+/**
+ * Export the transformed rows as CSV using the configuration's export options
+ */
+export function exportTransformedCSV(parsed: ParsedCSV, config: ConverterConfig): string {
+  const enabledSwimlanes = config.swimlanes.filter((s) => s.enabled);
+  const headers = enabledSwimlanes.map((s) => s.targetColumn);
+  const rows: string[][] = [];
+
+  for (const row of parsed.rows) {
+    const { values, removeRow } = transformRow(row, parsed.headers, enabledSwimlanes);
+
+    if (removeRow) continue;
+
+    const outputRow = enabledSwimlanes.map((s) => values[s.targetColumn] || '');
+    rows.push(outputRow);
+  }
+
+  // Build CSV output using export options
+  const delimiter = config.exportOptions?.delimiter || ',';
+  const quote = config.exportOptions?.quoteChar || '"';
+  const quoteMode = config.exportOptions?.quoteMode || 'needed';
+  const lineEnding = config.exportOptions?.lineEnding === 'crlf' ? '\r\n' : '\n';
+
+  const escapeValue = (val: string): string => {
+    const needsQuoting =
+      val.includes(delimiter) || val.includes(quote) || val.includes('\n') || val.includes('\r');
+
+    if (quoteMode === 'never') {
+      // Never quote - just escape the delimiter if present (not recommended)
+      return val;
+    } else if (quoteMode === 'always') {
+      // Always quote all values
+      return quote + val.replace(new RegExp(quote, 'g'), quote + quote) + quote;
+    } else {
+      // Quote only when needed (default)
+      if (needsQuoting) {
+        return quote + val.replace(new RegExp(quote, 'g'), quote + quote) + quote;
+      }
+      return val;
+    }
+  };
+
+  const headerLine = headers.map(escapeValue).join(delimiter);
+  const dataLines = rows.map((row) => row.map(escapeValue).join(delimiter));
+
+  return [headerLine, ...dataLines].join(lineEnding) + lineEnding;
+}
+
+/**
+ * Check whether a configuration runs custom scripts
+ */
+export function hasCustomScripts(config: ConverterConfig): boolean {
+  const containsScript = (blocks: TransformBlock[]): boolean =>
+    blocks.some((block) => {
+      switch (block.type) {
+        case 'customScript':
+          return true;
+        case 'conditional':
+          return containsScript(block.thenBlocks) || containsScript(block.elseBlocks);
+        case 'switchCase':
+          return (
+            containsScript(block.defaultBlocks) ||
+            block.cases.some((caseItem) => containsScript(caseItem.blocks))
+          );
+        default:
+          return false;
+      }
+    });
+
+  return config.swimlanes.some((swimlane) => containsScript(swimlane.blocks));
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DUPLICATE_OPTIONS,
+  DEFAULT_DUPLICATE_WEIGHTS,
+  resolveDuplicateFinderOptions,
+} from './duplicates.js';
+
+describe('resolveDuplicateFinderOptions', () => {
+  it('should use the defaults without options', () => {
+    expect(resolveDuplicateFinderOptions()).toEqual(DEFAULT_DUPLICATE_OPTIONS);
+  });
+
+  it('should override the preset with the given options', () => {
+    const options = resolveDuplicateFinderOptions({ preset: 'loose', dateRange: 10 });
+
+    expect(options.dateRange).toBe(10);
+    expect(options.amountTolerance).toBe(2);
+    expect(options.requiredMatches).toBe(2);
+  });
+
+  it('should merge the weights one by one', () => {
+    const { weights } = resolveDuplicateFinderOptions({
+      preset: 'crossSource',
+      weights: { description: 0.3 },
+    });
+
+    expect(weights).toEqual({
+      date: 0.25,
+      amount: 0.35,
+      description: 0.3,
+      sourceAccount: 0.25,
+      destinationAccount: 0,
+      reference: DEFAULT_DUPLICATE_WEIGHTS.reference,
+    });
+  });
+});
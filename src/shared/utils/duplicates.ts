@@ -0,0 +1,93 @@
+/**
+ * Duplicate Scoring Profiles
+ *
+ * Default options of the duplicate finder and its built-in presets. The server
+ * resolves the options of a search with them, and the client shows the same
+ * values in the options step.
+ */
+
+import type {
+  DuplicateFinderOptions,
+  DuplicatePreset,
+  DuplicateScoreWeights,
+} from '../types/app.js';
+
+/** Duplicate finder options with a value for every setting */
+export type ResolvedDuplicateFinderOptions = Required<
+  Omit<DuplicateFinderOptions, 'preset' | 'weights'>
+> & { weights: DuplicateScoreWeights };
+
+export const DEFAULT_DUPLICATE_WEIGHTS: DuplicateScoreWeights = {
+  date: 0.2,
+  amount: 0.25,
+  description: 0.2,
+  sourceAccount: 0.15,
+  destinationAccount: 0.15,
+  reference: 0.05,
+};
+
+export const DEFAULT_DUPLICATE_OPTIONS: ResolvedDuplicateFinderOptions = {
+  dateRange: 3, // days
+  amountTolerance: 0, // exact amounts
+  descriptionThreshold: 0.8,
+  requiredMatches: 3,
+  minScore: 0,
+  weights: DEFAULT_DUPLICATE_WEIGHTS,
+  includeDescriptionMatch: true,
+  includeSourceMatch: true,
+  includeDestinationMatch: true,
+  sameAccountOnly: false,
+  includeDismissed: false,
+};
+
+export const DUPLICATE_PRESETS: Record<DuplicatePreset, DuplicateFinderOptions> = {
+  // The same file imported twice: identical copies booked on the same or next day
+  strictImportRerun: {
+    dateRange: 1,
+    amountTolerance: 0,
+    descriptionThreshold: 0.95,
+    requiredMatches: 6,
+    minScore: 0.85,
+  },
+  // The same booking from two sources (e.g. FinTS and a CSV export): descriptions
+  // and counterparty accounts differ, booking and value date can be days apart
+  crossSource: {
+    dateRange: 5,
+    amountTolerance: 0,
+    descriptionThreshold: 0.5,
+    requiredMatches: 3,
+    includeDestinationMatch: false,
+    weights: {
+      date: 0.25,
+      amount: 0.35,
+      description: 0.15,
+      sourceAccount: 0.25,
+      destinationAccount: 0,
+    },
+  },
+  // More candidates to review: wider dates, small amount differences, fewer criteria
+  loose: {
+    dateRange: 7,
+    amountTolerance: 2,
+    descriptionThreshold: 0.6,
+    requiredMatches: 2,
+  },
+};
+
+/**
+ * Options of a search: the defaults, overridden by the preset, overridden by
+ * the given options (weights are merged one by one)
+ */
+export function resolveDuplicateFinderOptions(
+  options: DuplicateFinderOptions = {}
+): ResolvedDuplicateFinderOptions {
+  const { preset, weights, ...overrides } = options;
+  const { weights: presetWeights, ...presetOptions } = preset ? DUPLICATE_PRESETS[preset] : {};
+
+  return {
+    ...DEFAULT_DUPLICATE_OPTIONS,
+    ...presetOptions,
+    ...overrides,
+    weights: { ...DEFAULT_DUPLICATE_WEIGHTS, ...presetWeights, ...weights },
+  };
+}
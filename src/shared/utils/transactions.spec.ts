@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getSearchableDescription, getTotalAmount } from './transactions.js';
+import type { FireflyTransaction, FireflyTransactionSplit } from '../types/firefly.js';
+
+function createTransaction(
+  splits: Array<Partial<FireflyTransactionSplit>>,
+  groupTitle: string | null = null
+): FireflyTransaction {
+  return {
+    id: '1',
+    type: 'transactions',
+    attributes: {
+      created_at: '2024-06-01T08:00:00.000Z',
+      updated_at: '2024-06-01T08:00:00.000Z',
+      user: '1',
+      group_title: groupTitle,
+      transactions: splits.map(
+        (split) =>
+          ({
+            description: 'Supermarket',
+            amount: '0.00',
+            currency_decimal_places: 2,
+            ...split,
+          }) as FireflyTransactionSplit
+      ),
+    },
+  };
+}
+
+describe('getTotalAmount', () => {
+  it('should add up the splits without rounding errors', () => {
+    const transaction = createTransaction([{ amount: '0.10' }, { amount: '0.20' }]);
+
+    expect(getTotalAmount(transaction)).toBe(0.3);
+  });
+
+  it('should use the decimal places of the currency', () => {
+    const transaction = createTransaction([
+      { amount: '1000', currency_decimal_places: 0 },
+      { amount: '250', currency_decimal_places: 0 },
+    ]);
+
+    expect(getTotalAmount(transaction)).toBe(1250);
+  });
+});
+
+describe('getSearchableDescription', () => {
+  it('should use the description of a single split', () => {
+    expect(getSearchableDescription(createTransaction([{}], 'Groceries'))).toBe('Supermarket');
+  });
+
+  it('should combine the group title and the split descriptions', () => {
+    const transaction = createTransaction(
+      [{ description: 'Food' }, { description: 'Batteries' }, { description: 'Food' }],
+      'Supermarket'
+    );
+
+    expect(getSearchableDescription(transaction)).toBe('Supermarket Food Batteries');
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Split Transaction Helpers
+ *
+ * A Firefly III transaction is a group of one or more splits that share the
+ * type and date, each with its own amount, description, accounts, category and
+ * tags. Tools that look at whole transactions use these helpers instead of
+ * reading only the first split.
+ */
+
+import type { FireflyTransaction } from '../types/firefly.js';
+
+/**
+ * Total amount of all splits, summed in the currency's minor units so that the
+ * same splits always add up to the same total
+ */
+export function getTotalAmount(transaction: FireflyTransaction): number {
+  const splits = transaction.attributes.transactions;
+  const factor = 10 ** (splits[0]?.currency_decimal_places ?? 2);
+  return (
+    splits.reduce((sum, split) => sum + Math.round(parseFloat(split.amount) * factor), 0) / factor
+  );
+}
+
+/**
+ * Descriptions of all splits (and the group title of split transactions) as
+ * one text to search in
+ */
+export function getSearchableDescription(transaction: FireflyTransaction): string {
+  const { group_title: groupTitle, transactions: splits } = transaction.attributes;
+  const descriptions = splits.map((split) => split.description);
+  if (splits.length > 1 && groupTitle) descriptions.unshift(groupTitle);
+  return [...new Set(descriptions)].join(' ');
+}